@@ -0,0 +1,249 @@
+// Relays emails from the app's SMTP transport to an SMTP server. Browsers can't open
+// SMTP connections, so the app POSTs each message here as JSON and this script
+// delivers it. Point it at a local sink (Mailpit, MailHog, ...) to see what was sent.
+//
+//   SMTP_HOST=localhost SMTP_PORT=1025 npm run smtp-relay
+import http from 'node:http';
+import net from 'node:net';
+import tls from 'node:tls';
+import os from 'node:os';
+import { randomUUID } from 'node:crypto';
+
+const RELAY_PORT = Number(process.env.SMTP_RELAY_PORT ?? 3025);
+// Only this machine can reach the relay, and only the app's own pages may call it from a
+// browser; it sends as whoever SMTP_USER is, so anything else could send mail as them
+const RELAY_HOST = '127.0.0.1';
+const ALLOWED_ORIGINS = (process.env.SMTP_RELAY_ALLOWED_ORIGINS ?? 'http://localhost:5173,http://127.0.0.1:5173')
+  .split(',')
+  .map((origin) => origin.trim())
+  .filter(Boolean);
+const SMTP_HOST = process.env.SMTP_HOST ?? 'localhost';
+const SMTP_PORT = Number(process.env.SMTP_PORT ?? 1025);
+// Connect over TLS from the start (port 465 style); sinks usually speak plain SMTP
+const SMTP_SECURE = process.env.SMTP_SECURE === 'true';
+const SMTP_USER = process.env.SMTP_USER;
+const SMTP_PASS = process.env.SMTP_PASS ?? '';
+const MAX_BODY_BYTES = 1024 * 1024;
+
+// Splits the server's output into replies; a multi-line reply ends at `250 ...` after `250-...`
+const openSession = (socket) => {
+  const replies = [];
+  const waiting = [];
+  let buffer = '';
+  let lines = [];
+  let failure = null;
+
+  const fail = (error) => {
+    failure = error;
+    waiting.splice(0).forEach(({ reject }) => reject(error));
+  };
+
+  socket.setEncoding('utf8');
+  socket.on('data', (chunk) => {
+    buffer += chunk;
+    let end;
+    while ((end = buffer.indexOf('\r\n')) !== -1) {
+      const line = buffer.slice(0, end);
+      buffer = buffer.slice(end + 2);
+      lines.push(line);
+      if (line.charAt(3) !== '-') {
+        const reply = { code: Number(line.slice(0, 3)), text: lines.join('\n') };
+        lines = [];
+        const next = waiting.shift();
+        if (next) {
+          next.resolve(reply);
+        } else {
+          replies.push(reply);
+        }
+      }
+    }
+  });
+  socket.on('error', fail);
+  socket.on('close', () => fail(new Error('The SMTP server closed the connection')));
+
+  const read = () => {
+    if (replies.length > 0) {
+      return Promise.resolve(replies.shift());
+    }
+    if (failure) {
+      return Promise.reject(failure);
+    }
+    return new Promise((resolve, reject) => waiting.push({ resolve, reject }));
+  };
+
+  // `name` is what goes in error messages, so credentials never end up in a response
+  const expect = async (name, codes) => {
+    const reply = await read();
+    if (!codes.includes(reply.code)) {
+      throw new Error(`${name} was refused: ${reply.text}`);
+    }
+    return reply;
+  };
+
+  const command = (line, name, codes) => {
+    socket.write(`${line}\r\n`);
+    return expect(name, codes);
+  };
+
+  return { expect, command };
+};
+
+const connect = () =>
+  new Promise((resolve, reject) => {
+    const socket = SMTP_SECURE
+      ? tls.connect({ host: SMTP_HOST, port: SMTP_PORT, servername: SMTP_HOST })
+      : net.connect({ host: SMTP_HOST, port: SMTP_PORT });
+    socket.setTimeout(15_000, () => socket.destroy(new Error('The SMTP server timed out')));
+    socket.once(SMTP_SECURE ? 'secureConnect' : 'connect', () => resolve(socket));
+    socket.once('error', reject);
+  });
+
+const base64Lines = (text) =>
+  Buffer.from(text, 'utf8').toString('base64').replace(/.{76}/g, '$&\r\n');
+
+const encodeHeader = (text) =>
+  /^[\x20-\x7e]*$/.test(text) ? text : `=?UTF-8?B?${Buffer.from(text, 'utf8').toString('base64')}?=`;
+
+const buildMessage = (message, messageId) => {
+  const headers = [
+    `From: ${encodeHeader(message.from.name)} <${message.from.email}>`,
+    `To: <${message.to}>`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: ${messageId}`,
+    'MIME-Version: 1.0',
+  ];
+  const part = (type, content) =>
+    [`Content-Type: ${type}; charset=UTF-8`, 'Content-Transfer-Encoding: base64', '', base64Lines(content)].join('\r\n');
+
+  if (!message.html) {
+    return [...headers, part('text/plain', message.text)].join('\r\n');
+  }
+  const boundary = `crm-${randomUUID()}`;
+  return [
+    ...headers,
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    part('text/plain', message.text),
+    `--${boundary}`,
+    part('text/html', message.html),
+    `--${boundary}--`,
+  ].join('\r\n');
+};
+
+const deliver = async (message) => {
+  const messageId = `<${randomUUID()}@${os.hostname()}>`;
+  const socket = await connect();
+  try {
+    const smtp = openSession(socket);
+    await smtp.expect('Connection', [220]);
+    await smtp.command(`EHLO ${os.hostname()}`, 'EHLO', [250]);
+    if (SMTP_USER) {
+      const credentials = Buffer.from(`\0${SMTP_USER}\0${SMTP_PASS}`).toString('base64');
+      await smtp.command(`AUTH PLAIN ${credentials}`, 'AUTH', [235]);
+    }
+    await smtp.command(`MAIL FROM:<${message.from.email}>`, 'MAIL FROM', [250]);
+    await smtp.command(`RCPT TO:<${message.to}>`, 'RCPT TO', [250, 251]);
+    await smtp.command('DATA', 'DATA', [354]);
+    // Lines starting with a dot would end the message early, so they're doubled
+    const data = buildMessage(message, messageId).replace(/^\./gm, '..');
+    await smtp.command(`${data}\r\n.`, 'Message', [250]);
+    await smtp.command('QUIT', 'QUIT', [221]).catch(() => undefined);
+  } finally {
+    socket.end();
+  }
+  return messageId;
+};
+
+const isAddress = (value) => typeof value === 'string' && /^[^\s<>@]+@[^\s<>@]+$/.test(value);
+const isLine = (value) => typeof value === 'string' && !/[\r\n]/.test(value);
+
+// Returns what's wrong with a posted message, or null when it can be sent
+const validate = (message) => {
+  if (!message || typeof message !== 'object') return 'Expected a JSON object';
+  if (!isAddress(message.from?.email) || !isLine(message.from?.name)) return 'Invalid sender';
+  if (!isAddress(message.to)) return 'Invalid recipient';
+  if (!isLine(message.subject)) return 'Invalid subject';
+  if (typeof message.text !== 'string') return 'Missing body';
+  if (message.html !== undefined && typeof message.html !== 'string') return 'Invalid HTML body';
+  return null;
+};
+
+const readJson = (request) =>
+  new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks = [];
+    request.on('data', (chunk) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error('Message too large'));
+        request.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    request.on('end', () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+      } catch {
+        reject(new Error('Expected a JSON object'));
+      }
+    });
+    request.on('error', reject);
+  });
+
+const respond = (response, status, body) => {
+  const origin = response.req.headers.origin;
+  response.writeHead(status, {
+    ...(ALLOWED_ORIGINS.includes(origin) ? { 'Access-Control-Allow-Origin': origin, Vary: 'Origin' } : {}),
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type',
+    ...(body ? { 'Content-Type': 'application/json' } : {}),
+  });
+  response.end(body ? JSON.stringify(body) : undefined);
+};
+
+const server = http.createServer(async (request, response) => {
+  // Browsers always say where a cross-site request comes from; tools like curl don't
+  const { origin } = request.headers;
+  if (origin && !ALLOWED_ORIGINS.includes(origin)) {
+    respond(response, 403, { error: `Requests from ${origin} are not allowed` });
+    return;
+  }
+  if (request.method === 'OPTIONS') {
+    respond(response, 204);
+    return;
+  }
+  if (request.method !== 'POST' || request.url !== '/send') {
+    respond(response, 404, { error: 'Not found' });
+    return;
+  }
+
+  let message;
+  try {
+    message = await readJson(request);
+  } catch (error) {
+    respond(response, 400, { error: error.message });
+    return;
+  }
+  const problem = validate(message);
+  if (problem) {
+    respond(response, 400, { error: problem });
+    return;
+  }
+
+  try {
+    const messageId = await deliver(message);
+    console.log(`Sent ${messageId} to ${message.to}`);
+    respond(response, 200, { messageId });
+  } catch (error) {
+    console.error(`Could not send to ${message.to}: ${error.message}`);
+    respond(response, 502, { error: `Could not send the email: ${error.message}` });
+  }
+});
+
+server.listen(RELAY_PORT, RELAY_HOST, () => {
+  console.log(`SMTP relay on http://${RELAY_HOST}:${RELAY_PORT}, delivering to ${SMTP_HOST}:${SMTP_PORT}`);
+  console.log(`Accepting requests from ${ALLOWED_ORIGINS.join(', ')}`);
+});
@@ -1,8 +1,15 @@
 import React from 'react';
 import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-dom';
-import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { QueryClientProvider } from '@tanstack/react-query';
 import { Toaster } from 'react-hot-toast';
 import { useAuthStore } from './stores/authStore';
+import { queryClient } from './lib/queryClient';
+import { useCRMSync } from './hooks/useCRMSync';
+import { useTrashRetention } from './hooks/useTrashRetention';
+import { useAutomations } from './hooks/useAutomations';
+import { useSequences } from './hooks/useSequences';
+import { useAssigneeMigration } from './hooks/useAssigneeMigration';
+import RequirePermission from './components/auth/RequirePermission';
 import LoginPage from './pages/LoginPage';
 import DashboardLayout from './components/layouts/DashboardLayout';
 import Dashboard from './pages/Dashboard';
@@ -11,15 +18,39 @@ import Leads from './pages/Leads';
 import Pipeline from './pages/Pipeline';
 import Tasks from './pages/Tasks';
 import Analytics from './pages/Analytics';
+import Forecast from './pages/Forecast';
 import Settings from './pages/Settings';
+import Trash from './pages/Trash';
+import ContactDetail from './pages/ContactDetail';
+import LeadDetail from './pages/LeadDetail';
+import DealDetail from './pages/DealDetail';
+import Assignments from './pages/Assignments';
+import Duplicates from './pages/Duplicates';
+import Sequences from './pages/Sequences';
 
-const queryClient = new QueryClient();
+const CRMSync: React.FC = () => {
+  const { isLoading } = useCRMSync();
+  useTrashRetention(!isLoading);
+  useAssigneeMigration();
+  useAutomations(!isLoading);
+  useSequences(!isLoading);
+  return null;
+};
 
 function App() {
-  const { isAuthenticated } = useAuthStore();
+  const { isAuthenticated, isRestoring } = useAuthStore();
+
+  if (isRestoring) {
+    return (
+      <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex items-center justify-center">
+        <div className="w-8 h-8 border-2 border-blue-500 border-t-transparent rounded-full animate-spin" />
+      </div>
+    );
+  }
 
   return (
     <QueryClientProvider client={queryClient}>
+      {isAuthenticated && <CRMSync />}
       <Router>
         <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
           <Routes>
@@ -34,12 +65,20 @@ function App() {
                   <DashboardLayout>
                     <Routes>
                       <Route path="/dashboard" element={<Dashboard />} />
-                      <Route path="/contacts" element={<Contacts />} />
-                      <Route path="/leads" element={<Leads />} />
-                      <Route path="/pipeline" element={<Pipeline />} />
-                      <Route path="/tasks" element={<Tasks />} />
-                      <Route path="/analytics" element={<Analytics />} />
-                      <Route path="/settings" element={<Settings />} />
+                      <Route path="/contacts" element={<RequirePermission action="view" resource="contact"><Contacts /></RequirePermission>} />
+                      <Route path="/contacts/:id" element={<RequirePermission action="view" resource="contact"><ContactDetail /></RequirePermission>} />
+                      <Route path="/leads" element={<RequirePermission action="view" resource="lead"><Leads /></RequirePermission>} />
+                      <Route path="/leads/:id" element={<RequirePermission action="view" resource="lead"><LeadDetail /></RequirePermission>} />
+                      <Route path="/pipeline" element={<RequirePermission action="view" resource="deal"><Pipeline /></RequirePermission>} />
+                      <Route path="/deals/:id" element={<RequirePermission action="view" resource="deal"><DealDetail /></RequirePermission>} />
+                      <Route path="/tasks" element={<RequirePermission action="view" resource="task"><Tasks /></RequirePermission>} />
+                      <Route path="/analytics" element={<RequirePermission action="view" resource="analytics"><Analytics /></RequirePermission>} />
+                      <Route path="/forecast" element={<RequirePermission action="view" resource="analytics"><Forecast /></RequirePermission>} />
+                      <Route path="/assignments" element={<RequirePermission action="view" resource="assignment"><Assignments /></RequirePermission>} />
+                      <Route path="/duplicates" element={<RequirePermission action="view" resource="duplicates"><Duplicates /></RequirePermission>} />
+                      <Route path="/sequences" element={<RequirePermission action="view" resource="sequence"><Sequences /></RequirePermission>} />
+                      <Route path="/trash" element={<RequirePermission action="view" resource="trash"><Trash /></RequirePermission>} />
+                      <Route path="/settings" element={<RequirePermission action="view" resource="settings"><Settings /></RequirePermission>} />
                       <Route path="/" element={<Navigate to="/dashboard" />} />
                     </Routes>
                   </DashboardLayout>
@@ -0,0 +1,247 @@
+import React, { useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { useSettingsStore } from '../../stores/settingsStore';
+import { useAuthStore } from '../../stores/authStore';
+import { useCRMStore } from '../../stores/crmStore';
+import { ROLE_LABELS, assignableUsers, userOptions } from '../../lib/users';
+import {
+  ASSIGNMENT_STRATEGIES,
+  AssignmentMember,
+  AssignmentRule,
+  FallbackStrategy,
+  LEAD_SOURCES,
+  memberSettings,
+  openLeadCounts,
+} from '../../lib/assignment';
+
+const inputClassName =
+  'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white';
+
+const AssignmentPanel: React.FC = () => {
+  const { assignment, setAssignment, territories, setTerritories } = useSettingsStore();
+  const directory = useAuthStore((state) => state.directory);
+  const leads = useCRMStore((state) => state.leads);
+  const [territoriesText, setTerritoriesText] = useState(territories.join('\n'));
+
+  const counts = openLeadCounts(leads, directory);
+  const sources = [...new Set([...LEAD_SOURCES, ...leads.map((lead) => lead.source)])].sort();
+  const owners = userOptions(directory);
+
+  const updateMember = (userId: string, updates: Partial<AssignmentMember>) => {
+    const member = { ...memberSettings(assignment, userId), ...updates };
+    setAssignment({
+      members: [...assignment.members.filter((existing) => existing.userId !== userId), member],
+    });
+  };
+
+  const updateRule = (id: string, updates: Partial<AssignmentRule>) => {
+    setAssignment({ rules: assignment.rules.map((rule) => (rule.id === id ? { ...rule, ...updates } : rule)) });
+  };
+
+  const handleAddRule = () => {
+    setAssignment({ rules: [...assignment.rules, { id: crypto.randomUUID(), assignTo: owners[0]?.value ?? '' }] });
+  };
+
+  const handleTerritoriesBlur = () => {
+    const cleaned = [...new Set(territoriesText.split('\n').map((territory) => territory.trim()).filter(Boolean))];
+    setTerritories(cleaned);
+    setTerritoriesText(cleaned.join('\n'));
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-1">
+          Lead Assignment
+        </h3>
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          How new leads get an owner when nobody picks one. Leads that can't be placed wait in the unassigned queue.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        {ASSIGNMENT_STRATEGIES.map((strategy) => (
+          <label
+            key={strategy.id}
+            className={`flex items-start gap-3 p-4 rounded-lg border cursor-pointer transition-colors ${
+              assignment.strategy === strategy.id
+                ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/20'
+                : 'border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-700/50'
+            }`}
+          >
+            <input
+              type="radio"
+              name="assignment-strategy"
+              checked={assignment.strategy === strategy.id}
+              onChange={() => setAssignment({ strategy: strategy.id })}
+              className="mt-1 border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            <span>
+              <span className="block font-medium text-gray-900 dark:text-white">{strategy.label}</span>
+              <span className="block text-sm text-gray-600 dark:text-gray-400">{strategy.description}</span>
+            </span>
+          </label>
+        ))}
+      </div>
+
+      <div>
+        <h4 className="font-medium text-gray-900 dark:text-white mb-2">Rotation</h4>
+        <div className="divide-y divide-gray-200 dark:divide-gray-700 border border-gray-200 dark:border-gray-700 rounded-lg">
+          {assignableUsers(directory).map((user) => {
+            const member = memberSettings(assignment, user.id);
+            return (
+              <div key={user.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-4">
+                <label className="flex items-center gap-3">
+                  <input
+                    type="checkbox"
+                    checked={member.inRotation}
+                    onChange={(e) => updateMember(user.id, { inRotation: e.target.checked })}
+                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  <span>
+                    <span className="block font-medium text-gray-900 dark:text-white">{user.name}</span>
+                    <span className="block text-sm text-gray-500 dark:text-gray-400">
+                      {ROLE_LABELS[user.role]} · {counts.get(user.id) ?? 0} open leads
+                    </span>
+                  </span>
+                </label>
+                <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                  Capacity
+                  <input
+                    type="number"
+                    min="1"
+                    value={member.capacity}
+                    onChange={(e) => updateMember(user.id, { capacity: Math.max(1, Math.round(Number(e.target.value)) || 1) })}
+                    disabled={!member.inRotation}
+                    className={`${inputClassName} !w-24 disabled:opacity-50`}
+                  />
+                </label>
+              </div>
+            );
+          })}
+        </div>
+        <p className="text-sm text-gray-500 dark:text-gray-400 mt-2">
+          Capacity is the most open leads someone is given automatically.
+        </p>
+      </div>
+
+      {assignment.strategy === 'rules' && (
+        <div>
+          <h4 className="font-medium text-gray-900 dark:text-white mb-2">Rules</h4>
+          <p className="text-sm text-gray-600 dark:text-gray-400 mb-3">
+            Checked from the top; the first rule a lead matches decides its owner. Blank conditions match any lead.
+          </p>
+          <div className="space-y-2">
+            {assignment.rules.map((rule) => (
+              <div key={rule.id} className="flex flex-col lg:flex-row lg:items-center gap-2 p-3 bg-gray-50 dark:bg-gray-700/50 rounded-lg">
+                <select
+                  value={rule.source ?? ''}
+                  onChange={(e) => updateRule(rule.id, { source: e.target.value || undefined })}
+                  aria-label="Source"
+                  className={inputClassName}
+                >
+                  <option value="">Any source</option>
+                  {sources.map((source) => (
+                    <option key={source} value={source}>{source}</option>
+                  ))}
+                </select>
+                <input
+                  type="number"
+                  min="0"
+                  value={rule.minValue ?? ''}
+                  onChange={(e) => updateRule(rule.id, { minValue: e.target.value === '' ? undefined : Number(e.target.value) })}
+                  placeholder="Min value"
+                  aria-label="Minimum value"
+                  className={inputClassName}
+                />
+                <select
+                  value={rule.territory ?? ''}
+                  onChange={(e) => updateRule(rule.id, { territory: e.target.value || undefined })}
+                  aria-label="Territory"
+                  className={inputClassName}
+                >
+                  <option value="">Any territory</option>
+                  {territories.map((territory) => (
+                    <option key={territory} value={territory}>{territory}</option>
+                  ))}
+                  {rule.territory && !territories.includes(rule.territory) && (
+                    <option value={rule.territory}>{rule.territory}</option>
+                  )}
+                </select>
+                <span className="text-sm text-gray-500 dark:text-gray-400 whitespace-nowrap">goes to</span>
+                <select
+                  value={rule.assignTo}
+                  onChange={(e) => updateRule(rule.id, { assignTo: e.target.value })}
+                  aria-label="Assign to"
+                  className={inputClassName}
+                >
+                  {userOptions(directory, rule.assignTo).map((option) => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => setAssignment({ rules: assignment.rules.filter((existing) => existing.id !== rule.id) })}
+                  className="p-2 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors self-end lg:self-auto"
+                  aria-label="Remove rule"
+                >
+                  <Trash2 className="w-4 h-4 text-red-500" />
+                </button>
+              </div>
+            ))}
+          </div>
+          <button
+            onClick={handleAddRule}
+            className="flex items-center gap-2 mt-3 text-sm text-blue-600 dark:text-blue-400 hover:underline"
+          >
+            <Plus className="w-4 h-4" />
+            Add rule
+          </button>
+
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mt-4 p-4 bg-gray-50 dark:bg-gray-700/50 rounded-lg">
+            <div>
+              <label htmlFor="assignment-fallback" className="block font-medium text-gray-900 dark:text-white">
+                When no rule matches
+              </label>
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                Rules send leads to their owner regardless of rotation or capacity; the fallback respects both.
+              </p>
+            </div>
+            <select
+              id="assignment-fallback"
+              value={assignment.fallback}
+              onChange={(e) => setAssignment({ fallback: e.target.value as FallbackStrategy })}
+              className={`${inputClassName} sm:!w-56`}
+            >
+              {ASSIGNMENT_STRATEGIES.filter((strategy) => strategy.id !== 'rules').map((strategy) => (
+                <option key={strategy.id} value={strategy.id}>
+                  {strategy.id === 'manual' ? 'Leave unassigned' : strategy.label}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+      )}
+
+      <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4 p-4 bg-gray-50 dark:bg-gray-700/50 rounded-lg">
+        <div>
+          <label htmlFor="territories" className="block font-medium text-gray-900 dark:text-white">
+            Territories
+          </label>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Regions leads can be filed under, one per line. Territories already set on leads are kept.
+          </p>
+        </div>
+        <textarea
+          id="territories"
+          rows={4}
+          value={territoriesText}
+          onChange={(e) => setTerritoriesText(e.target.value)}
+          onBlur={handleTerritoriesBlur}
+          className={`${inputClassName} sm:!w-64 flex-shrink-0`}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default AssignmentPanel;
@@ -0,0 +1,176 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { endOfDay, format, parseISO, startOfDay } from 'date-fns';
+import { useAuditStore } from '../../stores/auditStore';
+import { CollectionName } from '../../stores/crmStore';
+import { AUDIT_ACTION_LABELS, AuditAction, AuditEntry } from '../../lib/audit';
+import { recordPath } from '../../lib/records';
+import FieldChanges from './FieldChanges';
+
+const PAGE_SIZE = 50;
+
+const ENTITY_OPTIONS: { id: CollectionName; label: string; singular: string }[] = [
+  { id: 'contacts', label: 'Contacts', singular: 'Contact' },
+  { id: 'leads', label: 'Leads', singular: 'Lead' },
+  { id: 'deals', label: 'Deals', singular: 'Deal' },
+  { id: 'tasks', label: 'Tasks', singular: 'Task' },
+];
+
+const ACTION_STYLES: Record<AuditAction, string> = {
+  create: 'bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-400',
+  update: 'bg-blue-100 text-blue-800 dark:bg-blue-900/20 dark:text-blue-400',
+  delete: 'bg-orange-100 text-orange-800 dark:bg-orange-900/20 dark:text-orange-400',
+  restore: 'bg-purple-100 text-purple-800 dark:bg-purple-900/20 dark:text-purple-400',
+  purge: 'bg-red-100 text-red-800 dark:bg-red-900/20 dark:text-red-400',
+};
+
+const entryLink = (entry: AuditEntry) => {
+  switch (entry.collection) {
+    case 'contacts':
+      return recordPath('contact', entry.recordId);
+    case 'leads':
+      return recordPath('lead', entry.recordId);
+    case 'deals':
+      return recordPath('deal', entry.recordId);
+    case 'tasks':
+      return `/tasks?q=${encodeURIComponent(entry.recordLabel)}`;
+  }
+};
+
+const inputClassName =
+  'px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+const AuditLogPanel: React.FC = () => {
+  const entries = useAuditStore((state) => state.entries);
+  const [userFilter, setUserFilter] = useState('all');
+  const [entityFilter, setEntityFilter] = useState<'all' | CollectionName>('all');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+
+  // Everyone who appears in the log, named as they were when they last acted
+  const users = useMemo(() => {
+    const names = new Map<string, string>();
+    entries.forEach((entry) => names.set(entry.userId ?? '', entry.userName));
+    return [...names.entries()]
+      .map(([id, name]) => ({ id, name }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }, [entries]);
+
+  const filtered = useMemo(() => {
+    const from = fromDate ? startOfDay(parseISO(fromDate)).getTime() : -Infinity;
+    const to = toDate ? endOfDay(parseISO(toDate)).getTime() : Infinity;
+    return entries
+      .filter((entry) => {
+        const time = new Date(entry.timestamp).getTime();
+        return (
+          (userFilter === 'all' || (entry.userId ?? '') === userFilter) &&
+          (entityFilter === 'all' || entry.collection === entityFilter) &&
+          time >= from &&
+          time <= to
+        );
+      })
+      .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+  }, [entries, userFilter, entityFilter, fromDate, toDate]);
+
+  useEffect(() => {
+    setVisibleCount(PAGE_SIZE);
+  }, [userFilter, entityFilter, fromDate, toDate]);
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-1">
+          Audit Log
+        </h3>
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Every change to contacts, leads, deals and tasks, with who made it and when.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3">
+        <select
+          value={userFilter}
+          onChange={(e) => setUserFilter(e.target.value)}
+          className={inputClassName}
+        >
+          <option value="all">All users</option>
+          {users.map((user) => (
+            <option key={user.id} value={user.id}>{user.name}</option>
+          ))}
+        </select>
+        <select
+          value={entityFilter}
+          onChange={(e) => setEntityFilter(e.target.value as 'all' | CollectionName)}
+          className={inputClassName}
+        >
+          <option value="all">All records</option>
+          {ENTITY_OPTIONS.map((option) => (
+            <option key={option.id} value={option.id}>{option.label}</option>
+          ))}
+        </select>
+        <input
+          type="date"
+          value={fromDate}
+          onChange={(e) => setFromDate(e.target.value)}
+          aria-label="From date"
+          className={inputClassName}
+        />
+        <input
+          type="date"
+          value={toDate}
+          onChange={(e) => setToDate(e.target.value)}
+          aria-label="To date"
+          className={inputClassName}
+        />
+      </div>
+
+      <p className="text-sm text-gray-500 dark:text-gray-400">
+        {filtered.length} of {entries.length} entries
+      </p>
+
+      <div className="divide-y divide-gray-200 dark:divide-gray-700 border border-gray-200 dark:border-gray-700 rounded-lg">
+        {filtered.slice(0, visibleCount).map((entry) => (
+          <div key={entry.id} className="p-4 space-y-1">
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${ACTION_STYLES[entry.action]}`}>
+                {AUDIT_ACTION_LABELS[entry.action]}
+              </span>
+              {/* Trashed and purged records have no page to link to */}
+              {entry.action === 'delete' || entry.action === 'purge' ? (
+                <span className="font-medium text-gray-900 dark:text-white">{entry.recordLabel}</span>
+              ) : (
+                <Link to={entryLink(entry)} className="font-medium text-blue-600 dark:text-blue-400 hover:underline">
+                  {entry.recordLabel}
+                </Link>
+              )}
+              <span className="text-gray-500 dark:text-gray-400">
+                {ENTITY_OPTIONS.find((option) => option.id === entry.collection)?.singular}
+              </span>
+            </div>
+            {entry.changes.length > 0 && <FieldChanges changes={entry.changes} />}
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              {entry.userName} · {format(new Date(entry.timestamp), 'MMM dd, yyyy HH:mm')}
+            </p>
+          </div>
+        ))}
+        {filtered.length === 0 && (
+          <p className="p-6 text-sm text-center text-gray-500 dark:text-gray-400">
+            No changes match these filters.
+          </p>
+        )}
+      </div>
+
+      {filtered.length > visibleCount && (
+        <button
+          onClick={() => setVisibleCount((count) => count + PAGE_SIZE)}
+          className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors text-gray-700 dark:text-gray-300"
+        >
+          Show {Math.min(PAGE_SIZE, filtered.length - visibleCount)} more
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default AuditLogPanel;
@@ -0,0 +1,21 @@
+import React from 'react';
+import { FieldChange, fieldLabel, formatAuditValue } from '../../lib/audit';
+
+interface FieldChangesProps {
+  changes: FieldChange[];
+}
+
+const FieldChanges: React.FC<FieldChangesProps> = ({ changes }) => (
+  <ul className="space-y-0.5">
+    {changes.map((change) => (
+      <li key={change.field} className="text-xs text-gray-600 dark:text-gray-400">
+        <span className="font-medium">{fieldLabel(change.field)}:</span>{' '}
+        <span className="line-through">{formatAuditValue(change.from)}</span>
+        {' → '}
+        {formatAuditValue(change.to)}
+      </li>
+    ))}
+  </ul>
+);
+
+export default FieldChanges;
@@ -0,0 +1,34 @@
+import React from 'react';
+import { ShieldAlert } from 'lucide-react';
+import { usePermissions } from '../../hooks/usePermissions';
+import { Action, Resource } from '../../lib/permissions';
+
+interface RequirePermissionProps {
+  action: Action;
+  resource: Resource;
+  children: React.ReactNode;
+}
+
+const RequirePermission: React.FC<RequirePermissionProps> = ({ action, resource, children }) => {
+  const can = usePermissions();
+
+  if (!can(action, resource)) {
+    return (
+      <div className="text-center py-12">
+        <div className="w-16 h-16 bg-red-100 dark:bg-red-900/20 rounded-full flex items-center justify-center mx-auto mb-4">
+          <ShieldAlert className="w-8 h-8 text-red-500" />
+        </div>
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+          Access denied
+        </h2>
+        <p className="text-gray-500 dark:text-gray-400">
+          Your role doesn't have access to this page.
+        </p>
+      </div>
+    );
+  }
+
+  return <>{children}</>;
+};
+
+export default RequirePermission;
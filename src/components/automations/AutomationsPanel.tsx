@@ -0,0 +1,541 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { AnimatePresence, motion } from 'framer-motion';
+import { Edit, Plus, Trash2, X } from 'lucide-react';
+import { format } from 'date-fns';
+import toast from 'react-hot-toast';
+import { useSettingsStore } from '../../stores/settingsStore';
+import { useAutomationStore } from '../../stores/automationStore';
+import { useAuthStore } from '../../stores/authStore';
+import { Task } from '../../stores/crmStore';
+import {
+  AUTOMATION_ACTIONS,
+  AUTOMATION_TRIGGERS,
+  AutomationAction,
+  AutomationActionType,
+  AutomationRule,
+  AutomationRunStatus,
+  AutomationTrigger,
+  CONDITION_OPERATORS,
+  ConditionOperator,
+  TASK_PRIORITIES,
+  actionsFor,
+  conditionFields,
+  isUnaryOperator,
+  newAction,
+  recordLink,
+  statusOptions,
+  validateAutomationRule,
+} from '../../lib/automation';
+import { userOptions } from '../../lib/users';
+
+const PAGE_SIZE = 50;
+
+const inputClassName =
+  'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white';
+
+const labelClassName = 'block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2';
+
+const STATUS_STYLES: Record<AutomationRunStatus, string> = {
+  success: 'bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-400',
+  failed: 'bg-red-100 text-red-800 dark:bg-red-900/20 dark:text-red-400',
+  skipped: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/20 dark:text-yellow-400',
+};
+
+const newRule = (): AutomationRule => ({
+  id: crypto.randomUUID(),
+  name: '',
+  enabled: true,
+  trigger: 'lead-created',
+  conditions: [],
+  actions: [newAction('create-task')],
+});
+
+const triggerLabel = (trigger: AutomationTrigger) =>
+  AUTOMATION_TRIGGERS.find((option) => option.id === trigger)?.label ?? trigger;
+
+const AutomationsPanel: React.FC = () => {
+  const { automations, saveAutomation, removeAutomation, pipelines, customFields } = useSettingsStore();
+  const runs = useAutomationStore((state) => state.runs);
+  const directory = useAuthStore((state) => state.directory);
+  // `null` while closed; a copy of the rule being edited otherwise
+  const [draft, setDraft] = useState<AutomationRule | null>(null);
+  const [error, setError] = useState('');
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+
+  const isNew = draft !== null && !automations.some((rule) => rule.id === draft.id);
+  const fields = draft ? conditionFields(draft.trigger, customFields) : [];
+  const statuses = draft ? statusOptions(draft.trigger, pipelines) : [];
+  const latestRuns = [...runs].sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+
+  const openForm = (rule?: AutomationRule) => {
+    setDraft(rule ? { ...rule, conditions: [...rule.conditions], actions: [...rule.actions] } : newRule());
+    setError('');
+  };
+
+  // Conditions and status changes are specific to the trigger's records, so they start over
+  const changeTrigger = (trigger: AutomationTrigger) => {
+    setDraft(
+      (current) =>
+        current && {
+          ...current,
+          trigger,
+          stageId: undefined,
+          conditions: [],
+          actions: current.actions
+            .filter((action) => actionsFor(trigger).some((option) => option.id === action.type))
+            .map((action) => (action.type === 'change-status' ? { ...action, status: '' } : action)),
+        }
+    );
+  };
+
+  const updateCondition = (index: number, updates: Partial<AutomationRule['conditions'][number]>) => {
+    setDraft(
+      (current) =>
+        current && {
+          ...current,
+          conditions: current.conditions.map((condition, position) =>
+            position === index ? { ...condition, ...updates } : condition
+          ),
+        }
+    );
+  };
+
+  const updateAction = (index: number, updates: Partial<AutomationAction>) => {
+    setDraft(
+      (current) =>
+        current && {
+          ...current,
+          actions: current.actions.map((action, position) =>
+            position === index ? ({ ...action, ...updates } as AutomationAction) : action
+          ),
+        }
+    );
+  };
+
+  const handleSave = () => {
+    if (!draft) {
+      return;
+    }
+    const rule = { ...draft, name: draft.name.trim() };
+    const invalid = validateAutomationRule(rule);
+    if (invalid) {
+      setError(invalid);
+      return;
+    }
+    saveAutomation(rule);
+    toast.success(isNew ? 'Automation added' : 'Automation updated');
+    setDraft(null);
+  };
+
+  const handleDelete = (rule: AutomationRule) => {
+    if (window.confirm(`Delete the "${rule.name}" automation? Its log entries are kept.`)) {
+      removeAutomation(rule.id);
+      toast.success('Automation deleted');
+    }
+  };
+
+  const renderActionFields = (action: AutomationAction, index: number) => {
+    switch (action.type) {
+      case 'create-task':
+        return (
+          <>
+            <input
+              value={action.title}
+              onChange={(e) => updateAction(index, { title: e.target.value })}
+              placeholder="Task title"
+              aria-label="Task title"
+              className={inputClassName}
+            />
+            <div className="relative flex-shrink-0 w-28">
+              <input
+                type="number"
+                min={0}
+                value={Number.isNaN(action.dueInDays) ? '' : action.dueInDays}
+                onChange={(e) => updateAction(index, { dueInDays: e.target.valueAsNumber })}
+                aria-label="Due in days"
+                className={`${inputClassName} pr-12`}
+              />
+              <span className="absolute right-3 top-1/2 -translate-y-1/2 text-sm text-gray-400">days</span>
+            </div>
+            <select
+              value={action.priority}
+              onChange={(e) => updateAction(index, { priority: e.target.value as Task['priority'] })}
+              aria-label="Priority"
+              className={`${inputClassName} !w-28 flex-shrink-0 capitalize`}
+            >
+              {TASK_PRIORITIES.map((priority) => (
+                <option key={priority} value={priority}>{priority}</option>
+              ))}
+            </select>
+          </>
+        );
+      case 'assign-owner':
+        return (
+          <select
+            value={action.assignedTo}
+            onChange={(e) => updateAction(index, { assignedTo: e.target.value })}
+            aria-label="Assign to"
+            className={inputClassName}
+          >
+            <option value="">Choose someone</option>
+            {userOptions(directory, action.assignedTo || undefined).map((option) => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        );
+      case 'change-status':
+        return (
+          <select
+            value={action.status}
+            onChange={(e) => updateAction(index, { status: e.target.value })}
+            aria-label="New status"
+            className={`${inputClassName} capitalize`}
+          >
+            <option value="">Choose the new status</option>
+            {statuses.map((option) => (
+              <option key={option.id} value={option.id}>{option.label}</option>
+            ))}
+          </select>
+        );
+      case 'add-tag':
+        return (
+          <input
+            value={action.tag}
+            onChange={(e) => updateAction(index, { tag: e.target.value })}
+            placeholder="Tag"
+            aria-label="Tag"
+            className={inputClassName}
+          />
+        );
+      case 'notify':
+        return (
+          <input
+            value={action.message}
+            onChange={(e) => updateAction(index, { message: e.target.value })}
+            placeholder="Message"
+            aria-label="Message"
+            className={inputClassName}
+          />
+        );
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-1">
+            Automations
+          </h3>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Rules that act on records when something happens. They run as whoever made the change.
+          </p>
+        </div>
+        <button
+          onClick={() => openForm()}
+          className="flex items-center gap-2 bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded-lg font-medium transition-colors"
+        >
+          <Plus className="w-4 h-4" />
+          Add automation
+        </button>
+      </div>
+
+      <div className="divide-y divide-gray-200 dark:divide-gray-700 border border-gray-200 dark:border-gray-700 rounded-lg">
+        {automations.map((rule) => (
+          <div key={rule.id} className="flex items-center justify-between gap-4 p-4">
+            <div className="min-w-0">
+              <h4 className="font-medium text-gray-900 dark:text-white truncate">{rule.name}</h4>
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                When {triggerLabel(rule.trigger).toLowerCase()}
+                {rule.conditions.length > 0 && `, if ${rule.conditions.length} condition${rule.conditions.length === 1 ? '' : 's'} hold`}
+                {' → '}
+                {rule.actions
+                  .map((action) => AUTOMATION_ACTIONS.find((option) => option.id === action.type)?.label.toLowerCase())
+                  .join(', ')}
+              </p>
+            </div>
+            <div className="flex items-center gap-1">
+              <label className="flex items-center gap-2 mr-2 text-sm text-gray-600 dark:text-gray-400">
+                <input
+                  type="checkbox"
+                  checked={rule.enabled}
+                  onChange={(e) => saveAutomation({ ...rule, enabled: e.target.checked })}
+                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                On
+              </label>
+              <button
+                onClick={() => openForm(rule)}
+                className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+                aria-label={`Edit ${rule.name}`}
+              >
+                <Edit className="w-4 h-4 text-gray-500" />
+              </button>
+              <button
+                onClick={() => handleDelete(rule)}
+                className="p-2 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors"
+                aria-label={`Delete ${rule.name}`}
+              >
+                <Trash2 className="w-4 h-4 text-red-500" />
+              </button>
+            </div>
+          </div>
+        ))}
+        {automations.length === 0 && (
+          <p className="p-6 text-sm text-center text-gray-500 dark:text-gray-400">
+            No automations yet.
+          </p>
+        )}
+      </div>
+
+      <div>
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-1">
+          Execution Log
+        </h3>
+        <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+          Every time a rule fired, or was stopped to keep automations from setting each other off forever.
+        </p>
+        <div className="divide-y divide-gray-200 dark:divide-gray-700 border border-gray-200 dark:border-gray-700 rounded-lg">
+          {latestRuns.slice(0, visibleCount).map((run) => (
+            <div key={run.id} className="p-4 space-y-1">
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <span className={`px-2 py-0.5 rounded-full text-xs font-medium capitalize ${STATUS_STYLES[run.status]}`}>
+                  {run.status}
+                </span>
+                <span className="font-medium text-gray-900 dark:text-white">{run.ruleName}</span>
+                <span className="text-gray-500 dark:text-gray-400">on</span>
+                <Link to={recordLink(run.collection, run.recordId, run.recordLabel)} className="font-medium text-blue-600 dark:text-blue-400 hover:underline">
+                  {run.recordLabel}
+                </Link>
+              </div>
+              <p className="text-sm text-gray-600 dark:text-gray-400">{run.detail}</p>
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                {triggerLabel(run.trigger)} · {format(new Date(run.timestamp), 'MMM dd, yyyy HH:mm')}
+              </p>
+            </div>
+          ))}
+          {runs.length === 0 && (
+            <p className="p-6 text-sm text-center text-gray-500 dark:text-gray-400">
+              No automations have run yet.
+            </p>
+          )}
+        </div>
+        {latestRuns.length > visibleCount && (
+          <button
+            onClick={() => setVisibleCount((count) => count + PAGE_SIZE)}
+            className="w-full mt-4 px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors text-gray-700 dark:text-gray-300"
+          >
+            Show {Math.min(PAGE_SIZE, latestRuns.length - visibleCount)} more
+          </button>
+        )}
+      </div>
+
+      <AnimatePresence>
+        {draft && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50"
+          >
+            <motion.div
+              initial={{ opacity: 0, scale: 0.95 }}
+              animate={{ opacity: 1, scale: 1 }}
+              exit={{ opacity: 0, scale: 0.95 }}
+              className="bg-white dark:bg-gray-800 rounded-xl p-6 w-full max-w-3xl max-h-[90vh] overflow-y-auto"
+            >
+              <div className="flex items-center justify-between mb-6">
+                <h2 className="text-xl font-bold text-gray-900 dark:text-white">
+                  {isNew ? 'Add Automation' : 'Edit Automation'}
+                </h2>
+                <button
+                  onClick={() => setDraft(null)}
+                  className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+                >
+                  <X className="w-5 h-5 text-gray-500" />
+                </button>
+              </div>
+
+              <div className="space-y-6">
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  <div>
+                    <label className={labelClassName}>Name</label>
+                    <input
+                      value={draft.name}
+                      onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                      className={inputClassName}
+                    />
+                  </div>
+                  <div>
+                    <label className={labelClassName}>When</label>
+                    <select
+                      value={draft.trigger}
+                      onChange={(e) => changeTrigger(e.target.value as AutomationTrigger)}
+                      className={inputClassName}
+                    >
+                      {AUTOMATION_TRIGGERS.map((trigger) => (
+                        <option key={trigger.id} value={trigger.id}>{trigger.label}</option>
+                      ))}
+                    </select>
+                  </div>
+                  {draft.trigger === 'deal-stage-changed' && (
+                    <div className="sm:col-span-2">
+                      <label className={labelClassName}>Entering</label>
+                      <select
+                        value={draft.stageId ?? ''}
+                        onChange={(e) => setDraft({ ...draft, stageId: e.target.value || undefined })}
+                        className={inputClassName}
+                      >
+                        <option value="">Any stage</option>
+                        {statuses.map((option) => (
+                          <option key={option.id} value={option.id}>{option.label}</option>
+                        ))}
+                      </select>
+                    </div>
+                  )}
+                </div>
+
+                <div>
+                  <label className={labelClassName}>Only if</label>
+                  <div className="space-y-2">
+                    {draft.conditions.map((condition, index) => (
+                      <div key={index} className="flex items-center gap-2">
+                        <select
+                          value={condition.field}
+                          onChange={(e) => updateCondition(index, { field: e.target.value })}
+                          aria-label="Field"
+                          className={inputClassName}
+                        >
+                          {fields.map((field) => (
+                            <option key={field.id} value={field.id}>{field.label}</option>
+                          ))}
+                        </select>
+                        <select
+                          value={condition.operator}
+                          onChange={(e) => updateCondition(index, { operator: e.target.value as ConditionOperator })}
+                          aria-label="Operator"
+                          className={`${inputClassName} !w-40 flex-shrink-0`}
+                        >
+                          {CONDITION_OPERATORS.map((operator) => (
+                            <option key={operator.id} value={operator.id}>{operator.label}</option>
+                          ))}
+                        </select>
+                        {condition.field === 'assignedTo' && !isUnaryOperator(condition.operator) ? (
+                          // Owners are stored by user id
+                          <select
+                            value={condition.value}
+                            onChange={(e) => updateCondition(index, { value: e.target.value })}
+                            aria-label="Value"
+                            className={inputClassName}
+                          >
+                            <option value="">Choose someone</option>
+                            {userOptions(directory, condition.value || undefined).map((option) => (
+                              <option key={option.value} value={option.value}>{option.label}</option>
+                            ))}
+                          </select>
+                        ) : (
+                          <input
+                            value={condition.value}
+                            onChange={(e) => updateCondition(index, { value: e.target.value })}
+                            disabled={isUnaryOperator(condition.operator)}
+                            placeholder="Value"
+                            aria-label="Value"
+                            className={`${inputClassName} disabled:opacity-50`}
+                          />
+                        )}
+                        <button
+                          onClick={() =>
+                            setDraft({ ...draft, conditions: draft.conditions.filter((_, position) => position !== index) })
+                          }
+                          className="p-2 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors"
+                          aria-label="Remove condition"
+                        >
+                          <Trash2 className="w-4 h-4 text-red-500" />
+                        </button>
+                      </div>
+                    ))}
+                    {draft.conditions.length === 0 && (
+                      <p className="text-sm text-gray-500 dark:text-gray-400">Every record.</p>
+                    )}
+                  </div>
+                  <button
+                    onClick={() =>
+                      setDraft({
+                        ...draft,
+                        conditions: [...draft.conditions, { field: fields[0]?.id ?? '', operator: 'equals', value: '' }],
+                      })
+                    }
+                    className="flex items-center gap-1 mt-3 text-sm text-blue-600 dark:text-blue-400 hover:underline"
+                  >
+                    <Plus className="w-4 h-4" />
+                    Add condition
+                  </button>
+                </div>
+
+                <div>
+                  <label className={labelClassName}>Then</label>
+                  <div className="space-y-2">
+                    {draft.actions.map((action, index) => (
+                      <div key={index} className="flex items-center gap-2">
+                        <span className="w-36 flex-shrink-0 text-sm text-gray-700 dark:text-gray-300">
+                          {AUTOMATION_ACTIONS.find((option) => option.id === action.type)?.label}
+                        </span>
+                        {renderActionFields(action, index)}
+                        <button
+                          onClick={() =>
+                            setDraft({ ...draft, actions: draft.actions.filter((_, position) => position !== index) })
+                          }
+                          className="p-2 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors"
+                          aria-label="Remove action"
+                        >
+                          <Trash2 className="w-4 h-4 text-red-500" />
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                  <select
+                    value=""
+                    onChange={(e) =>
+                      setDraft({ ...draft, actions: [...draft.actions, newAction(e.target.value as AutomationActionType)] })
+                    }
+                    aria-label="Add action"
+                    className={`${inputClassName} !w-auto mt-3`}
+                  >
+                    <option value="">Add action…</option>
+                    {actionsFor(draft.trigger).map((option) => (
+                      <option key={option.id} value={option.id}>{option.label}</option>
+                    ))}
+                  </select>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+                    {'{{record}}'} in a task title or message is replaced with the record's name.
+                  </p>
+                </div>
+
+                {error && <p className="text-red-500 text-sm">{error}</p>}
+
+                <div className="flex gap-3 pt-4">
+                  <button
+                    type="button"
+                    onClick={() => setDraft(null)}
+                    className="flex-1 px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors text-gray-700 dark:text-gray-300"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    onClick={handleSave}
+                    className="flex-1 bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded-lg font-medium transition-colors"
+                  >
+                    {isNew ? 'Add' : 'Update'}
+                  </button>
+                </div>
+              </div>
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
+
+export default AutomationsPanel;
@@ -0,0 +1,73 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { X } from 'lucide-react';
+import type { BulkProgress } from '../../hooks/useBulkActions';
+
+export interface BulkAction {
+  label: string;
+  icon: React.ComponentType<{ className?: string }>;
+  onClick: () => void;
+  danger?: boolean;
+}
+
+interface BulkActionBarProps {
+  count: number;
+  actions: BulkAction[];
+  progress: BulkProgress | null;
+  onClear: () => void;
+}
+
+const BulkActionBar: React.FC<BulkActionBarProps> = ({ count, actions, progress, onClear }) => (
+  <motion.div
+    initial={{ opacity: 0, y: 40 }}
+    animate={{ opacity: 1, y: 0 }}
+    exit={{ opacity: 0, y: 40 }}
+    className="fixed bottom-6 left-1/2 -translate-x-1/2 z-40 w-[calc(100%-2rem)] max-w-4xl bg-white dark:bg-gray-800 rounded-xl shadow-lg border border-gray-200 dark:border-gray-700 p-4"
+  >
+    {progress ? (
+      <div>
+        <div className="flex items-center justify-between text-sm text-gray-700 dark:text-gray-300 mb-2">
+          <span>{progress.label}…</span>
+          <span>
+            {progress.done} / {progress.total}
+          </span>
+        </div>
+        <div className="w-full h-2 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+          <div
+            className="h-full bg-blue-500 transition-all"
+            style={{ width: `${(progress.done / Math.max(progress.total, 1)) * 100}%` }}
+          />
+        </div>
+      </div>
+    ) : (
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm font-medium text-gray-900 dark:text-white mr-2">
+          {count} selected
+        </span>
+        {actions.map((action) => (
+          <button
+            key={action.label}
+            onClick={action.onClick}
+            className={`flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm transition-colors ${
+              action.danger
+                ? 'text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20'
+                : 'text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'
+            }`}
+          >
+            <action.icon className="w-4 h-4" />
+            {action.label}
+          </button>
+        ))}
+        <button
+          onClick={onClear}
+          title="Clear selection"
+          className="ml-auto p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+        >
+          <X className="w-4 h-4 text-gray-500" />
+        </button>
+      </div>
+    )}
+  </motion.div>
+);
+
+export default BulkActionBar;
@@ -0,0 +1,141 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { X } from 'lucide-react';
+
+export interface BulkField {
+  key: string;
+  label: string;
+  type: 'text' | 'date' | 'select';
+  options?: { value: string; label: string }[];
+  // Offered as autocomplete for text fields
+  suggestions?: string[];
+  defaultValue?: string;
+  required?: boolean;
+}
+
+export interface BulkForm {
+  title: string;
+  description: string;
+  confirmLabel: string;
+  fields: BulkField[];
+  onConfirm: (values: Record<string, string>) => void;
+}
+
+interface BulkFieldModalProps extends BulkForm {
+  onClose: () => void;
+}
+
+const inputClassName =
+  'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white';
+
+// Small form for bulk actions that need a value or two, like a tag name or an owner
+const BulkFieldModal: React.FC<BulkFieldModalProps> = ({
+  title,
+  description,
+  confirmLabel,
+  fields,
+  onConfirm,
+  onClose,
+}) => {
+  const [values, setValues] = useState<Record<string, string>>(
+    Object.fromEntries(fields.map((field) => [field.key, field.defaultValue ?? '']))
+  );
+  const isValid = fields.every((field) => !field.required || values[field.key].trim() !== '');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isValid) {
+      onConfirm(Object.fromEntries(Object.entries(values).map(([key, value]) => [key, value.trim()])));
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50"
+    >
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        exit={{ opacity: 0, scale: 0.95 }}
+        className="bg-white dark:bg-gray-800 rounded-xl p-6 w-full max-w-md max-h-[90vh] overflow-y-auto"
+      >
+        <div className="flex items-center justify-between mb-2">
+          <h2 className="text-xl font-bold text-gray-900 dark:text-white">
+            {title}
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5 text-gray-500" />
+          </button>
+        </div>
+        <p className="text-sm text-gray-600 dark:text-gray-400 mb-6">
+          {description}
+        </p>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {fields.map((field) => (
+            <div key={field.key}>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                {field.label}
+              </label>
+              {field.type === 'select' ? (
+                <select
+                  value={values[field.key]}
+                  onChange={(e) => setValues({ ...values, [field.key]: e.target.value })}
+                  className={inputClassName}
+                >
+                  {field.options?.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              ) : (
+                <>
+                  <input
+                    type={field.type}
+                    value={values[field.key]}
+                    list={field.suggestions ? `${field.key}-suggestions` : undefined}
+                    onChange={(e) => setValues({ ...values, [field.key]: e.target.value })}
+                    className={inputClassName}
+                  />
+                  {field.suggestions && (
+                    <datalist id={`${field.key}-suggestions`}>
+                      {field.suggestions.map((suggestion) => (
+                        <option key={suggestion} value={suggestion} />
+                      ))}
+                    </datalist>
+                  )}
+                </>
+              )}
+            </div>
+          ))}
+
+          <div className="flex gap-3 pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors text-gray-700 dark:text-gray-300"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={!isValid}
+              className="flex-1 bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded-lg font-medium disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              {confirmLabel}
+            </button>
+          </div>
+        </form>
+      </motion.div>
+    </motion.div>
+  );
+};
+
+export default BulkFieldModal;
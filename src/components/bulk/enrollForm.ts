@@ -0,0 +1,35 @@
+import toast from 'react-hot-toast';
+import type { Contact, Lead } from '../../stores/crmStore';
+import { useSequenceStore } from '../../stores/sequenceStore';
+import { mutationErrorMessage } from '../history/undoToast';
+import type { BulkForm } from './BulkFieldModal';
+
+// The "Enroll in sequence" bulk action for the selected records the user may edit. Records
+// already in the sequence, and converted or lost leads, are left out.
+export const enrollForm = (
+  type: 'contact' | 'lead',
+  records: (Contact | Lead)[],
+  onDone: () => void
+): BulkForm => ({
+  title: 'Enroll in Sequence',
+  description: `Start ${records.length} ${type}(s) on the sequence's first step. Records already in it are skipped.`,
+  confirmLabel: 'Enroll',
+  fields: [{
+    key: 'sequenceId',
+    label: 'Sequence',
+    type: 'select',
+    required: true,
+    options: useSequenceStore.getState().sequences.map((sequence) => ({ value: sequence.id, label: sequence.name })),
+    defaultValue: useSequenceStore.getState().sequences[0]?.id,
+  }],
+  onConfirm: ({ sequenceId }) => {
+    try {
+      const count = useSequenceStore.getState().enroll(sequenceId, records.map(({ id }) => ({ type, id })));
+      const skipped = records.length - count;
+      toast.success(`${count} enrolled${skipped > 0 ? `, ${skipped} skipped` : ''}`);
+      onDone();
+    } catch (error) {
+      toast.error(mutationErrorMessage(error));
+    }
+  },
+});
@@ -0,0 +1,35 @@
+import { addDays, format } from 'date-fns';
+import type { Task } from '../../stores/crmStore';
+import type { BulkField } from './BulkFieldModal';
+
+export const followUpFields = (): BulkField[] => [
+  { key: 'title', label: 'Title', type: 'text', required: true, defaultValue: 'Follow up' },
+  { key: 'dueDate', label: 'Due date', type: 'date', required: true, defaultValue: format(addDays(new Date(), 3), 'yyyy-MM-dd') },
+  {
+    key: 'priority',
+    label: 'Priority',
+    type: 'select',
+    defaultValue: 'medium',
+    options: [
+      { value: 'low', label: 'Low' },
+      { value: 'medium', label: 'Medium' },
+      { value: 'high', label: 'High' },
+    ],
+  },
+];
+
+// Builds the task for one selected record from the values entered in followUpFields
+export const followUpTask = (
+  values: Record<string, string>,
+  record: { name: string; assignedTo?: string },
+  relatedTo: NonNullable<Task['relatedTo']>,
+  fallbackAssignee: string
+): Omit<Task, 'id' | 'createdAt' | 'updatedAt'> => ({
+  title: `${values.title}: ${record.name}`,
+  description: '',
+  dueDate: new Date(`${values.dueDate}T09:00`),
+  priority: values.priority as Task['priority'],
+  status: 'pending',
+  assignedTo: record.assignedTo || fallbackAssignee,
+  relatedTo,
+});
@@ -0,0 +1,32 @@
+import React from 'react';
+import { SlidersHorizontal } from 'lucide-react';
+import { CustomFieldDefinition, CustomFieldRecord, formatCustomFieldValue } from '../../lib/customFields';
+import { isWebLink } from '../../lib/html';
+import DetailField from '../records/DetailField';
+
+interface CustomFieldDetailsProps {
+  fields: CustomFieldDefinition[];
+  record: CustomFieldRecord;
+}
+
+// Detail-page fields for each custom field, meant to sit in the same grid as the built-in ones
+const CustomFieldDetails: React.FC<CustomFieldDetailsProps> = ({ fields, record }) => (
+  <>
+    {fields.map((field) => {
+      const value = record.customFields?.[field.id];
+      return (
+        <DetailField key={field.id} icon={SlidersHorizontal} label={field.label}>
+          {field.type === 'url' && typeof value === 'string' && isWebLink(value) ? (
+            <a href={value} target="_blank" rel="noreferrer" className="text-blue-600 dark:text-blue-400 hover:underline break-all">
+              {value}
+            </a>
+          ) : (
+            formatCustomFieldValue(field, value)
+          )}
+        </DetailField>
+      );
+    })}
+  </>
+);
+
+export default CustomFieldDetails;
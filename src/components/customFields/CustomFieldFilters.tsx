@@ -0,0 +1,45 @@
+import React from 'react';
+import { CustomFieldDefinition, CustomFieldFilterValues, isFilterable } from '../../lib/customFields';
+
+interface CustomFieldFiltersProps {
+  fields: CustomFieldDefinition[];
+  filters: CustomFieldFilterValues;
+  onChange: (filters: CustomFieldFilterValues) => void;
+}
+
+// One dropdown per select, multi-select or checkbox field; renders nothing when there are none
+const CustomFieldFilters: React.FC<CustomFieldFiltersProps> = ({ fields, filters, onChange }) => {
+  const filterable = fields.filter(isFilterable);
+  if (filterable.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="flex flex-wrap gap-3">
+      {filterable.map((field) => (
+        <label key={field.id} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+          {field.label}
+          <select
+            value={filters[field.id] ?? ''}
+            onChange={(e) => onChange({ ...filters, [field.id]: e.target.value })}
+            className="px-3 py-1.5 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            <option value="">Any</option>
+            {field.type === 'checkbox' ? (
+              <>
+                <option value="yes">Yes</option>
+                <option value="no">No</option>
+              </>
+            ) : (
+              field.options.map((option) => (
+                <option key={option} value={option}>{option}</option>
+              ))
+            )}
+          </select>
+        </label>
+      ))}
+    </div>
+  );
+};
+
+export default CustomFieldFilters;
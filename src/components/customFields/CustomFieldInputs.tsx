@@ -0,0 +1,120 @@
+import { Control, Controller, FieldValues, Path } from 'react-hook-form';
+import { CustomFieldDefinition, CustomFieldValue } from '../../lib/customFields';
+
+interface CustomFieldInputsProps<T extends FieldValues> {
+  fields: CustomFieldDefinition[];
+  control: Control<T>;
+}
+
+const inputClassName =
+  'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white';
+
+// Renders one input per custom field into a record form whose schema came from `withCustomFields`
+const CustomFieldInputs = <T extends FieldValues>({ fields, control }: CustomFieldInputsProps<T>) => (
+  <>
+    {fields.map((field) => (
+      <Controller
+        key={field.id}
+        control={control}
+        name={`customFields.${field.id}` as Path<T>}
+        render={({ field: input, fieldState }) => {
+          const value = input.value as CustomFieldValue | undefined;
+          const label = (
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              {field.label}
+              {field.required && <span className="text-red-500"> *</span>}
+            </label>
+          );
+
+          const editor = (() => {
+            switch (field.type) {
+              case 'number':
+                return (
+                  <input
+                    type="number"
+                    value={value === undefined ? '' : String(value)}
+                    onChange={(e) => input.onChange(e.target.value === '' ? undefined : e.target.valueAsNumber)}
+                    onBlur={input.onBlur}
+                    className={inputClassName}
+                  />
+                );
+              case 'date':
+              case 'url':
+              case 'text':
+                return (
+                  <input
+                    type={field.type === 'text' ? 'text' : field.type}
+                    value={(value as string | undefined) ?? ''}
+                    onChange={input.onChange}
+                    onBlur={input.onBlur}
+                    placeholder={field.type === 'url' ? 'https://' : undefined}
+                    className={inputClassName}
+                  />
+                );
+              case 'select':
+                return (
+                  <select
+                    value={(value as string | undefined) ?? ''}
+                    onChange={input.onChange}
+                    onBlur={input.onBlur}
+                    className={inputClassName}
+                  >
+                    <option value="">—</option>
+                    {field.options.map((option) => (
+                      <option key={option} value={option}>{option}</option>
+                    ))}
+                  </select>
+                );
+              case 'multiselect': {
+                const selected = (value as string[] | undefined) ?? [];
+                return (
+                  <div className="flex flex-wrap gap-x-4 gap-y-2">
+                    {field.options.map((option) => (
+                      <label key={option} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                        <input
+                          type="checkbox"
+                          checked={selected.includes(option)}
+                          onChange={() =>
+                            input.onChange(
+                              selected.includes(option)
+                                ? selected.filter((item) => item !== option)
+                                : [...selected, option]
+                            )
+                          }
+                          className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                        />
+                        {option}
+                      </label>
+                    ))}
+                  </div>
+                );
+              }
+              case 'checkbox':
+                return (
+                  <input
+                    type="checkbox"
+                    checked={value === true}
+                    onChange={(e) => input.onChange(e.target.checked)}
+                    onBlur={input.onBlur}
+                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                );
+            }
+          })();
+
+          return (
+            <div>
+              {label}
+              {editor}
+              {fieldState.error && (
+                <p className="text-red-500 text-sm mt-1">{fieldState.error.message}</p>
+              )}
+            </div>
+          );
+        }}
+      />
+    ))}
+  </>
+);
+
+export default CustomFieldInputs;
@@ -0,0 +1,274 @@
+import React, { useState } from 'react';
+import { AnimatePresence, motion } from 'framer-motion';
+import { Edit, Plus, Trash2, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useSettingsStore } from '../../stores/settingsStore';
+import {
+  CUSTOM_FIELD_ENTITIES,
+  CUSTOM_FIELD_TYPES,
+  CustomFieldDefinition,
+  CustomFieldEntity,
+  CustomFieldType,
+  hasOptions,
+} from '../../lib/customFields';
+
+interface FieldDraft {
+  label: string;
+  type: CustomFieldType;
+  // One option per line while editing
+  options: string;
+  required: boolean;
+}
+
+const EMPTY_DRAFT: FieldDraft = { label: '', type: 'text', options: '', required: false };
+
+const inputClassName =
+  'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white';
+
+const typeLabel = (type: CustomFieldType) => CUSTOM_FIELD_TYPES.find((option) => option.id === type)?.label ?? type;
+
+const CustomFieldsPanel: React.FC = () => {
+  const { customFields, addCustomField, updateCustomField, removeCustomField } = useSettingsStore();
+  const [entity, setEntity] = useState<CustomFieldEntity>('contact');
+  // `null` while closed; the field being edited, or `'new'` when adding one
+  const [editing, setEditing] = useState<CustomFieldDefinition | 'new' | null>(null);
+  const [draft, setDraft] = useState<FieldDraft>(EMPTY_DRAFT);
+  const [error, setError] = useState('');
+
+  const fields = customFields.filter((field) => field.entity === entity);
+
+  const openForm = (field?: CustomFieldDefinition) => {
+    setEditing(field ?? 'new');
+    setDraft(
+      field
+        ? { label: field.label, type: field.type, options: field.options.join('\n'), required: field.required }
+        : EMPTY_DRAFT
+    );
+    setError('');
+  };
+
+  const handleSave = () => {
+    const label = draft.label.trim();
+    const options = hasOptions(draft.type)
+      ? [...new Set(draft.options.split('\n').map((option) => option.trim()).filter(Boolean))]
+      : [];
+    const editingId = editing === 'new' ? null : editing?.id;
+
+    if (!label) {
+      setError('Label is required');
+      return;
+    }
+    if (fields.some((field) => field.id !== editingId && field.label.toLowerCase() === label.toLowerCase())) {
+      setError(`There is already a field called "${label}"`);
+      return;
+    }
+    if (hasOptions(draft.type) && options.length === 0) {
+      setError('Add at least one option');
+      return;
+    }
+
+    if (editingId) {
+      // The type is fixed once values may exist, so only the presentation changes
+      updateCustomField(editingId, { label, options, required: draft.required });
+      toast.success('Field updated');
+    } else {
+      addCustomField({ entity, label, type: draft.type, options, required: draft.required });
+      toast.success('Field added');
+    }
+    setEditing(null);
+  };
+
+  const handleRemove = (field: CustomFieldDefinition) => {
+    if (window.confirm(`Remove the "${field.label}" field? Values already entered are kept but no longer shown.`)) {
+      removeCustomField(field.id);
+      toast.success('Field removed');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-1">
+            Custom Fields
+          </h3>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Extra fields shown in the forms, lists, filters and exports for each kind of record.
+          </p>
+        </div>
+        <button
+          onClick={() => openForm()}
+          className="flex items-center gap-2 bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded-lg font-medium transition-colors"
+        >
+          <Plus className="w-4 h-4" />
+          Add field
+        </button>
+      </div>
+
+      <div className="flex gap-2 flex-wrap">
+        {CUSTOM_FIELD_ENTITIES.map((option) => (
+          <button
+            key={option.id}
+            onClick={() => setEntity(option.id)}
+            className={`px-4 py-2 rounded-lg font-medium text-sm transition-colors ${
+              entity === option.id
+                ? 'bg-blue-500 text-white'
+                : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+            }`}
+          >
+            {option.label} ({customFields.filter((field) => field.entity === option.id).length})
+          </button>
+        ))}
+      </div>
+
+      <div className="divide-y divide-gray-200 dark:divide-gray-700 border border-gray-200 dark:border-gray-700 rounded-lg">
+        {fields.map((field) => (
+          <div key={field.id} className="flex items-center justify-between gap-4 p-4">
+            <div className="min-w-0">
+              <div className="flex items-center gap-2">
+                <h4 className="font-medium text-gray-900 dark:text-white truncate">{field.label}</h4>
+                <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300">
+                  {typeLabel(field.type)}
+                </span>
+                {field.required && (
+                  <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800 dark:bg-blue-900/20 dark:text-blue-400">
+                    Required
+                  </span>
+                )}
+              </div>
+              {field.options.length > 0 && (
+                <p className="text-sm text-gray-500 dark:text-gray-400 truncate">
+                  {field.options.join(', ')}
+                </p>
+              )}
+            </div>
+            <div className="flex items-center gap-1">
+              <button
+                onClick={() => openForm(field)}
+                className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+                aria-label={`Edit ${field.label}`}
+              >
+                <Edit className="w-4 h-4 text-gray-500" />
+              </button>
+              <button
+                onClick={() => handleRemove(field)}
+                className="p-2 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors"
+                aria-label={`Remove ${field.label}`}
+              >
+                <Trash2 className="w-4 h-4 text-red-500" />
+              </button>
+            </div>
+          </div>
+        ))}
+        {fields.length === 0 && (
+          <p className="p-6 text-sm text-center text-gray-500 dark:text-gray-400">
+            No custom fields yet.
+          </p>
+        )}
+      </div>
+
+      <AnimatePresence>
+        {editing && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50"
+          >
+            <motion.div
+              initial={{ opacity: 0, scale: 0.95 }}
+              animate={{ opacity: 1, scale: 1 }}
+              exit={{ opacity: 0, scale: 0.95 }}
+              className="bg-white dark:bg-gray-800 rounded-xl p-6 w-full max-w-md max-h-[90vh] overflow-y-auto"
+            >
+              <div className="flex items-center justify-between mb-6">
+                <h2 className="text-xl font-bold text-gray-900 dark:text-white">
+                  {editing === 'new' ? 'Add Field' : 'Edit Field'}
+                </h2>
+                <button
+                  onClick={() => setEditing(null)}
+                  className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+                >
+                  <X className="w-5 h-5 text-gray-500" />
+                </button>
+              </div>
+
+              <div className="space-y-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                    Label
+                  </label>
+                  <input
+                    value={draft.label}
+                    onChange={(e) => setDraft({ ...draft, label: e.target.value })}
+                    className={inputClassName}
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                    Type
+                  </label>
+                  <select
+                    value={draft.type}
+                    onChange={(e) => setDraft({ ...draft, type: e.target.value as CustomFieldType })}
+                    disabled={editing !== 'new'}
+                    className={`${inputClassName} disabled:opacity-60`}
+                  >
+                    {CUSTOM_FIELD_TYPES.map((option) => (
+                      <option key={option.id} value={option.id}>{option.label}</option>
+                    ))}
+                  </select>
+                </div>
+
+                {hasOptions(draft.type) && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                      Options (one per line)
+                    </label>
+                    <textarea
+                      value={draft.options}
+                      onChange={(e) => setDraft({ ...draft, options: e.target.value })}
+                      rows={4}
+                      className={inputClassName}
+                    />
+                  </div>
+                )}
+
+                <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={draft.required}
+                    onChange={(e) => setDraft({ ...draft, required: e.target.checked })}
+                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  Required
+                </label>
+
+                {error && <p className="text-red-500 text-sm">{error}</p>}
+
+                <div className="flex gap-3 pt-4">
+                  <button
+                    type="button"
+                    onClick={() => setEditing(null)}
+                    className="flex-1 px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors text-gray-700 dark:text-gray-300"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    onClick={handleSave}
+                    className="flex-1 bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded-lg font-medium transition-colors"
+                  >
+                    {editing === 'new' ? 'Add' : 'Update'}
+                  </button>
+                </div>
+              </div>
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
+
+export default CustomFieldsPanel;
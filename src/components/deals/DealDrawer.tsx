@@ -0,0 +1,473 @@
+import React, { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { ExternalLink, Mail, Phone, Trash2, X } from 'lucide-react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { addDays, format, formatDistanceStrict, parseISO } from 'date-fns';
+import toast from 'react-hot-toast';
+import { useCRMStore } from '../../stores/crmStore';
+import { useAuditStore } from '../../stores/auditStore';
+import { useSettingsStore } from '../../stores/settingsStore';
+import { usePermissions } from '../../hooks/usePermissions';
+import { useCustomFields } from '../../hooks/useCustomFields';
+import { useStageWinRates } from '../../hooks/useStageWinRates';
+import { useAuthStore } from '../../stores/authStore';
+import { withUndoToast } from '../history/undoToast';
+import { PermissionError } from '../../lib/permissions';
+import { DealFormData, dealSchema } from '../../lib/schemas';
+import {
+  CustomFieldFormData,
+  customFieldFormValues,
+  mergeCustomFieldValues,
+  withCustomFields,
+} from '../../lib/customFields';
+import { findStage, getPipeline, stageColor, stageHistory, stageProbability, wipViolation } from '../../lib/pipelines';
+import { isRelatedTo, recordPath } from '../../lib/records';
+import { checkStageTransition, missingRequirements, missingRequirementsMessage } from '../../lib/stageRules';
+import { userOptions } from '../../lib/users';
+import RelatedTasks from '../records/RelatedTasks';
+import CustomFieldInputs from '../customFields/CustomFieldInputs';
+
+type DealFormValues = DealFormData & CustomFieldFormData;
+
+interface DealDrawerProps {
+  // The deal to edit; a new one is created when absent
+  dealId?: string;
+  // Where a new deal starts
+  pipelineId?: string;
+  stage?: string;
+  onClose: () => void;
+}
+
+const inputClassName =
+  'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white disabled:opacity-60';
+
+const labelClassName = 'block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2';
+
+// Side panel for creating a deal or editing every field of one in place
+const DealDrawer: React.FC<DealDrawerProps> = ({ dealId, pipelineId, stage, onClose }) => {
+  const { deals, contacts, tasks, addDeal, updateDeal, deleteDeal } = useCRMStore();
+  const auditLog = useAuditStore((state) => state.entries);
+  const { pipelines, probabilityModel, lossReasons } = useSettingsStore();
+  const user = useAuthStore((state) => state.user);
+  const directory = useAuthStore((state) => state.directory);
+  const learnedRates = useStageWinRates();
+  const winRates = probabilityModel === 'historical' ? learnedRates : undefined;
+  const customFields = useCustomFields('deal');
+  const can = usePermissions();
+
+  const deal = dealId ? deals.find((candidate) => candidate.id === dealId) : undefined;
+  const canEdit = deal ? can('update', 'deal', deal) : can('create', 'deal');
+  const [probabilityOverridden, setProbabilityOverridden] = useState(deal?.probabilityOverridden ?? false);
+
+  const formSchema = useMemo(() => withCustomFields(dealSchema, customFields), [customFields]);
+  const initialPipeline = getPipeline(pipelines, deal?.pipelineId ?? pipelineId);
+  const initialStage = initialPipeline.stages.find((candidate) => candidate.id === (deal?.stage ?? stage)) ?? initialPipeline.stages[0];
+
+  const {
+    register,
+    control,
+    handleSubmit,
+    setValue,
+    setError,
+    getValues,
+    watch,
+    formState: { errors, isSubmitting },
+  } = useForm<DealFormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: deal
+      ? {
+          title: deal.title,
+          value: deal.value,
+          pipelineId: initialPipeline.id,
+          stage: initialStage.id,
+          contactId: deal.contactId,
+          assignedTo: deal.assignedTo,
+          closeDate: format(new Date(deal.closeDate), 'yyyy-MM-dd'),
+          probability: deal.probability,
+          notes: deal.notes,
+          lossReason: deal.lossReason ?? '',
+          customFields: customFieldFormValues(customFields, deal.customFields),
+        }
+      : {
+          title: '',
+          value: 0,
+          pipelineId: initialPipeline.id,
+          stage: initialStage.id,
+          contactId: '',
+          assignedTo: user?.id ?? '',
+          closeDate: format(addDays(new Date(), 30), 'yyyy-MM-dd'),
+          probability: stageProbability(initialStage, winRates),
+          notes: '',
+          lossReason: '',
+          customFields: customFieldFormValues(customFields),
+        },
+  });
+
+  const selectedPipeline = getPipeline(pipelines, watch('pipelineId'));
+  const selectedStage = selectedPipeline.stages.find((candidate) => candidate.id === watch('stage'));
+  // Kept visible once recorded, so a reopened deal doesn't silently keep a stale reason
+  const showLossReason =
+    selectedStage?.outcome === 'lost' || !!selectedStage?.requirements?.includes('lossReason') || !!deal?.lossReason;
+  const reasonOptions = deal?.lossReason && !lossReasons.includes(deal.lossReason) ? [...lossReasons, deal.lossReason] : lossReasons;
+
+  // Follows the stage unless someone typed a probability
+  const applyStageProbability = (stageId: string) => {
+    const selected = getPipeline(pipelines, getValues('pipelineId')).stages.find((candidate) => candidate.id === stageId);
+    if (selected && !probabilityOverridden) {
+      setValue('probability', stageProbability(selected, winRates));
+    }
+  };
+
+  const resetProbability = () => {
+    setProbabilityOverridden(false);
+    const selected = selectedPipeline.stages.find((candidate) => candidate.id === getValues('stage'));
+    if (selected) {
+      setValue('probability', stageProbability(selected, winRates));
+    }
+  };
+
+  const onSubmit = async ({ customFields: customFieldValues, closeDate, ...data }: DealFormValues) => {
+    const targetStage = getPipeline(pipelines, data.pipelineId).stages.find((candidate) => candidate.id === data.stage);
+    const violation = targetStage && targetStage.id !== deal?.stage ? wipViolation(pipelines, deals, targetStage, deal?.id) : null;
+    if (violation?.blocking) {
+      setError('stage', { message: violation.message });
+      return;
+    }
+    if (violation) {
+      toast(violation.message);
+    }
+
+    const fields = {
+      ...data,
+      closeDate: parseISO(closeDate),
+      notes: data.notes ?? '',
+      lossReason: data.lossReason || undefined,
+      probabilityOverridden,
+      customFields: mergeCustomFieldValues(customFields, customFieldValues, deal?.customFields),
+    };
+
+    if (deal) {
+      const check = checkStageTransition(pipelines, deal, fields, user, customFields);
+      const problem = check.blocked ?? (check.missing.length > 0 && missingRequirementsMessage(check.target, check.missing, customFields));
+      if (problem) {
+        setError('stage', { message: problem });
+        return;
+      }
+    } else if (targetStage) {
+      const missing = missingRequirements(targetStage, fields, customFields);
+      if (missing.length > 0) {
+        setError('stage', { message: missingRequirementsMessage(targetStage, missing, customFields) });
+        return;
+      }
+    }
+
+    try {
+      if (deal) {
+        withUndoToast('Deal updated successfully', () => updateDeal(deal.id, fields));
+      } else {
+        withUndoToast('Deal added successfully', () => addDeal(fields));
+      }
+      onClose();
+    } catch (error) {
+      toast.error(error instanceof PermissionError ? error.message : 'Something went wrong');
+    }
+  };
+
+  const handleDelete = () => {
+    if (deal && window.confirm('Are you sure you want to delete this deal?')) {
+      try {
+        withUndoToast('Deal moved to trash', () => deleteDeal(deal.id));
+        onClose();
+      } catch (error) {
+        toast.error(error instanceof PermissionError ? error.message : 'Something went wrong');
+      }
+    }
+  };
+
+  const contact = deal && contacts.find((candidate) => candidate.id === deal.contactId);
+  const relatedTasks = deal ? tasks.filter((task) => isRelatedTo(task, 'deal', deal.id)) : [];
+  const visits = deal ? stageHistory(deal, auditLog) : [];
+  const sortedContacts = [...contacts].sort((a, b) => a.name.localeCompare(b.name));
+
+  // Deleted from elsewhere (or undone) while open
+  if (dealId && !deal) {
+    return null;
+  }
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-black/50 z-50"
+      onClick={onClose}
+    >
+      <motion.aside
+        initial={{ x: '100%' }}
+        animate={{ x: 0 }}
+        exit={{ x: '100%' }}
+        transition={{ type: 'tween', duration: 0.2 }}
+        onClick={(e) => e.stopPropagation()}
+        className="absolute right-0 top-0 h-full w-full max-w-xl bg-white dark:bg-gray-800 shadow-xl overflow-y-auto"
+      >
+        <div className="sticky top-0 z-10 flex items-center justify-between gap-4 px-6 py-4 bg-white dark:bg-gray-800 border-b border-gray-200 dark:border-gray-700">
+          <h2 className="text-xl font-bold text-gray-900 dark:text-white truncate">
+            {deal ? deal.title : 'New Deal'}
+          </h2>
+          <div className="flex items-center gap-1">
+            {deal && (
+              <Link
+                to={recordPath('deal', deal.id)}
+                className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+                aria-label="Open deal page"
+              >
+                <ExternalLink className="w-5 h-5 text-gray-500" />
+              </Link>
+            )}
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+              aria-label="Close"
+            >
+              <X className="w-5 h-5 text-gray-500" />
+            </button>
+          </div>
+        </div>
+
+        <div className="p-6 space-y-8">
+          <form onSubmit={handleSubmit(onSubmit)}>
+            <fieldset disabled={!canEdit} className="space-y-4">
+              <div>
+                <label className={labelClassName}>Title</label>
+                <input {...register('title')} className={inputClassName} />
+                {errors.title && <p className="text-red-500 text-sm mt-1">{errors.title.message}</p>}
+              </div>
+
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div>
+                  <label className={labelClassName}>Value ($)</label>
+                  <input
+                    {...register('value', { valueAsNumber: true })}
+                    type="number"
+                    min="0"
+                    step="100"
+                    className={inputClassName}
+                  />
+                  {errors.value && <p className="text-red-500 text-sm mt-1">{errors.value.message}</p>}
+                </div>
+
+                <div>
+                  <label className={labelClassName}>Close Date</label>
+                  <input {...register('closeDate')} type="date" className={inputClassName} />
+                  {errors.closeDate && <p className="text-red-500 text-sm mt-1">{errors.closeDate.message}</p>}
+                </div>
+
+                {pipelines.length > 1 && (
+                  <div>
+                    <label className={labelClassName}>Pipeline</label>
+                    <select
+                      {...register('pipelineId', {
+                        onChange: (e) => {
+                          const firstStage = getPipeline(pipelines, e.target.value).stages[0];
+                          setValue('stage', firstStage.id);
+                          applyStageProbability(firstStage.id);
+                        },
+                      })}
+                      className={inputClassName}
+                    >
+                      {pipelines.map((option) => (
+                        <option key={option.id} value={option.id}>{option.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+
+                <div>
+                  <label className={labelClassName}>Stage</label>
+                  <select
+                    {...register('stage', { onChange: (e) => applyStageProbability(e.target.value) })}
+                    className={inputClassName}
+                  >
+                    {selectedPipeline.stages.map((option) => (
+                      <option key={option.id} value={option.id}>{option.title}</option>
+                    ))}
+                  </select>
+                  {errors.stage && <p className="text-red-500 text-sm mt-1">{errors.stage.message}</p>}
+                </div>
+
+                <div>
+                  <label className={labelClassName}>Probability (%)</label>
+                  <input
+                    {...register('probability', { valueAsNumber: true, onChange: () => setProbabilityOverridden(true) })}
+                    type="number"
+                    min="0"
+                    max="100"
+                    className={inputClassName}
+                  />
+                  {errors.probability && <p className="text-red-500 text-sm mt-1">{errors.probability.message}</p>}
+                  {probabilityOverridden && canEdit && (
+                    <button
+                      type="button"
+                      onClick={resetProbability}
+                      className="text-xs text-blue-600 dark:text-blue-400 hover:underline mt-1"
+                    >
+                      Use the stage's probability
+                    </button>
+                  )}
+                </div>
+
+                {showLossReason && (
+                  <div>
+                    <label className={labelClassName}>Loss Reason</label>
+                    <select {...register('lossReason')} className={inputClassName}>
+                      <option value="">Not recorded</option>
+                      {reasonOptions.map((reason) => (
+                        <option key={reason} value={reason}>{reason}</option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+
+                <div>
+                  <label className={labelClassName}>Assigned To</label>
+                  <select {...register('assignedTo')} className={inputClassName}>
+                    {userOptions(directory, deal?.assignedTo).map((option) => (
+                      <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              <div>
+                <label className={labelClassName}>Contact</label>
+                <select {...register('contactId')} className={inputClassName}>
+                  <option value="">Select a contact</option>
+                  {sortedContacts.map((option) => (
+                    <option key={option.id} value={option.id}>
+                      {option.name}{option.company ? ` (${option.company})` : ''}
+                    </option>
+                  ))}
+                </select>
+                {errors.contactId && <p className="text-red-500 text-sm mt-1">{errors.contactId.message}</p>}
+              </div>
+
+              <CustomFieldInputs fields={customFields} control={control} />
+
+              <div>
+                <label className={labelClassName}>Notes</label>
+                <textarea {...register('notes')} rows={3} className={inputClassName} />
+              </div>
+            </fieldset>
+
+            <div className="flex gap-3 pt-6">
+              {deal && can('delete', 'deal', deal) && (
+                <button
+                  type="button"
+                  onClick={handleDelete}
+                  className="flex items-center gap-2 px-4 py-2 border border-red-200 dark:border-red-800 text-red-600 rounded-lg hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors"
+                >
+                  <Trash2 className="w-4 h-4" />
+                  Delete
+                </button>
+              )}
+              <button
+                type="button"
+                onClick={onClose}
+                className="flex-1 px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors text-gray-700 dark:text-gray-300"
+              >
+                {canEdit ? 'Cancel' : 'Close'}
+              </button>
+              {canEdit && (
+                <button
+                  type="submit"
+                  disabled={isSubmitting}
+                  className="flex-1 bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded-lg font-medium disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  {isSubmitting ? 'Saving...' : deal ? 'Update' : 'Add'}
+                </button>
+              )}
+            </div>
+          </form>
+
+          {deal && (
+            <>
+              <section>
+                <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-3">Contact</h3>
+                {contact ? (
+                  <div className="space-y-1 text-sm">
+                    <Link
+                      to={recordPath('contact', contact.id)}
+                      className="font-medium text-blue-600 dark:text-blue-400 hover:underline"
+                    >
+                      {contact.name}
+                    </Link>
+                    <p className="text-gray-600 dark:text-gray-400">
+                      {[contact.position, contact.company].filter(Boolean).join(' at ')}
+                    </p>
+                    <p className="flex items-center gap-2 text-gray-600 dark:text-gray-400">
+                      <Mail className="w-4 h-4" />
+                      {contact.email}
+                    </p>
+                    <p className="flex items-center gap-2 text-gray-600 dark:text-gray-400">
+                      <Phone className="w-4 h-4" />
+                      {contact.phone}
+                    </p>
+                  </div>
+                ) : (
+                  <p className="text-sm text-gray-500 dark:text-gray-400">No linked contact.</p>
+                )}
+              </section>
+
+              <section>
+                <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-3">
+                  Tasks ({relatedTasks.length})
+                </h3>
+                <RelatedTasks tasks={relatedTasks} />
+              </section>
+
+              <section>
+                <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-3">Stage History</h3>
+                <ol className="space-y-3">
+                  {visits
+                    .map((visit, index) => ({ visit, next: visits[index + 1] }))
+                    .reverse()
+                    .map(({ visit, next }) => {
+                      const visited = findStage(pipelines, visit.stageId);
+                      return (
+                        <li key={`${visit.stageId}-${new Date(visit.enteredAt).getTime()}`} className="flex items-start gap-3">
+                          <span
+                            className={`w-3 h-3 mt-1 rounded-full flex-shrink-0 ${
+                              visited ? stageColor(visited).className : 'bg-gray-300'
+                            }`}
+                          />
+                          <div className="text-sm">
+                            <p className="font-medium text-gray-900 dark:text-white">
+                              {visited?.title ?? 'Removed stage'}
+                              <span className="font-normal text-gray-500 dark:text-gray-400">
+                                {' · '}
+                                {next
+                                  ? formatDistanceStrict(new Date(next.enteredAt), new Date(visit.enteredAt))
+                                  : `${formatDistanceStrict(new Date(), new Date(visit.enteredAt))} so far`}
+                              </span>
+                            </p>
+                            <p className="text-xs text-gray-500 dark:text-gray-400">
+                              {format(new Date(visit.enteredAt), 'MMM dd, yyyy HH:mm')}
+                              {visit.userName && ` · ${visit.userName}`}
+                            </p>
+                          </div>
+                        </li>
+                      );
+                    })}
+                </ol>
+              </section>
+            </>
+          )}
+        </div>
+      </motion.aside>
+    </motion.div>
+  );
+};
+
+export default DealDrawer;
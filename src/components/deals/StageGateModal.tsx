@@ -0,0 +1,208 @@
+import React, { useMemo } from 'react';
+import { motion } from 'framer-motion';
+import { X } from 'lucide-react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { parseISO } from 'date-fns';
+import toast from 'react-hot-toast';
+import { Deal, useCRMStore } from '../../stores/crmStore';
+import { useSettingsStore } from '../../stores/settingsStore';
+import { useCustomFields } from '../../hooks/useCustomFields';
+import { withUndoToast } from '../history/undoToast';
+import { PermissionError } from '../../lib/permissions';
+import { CustomFieldFormData, customFieldFormValues, customFieldsSchema, mergeCustomFieldValues } from '../../lib/customFields';
+import { TransitionCheck, customFieldRequirement } from '../../lib/stageRules';
+import CustomFieldInputs from '../customFields/CustomFieldInputs';
+
+interface GateFormValues extends CustomFieldFormData {
+  value?: number;
+  contactId?: string;
+  // `yyyy-MM-dd` from the date input
+  closeDate?: string;
+  notes?: string;
+  lossReason?: string;
+}
+
+interface StageGateModalProps {
+  deal: Deal;
+  // The move that was held back, applied together with the missing fields
+  updates: Partial<Deal>;
+  check: TransitionCheck;
+  onClose: () => void;
+}
+
+const inputClassName =
+  'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white';
+
+const labelClassName = 'block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2';
+
+// Asks for whatever a stage requires before letting a dragged deal into it
+const StageGateModal: React.FC<StageGateModalProps> = ({ deal, updates, check, onClose }) => {
+  const { contacts, updateDeal } = useCRMStore();
+  const lossReasons = useSettingsStore((state) => state.lossReasons);
+  const dealFields = useCustomFields('deal');
+  const { target, missing } = check;
+
+  // Optional fields become required here, since the stage asks for them
+  const customFields = useMemo(
+    () =>
+      dealFields
+        .filter((field) => missing.includes(customFieldRequirement(field)))
+        .map((field) => ({ ...field, required: true })),
+    [dealFields, missing]
+  );
+  const sortedContacts = [...contacts].sort((a, b) => a.name.localeCompare(b.name));
+
+  const formSchema = useMemo(
+    () =>
+      z.object({
+        ...(missing.includes('value') && { value: z.number('Value is required').gt(0, 'Value must be above 0') }),
+        ...(missing.includes('contact') && { contactId: z.string().min(1, 'Contact is required') }),
+        ...(missing.includes('closeDate') && { closeDate: z.string().min(1, 'Close date is required') }),
+        ...(missing.includes('notes') && { notes: z.string().trim().min(1, 'Notes are required') }),
+        ...(missing.includes('lossReason') && { lossReason: z.string().min(1, 'Loss reason is required') }),
+        customFields: customFieldsSchema(customFields),
+      }) as unknown as z.ZodType<GateFormValues, GateFormValues>,
+    [missing, customFields]
+  );
+
+  const {
+    register,
+    control,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<GateFormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      value: deal.value || undefined,
+      contactId: deal.contactId,
+      closeDate: '',
+      notes: deal.notes,
+      lossReason: '',
+      customFields: customFieldFormValues(customFields, deal.customFields),
+    },
+  });
+
+  const onSubmit = ({ customFields: customFieldValues, closeDate, ...data }: GateFormValues) => {
+    const filled: Partial<Deal> = {
+      ...data,
+      ...(closeDate && { closeDate: parseISO(closeDate) }),
+      ...(customFields.length > 0 && {
+        customFields: mergeCustomFieldValues(customFields, customFieldValues, deal.customFields),
+      }),
+    };
+    try {
+      withUndoToast(`Deal moved to ${target.title}`, () => updateDeal(deal.id, { ...updates, ...filled }));
+      onClose();
+    } catch (error) {
+      toast.error(error instanceof PermissionError ? error.message : 'Something went wrong');
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50"
+    >
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        exit={{ opacity: 0, scale: 0.95 }}
+        className="bg-white dark:bg-gray-800 rounded-xl p-6 w-full max-w-md max-h-[90vh] overflow-y-auto"
+      >
+        <div className="flex items-center justify-between mb-2">
+          <h2 className="text-xl font-bold text-gray-900 dark:text-white">
+            Move to {target.title}
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+            aria-label="Close"
+          >
+            <X className="w-5 h-5 text-gray-500" />
+          </button>
+        </div>
+        <p className="text-sm text-gray-600 dark:text-gray-400 mb-6">
+          {deal.title} needs a few more details before it can enter this stage.
+        </p>
+
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+          {missing.includes('value') && (
+            <div>
+              <label className={labelClassName}>Value ($)</label>
+              <input {...register('value', { valueAsNumber: true })} type="number" min="0" step="100" className={inputClassName} />
+              {errors.value && <p className="text-red-500 text-sm mt-1">{errors.value.message}</p>}
+            </div>
+          )}
+
+          {missing.includes('contact') && (
+            <div>
+              <label className={labelClassName}>Contact</label>
+              <select {...register('contactId')} className={inputClassName}>
+                <option value="">Select a contact</option>
+                {sortedContacts.map((option) => (
+                  <option key={option.id} value={option.id}>
+                    {option.name}{option.company ? ` (${option.company})` : ''}
+                  </option>
+                ))}
+              </select>
+              {errors.contactId && <p className="text-red-500 text-sm mt-1">{errors.contactId.message}</p>}
+            </div>
+          )}
+
+          {missing.includes('closeDate') && (
+            <div>
+              <label className={labelClassName}>Close Date</label>
+              <input {...register('closeDate')} type="date" className={inputClassName} />
+              {errors.closeDate && <p className="text-red-500 text-sm mt-1">{errors.closeDate.message}</p>}
+            </div>
+          )}
+
+          {missing.includes('lossReason') && (
+            <div>
+              <label className={labelClassName}>Loss Reason</label>
+              <select {...register('lossReason')} className={inputClassName}>
+                <option value="">Why was it lost?</option>
+                {lossReasons.map((reason) => (
+                  <option key={reason} value={reason}>{reason}</option>
+                ))}
+              </select>
+              {errors.lossReason && <p className="text-red-500 text-sm mt-1">{errors.lossReason.message}</p>}
+            </div>
+          )}
+
+          <CustomFieldInputs fields={customFields} control={control} />
+
+          {missing.includes('notes') && (
+            <div>
+              <label className={labelClassName}>Notes</label>
+              <textarea {...register('notes')} rows={3} className={inputClassName} />
+              {errors.notes && <p className="text-red-500 text-sm mt-1">{errors.notes.message}</p>}
+            </div>
+          )}
+
+          <div className="flex gap-3 pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors text-gray-700 dark:text-gray-300"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="flex-1 bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded-lg font-medium transition-colors"
+            >
+              Move deal
+            </button>
+          </div>
+        </form>
+      </motion.div>
+    </motion.div>
+  );
+};
+
+export default StageGateModal;
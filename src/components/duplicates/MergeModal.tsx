@@ -0,0 +1,214 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { format } from 'date-fns';
+import { X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useCRMStore } from '../../stores/crmStore';
+import { useAuthStore } from '../../stores/authStore';
+import { useEmailStore } from '../../stores/emailStore';
+import { useSequenceStore } from '../../stores/sequenceStore';
+import { mutationErrorMessage, withUndoToast } from '../history/undoToast';
+import { isRelatedTo } from '../../lib/records';
+import { userName } from '../../lib/users';
+import {
+  DuplicatePair,
+  MERGE_FIELDS,
+  MergeChoices,
+  MergeCollection,
+  MergeableRecord,
+  combineNotes,
+  combineTags,
+} from '../../lib/duplicates';
+
+interface MergeModalProps {
+  collection: MergeCollection;
+  pair: DuplicatePair;
+  onClose: () => void;
+}
+
+const isBlank = (value: unknown) => value === undefined || value === null || value === '';
+
+const fieldValue = (record: MergeableRecord, key: string) => (record as unknown as Record<string, unknown>)[key];
+
+// Which of the two records each field is taken from, by index
+type Picks = Record<string, 0 | 1>;
+
+// Starts from the survivor's values, filling in whatever it lacks from the other record
+const defaultPicks = (collection: MergeCollection, records: MergeableRecord[], survivor: 0 | 1): Picks =>
+  Object.fromEntries(
+    MERGE_FIELDS[collection].map((field) => [
+      field.key,
+      isBlank(fieldValue(records[survivor], field.key)) ? (survivor === 0 ? 1 : 0) : survivor,
+    ])
+  );
+
+const MergeModal: React.FC<MergeModalProps> = ({ collection, pair, onClose }) => {
+  const { deals, tasks, mergeRecords } = useCRMStore();
+  const directory = useAuthStore((state) => state.directory);
+  const { records } = pair;
+  const [survivor, setSurvivor] = useState<0 | 1>(0);
+  const [picks, setPicks] = useState<Picks>(() => defaultPicks(collection, records, 0));
+  const other = survivor === 0 ? 1 : 0;
+
+  const type = collection === 'contacts' ? ('contact' as const) : ('lead' as const);
+  const movedDeals = collection === 'contacts' ? deals.filter((deal) => deal.contactId === records[other].id).length : 0;
+  const movedTasks = tasks.filter((task) => isRelatedTo(task, type, records[other].id)).length;
+  // Fields both records agree on need no decision
+  const fields = MERGE_FIELDS[collection].filter(
+    (field) => String(fieldValue(records[0], field.key) ?? '') !== String(fieldValue(records[1], field.key) ?? '')
+  );
+  const tags = combineTags(records[survivor].tags, records[other].tags);
+  const notes = combineNotes(records[survivor].notes, records[other].notes);
+
+  const display = (record: MergeableRecord, key: string) => {
+    const value = fieldValue(record, key);
+    if (isBlank(value)) {
+      return <span className="italic text-gray-400">Empty</span>;
+    }
+    if (key === 'assignedTo') {
+      return userName(directory, String(value));
+    }
+    if (key === 'value') {
+      return `$${Number(value).toLocaleString()}`;
+    }
+    if (key === 'status') {
+      return String(value).charAt(0).toUpperCase() + String(value).slice(1);
+    }
+    return String(value);
+  };
+
+  const handleSurvivorChange = (index: 0 | 1) => {
+    setSurvivor(index);
+    setPicks(defaultPicks(collection, records, index));
+  };
+
+  const handleMerge = () => {
+    const choices: MergeChoices = Object.fromEntries(
+      Object.entries(picks).map(([key, index]) => [key, index === survivor ? 'survivor' : 'duplicate'])
+    );
+    try {
+      const from = { type, id: records[other].id };
+      withUndoToast(`${collection === 'contacts' ? 'Contacts' : 'Leads'} merged`, () =>
+        mergeRecords(collection, records[survivor].id, records[other].id, choices, () => [
+          useEmailStore.getState().moveEmails(from, records[survivor].id),
+          useSequenceStore.getState().moveEnrollments(from, records[survivor].id),
+        ])
+      );
+      onClose();
+    } catch (error) {
+      toast.error(mutationErrorMessage(error));
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50"
+    >
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        exit={{ opacity: 0, scale: 0.95 }}
+        className="bg-white dark:bg-gray-800 rounded-xl p-6 w-full max-w-3xl max-h-[90vh] overflow-y-auto"
+      >
+        <div className="flex items-center justify-between mb-2">
+          <h2 className="text-xl font-bold text-gray-900 dark:text-white">
+            Merge {collection === 'contacts' ? 'Contacts' : 'Leads'}
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5 text-gray-500" />
+          </button>
+        </div>
+        <p className="text-sm text-gray-600 dark:text-gray-400 mb-6">
+          Pick the record to keep and which value wins for each field that differs. The other record goes to the trash.
+        </p>
+
+        <div className="grid grid-cols-[8rem_1fr_1fr] gap-x-4 gap-y-3 items-center text-sm">
+          <span></span>
+          {records.map((record, index) => (
+            <label
+              key={record.id}
+              className={`flex items-start gap-2 p-3 rounded-lg border cursor-pointer ${
+                survivor === index ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/20' : 'border-gray-200 dark:border-gray-700'
+              }`}
+            >
+              <input
+                type="radio"
+                name="survivor"
+                checked={survivor === index}
+                onChange={() => handleSurvivorChange(index as 0 | 1)}
+                className="mt-1 border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              <span>
+                <span className="block font-medium text-gray-900 dark:text-white">
+                  {survivor === index ? 'Keep this record' : 'Merge into the other'}
+                </span>
+                <span className="block text-xs text-gray-500 dark:text-gray-400">
+                  Added {format(new Date(record.createdAt), 'MMM dd, yyyy')}
+                </span>
+              </span>
+            </label>
+          ))}
+
+          {fields.map((field) => (
+            <React.Fragment key={field.key}>
+              <span className="font-medium text-gray-700 dark:text-gray-300">{field.label}</span>
+              {records.map((record, index) => (
+                <label key={record.id} className="flex items-center gap-2 min-w-0 cursor-pointer">
+                  <input
+                    type="radio"
+                    name={`field-${field.key}`}
+                    checked={picks[field.key] === index}
+                    onChange={() => setPicks({ ...picks, [field.key]: index as 0 | 1 })}
+                    className="border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  <span className="truncate text-gray-900 dark:text-white">{display(record, field.key)}</span>
+                </label>
+              ))}
+            </React.Fragment>
+          ))}
+        </div>
+        {fields.length === 0 && (
+          <p className="text-sm text-gray-500 dark:text-gray-400 mt-4">Every field matches.</p>
+        )}
+
+        <div className="mt-6 p-4 bg-gray-50 dark:bg-gray-700/50 rounded-lg space-y-2 text-sm text-gray-700 dark:text-gray-300">
+          {tags.length > 0 && <p>Tags: {tags.join(', ')}</p>}
+          {notes && (
+            <div>
+              <p className="mb-1">Notes:</p>
+              <p className="whitespace-pre-line text-gray-600 dark:text-gray-400 max-h-32 overflow-y-auto">{notes}</p>
+            </div>
+          )}
+          <p>
+            {movedDeals > 0 && `${movedDeals} deal(s) and `}
+            {movedTasks} task(s) move to the kept record.
+          </p>
+        </div>
+
+        <div className="flex gap-3 pt-6">
+          <button
+            type="button"
+            onClick={onClose}
+            className="flex-1 px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors text-gray-700 dark:text-gray-300"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleMerge}
+            className="flex-1 bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded-lg font-medium transition-colors"
+          >
+            Merge
+          </button>
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+};
+
+export default MergeModal;
@@ -0,0 +1,213 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { X, Send, Eye, Pencil, AlertCircle } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { Contact, Lead, useCRMStore } from '../../stores/crmStore';
+import { useAuthStore } from '../../stores/authStore';
+import { useEmailStore } from '../../stores/emailStore';
+import { useEmailTemplateStore } from '../../stores/emailTemplateStore';
+import { getEmailTransport } from '../../services/emailTransport';
+import {
+  emptyVariables,
+  mergeValues,
+  recipientContext,
+  renderTemplate,
+  templatesByCategory,
+  unknownVariables,
+} from '../../lib/emailTemplates';
+import { htmlToText, sanitizeHtml } from '../../lib/html';
+import RichTextEditor from './RichTextEditor';
+import EmailPreview from './EmailPreview';
+
+interface EmailComposerProps {
+  type: 'contact' | 'lead';
+  record: Contact | Lead;
+  onClose: () => void;
+}
+
+const inputClassName =
+  'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white';
+
+// Writes an email to a contact or lead; merge variables are filled in when it's sent
+const EmailComposer: React.FC<EmailComposerProps> = ({ type, record, onClose }) => {
+  const user = useAuthStore((state) => state.user);
+  const deals = useCRMStore((state) => state.deals);
+  const templates = useEmailTemplateStore((state) => state.templates);
+  const sendEmail = useEmailStore((state) => state.sendEmail);
+  const [to, setTo] = useState(record.email);
+  const [templateId, setTemplateId] = useState('');
+  const [subject, setSubject] = useState('');
+  const [body, setBody] = useState('');
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [isSending, setIsSending] = useState(false);
+
+  const values = mergeValues(recipientContext(type, record, deals, user));
+  const groups = templatesByCategory(templates, user?.role);
+  const unknown = unknownVariables(subject, body);
+  const empty = emptyVariables(values, subject, body);
+  const isLocal = getEmailTransport().kind === 'local';
+
+  const handleTemplateChange = (id: string) => {
+    setTemplateId(id);
+    const template = templates.find((candidate) => candidate.id === id);
+    if (template) {
+      setSubject(template.subject);
+      setBody(template.body);
+    }
+  };
+
+  const handleSend = async () => {
+    if (!to.trim() || !subject.trim()) {
+      toast.error('Add a recipient and a subject');
+      return;
+    }
+    if (unknown.length > 0) {
+      toast.error('Fix the unknown variables before sending');
+      return;
+    }
+    const html = sanitizeHtml(renderTemplate(body, values, 'html'));
+    setIsSending(true);
+    try {
+      await sendEmail({
+        relatedTo: { type, id: record.id },
+        to: to.trim(),
+        subject: renderTemplate(subject, values),
+        body: htmlToText(html),
+        html,
+      });
+      toast.success(isLocal ? 'Email logged (no mail server configured)' : 'Email sent');
+      onClose();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Something went wrong');
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50"
+    >
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        exit={{ opacity: 0, scale: 0.95 }}
+        className="bg-white dark:bg-gray-800 rounded-xl p-6 w-full max-w-2xl max-h-[90vh] overflow-y-auto"
+      >
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-xl font-bold text-gray-900 dark:text-white">
+            Email {record.name}
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5 text-gray-500" />
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                To
+              </label>
+              <input type="email" value={to} onChange={(e) => setTo(e.target.value)} className={inputClassName} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Template
+              </label>
+              <select
+                value={templateId}
+                onChange={(e) => handleTemplateChange(e.target.value)}
+                className={inputClassName}
+              >
+                <option value="">{groups.length > 0 ? 'No template' : 'No templates available'}</option>
+                {groups.map(([category, categoryTemplates]) => (
+                  <optgroup key={category} label={category}>
+                    {categoryTemplates.map((template) => (
+                      <option key={template.id} value={template.id}>
+                        {template.name}
+                      </option>
+                    ))}
+                  </optgroup>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                {isPreviewing ? 'Preview' : 'Message'}
+              </label>
+              <button
+                type="button"
+                onClick={() => setIsPreviewing(!isPreviewing)}
+                className="flex items-center gap-1 text-sm text-blue-600 dark:text-blue-400 hover:underline"
+              >
+                {isPreviewing ? <Pencil className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                {isPreviewing ? 'Edit' : 'Preview'}
+              </button>
+            </div>
+            {isPreviewing ? (
+              <EmailPreview subject={renderTemplate(subject, values)} html={renderTemplate(body, values, 'html')} />
+            ) : (
+              <div className="space-y-2">
+                <input
+                  value={subject}
+                  onChange={(e) => setSubject(e.target.value)}
+                  placeholder="Subject"
+                  aria-label="Subject"
+                  className={inputClassName}
+                />
+                <RichTextEditor value={body} onChange={setBody} />
+              </div>
+            )}
+          </div>
+
+          {unknown.length > 0 && (
+            <div className="flex items-start gap-2 text-sm text-red-600 dark:text-red-400">
+              <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+              Unknown variables: {unknown.map((key) => `{{${key}}}`).join(', ')}
+            </div>
+          )}
+          {empty.length > 0 && (
+            <div className="flex items-start gap-2 text-sm text-yellow-700 dark:text-yellow-400">
+              <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+              No value for {empty.map((key) => `{{${key}}}`).join(', ')}; they'll be left blank.
+            </div>
+          )}
+          {isLocal && (
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              No mail server is configured, so the email will only be logged on this {type}'s timeline.
+            </p>
+          )}
+        </div>
+
+        <div className="flex gap-3 pt-6">
+          <button
+            type="button"
+            onClick={onClose}
+            className="flex-1 px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors text-gray-700 dark:text-gray-300"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSend}
+            disabled={isSending}
+            className="flex-1 flex items-center justify-center gap-2 bg-blue-500 hover:bg-blue-600 disabled:opacity-50 text-white px-4 py-2 rounded-lg font-medium transition-colors"
+          >
+            <Send className="w-4 h-4" />
+            {isSending ? 'Sending...' : 'Send'}
+          </button>
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+};
+
+export default EmailComposer;
@@ -0,0 +1,23 @@
+import React from 'react';
+import { sanitizeHtml } from '../../lib/html';
+import { EMAIL_BODY_CLASSES } from './bodyStyles';
+
+interface EmailPreviewProps {
+  subject: string;
+  // Already rendered HTML; it's sanitized again here before being shown
+  html: string;
+}
+
+const EmailPreview: React.FC<EmailPreviewProps> = ({ subject, html }) => (
+  <div className="rounded-lg border border-gray-200 dark:border-gray-700">
+    <div className="px-3 py-2 border-b border-gray-200 dark:border-gray-700 text-sm font-medium text-gray-900 dark:text-white">
+      {subject || <span className="text-gray-400">No subject</span>}
+    </div>
+    <div
+      className={`min-h-[12rem] px-3 py-2 text-sm text-gray-900 dark:text-white ${EMAIL_BODY_CLASSES}`}
+      dangerouslySetInnerHTML={{ __html: sanitizeHtml(html) }}
+    />
+  </div>
+);
+
+export default EmailPreview;
@@ -0,0 +1,131 @@
+import React, { useEffect, useRef } from 'react';
+import { Bold, Italic, Underline, List, ListOrdered, Link2 } from 'lucide-react';
+import { MERGE_SOURCE_LABELS, MERGE_VARIABLES, MergeSource } from '../../lib/emailTemplates';
+import { sanitizeHtml } from '../../lib/html';
+import { EMAIL_BODY_CLASSES } from './bodyStyles';
+
+interface RichTextEditorProps {
+  value: string;
+  onChange: (html: string) => void;
+}
+
+const FORMATS = [
+  { command: 'bold', label: 'Bold', icon: Bold },
+  { command: 'italic', label: 'Italic', icon: Italic },
+  { command: 'underline', label: 'Underline', icon: Underline },
+  { command: 'insertUnorderedList', label: 'Bulleted list', icon: List },
+  { command: 'insertOrderedList', label: 'Numbered list', icon: ListOrdered },
+];
+
+const variableGroups = (Object.keys(MERGE_SOURCE_LABELS) as MergeSource[]).map((source) => ({
+  source,
+  variables: MERGE_VARIABLES.filter((variable) => variable.source === source),
+}));
+
+// A minimal HTML editor for email bodies, with a picker that inserts `{{variables}}` at the cursor
+const RichTextEditor: React.FC<RichTextEditorProps> = ({ value, onChange }) => {
+  const editorRef = useRef<HTMLDivElement>(null);
+  // Where the cursor was, since picking a variable from the select moves focus away
+  const selectionRef = useRef<Range | null>(null);
+
+  // Only replace the content when it changed from outside, e.g. a template was picked,
+  // so typing doesn't reset the cursor
+  useEffect(() => {
+    const editor = editorRef.current;
+    if (editor && editor.innerHTML !== value) {
+      editor.innerHTML = sanitizeHtml(value);
+    }
+  }, [value]);
+
+  const saveSelection = () => {
+    const selection = window.getSelection();
+    if (selection && selection.rangeCount > 0 && editorRef.current?.contains(selection.anchorNode)) {
+      selectionRef.current = selection.getRangeAt(0);
+    }
+  };
+
+  const run = (command: string, argument?: string) => {
+    const editor = editorRef.current;
+    if (!editor) {
+      return;
+    }
+    editor.focus();
+    if (selectionRef.current) {
+      const selection = window.getSelection();
+      selection?.removeAllRanges();
+      selection?.addRange(selectionRef.current);
+    }
+    document.execCommand(command, false, argument);
+    saveSelection();
+    onChange(editor.innerHTML);
+  };
+
+  const addLink = () => {
+    const url = window.prompt('Link address (https://…)');
+    if (url && /^(https?:|mailto:)/i.test(url.trim())) {
+      run('createLink', url.trim());
+    }
+  };
+
+  const toolbarButton = 'p-1.5 rounded hover:bg-gray-200 dark:hover:bg-gray-600 text-gray-600 dark:text-gray-300 transition-colors';
+
+  return (
+    <div className="border border-gray-300 dark:border-gray-600 rounded-lg focus-within:ring-2 focus-within:ring-blue-500 focus-within:border-transparent">
+      <div className="flex flex-wrap items-center gap-1 px-2 py-1.5 border-b border-gray-200 dark:border-gray-600 bg-gray-50 dark:bg-gray-700/50 rounded-t-lg">
+        {FORMATS.map(({ command, label, icon: Icon }) => (
+          <button
+            key={command}
+            type="button"
+            // Keep the selection in the editor when the button is clicked
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={() => run(command)}
+            title={label}
+            aria-label={label}
+            className={toolbarButton}
+          >
+            <Icon className="w-4 h-4" />
+          </button>
+        ))}
+        <button
+          type="button"
+          onMouseDown={(e) => e.preventDefault()}
+          onClick={addLink}
+          title="Link"
+          aria-label="Link"
+          className={toolbarButton}
+        >
+          <Link2 className="w-4 h-4" />
+        </button>
+        <select
+          value=""
+          onChange={(e) => run('insertText', `{{${e.target.value}}}`)}
+          aria-label="Insert variable"
+          className="ml-auto px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300"
+        >
+          <option value="">Insert variable…</option>
+          {variableGroups.map(({ source, variables }) => (
+            <optgroup key={source} label={MERGE_SOURCE_LABELS[source]}>
+              {variables.map((variable) => (
+                <option key={variable.key} value={variable.key}>
+                  {variable.label} · {`{{${variable.key}}}`}
+                </option>
+              ))}
+            </optgroup>
+          ))}
+        </select>
+      </div>
+      <div
+        ref={editorRef}
+        contentEditable
+        suppressContentEditableWarning
+        onInput={(e) => onChange(e.currentTarget.innerHTML)}
+        onKeyUp={saveSelection}
+        onMouseUp={saveSelection}
+        onBlur={saveSelection}
+        className={`min-h-[12rem] px-3 py-2 text-sm text-gray-900 dark:text-white bg-white dark:bg-gray-700 rounded-b-lg focus:outline-none ${EMAIL_BODY_CLASSES}`}
+      />
+    </div>
+  );
+};
+
+export default RichTextEditor;
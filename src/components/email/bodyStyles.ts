@@ -0,0 +1,3 @@
+// Tailwind resets list and link styles, so email bodies put them back, in the editor and in previews alike
+export const EMAIL_BODY_CLASSES =
+  '[&_ul]:list-disc [&_ol]:list-decimal [&_ul]:pl-5 [&_ol]:pl-5 [&_a]:text-blue-600 [&_a]:underline [&_p]:mb-2';
@@ -0,0 +1,384 @@
+import React, { useState } from 'react';
+import { AnimatePresence, motion } from 'framer-motion';
+import { Edit, Plus, Trash2, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useEmailTemplateStore } from '../../stores/emailTemplateStore';
+import { useAuthStore } from '../../stores/authStore';
+import { useCRMStore } from '../../stores/crmStore';
+import { mutationErrorMessage } from '../history/undoToast';
+import {
+  ALL_ROLES,
+  EmailTemplate,
+  EmailTemplateInput,
+  MergeContext,
+  STARTER_EMAIL_TEMPLATES,
+  TEMPLATE_CATEGORIES,
+  dealContext,
+  emptyVariables,
+  mergeValues,
+  recipientContext,
+  renderTemplate,
+  templatesByCategory,
+  unknownVariables,
+  validateEmailTemplate,
+} from '../../lib/emailTemplates';
+import { ROLE_LABELS } from '../../lib/users';
+import RichTextEditor from '../email/RichTextEditor';
+import EmailPreview from '../email/EmailPreview';
+
+const inputClassName =
+  'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white';
+
+const labelClassName = 'block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2';
+
+type PreviewType = 'contact' | 'lead' | 'deal';
+
+// `id` is absent while adding a template
+type TemplateDraft = EmailTemplateInput & { id?: string };
+
+const newDraft = (): TemplateDraft => ({
+  name: '',
+  category: TEMPLATE_CATEGORIES[0],
+  subject: '',
+  body: '',
+  visibleTo: [...ALL_ROLES],
+});
+
+const EmailTemplatesPanel: React.FC = () => {
+  const { templates, addTemplates, updateTemplate, deleteTemplate } = useEmailTemplateStore();
+  const user = useAuthStore((state) => state.user);
+  const { contacts, leads, deals } = useCRMStore();
+  const [draft, setDraft] = useState<TemplateDraft | null>(null);
+  const [error, setError] = useState('');
+  const [previewType, setPreviewType] = useState<PreviewType>('contact');
+  const [previewId, setPreviewId] = useState('');
+
+  const categories = [...new Set([...TEMPLATE_CATEGORIES, ...templates.map((template) => template.category)])];
+  const previewRecords = {
+    contact: contacts.filter((contact) => !contact.deletedAt).map((contact) => ({ id: contact.id, label: contact.name })),
+    lead: leads.filter((lead) => !lead.deletedAt).map((lead) => ({ id: lead.id, label: lead.name })),
+    deal: deals.filter((deal) => !deal.deletedAt).map((deal) => ({ id: deal.id, label: deal.title })),
+  }[previewType];
+
+  // The chosen record, or the first of its kind until one is picked
+  const previewContext = (): MergeContext => {
+    const id = previewRecords.some((record) => record.id === previewId) ? previewId : previewRecords[0]?.id;
+    const contact = contacts.find((candidate) => candidate.id === id);
+    const lead = leads.find((candidate) => candidate.id === id);
+    const deal = deals.find((candidate) => candidate.id === id);
+    if (previewType === 'contact' && contact) {
+      return recipientContext('contact', contact, deals, user);
+    }
+    if (previewType === 'lead' && lead) {
+      return recipientContext('lead', lead, deals, user);
+    }
+    if (previewType === 'deal' && deal) {
+      return dealContext(deal, contacts, user);
+    }
+    return { user };
+  };
+
+  const openForm = (template?: EmailTemplate) => {
+    setDraft(
+      template
+        ? {
+            id: template.id,
+            name: template.name,
+            category: template.category,
+            subject: template.subject,
+            body: template.body,
+            visibleTo: [...template.visibleTo],
+          }
+        : newDraft()
+    );
+    setError('');
+  };
+
+  const toggleRole = (role: EmailTemplate['visibleTo'][number]) => {
+    setDraft(
+      (current) =>
+        current && {
+          ...current,
+          visibleTo: current.visibleTo.includes(role)
+            ? current.visibleTo.filter((candidate) => candidate !== role)
+            : [...current.visibleTo, role],
+        }
+    );
+  };
+
+  const handleSave = () => {
+    if (!draft) {
+      return;
+    }
+    const { id, ...fields } = draft;
+    const input = { ...fields, name: fields.name.trim(), category: fields.category.trim() };
+    const invalid = validateEmailTemplate(input);
+    if (invalid) {
+      setError(invalid);
+      return;
+    }
+    try {
+      if (id) {
+        updateTemplate(id, input);
+      } else {
+        addTemplates([input]);
+      }
+      toast.success(id ? 'Template updated' : 'Template added');
+      setDraft(null);
+    } catch (error) {
+      toast.error(mutationErrorMessage(error));
+    }
+  };
+
+  const handleDelete = (template: EmailTemplate) => {
+    if (window.confirm(`Delete the "${template.name}" template? Emails already sent with it are kept.`)) {
+      try {
+        deleteTemplate(template.id);
+        toast.success('Template deleted');
+      } catch (error) {
+        toast.error(mutationErrorMessage(error));
+      }
+    }
+  };
+
+  const handleAddStarters = () => {
+    try {
+      addTemplates(STARTER_EMAIL_TEMPLATES);
+      toast.success(`${STARTER_EMAIL_TEMPLATES.length} templates added`);
+    } catch (error) {
+      toast.error(mutationErrorMessage(error));
+    }
+  };
+
+  const values = draft ? mergeValues(previewContext()) : {};
+  const unknown = draft ? unknownVariables(draft.subject, draft.body) : [];
+  const empty = draft ? emptyVariables(values, draft.subject, draft.body) : [];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-1">
+            Email Templates
+          </h3>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Shared with the whole team. Each template is offered in the email composer to the roles you choose.
+          </p>
+        </div>
+        <button
+          onClick={() => openForm()}
+          className="flex items-center gap-2 bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded-lg font-medium transition-colors"
+        >
+          <Plus className="w-4 h-4" />
+          Add template
+        </button>
+      </div>
+
+      {templatesByCategory(templates).map(([category, categoryTemplates]) => (
+        <div key={category}>
+          <h4 className="text-sm font-medium text-gray-500 dark:text-gray-400 mb-2">{category}</h4>
+          <div className="divide-y divide-gray-200 dark:divide-gray-700 border border-gray-200 dark:border-gray-700 rounded-lg">
+            {categoryTemplates.map((template) => (
+              <div key={template.id} className="flex items-center justify-between gap-4 p-4">
+                <div className="min-w-0">
+                  <h4 className="font-medium text-gray-900 dark:text-white truncate">{template.name}</h4>
+                  <p className="text-sm text-gray-500 dark:text-gray-400 truncate">{template.subject}</p>
+                  <div className="flex flex-wrap gap-1 mt-2">
+                    {template.visibleTo.map((role) => (
+                      <span
+                        key={role}
+                        className="px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300"
+                      >
+                        {ROLE_LABELS[role]}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+                <div className="flex items-center gap-1">
+                  <button
+                    onClick={() => openForm(template)}
+                    className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+                    aria-label={`Edit ${template.name}`}
+                  >
+                    <Edit className="w-4 h-4 text-gray-500" />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(template)}
+                    className="p-2 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors"
+                    aria-label={`Delete ${template.name}`}
+                  >
+                    <Trash2 className="w-4 h-4 text-red-500" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      ))}
+      {templates.length === 0 && (
+        <div className="p-6 text-center border border-gray-200 dark:border-gray-700 rounded-lg">
+          <p className="text-sm text-gray-500 dark:text-gray-400">No templates yet.</p>
+          <button
+            onClick={handleAddStarters}
+            className="mt-3 text-sm text-blue-600 dark:text-blue-400 hover:underline"
+          >
+            Add a few starter templates
+          </button>
+        </div>
+      )}
+
+      <AnimatePresence>
+        {draft && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50"
+          >
+            <motion.div
+              initial={{ opacity: 0, scale: 0.95 }}
+              animate={{ opacity: 1, scale: 1 }}
+              exit={{ opacity: 0, scale: 0.95 }}
+              className="bg-white dark:bg-gray-800 rounded-xl p-6 w-full max-w-5xl max-h-[90vh] overflow-y-auto"
+            >
+              <div className="flex items-center justify-between mb-6">
+                <h2 className="text-xl font-bold text-gray-900 dark:text-white">
+                  {draft.id ? 'Edit Template' : 'Add Template'}
+                </h2>
+                <button
+                  onClick={() => setDraft(null)}
+                  className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+                >
+                  <X className="w-5 h-5 text-gray-500" />
+                </button>
+              </div>
+
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                <div className="space-y-4">
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    <div>
+                      <label className={labelClassName}>Name</label>
+                      <input
+                        value={draft.name}
+                        onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                        className={inputClassName}
+                      />
+                    </div>
+                    <div>
+                      <label className={labelClassName}>Category</label>
+                      <input
+                        value={draft.category}
+                        onChange={(e) => setDraft({ ...draft, category: e.target.value })}
+                        list="email-template-categories"
+                        className={inputClassName}
+                      />
+                      <datalist id="email-template-categories">
+                        {categories.map((category) => (
+                          <option key={category} value={category} />
+                        ))}
+                      </datalist>
+                    </div>
+                  </div>
+                  <div>
+                    <label className={labelClassName}>Visible to</label>
+                    <div className="flex flex-wrap gap-4">
+                      {ALL_ROLES.map((role) => (
+                        <label key={role} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                          <input
+                            type="checkbox"
+                            checked={draft.visibleTo.includes(role)}
+                            onChange={() => toggleRole(role)}
+                            className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                          />
+                          {ROLE_LABELS[role]}
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+                  <div>
+                    <label className={labelClassName}>Subject</label>
+                    <input
+                      value={draft.subject}
+                      onChange={(e) => setDraft({ ...draft, subject: e.target.value })}
+                      className={inputClassName}
+                    />
+                  </div>
+                  <div>
+                    <label className={labelClassName}>Message</label>
+                    <RichTextEditor value={draft.body} onChange={(body) => setDraft({ ...draft, body })} />
+                  </div>
+                  {unknown.length > 0 && (
+                    <p className="text-sm text-red-500">
+                      Unknown variables: {unknown.map((key) => `{{${key}}}`).join(', ')}
+                    </p>
+                  )}
+                </div>
+
+                <div className="space-y-4">
+                  <div>
+                    <label className={labelClassName}>Preview with</label>
+                    <div className="flex gap-2">
+                      <select
+                        value={previewType}
+                        onChange={(e) => {
+                          setPreviewType(e.target.value as PreviewType);
+                          setPreviewId('');
+                        }}
+                        aria-label="Record type"
+                        className={`${inputClassName} !w-32 flex-shrink-0`}
+                      >
+                        <option value="contact">Contact</option>
+                        <option value="lead">Lead</option>
+                        <option value="deal">Deal</option>
+                      </select>
+                      <select
+                        value={previewId}
+                        onChange={(e) => setPreviewId(e.target.value)}
+                        aria-label="Record"
+                        className={inputClassName}
+                      >
+                        {previewRecords.length === 0 && <option value="">No {previewType}s yet</option>}
+                        {previewRecords.map((record) => (
+                          <option key={record.id} value={record.id}>{record.label}</option>
+                        ))}
+                      </select>
+                    </div>
+                  </div>
+                  <EmailPreview
+                    subject={renderTemplate(draft.subject, values)}
+                    html={renderTemplate(draft.body, values, 'html')}
+                  />
+                  {empty.length > 0 && (
+                    <p className="text-sm text-yellow-700 dark:text-yellow-400">
+                      This {previewType} has no value for {empty.map((key) => `{{${key}}}`).join(', ')}.
+                    </p>
+                  )}
+                </div>
+              </div>
+
+              {error && <p className="text-red-500 text-sm mt-4">{error}</p>}
+
+              <div className="flex gap-3 pt-6">
+                <button
+                  type="button"
+                  onClick={() => setDraft(null)}
+                  className="flex-1 px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors text-gray-700 dark:text-gray-300"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleSave}
+                  className="flex-1 bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded-lg font-medium transition-colors"
+                >
+                  {draft.id ? 'Update' : 'Add'}
+                </button>
+              </div>
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
+
+export default EmailTemplatesPanel;
@@ -0,0 +1,145 @@
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { X, Download } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { EXPORT_FORMATS, ExportColumn, ExportFormat, exportRecords } from '../../lib/exporter';
+
+interface ExportModalProps<T> {
+  // Used for the title and the file name, e.g. "leads"
+  name: string;
+  records: T[];
+  columns: ExportColumn<T>[];
+  onClose: () => void;
+}
+
+const ExportModal = <T,>({ name, records, columns, onClose }: ExportModalProps<T>) => {
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('csv');
+  const [selectedKeys, setSelectedKeys] = useState<string[]>(columns.map((column) => column.key));
+
+  const toggleColumn = (key: string) => {
+    setSelectedKeys((current) =>
+      current.includes(key) ? current.filter((selected) => selected !== key) : [...current, key]
+    );
+  };
+
+  const handleExport = () => {
+    try {
+      exportRecords(
+        name,
+        records,
+        columns.filter((column) => selectedKeys.includes(column.key)),
+        exportFormat
+      );
+      toast.success(`Exported ${records.length} ${name}`);
+      onClose();
+    } catch {
+      toast.error('Something went wrong');
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50"
+    >
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        exit={{ opacity: 0, scale: 0.95 }}
+        className="bg-white dark:bg-gray-800 rounded-xl p-6 w-full max-w-md max-h-[90vh] overflow-y-auto"
+      >
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-xl font-bold text-gray-900 dark:text-white">
+            Export {name.charAt(0).toUpperCase() + name.slice(1)}
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5 text-gray-500" />
+          </button>
+        </div>
+
+        <div className="space-y-6">
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            {records.length} {name} in the current view will be exported.
+          </p>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Format
+            </label>
+            <div className="grid grid-cols-3 gap-2">
+              {EXPORT_FORMATS.map((option) => (
+                <button
+                  key={option.id}
+                  onClick={() => setExportFormat(option.id)}
+                  className={`px-3 py-2 border rounded-lg text-sm transition-colors ${
+                    exportFormat === option.id
+                      ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/20 text-blue-600 dark:text-blue-400'
+                      : 'border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300'
+                  }`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <label className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                Columns
+              </label>
+              <button
+                onClick={() =>
+                  setSelectedKeys(
+                    selectedKeys.length === columns.length ? [] : columns.map((column) => column.key)
+                  )
+                }
+                className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+              >
+                {selectedKeys.length === columns.length ? 'Clear all' : 'Select all'}
+              </button>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              {columns.map((column) => (
+                <label key={column.key} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={selectedKeys.includes(column.key)}
+                    onChange={() => toggleColumn(column.key)}
+                    className="w-4 h-4 text-blue-500 rounded"
+                  />
+                  {column.label}
+                </label>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <div className="flex gap-3 pt-6">
+          <button
+            type="button"
+            onClick={onClose}
+            className="flex-1 px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors text-gray-700 dark:text-gray-300"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={selectedKeys.length === 0 || records.length === 0}
+            className="flex-1 flex items-center justify-center gap-2 bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded-lg font-medium disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            <Download className="w-4 h-4" />
+            Export
+          </button>
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+};
+
+export default ExportModal;
@@ -0,0 +1,56 @@
+import toast from 'react-hot-toast';
+import { HistoryConflictError, HistoryStep, useCRMStore } from '../../stores/crmStore';
+import { PermissionError } from '../../lib/permissions';
+import { StageRuleError } from '../../lib/stageRules';
+import { SequenceError } from '../../lib/sequences';
+
+export const showUndoToast = (message: string, onUndo: () => void) =>
+  toast(
+    (t) => (
+      <span className="flex items-center gap-3 text-sm">
+        {message}
+        <button
+          onClick={() => {
+            toast.dismiss(t.id);
+            onUndo();
+          }}
+          className="font-medium text-blue-600 hover:underline"
+        >
+          Undo
+        </button>
+      </span>
+    ),
+    { duration: 8000 }
+  );
+
+export const mutationErrorMessage = (error: unknown) =>
+  error instanceof PermissionError ||
+  error instanceof HistoryConflictError ||
+  error instanceof StageRuleError ||
+  error instanceof SequenceError
+    ? error.message
+    : 'Something went wrong';
+
+// The toast's Undo reverts exactly this step, even if other changes were made after it
+export const showStepUndoToast = (message: string, step: HistoryStep) =>
+  showUndoToast(message, () => {
+    try {
+      useCRMStore.getState().undo(step.id);
+      toast.success('Change undone');
+    } catch (error) {
+      toast.error(mutationErrorMessage(error));
+    }
+  });
+
+// Runs a store mutation and confirms it with an undoable toast. Errors are left to the caller.
+export const withUndoToast = (message: string, mutate: () => void) => {
+  const previous = useCRMStore.getState().undoStack;
+  mutate();
+  const { undoStack } = useCRMStore.getState();
+  if (undoStack === previous || undoStack.length === 0) {
+    // Nothing changed, so there is nothing to undo
+    toast.success(message);
+    return;
+  }
+  showStepUndoToast(message, undoStack[undoStack.length - 1]);
+};
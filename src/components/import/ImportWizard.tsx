@@ -0,0 +1,382 @@
+import React, { useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { X, Upload, FileText, AlertCircle, CheckCircle, Copy, Undo2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { ImportBatch, useCRMStore } from '../../stores/crmStore';
+import { useAuthStore } from '../../stores/authStore';
+import { useSettingsStore } from '../../stores/settingsStore';
+import { PermissionError } from '../../lib/permissions';
+import { detectDelimiter, parseCSV } from '../../lib/csv';
+import {
+  ColumnMapping,
+  IMPORT_FIELDS,
+  ImportEntity,
+  ImportRecord,
+  autoMapColumns,
+  validateImportRows,
+} from '../../lib/importer';
+
+interface ImportWizardProps {
+  entity: ImportEntity;
+  onClose: () => void;
+}
+
+type Step = 'upload' | 'map' | 'review' | 'done';
+
+type RowFilter = 'all' | 'errors' | 'duplicates';
+
+// Rendering every row of a large file would stall the modal; counts still cover all rows
+const PREVIEW_LIMIT = 100;
+
+const ENTITY_LABELS: Record<ImportEntity, string> = {
+  contacts: 'Contacts',
+  leads: 'Leads',
+};
+
+const ImportWizard: React.FC<ImportWizardProps> = ({ entity, onClose }) => {
+  const { contacts, leads, importRecords, undoImport } = useCRMStore();
+  const user = useAuthStore((state) => state.user);
+  const directory = useAuthStore((state) => state.directory);
+  const assignmentStrategy = useSettingsStore((state) => state.assignment.strategy);
+  const [step, setStep] = useState<Step>('upload');
+  const [fileName, setFileName] = useState('');
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [rows, setRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [skipDuplicates, setSkipDuplicates] = useState(true);
+  const [rowFilter, setRowFilter] = useState<RowFilter>('all');
+  const [batch, setBatch] = useState<ImportBatch | null>(null);
+  const [skippedCount, setSkippedCount] = useState(0);
+
+  const fields = IMPORT_FIELDS[entity];
+  const existing = entity === 'contacts' ? contacts : leads;
+  const missingRequired = fields.filter((field) => field.required && mapping[field.key] == null);
+
+  const validated = useMemo(
+    () =>
+      step === 'review'
+        ? validateImportRows(entity, rows, mapping, existing, {
+            // Like leads added by hand, unowned rows go to the assignment strategy if there is one
+            assignedTo: assignmentStrategy === 'manual' ? user?.id ?? '' : '',
+            users: directory,
+          })
+        : [],
+    [step, entity, rows, mapping, existing, user, directory, assignmentStrategy]
+  );
+
+  const invalidCount = validated.filter((row) => row.errors.length > 0).length;
+  const duplicateCount = validated.filter((row) => row.duplicate).length;
+  const importable = validated.filter((row) => row.record && !(skipDuplicates && row.duplicate));
+  const visibleRows = validated.filter((row) =>
+    rowFilter === 'errors' ? row.errors.length > 0 : rowFilter === 'duplicates' ? row.duplicate : true
+  );
+
+  const handleFile = async (file: File) => {
+    const text = await file.text();
+    const parsed = parseCSV(text, detectDelimiter(text));
+    if (parsed.length < 2) {
+      toast.error('The file needs a header row and at least one data row');
+      return;
+    }
+    const [headerRow, ...dataRows] = parsed;
+    setFileName(file.name);
+    setHeaders(headerRow.map((header) => header.trim()));
+    setRows(dataRows);
+    setMapping(autoMapColumns(entity, headerRow));
+    setStep('map');
+  };
+
+  const handleImport = () => {
+    try {
+      const records = importable.map((row) => row.record);
+      const result = entity === 'contacts'
+        ? importRecords('contacts', records as ImportRecord<'contacts'>[])
+        : importRecords('leads', records as ImportRecord<'leads'>[]);
+      setBatch(result);
+      setSkippedCount(validated.length - result.recordIds.length);
+      setStep('done');
+      toast.success(`Imported ${result.recordIds.length} ${entity}`);
+    } catch (error) {
+      toast.error(error instanceof PermissionError ? error.message : 'Something went wrong');
+    }
+  };
+
+  const handleUndo = () => {
+    if (!batch) {
+      return;
+    }
+    try {
+      const removed = undoImport(batch);
+      const kept = batch.recordIds.length - removed;
+      toast.success(
+        kept > 0
+          ? `Removed ${removed} imported ${entity}; ${kept} edited since the import were kept`
+          : `Removed ${removed} imported ${entity}`
+      );
+      onClose();
+    } catch (error) {
+      toast.error(error instanceof PermissionError ? error.message : 'Something went wrong');
+    }
+  };
+
+  const renderUpload = () => (
+    <label className="flex flex-col items-center justify-center gap-3 p-10 border-2 border-dashed border-gray-300 dark:border-gray-600 rounded-lg cursor-pointer hover:border-blue-500 transition-colors">
+      <Upload className="w-10 h-10 text-gray-400" />
+      <span className="text-sm text-gray-700 dark:text-gray-300">
+        Choose a CSV file with a header row
+      </span>
+      <span className="text-xs text-gray-500 dark:text-gray-400">
+        Columns: {fields.map((field) => field.label).join(', ')}
+      </span>
+      <input
+        type="file"
+        accept=".csv,text/csv"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) {
+            handleFile(file);
+          }
+        }}
+      />
+    </label>
+  );
+
+  const renderMapping = () => (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+        <FileText className="w-4 h-4" />
+        {fileName} · {rows.length} row(s)
+      </div>
+      <div className="space-y-3">
+        {fields.map((field) => {
+          const column = mapping[field.key];
+          return (
+            <div key={field.key} className="grid grid-cols-3 gap-3 items-center">
+              <label className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                {field.label}
+                {field.required && <span className="text-red-500"> *</span>}
+              </label>
+              <select
+                value={column ?? ''}
+                onChange={(e) =>
+                  setMapping((current) => ({
+                    ...current,
+                    [field.key]: e.target.value === '' ? null : Number(e.target.value),
+                  }))
+                }
+                className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+              >
+                <option value="">Don't import</option>
+                {headers.map((header, index) => (
+                  <option key={index} value={index}>
+                    {header || `Column ${index + 1}`}
+                  </option>
+                ))}
+              </select>
+              <span className="text-sm text-gray-500 dark:text-gray-400 truncate">
+                {column != null ? rows[0]?.[column] : ''}
+              </span>
+            </div>
+          );
+        })}
+      </div>
+      {entity === 'leads' && (
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          Unmapped lead fields default to status "new", source "Import" and assignment to you.
+        </p>
+      )}
+    </div>
+  );
+
+  const renderReview = () => (
+    <div className="space-y-4">
+      <div className="grid grid-cols-3 gap-3">
+        <div className="p-3 bg-green-50 dark:bg-green-900/20 rounded-lg">
+          <p className="text-xs text-green-700 dark:text-green-400">Valid</p>
+          <p className="text-xl font-bold text-green-700 dark:text-green-400">
+            {validated.length - invalidCount}
+          </p>
+        </div>
+        <div className="p-3 bg-red-50 dark:bg-red-900/20 rounded-lg">
+          <p className="text-xs text-red-700 dark:text-red-400">With errors</p>
+          <p className="text-xl font-bold text-red-700 dark:text-red-400">{invalidCount}</p>
+        </div>
+        <div className="p-3 bg-yellow-50 dark:bg-yellow-900/20 rounded-lg">
+          <p className="text-xs text-yellow-700 dark:text-yellow-400">Duplicates</p>
+          <p className="text-xl font-bold text-yellow-700 dark:text-yellow-400">{duplicateCount}</p>
+        </div>
+      </div>
+
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+        <div className="flex gap-2">
+          {(['all', 'errors', 'duplicates'] as RowFilter[]).map((filter) => (
+            <button
+              key={filter}
+              onClick={() => setRowFilter(filter)}
+              className={`px-3 py-1 rounded-full text-sm transition-colors ${
+                rowFilter === filter
+                  ? 'bg-blue-500 text-white'
+                  : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300'
+              }`}
+            >
+              {filter.charAt(0).toUpperCase() + filter.slice(1)}
+            </button>
+          ))}
+        </div>
+        <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={skipDuplicates}
+            onChange={(e) => setSkipDuplicates(e.target.checked)}
+            className="w-4 h-4 text-blue-500 rounded"
+          />
+          Skip duplicates
+        </label>
+      </div>
+
+      <div className="max-h-80 overflow-y-auto border border-gray-200 dark:border-gray-700 rounded-lg divide-y divide-gray-200 dark:divide-gray-700">
+        {visibleRows.slice(0, PREVIEW_LIMIT).map((row) => (
+          <div key={row.line} className="flex items-start gap-3 p-3 text-sm">
+            <span className="w-12 text-gray-500 dark:text-gray-400">#{row.line}</span>
+            {row.errors.length > 0 ? (
+              <AlertCircle className="w-4 h-4 text-red-500 mt-0.5" />
+            ) : row.duplicate ? (
+              <Copy className="w-4 h-4 text-yellow-500 mt-0.5" />
+            ) : (
+              <CheckCircle className="w-4 h-4 text-green-500 mt-0.5" />
+            )}
+            <div className="flex-1 min-w-0">
+              {row.record ? (
+                <p className="text-gray-900 dark:text-white truncate">
+                  {row.record.name} · {row.record.email}
+                </p>
+              ) : (
+                row.errors.map((error) => (
+                  <p key={error} className="text-red-600 dark:text-red-400">{error}</p>
+                ))
+              )}
+              {row.duplicate && (
+                <p className="text-yellow-700 dark:text-yellow-400">
+                  {row.duplicate.kind === 'existing'
+                    ? `Matches existing ${entity === 'contacts' ? 'contact' : 'lead'} ${row.duplicate.name}`
+                    : `Same email as row #${row.duplicate.line}`}
+                </p>
+              )}
+            </div>
+          </div>
+        ))}
+        {visibleRows.length === 0 && (
+          <p className="p-3 text-sm text-gray-500 dark:text-gray-400">No rows to show.</p>
+        )}
+      </div>
+      {visibleRows.length > PREVIEW_LIMIT && (
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          Showing the first {PREVIEW_LIMIT} of {visibleRows.length} rows.
+        </p>
+      )}
+    </div>
+  );
+
+  const renderDone = () => (
+    <div className="flex flex-col items-center gap-3 py-6 text-center">
+      <CheckCircle className="w-12 h-12 text-green-500" />
+      <p className="text-gray-900 dark:text-white font-medium">
+        {batch?.recordIds.length} {entity} imported
+      </p>
+      <p className="text-sm text-gray-600 dark:text-gray-400">
+        {skippedCount} row(s) were skipped.
+      </p>
+    </div>
+  );
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50"
+    >
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        exit={{ opacity: 0, scale: 0.95 }}
+        className="bg-white dark:bg-gray-800 rounded-xl p-6 w-full max-w-2xl max-h-[90vh] overflow-y-auto"
+      >
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-xl font-bold text-gray-900 dark:text-white">
+            Import {ENTITY_LABELS[entity]}
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5 text-gray-500" />
+          </button>
+        </div>
+
+        {step === 'upload' && renderUpload()}
+        {step === 'map' && renderMapping()}
+        {step === 'review' && renderReview()}
+        {step === 'done' && renderDone()}
+
+        <div className="flex gap-3 pt-6">
+          {step === 'map' && (
+            <>
+              <button
+                onClick={() => setStep('upload')}
+                className="flex-1 px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors text-gray-700 dark:text-gray-300"
+              >
+                Back
+              </button>
+              <button
+                onClick={() => setStep('review')}
+                disabled={missingRequired.length > 0}
+                title={missingRequired.length > 0 ? `Map ${missingRequired.map((field) => field.label).join(', ')}` : undefined}
+                className="flex-1 bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded-lg font-medium disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                Review rows
+              </button>
+            </>
+          )}
+          {step === 'review' && (
+            <>
+              <button
+                onClick={() => setStep('map')}
+                className="flex-1 px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors text-gray-700 dark:text-gray-300"
+              >
+                Back
+              </button>
+              <button
+                onClick={handleImport}
+                disabled={importable.length === 0}
+                className="flex-1 bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded-lg font-medium disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                Import {importable.length} {entity}
+              </button>
+            </>
+          )}
+          {step === 'done' && (
+            <>
+              <button
+                onClick={handleUndo}
+                className="flex-1 flex items-center justify-center gap-2 px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors text-gray-700 dark:text-gray-300"
+              >
+                <Undo2 className="w-4 h-4" />
+                Undo import
+              </button>
+              <button
+                onClick={onClose}
+                className="flex-1 bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded-lg font-medium transition-colors"
+              >
+                Done
+              </button>
+            </>
+          )}
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+};
+
+export default ImportWizard;
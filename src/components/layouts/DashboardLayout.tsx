@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Link, useLocation } from 'react-router-dom';
 import {
@@ -9,16 +9,34 @@ import {
   PieChart,
   CheckSquare,
   BarChart3,
+  LineChart,
   Settings,
+  Trash2,
   Menu,
   X,
   Sun,
   Moon,
   LogOut,
   User,
+  Search,
+  Shuffle,
+  Combine,
+  Repeat,
 } from 'lucide-react';
 import { useAuthStore } from '../../stores/authStore';
 import { useThemeStore } from '../../stores/themeStore';
+import { usePermissions } from '../../hooks/usePermissions';
+import { useUndoShortcuts } from '../../hooks/useUndoShortcuts';
+import { Resource } from '../../lib/permissions';
+import CommandPalette from '../search/CommandPalette';
+import NotificationMenu from '../notifications/NotificationMenu';
+
+interface NavigationItem {
+  name: string;
+  href: string;
+  icon: React.ElementType;
+  resource?: Resource;
+}
 
 interface DashboardLayoutProps {
   children: React.ReactNode;
@@ -27,21 +45,44 @@ interface DashboardLayoutProps {
 const DashboardLayout: React.FC<DashboardLayoutProps> = ({ children }) => {
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
   const [isProfileMenuOpen, setIsProfileMenuOpen] = useState(false);
+  const [isPaletteOpen, setIsPaletteOpen] = useState(false);
   const location = useLocation();
   const { user, logout } = useAuthStore();
   const { isDark, toggleTheme } = useThemeStore();
+  const can = usePermissions();
+  useUndoShortcuts();
 
-  const navigation = [
+  const navigation: NavigationItem[] = [
     { name: 'Dashboard', href: '/dashboard', icon: LayoutDashboard },
-    { name: 'Contacts', href: '/contacts', icon: Users },
-    { name: 'Leads', href: '/leads', icon: Target },
-    { name: 'Pipeline', href: '/pipeline', icon: PieChart },
-    { name: 'Tasks', href: '/tasks', icon: CheckSquare },
-    { name: 'Analytics', href: '/analytics', icon: BarChart3 },
-    { name: 'Settings', href: '/settings', icon: Settings },
+    { name: 'Contacts', href: '/contacts', icon: Users, resource: 'contact' },
+    { name: 'Leads', href: '/leads', icon: Target, resource: 'lead' },
+    { name: 'Pipeline', href: '/pipeline', icon: PieChart, resource: 'deal' },
+    { name: 'Tasks', href: '/tasks', icon: CheckSquare, resource: 'task' },
+    { name: 'Analytics', href: '/analytics', icon: BarChart3, resource: 'analytics' },
+    { name: 'Forecast', href: '/forecast', icon: LineChart, resource: 'analytics' },
+    { name: 'Assignments', href: '/assignments', icon: Shuffle, resource: 'assignment' },
+    { name: 'Duplicates', href: '/duplicates', icon: Combine, resource: 'duplicates' },
+    { name: 'Sequences', href: '/sequences', icon: Repeat, resource: 'sequence' },
+    { name: 'Trash', href: '/trash', icon: Trash2, resource: 'trash' },
+    { name: 'Settings', href: '/settings', icon: Settings, resource: 'settings' },
   ];
 
-  const isCurrentPath = (path: string) => location.pathname === path;
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault();
+        setIsPaletteOpen((open) => !open);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  const visibleNavigation = navigation.filter((item) => !item.resource || can('view', item.resource));
+
+  // Detail pages like /contacts/:id keep their list's nav item highlighted
+  const isCurrentPath = (path: string) =>
+    location.pathname === path || location.pathname.startsWith(`${path}/`);
 
   return (
     <div className="flex h-screen bg-gray-50 dark:bg-gray-900">
@@ -73,7 +114,7 @@ const DashboardLayout: React.FC<DashboardLayoutProps> = ({ children }) => {
 
               {/* Navigation */}
               <nav className="flex-1 px-4 py-6 space-y-1">
-                {navigation.map((item) => {
+                {visibleNavigation.map((item) => {
                   const Icon = item.icon;
                   const current = isCurrentPath(item.href);
                   
@@ -174,11 +215,22 @@ const DashboardLayout: React.FC<DashboardLayoutProps> = ({ children }) => {
                 )}
               </button>
               <h2 className="text-2xl font-bold text-gray-900 dark:text-white capitalize">
-                {location.pathname.replace('/', '') || 'Dashboard'}
+                {location.pathname.split('/')[1] || 'Dashboard'}
               </h2>
             </div>
 
             <div className="flex items-center gap-4">
+              <button
+                onClick={() => setIsPaletteOpen(true)}
+                className="flex items-center gap-2 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-sm text-gray-500 dark:text-gray-400 hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
+              >
+                <Search className="w-4 h-4" />
+                <span className="hidden sm:inline">Search...</span>
+                <kbd className="hidden sm:inline text-xs border border-gray-200 dark:border-gray-600 rounded px-1.5">
+                  {navigator.platform.toLowerCase().includes('mac') ? '⌘K' : 'Ctrl K'}
+                </kbd>
+              </button>
+              <NotificationMenu />
               <button
                 onClick={toggleTheme}
                 className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
@@ -206,6 +258,10 @@ const DashboardLayout: React.FC<DashboardLayoutProps> = ({ children }) => {
           </motion.div>
         </main>
       </div>
+
+      <AnimatePresence>
+        {isPaletteOpen && <CommandPalette onClose={() => setIsPaletteOpen(false)} />}
+      </AnimatePresence>
     </div>
   );
 };
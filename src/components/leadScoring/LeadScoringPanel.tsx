@@ -0,0 +1,246 @@
+import React from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { useSettingsStore } from '../../stores/settingsStore';
+import { useCRMStore } from '../../stores/crmStore';
+import { LEAD_SOURCES } from '../../lib/assignment';
+import {
+  COMPANY_SIZES,
+  DEFAULT_LEAD_SCORING,
+  MIN_TRAINING_SAMPLE,
+  ScoringModel,
+  ScoringRules,
+  trainScoringModel,
+} from '../../lib/leadScoring';
+
+const inputClassName =
+  'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white';
+
+const pointsInput = (value: number, onChange: (points: number) => void, label: string) => (
+  <input
+    type="number"
+    value={value}
+    onChange={(e) => onChange(Math.round(Number(e.target.value)) || 0)}
+    aria-label={label}
+    className={`${inputClassName} !w-24`}
+  />
+);
+
+const LeadScoringPanel: React.FC = () => {
+  const { leadScoring, setLeadScoring } = useSettingsStore();
+  const leads = useCRMStore((state) => state.leads);
+  const tasks = useCRMStore((state) => state.tasks);
+  const { rules } = leadScoring;
+
+  const sources = [...new Set([...LEAD_SOURCES, ...Object.keys(rules.sources), ...leads.map((lead) => lead.source)])].sort();
+  const closed = leads.filter((lead) => lead.status === 'converted' || lead.status === 'lost').length;
+  const trained = trainScoringModel(leads, tasks, rules);
+  // What a lead topping every factor would score before the cap at 100
+  const best = (points: number[]) => Math.max(0, ...points);
+  const maxScore =
+    best(Object.values(rules.sources)) +
+    best(rules.valueBands.map((band) => band.points)) +
+    best(Object.values(rules.companySizes)) +
+    best(rules.recency.map((band) => band.points)) +
+    Math.max(0, rules.taskMax);
+
+  const updateRules = (updates: Partial<ScoringRules>) => {
+    setLeadScoring({ rules: { ...rules, ...updates } });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-1">
+          Lead Scoring
+        </h3>
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Every lead gets a score from 0 to 100, shown on its card with the factors behind it.
+        </p>
+      </div>
+
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 p-4 bg-gray-50 dark:bg-gray-700/50 rounded-lg">
+        <div>
+          <label htmlFor="scoring-model" className="block font-medium text-gray-900 dark:text-white">
+            Scoring model
+          </label>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            The trained model learns from converted and lost leads and needs {MIN_TRAINING_SAMPLE} of them, with at least
+            one of each; until then the rules below are used.{' '}
+            {trained
+              ? `Trained on ${trained.converted} converted and ${trained.lost} lost leads.`
+              : `${closed} closed so far.`}
+          </p>
+        </div>
+        <select
+          id="scoring-model"
+          value={leadScoring.model}
+          onChange={(e) => setLeadScoring({ model: e.target.value as ScoringModel })}
+          className={`${inputClassName} sm:!w-56 flex-shrink-0`}
+        >
+          <option value="rules">Rules</option>
+          <option value="trained">Trained on past leads</option>
+        </select>
+      </div>
+
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Points each factor adds. A lead topping every factor scores {maxScore}
+          {maxScore > 100 && ', capped at 100'}.
+        </p>
+        <button
+          onClick={() => updateRules(DEFAULT_LEAD_SCORING.rules)}
+          className="text-sm text-blue-600 dark:text-blue-400 hover:underline whitespace-nowrap"
+        >
+          Reset to defaults
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="p-4 border border-gray-200 dark:border-gray-700 rounded-lg">
+          <h4 className="font-medium text-gray-900 dark:text-white mb-3">Source</h4>
+          <div className="space-y-2">
+            {sources.map((source) => (
+              <div key={source} className="flex items-center justify-between gap-4">
+                <span className="text-sm text-gray-700 dark:text-gray-300">{source}</span>
+                {pointsInput(
+                  rules.sources[source] ?? 0,
+                  (points) => updateRules({ sources: { ...rules.sources, [source]: points } }),
+                  `Points for ${source}`
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="p-4 border border-gray-200 dark:border-gray-700 rounded-lg">
+          <h4 className="font-medium text-gray-900 dark:text-white mb-3">Company size</h4>
+          <div className="space-y-2">
+            {COMPANY_SIZES.map((size) => (
+              <div key={size} className="flex items-center justify-between gap-4">
+                <span className="text-sm text-gray-700 dark:text-gray-300">{size} employees</span>
+                {pointsInput(
+                  rules.companySizes[size] ?? 0,
+                  (points) => updateRules({ companySizes: { ...rules.companySizes, [size]: points } }),
+                  `Points for ${size} employees`
+                )}
+              </div>
+            ))}
+          </div>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mt-3">Leads without a size score nothing here.</p>
+        </div>
+
+        <div className="p-4 border border-gray-200 dark:border-gray-700 rounded-lg">
+          <h4 className="font-medium text-gray-900 dark:text-white mb-1">Value</h4>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mb-3">The highest band the lead's value reaches applies.</p>
+          <div className="space-y-2">
+            {rules.valueBands.map((band, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <span className="text-sm text-gray-700 dark:text-gray-300">$</span>
+                <input
+                  type="number"
+                  min="0"
+                  value={band.min}
+                  onChange={(e) =>
+                    updateRules({
+                      valueBands: rules.valueBands.map((existing, i) =>
+                        i === index ? { ...existing, min: Math.max(0, Number(e.target.value) || 0) } : existing
+                      ),
+                    })
+                  }
+                  aria-label="Minimum value"
+                  className={inputClassName}
+                />
+                <span className="text-sm text-gray-700 dark:text-gray-300 whitespace-nowrap">or more</span>
+                {pointsInput(
+                  band.points,
+                  (points) =>
+                    updateRules({
+                      valueBands: rules.valueBands.map((existing, i) => (i === index ? { ...existing, points } : existing)),
+                    }),
+                  'Points'
+                )}
+                <button
+                  onClick={() => updateRules({ valueBands: rules.valueBands.filter((_, i) => i !== index) })}
+                  className="p-2 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors"
+                  aria-label="Remove band"
+                >
+                  <Trash2 className="w-4 h-4 text-red-500" />
+                </button>
+              </div>
+            ))}
+          </div>
+          <button
+            onClick={() => updateRules({ valueBands: [...rules.valueBands, { min: 0, points: 0 }] })}
+            className="flex items-center gap-2 mt-3 text-sm text-blue-600 dark:text-blue-400 hover:underline"
+          >
+            <Plus className="w-4 h-4" />
+            Add band
+          </button>
+        </div>
+
+        <div className="p-4 border border-gray-200 dark:border-gray-700 rounded-lg">
+          <h4 className="font-medium text-gray-900 dark:text-white mb-1">Recent activity</h4>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mb-3">
+            By how long ago the lead was last updated; the shortest band that covers it applies.
+          </p>
+          <div className="space-y-2">
+            {rules.recency.map((band, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <span className="text-sm text-gray-700 dark:text-gray-300 whitespace-nowrap">Within</span>
+                <input
+                  type="number"
+                  min="0"
+                  value={band.days}
+                  onChange={(e) =>
+                    updateRules({
+                      recency: rules.recency.map((existing, i) =>
+                        i === index ? { ...existing, days: Math.max(0, Math.round(Number(e.target.value)) || 0) } : existing
+                      ),
+                    })
+                  }
+                  aria-label="Days"
+                  className={inputClassName}
+                />
+                <span className="text-sm text-gray-700 dark:text-gray-300">days</span>
+                {pointsInput(
+                  band.points,
+                  (points) =>
+                    updateRules({
+                      recency: rules.recency.map((existing, i) => (i === index ? { ...existing, points } : existing)),
+                    }),
+                  'Points'
+                )}
+                <button
+                  onClick={() => updateRules({ recency: rules.recency.filter((_, i) => i !== index) })}
+                  className="p-2 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors"
+                  aria-label="Remove band"
+                >
+                  <Trash2 className="w-4 h-4 text-red-500" />
+                </button>
+              </div>
+            ))}
+          </div>
+          <button
+            onClick={() => updateRules({ recency: [...rules.recency, { days: 90, points: 0 }] })}
+            className="flex items-center gap-2 mt-3 text-sm text-blue-600 dark:text-blue-400 hover:underline"
+          >
+            <Plus className="w-4 h-4" />
+            Add band
+          </button>
+        </div>
+
+        <div className="p-4 border border-gray-200 dark:border-gray-700 rounded-lg lg:col-span-2">
+          <h4 className="font-medium text-gray-900 dark:text-white mb-3">Completed tasks</h4>
+          <div className="flex flex-wrap items-center gap-3 text-sm text-gray-700 dark:text-gray-300">
+            {pointsInput(rules.taskPoints, (points) => updateRules({ taskPoints: points }), 'Points per completed task')}
+            points per completed task related to the lead, up to
+            {pointsInput(rules.taskMax, (points) => updateRules({ taskMax: points }), 'Most points from tasks')}
+            in total
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LeadScoringPanel;
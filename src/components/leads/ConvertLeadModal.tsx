@@ -0,0 +1,166 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { X, UserCheck, Briefcase, CheckSquare, AlertCircle } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { Lead, findContactByEmail, useCRMStore } from '../../stores/crmStore';
+import { useSettingsStore } from '../../stores/settingsStore';
+import { getPipeline } from '../../lib/pipelines';
+import { StageRuleError } from '../../lib/stageRules';
+
+interface ConvertLeadModalProps {
+  lead: Lead;
+  onClose: () => void;
+}
+
+const ConvertLeadModal: React.FC<ConvertLeadModalProps> = ({ lead, onClose }) => {
+  const { contacts, tasks, convertLead } = useCRMStore();
+  const [createDeal, setCreateDeal] = useState(true);
+  const [dealTitle, setDealTitle] = useState(`${lead.company} - ${lead.name}`);
+  // Why the deal can't open in the first stage, e.g. the stage is full or needs fields the lead lacks
+  const [stageError, setStageError] = useState<string | null>(null);
+  const firstStage = getPipeline(useSettingsStore((state) => state.pipelines)).stages[0];
+
+  const matchingContact = findContactByEmail(contacts, lead.email);
+  const openTaskCount = tasks.filter(
+    (task) => task.relatedTo?.type === 'lead' && task.relatedTo.id === lead.id && task.status !== 'completed'
+  ).length;
+
+  const handleConvert = () => {
+    try {
+      const result = convertLead(lead.id, { createDeal, dealTitle });
+      const parts = [
+        result.contactCreated ? 'contact created' : `linked to ${result.contact.name}`,
+        result.deal && 'deal opened',
+        result.movedTaskIds.length > 0 && `${result.movedTaskIds.length} task(s) moved`,
+      ].filter(Boolean);
+      toast.success(`Lead converted: ${parts.join(', ')}`);
+      onClose();
+    } catch (error) {
+      if (error instanceof StageRuleError) {
+        setStageError(error.message);
+        return;
+      }
+      toast.error(error instanceof Error ? error.message : 'Something went wrong');
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50"
+    >
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        exit={{ opacity: 0, scale: 0.95 }}
+        className="bg-white dark:bg-gray-800 rounded-xl p-6 w-full max-w-md max-h-[90vh] overflow-y-auto"
+      >
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-xl font-bold text-gray-900 dark:text-white">
+            Convert Lead
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5 text-gray-500" />
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          <div className="flex items-start gap-3 p-4 bg-gray-50 dark:bg-gray-700 rounded-lg">
+            <UserCheck className="w-5 h-5 text-blue-500 mt-0.5" />
+            <div className="text-sm">
+              {matchingContact ? (
+                <>
+                  <p className="font-medium text-gray-900 dark:text-white">
+                    Link to existing contact
+                  </p>
+                  <p className="text-gray-600 dark:text-gray-400">
+                    {matchingContact.name} ({matchingContact.email}) already exists and will be reused.
+                  </p>
+                </>
+              ) : (
+                <>
+                  <p className="font-medium text-gray-900 dark:text-white">
+                    Create contact
+                  </p>
+                  <p className="text-gray-600 dark:text-gray-400">
+                    {lead.name} at {lead.company} will be added to your contacts.
+                  </p>
+                </>
+              )}
+            </div>
+          </div>
+
+          <div className="p-4 border border-gray-200 dark:border-gray-700 rounded-lg space-y-3">
+            <label className="flex items-center gap-3 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={createDeal}
+                onChange={(e) => {
+                  setCreateDeal(e.target.checked);
+                  setStageError(null);
+                }}
+                className="w-4 h-4 text-blue-500 rounded"
+              />
+              <Briefcase className="w-5 h-5 text-green-500" />
+              <span className="text-sm font-medium text-gray-900 dark:text-white">
+                Open a deal in {firstStage.title} (${lead.value.toLocaleString()})
+              </span>
+            </label>
+            {createDeal && (
+              <input
+                value={dealTitle}
+                onChange={(e) => setDealTitle(e.target.value)}
+                placeholder="Deal title"
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+              />
+            )}
+          </div>
+
+          <div className="flex items-center gap-3 text-sm text-gray-600 dark:text-gray-400">
+            <CheckSquare className="w-5 h-5 text-purple-500" />
+            {openTaskCount > 0
+              ? `${openTaskCount} open task(s) will move to the new ${createDeal ? 'deal' : 'contact'}.`
+              : 'No open tasks are linked to this lead.'}
+          </div>
+
+          {stageError && createDeal && (
+            <div className="flex items-center gap-3 text-sm text-red-600 dark:text-red-400">
+              <AlertCircle className="w-5 h-5 flex-shrink-0" />
+              {stageError}. Convert without a deal, or fix the lead first.
+            </div>
+          )}
+
+          {lead.value <= 0 && createDeal && (
+            <div className="flex items-center gap-3 text-sm text-yellow-700 dark:text-yellow-400">
+              <AlertCircle className="w-5 h-5" />
+              This lead has no value; the deal will start at $0.
+            </div>
+          )}
+        </div>
+
+        <div className="flex gap-3 pt-6">
+          <button
+            type="button"
+            onClick={onClose}
+            className="flex-1 px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors text-gray-700 dark:text-gray-300"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleConvert}
+            className="flex-1 bg-green-500 hover:bg-green-600 text-white px-4 py-2 rounded-lg font-medium transition-colors"
+          >
+            Convert
+          </button>
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+};
+
+export default ConvertLeadModal;
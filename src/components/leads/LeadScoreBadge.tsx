@@ -0,0 +1,80 @@
+import React, { useState } from 'react';
+import { AnimatePresence, motion } from 'framer-motion';
+import { Gauge } from 'lucide-react';
+import { LeadScore, scoreColor } from '../../lib/leadScoring';
+
+interface LeadScoreBadgeProps {
+  score: LeadScore;
+}
+
+// A lead's score, opening the factors behind it on click
+const LeadScoreBadge: React.FC<LeadScoreBadgeProps> = ({ score }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`flex items-center gap-1 px-2 py-1 rounded-full text-xs font-medium ${scoreColor(score.score)}`}
+        aria-label={`Score ${score.score}, show breakdown`}
+      >
+        <Gauge className="w-3.5 h-3.5" />
+        {score.score}
+      </button>
+
+      <AnimatePresence>
+        {isOpen && (
+          <>
+            <div className="fixed inset-0 z-40" onClick={() => setIsOpen(false)} />
+            <motion.div
+              initial={{ opacity: 0, y: -10 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, y: -10 }}
+              className="absolute right-0 top-full mt-2 z-50 w-72 bg-white dark:bg-gray-800 rounded-lg shadow-lg border border-gray-200 dark:border-gray-700"
+            >
+              <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200 dark:border-gray-700">
+                <h3 className="font-semibold text-gray-900 dark:text-white">Score {score.score}</h3>
+                <span className="text-xs text-gray-500 dark:text-gray-400">
+                  {score.model === 'trained' ? 'Trained on past leads' : 'From scoring rules'}
+                </span>
+              </div>
+              <div className="divide-y divide-gray-200 dark:divide-gray-700">
+                {score.baseline && (
+                  <div className="flex items-center justify-between gap-3 px-4 py-2">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-gray-900 dark:text-white">Baseline</p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400 truncate">{score.baseline.detail}</p>
+                    </div>
+                    <span className="text-sm font-medium text-gray-900 dark:text-white">{score.baseline.score}</span>
+                  </div>
+                )}
+                {score.factors.map((factor) => (
+                  <div key={factor.label} className="flex items-center justify-between gap-3 px-4 py-2">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-gray-900 dark:text-white">{factor.label}</p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400 truncate">{factor.detail}</p>
+                    </div>
+                    <span
+                      className={`text-sm font-medium ${
+                        factor.points > 0 ? 'text-green-600' : factor.points < 0 ? 'text-red-600' : 'text-gray-500 dark:text-gray-400'
+                      }`}
+                    >
+                      {factor.points > 0 ? `+${factor.points}` : factor.points}
+                    </span>
+                  </div>
+                ))}
+              </div>
+              {score.baseline && (
+                <p className="px-4 py-2 text-xs text-gray-500 dark:text-gray-400 border-t border-gray-200 dark:border-gray-700">
+                  Each factor shows how far it moves the baseline on its own.
+                </p>
+              )}
+            </motion.div>
+          </>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
+
+export default LeadScoreBadge;
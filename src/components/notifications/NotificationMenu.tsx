@@ -0,0 +1,100 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { AnimatePresence, motion } from 'framer-motion';
+import { Bell } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { useAuthStore } from '../../stores/authStore';
+import { useNotificationStore } from '../../stores/notificationStore';
+import { Notification } from '../../lib/notifications';
+
+const VISIBLE_COUNT = 20;
+
+// Header bell listing the signed-in user's notifications, newest first
+const NotificationMenu: React.FC = () => {
+  const [isOpen, setIsOpen] = useState(false);
+  const navigate = useNavigate();
+  const user = useAuthStore((state) => state.user);
+  const { notifications, markRead } = useNotificationStore();
+
+  const mine = notifications
+    .filter((notification) => notification.recipient === user?.id)
+    .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+  const unread = mine.filter((notification) => !notification.read);
+
+  const handleOpen = (notification: Notification) => {
+    markRead([notification.id]);
+    setIsOpen(false);
+    if (notification.link) {
+      navigate(notification.link);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="relative p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+        aria-label={unread.length > 0 ? `${unread.length} unread notifications` : 'Notifications'}
+      >
+        <Bell className="w-5 h-5 text-gray-600 dark:text-gray-400" />
+        {unread.length > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-[1.125rem] h-[1.125rem] px-1 rounded-full bg-red-500 text-white text-[10px] font-semibold flex items-center justify-center">
+            {unread.length > 9 ? '9+' : unread.length}
+          </span>
+        )}
+      </button>
+
+      <AnimatePresence>
+        {isOpen && (
+          <>
+            <div className="fixed inset-0 z-40" onClick={() => setIsOpen(false)} />
+            <motion.div
+              initial={{ opacity: 0, y: -10 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, y: -10 }}
+              className="absolute right-0 top-full mt-2 z-50 w-80 bg-white dark:bg-gray-800 rounded-lg shadow-lg border border-gray-200 dark:border-gray-700"
+            >
+              <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200 dark:border-gray-700">
+                <h3 className="font-semibold text-gray-900 dark:text-white">Notifications</h3>
+                {unread.length > 0 && (
+                  <button
+                    onClick={() => markRead(unread.map((notification) => notification.id))}
+                    className="text-xs text-blue-600 dark:text-blue-400 hover:underline"
+                  >
+                    Mark all read
+                  </button>
+                )}
+              </div>
+              <div className="max-h-96 overflow-y-auto divide-y divide-gray-200 dark:divide-gray-700">
+                {mine.slice(0, VISIBLE_COUNT).map((notification) => (
+                  <button
+                    key={notification.id}
+                    onClick={() => handleOpen(notification)}
+                    className="flex items-start gap-3 w-full px-4 py-3 text-left hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
+                  >
+                    <span
+                      className={`w-2 h-2 mt-1.5 rounded-full flex-shrink-0 ${notification.read ? 'bg-transparent' : 'bg-blue-500'}`}
+                    />
+                    <span className="min-w-0">
+                      <span className="block text-sm text-gray-900 dark:text-white">{notification.message}</span>
+                      <span className="block text-xs text-gray-500 dark:text-gray-400">
+                        {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true })}
+                      </span>
+                    </span>
+                  </button>
+                ))}
+                {mine.length === 0 && (
+                  <p className="px-4 py-6 text-sm text-center text-gray-500 dark:text-gray-400">
+                    You're all caught up.
+                  </p>
+                )}
+              </div>
+            </motion.div>
+          </>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
+
+export default NotificationMenu;
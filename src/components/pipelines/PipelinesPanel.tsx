@@ -0,0 +1,598 @@
+import React, { useState } from 'react';
+import { AnimatePresence, motion } from 'framer-motion';
+import { ArrowDown, ArrowUp, Edit, Plus, Trash2, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useSettingsStore } from '../../stores/settingsStore';
+import { Deal, useCRMStore } from '../../stores/crmStore';
+import { PermissionError } from '../../lib/permissions';
+import { useStageWinRates } from '../../hooks/useStageWinRates';
+import { useCustomFields } from '../../hooks/useCustomFields';
+import {
+  BUILT_IN_REQUIREMENTS,
+  StageRequirement,
+  customFieldRequirement,
+  requirementLabel,
+} from '../../lib/stageRules';
+import {
+  MIN_WIN_RATE_SAMPLE,
+  Pipeline,
+  PipelineStage,
+  ProbabilityModel,
+  STAGE_COLORS,
+  STAGE_OUTCOMES,
+  StageColor,
+  StageOutcome,
+  WIP_MODES,
+  WipMode,
+  dealOutcome,
+  dealPipeline,
+  getDealStage,
+  getPipeline,
+  matchingStage,
+  stageColor,
+  stageProbability,
+  validatePipeline,
+} from '../../lib/pipelines';
+
+const inputClassName =
+  'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white';
+
+const newStage = (title = '', outcome: StageOutcome = 'open'): PipelineStage => ({
+  id: crypto.randomUUID(),
+  title,
+  color: outcome === 'won' ? 'green' : outcome === 'lost' ? 'red' : 'blue',
+  probability: outcome === 'won' ? 100 : outcome === 'lost' ? 0 : 10,
+  outcome,
+});
+
+const newPipeline = (): Pipeline => ({
+  id: crypto.randomUUID(),
+  name: '',
+  stages: [newStage('New'), newStage('Won', 'won'), newStage('Lost', 'lost')],
+});
+
+const PipelinesPanel: React.FC = () => {
+  const { pipelines, savePipeline, removePipeline, probabilityModel, setProbabilityModel, lossReasons, setLossReasons } =
+    useSettingsStore();
+  const deals = useCRMStore((state) => state.deals);
+  const customFields = useCustomFields('deal');
+  const requirementOptions = [
+    ...BUILT_IN_REQUIREMENTS,
+    ...customFields.map((field) => ({ id: customFieldRequirement(field), label: field.label })),
+  ];
+  const learnedRates = useStageWinRates();
+  const winRates = probabilityModel === 'historical' ? learnedRates : undefined;
+  // `null` while closed; a copy of the pipeline being edited otherwise
+  const [draft, setDraft] = useState<Pipeline | null>(null);
+  const [error, setError] = useState('');
+  const [deleting, setDeleting] = useState<Pipeline | null>(null);
+  const [deleteTargetId, setDeleteTargetId] = useState('');
+  // Edited as text so blank lines can be typed; cleaned up on blur
+  const [lossReasonsText, setLossReasonsText] = useState(lossReasons.join('\n'));
+
+  const isNew = draft !== null && !pipelines.some((pipeline) => pipeline.id === draft.id);
+  const dealsIn = (pipeline: Pipeline) => deals.filter((deal) => dealPipeline(pipelines, deal).id === pipeline.id);
+
+  // Deals whose stage is missing from the draft; on save they move to the matching stage
+  const orphanedDeals = draft
+    ? dealsIn(draft).filter((deal) => !draft.stages.some((stage) => stage.id === deal.stage))
+    : [];
+
+  const openForm = (pipeline?: Pipeline) => {
+    setDraft(pipeline ? { ...pipeline, stages: pipeline.stages.map((stage) => ({ ...stage })) } : newPipeline());
+    setError('');
+  };
+
+  const updateStage = (index: number, updates: Partial<PipelineStage>) => {
+    setDraft((current) =>
+      current && {
+        ...current,
+        stages: current.stages.map((stage, position) => (position === index ? { ...stage, ...updates } : stage)),
+      }
+    );
+  };
+
+  const moveStage = (index: number, offset: number) => {
+    setDraft((current) => {
+      if (!current) {
+        return current;
+      }
+      const stages = [...current.stages];
+      [stages[index], stages[index + offset]] = [stages[index + offset], stages[index]];
+      return { ...current, stages };
+    });
+  };
+
+  const toggleRequirement = (index: number, requirement: StageRequirement) => {
+    const requirements = draft?.stages[index].requirements ?? [];
+    updateStage(index, {
+      requirements: requirements.includes(requirement)
+        ? requirements.filter((existing) => existing !== requirement)
+        : [...requirements, requirement],
+    });
+  };
+
+  const handleLossReasonsBlur = () => {
+    const reasons = [...new Set(lossReasonsText.split('\n').map((reason) => reason.trim()).filter(Boolean))];
+    setLossReasons(reasons);
+    setLossReasonsText(reasons.join('\n'));
+  };
+
+  const removeStage = (index: number) => {
+    setDraft((current) => current && { ...current, stages: current.stages.filter((_, position) => position !== index) });
+  };
+
+  const moveDeals = (moving: Deal[], to: Pipeline) => {
+    if (moving.length === 0) {
+      return;
+    }
+    useCRMStore.getState().updateMany('deals', moving.map((deal) => deal.id), (deal) => {
+      const stage = matchingStage(to, getDealStage(pipelines, deal));
+      return {
+        pipelineId: to.id,
+        stage: stage.id,
+        probability: deal.probabilityOverridden ? deal.probability : stageProbability(stage, winRates),
+      };
+    });
+  };
+
+  // Open deals whose probability wasn't set by hand, but no longer matches their stage
+  const staleDeals = deals.filter(
+    (deal) =>
+      !deal.probabilityOverridden &&
+      dealOutcome(pipelines, deal) === 'open' &&
+      deal.probability !== stageProbability(getDealStage(pipelines, deal), winRates)
+  );
+
+  const handleApplyProbabilities = () => {
+    try {
+      const count = useCRMStore.getState().updateMany('deals', staleDeals.map((deal) => deal.id), (deal) => ({
+        probability: stageProbability(getDealStage(pipelines, deal), winRates),
+      }));
+      toast.success(`Updated ${count} deal${count === 1 ? '' : 's'}`);
+    } catch (error) {
+      toast.error(error instanceof PermissionError ? error.message : 'Something went wrong');
+    }
+  };
+
+  const handleSave = () => {
+    if (!draft) {
+      return;
+    }
+    const pipeline = {
+      ...draft,
+      name: draft.name.trim(),
+      stages: draft.stages.map((stage) => ({ ...stage, title: stage.title.trim() })),
+    };
+    const invalid = validatePipeline(pipeline);
+    if (invalid) {
+      setError(invalid);
+      return;
+    }
+    if (pipelines.some((existing) => existing.id !== pipeline.id && existing.name.toLowerCase() === pipeline.name.toLowerCase())) {
+      setError(`There is already a pipeline called "${pipeline.name}"`);
+      return;
+    }
+
+    try {
+      // Deals are moved before the stages disappear so none is left without a column
+      moveDeals(orphanedDeals, pipeline);
+      savePipeline(pipeline);
+      toast.success(isNew ? 'Pipeline added' : 'Pipeline updated');
+      setDraft(null);
+    } catch (error) {
+      toast.error(error instanceof PermissionError ? error.message : 'Something went wrong');
+    }
+  };
+
+  const openDelete = (pipeline: Pipeline) => {
+    setDeleting(pipeline);
+    setDeleteTargetId(pipelines.find((other) => other.id !== pipeline.id)?.id ?? '');
+  };
+
+  const handleDelete = () => {
+    if (!deleting) {
+      return;
+    }
+    try {
+      moveDeals(dealsIn(deleting), getPipeline(pipelines, deleteTargetId));
+      removePipeline(deleting.id);
+      toast.success('Pipeline deleted');
+      setDeleting(null);
+    } catch (error) {
+      toast.error(error instanceof PermissionError ? error.message : 'Something went wrong');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-1">
+            Pipelines
+          </h3>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            The stages deals move through, with each stage's default win probability.
+          </p>
+        </div>
+        <button
+          onClick={() => openForm()}
+          className="flex items-center gap-2 bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded-lg font-medium transition-colors"
+        >
+          <Plus className="w-4 h-4" />
+          Add pipeline
+        </button>
+      </div>
+
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 p-4 bg-gray-50 dark:bg-gray-700/50 rounded-lg">
+        <div>
+          <label htmlFor="probability-model" className="block font-medium text-gray-900 dark:text-white">
+            Deal probability
+          </label>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Set when a deal enters a stage, unless it was entered by hand. Learned rates need {MIN_WIN_RATE_SAMPLE} closed
+            deals through a stage; until then its default is used.
+          </p>
+        </div>
+        <div className="flex items-center gap-2 flex-shrink-0">
+          <select
+            id="probability-model"
+            value={probabilityModel}
+            onChange={(e) => setProbabilityModel(e.target.value as ProbabilityModel)}
+            className={`${inputClassName} !w-auto`}
+          >
+            <option value="stage">Stage defaults</option>
+            <option value="historical">Learned win rates</option>
+          </select>
+          <button
+            onClick={handleApplyProbabilities}
+            disabled={staleDeals.length === 0}
+            className="px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors text-gray-700 dark:text-gray-300 whitespace-nowrap disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Update {staleDeals.length} open deal{staleDeals.length === 1 ? '' : 's'}
+          </button>
+        </div>
+      </div>
+
+      <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4 p-4 bg-gray-50 dark:bg-gray-700/50 rounded-lg">
+        <div>
+          <label htmlFor="loss-reasons" className="block font-medium text-gray-900 dark:text-white">
+            Loss reasons
+          </label>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Offered when a deal is lost, one per line. Reasons already recorded on deals are kept.
+          </p>
+        </div>
+        <textarea
+          id="loss-reasons"
+          rows={4}
+          value={lossReasonsText}
+          onChange={(e) => setLossReasonsText(e.target.value)}
+          onBlur={handleLossReasonsBlur}
+          className={`${inputClassName} sm:!w-64 flex-shrink-0`}
+        />
+      </div>
+
+      <div className="divide-y divide-gray-200 dark:divide-gray-700 border border-gray-200 dark:border-gray-700 rounded-lg">
+        {pipelines.map((pipeline, index) => (
+          <div key={pipeline.id} className="flex items-center justify-between gap-4 p-4">
+            <div className="min-w-0">
+              <div className="flex items-center gap-2">
+                <h4 className="font-medium text-gray-900 dark:text-white truncate">{pipeline.name}</h4>
+                {index === 0 && (
+                  <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800 dark:bg-blue-900/20 dark:text-blue-400">
+                    Default
+                  </span>
+                )}
+                <span className="text-sm text-gray-500 dark:text-gray-400">
+                  {dealsIn(pipeline).length} deals
+                </span>
+              </div>
+              <div className="flex items-center gap-3 mt-1 flex-wrap">
+                {pipeline.stages.map((stage) => (
+                  <span key={stage.id} className="flex items-center gap-1 text-sm text-gray-500 dark:text-gray-400">
+                    <span className={`w-2 h-2 rounded-full ${stageColor(stage).className}`}></span>
+                    {stage.title} ({stage.probability}%
+                    {stage.outcome === 'open' && learnedRates[stage.id] !== undefined && `, won ${learnedRates[stage.id]}%`}
+                    {stage.wipLimit !== undefined && `, max ${stage.wipLimit}`})
+                  </span>
+                ))}
+              </div>
+              {pipeline.stages.some((stage) => stage.requirements?.length) && (
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                  {pipeline.stages
+                    .filter((stage) => stage.requirements?.length)
+                    .map(
+                      (stage) =>
+                        `${stage.title} needs ${stage.requirements!.map((requirement) => requirementLabel(requirement, customFields)).join(', ')}`
+                    )
+                    .join(' · ')}
+                </p>
+              )}
+            </div>
+            <div className="flex items-center gap-1">
+              <button
+                onClick={() => openForm(pipeline)}
+                className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+                aria-label={`Edit ${pipeline.name}`}
+              >
+                <Edit className="w-4 h-4 text-gray-500" />
+              </button>
+              <button
+                onClick={() => openDelete(pipeline)}
+                disabled={pipelines.length === 1}
+                className="p-2 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                aria-label={`Delete ${pipeline.name}`}
+                title={pipelines.length === 1 ? 'The last pipeline cannot be deleted' : undefined}
+              >
+                <Trash2 className="w-4 h-4 text-red-500" />
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <AnimatePresence>
+        {draft && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50"
+          >
+            <motion.div
+              initial={{ opacity: 0, scale: 0.95 }}
+              animate={{ opacity: 1, scale: 1 }}
+              exit={{ opacity: 0, scale: 0.95 }}
+              className="bg-white dark:bg-gray-800 rounded-xl p-6 w-full max-w-5xl max-h-[90vh] overflow-y-auto"
+            >
+              <div className="flex items-center justify-between mb-6">
+                <h2 className="text-xl font-bold text-gray-900 dark:text-white">
+                  {isNew ? 'Add Pipeline' : 'Edit Pipeline'}
+                </h2>
+                <button
+                  onClick={() => setDraft(null)}
+                  className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+                >
+                  <X className="w-5 h-5 text-gray-500" />
+                </button>
+              </div>
+
+              <div className="space-y-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                    Name
+                  </label>
+                  <input
+                    value={draft.name}
+                    onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                    className={inputClassName}
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                    Stages
+                  </label>
+                  <div className="space-y-2">
+                    {draft.stages.map((stage, index) => (
+                      <div key={stage.id} className="space-y-1">
+                        <div className="flex items-center gap-2">
+                          <span className={`w-3 h-3 rounded-full flex-shrink-0 ${stageColor(stage).className}`}></span>
+                          <input
+                            value={stage.title}
+                            onChange={(e) => updateStage(index, { title: e.target.value })}
+                            placeholder="Stage name"
+                            aria-label="Stage name"
+                            className={inputClassName}
+                          />
+                          <select
+                            value={stage.color}
+                            onChange={(e) => updateStage(index, { color: e.target.value as StageColor })}
+                            aria-label="Color"
+                            className={`${inputClassName} !w-28`}
+                          >
+                            {Object.entries(STAGE_COLORS).map(([id, color]) => (
+                              <option key={id} value={id}>{color.label}</option>
+                            ))}
+                          </select>
+                          <div className="relative flex-shrink-0 w-24">
+                            <input
+                              type="number"
+                              min={0}
+                              max={100}
+                              value={Number.isNaN(stage.probability) ? '' : stage.probability}
+                              onChange={(e) => updateStage(index, { probability: e.target.valueAsNumber })}
+                              aria-label="Probability"
+                              className={`${inputClassName} pr-7`}
+                            />
+                            <span className="absolute right-3 top-1/2 -translate-y-1/2 text-sm text-gray-400">%</span>
+                          </div>
+                          <select
+                            value={stage.outcome}
+                            onChange={(e) => updateStage(index, { outcome: e.target.value as StageOutcome })}
+                            aria-label="Outcome"
+                            className={`${inputClassName} !w-24`}
+                          >
+                            {STAGE_OUTCOMES.map((outcome) => (
+                              <option key={outcome.id} value={outcome.id}>{outcome.label}</option>
+                            ))}
+                          </select>
+                          <input
+                            type="number"
+                            min={1}
+                            value={stage.wipLimit ?? ''}
+                            onChange={(e) => updateStage(index, { wipLimit: e.target.value === '' ? undefined : e.target.valueAsNumber })}
+                            placeholder="No limit"
+                            aria-label="WIP limit"
+                            title="Most deals the column should hold"
+                            className={`${inputClassName} !w-28 flex-shrink-0`}
+                          />
+                          <select
+                            value={stage.wipMode ?? 'warn'}
+                            onChange={(e) => updateStage(index, { wipMode: e.target.value as WipMode })}
+                            disabled={stage.wipLimit === undefined}
+                            aria-label="When over the WIP limit"
+                            className={`${inputClassName} !w-24 flex-shrink-0 disabled:opacity-50`}
+                          >
+                            {WIP_MODES.map((mode) => (
+                              <option key={mode.id} value={mode.id}>{mode.label}</option>
+                            ))}
+                          </select>
+                          <button
+                            onClick={() => moveStage(index, -1)}
+                            disabled={index === 0}
+                            className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors disabled:opacity-40"
+                            aria-label="Move up"
+                          >
+                            <ArrowUp className="w-4 h-4 text-gray-500" />
+                          </button>
+                          <button
+                            onClick={() => moveStage(index, 1)}
+                            disabled={index === draft.stages.length - 1}
+                            className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors disabled:opacity-40"
+                            aria-label="Move down"
+                          >
+                            <ArrowDown className="w-4 h-4 text-gray-500" />
+                          </button>
+                          <button
+                            onClick={() => removeStage(index)}
+                            className="p-2 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors"
+                            aria-label="Remove stage"
+                          >
+                            <Trash2 className="w-4 h-4 text-red-500" />
+                          </button>
+                        </div>
+                        <div className="flex items-center gap-1 flex-wrap pl-5">
+                          <span className="text-xs text-gray-500 dark:text-gray-400 mr-1">Requires</span>
+                          {requirementOptions.map((option) => {
+                            const active = stage.requirements?.includes(option.id);
+                            return (
+                              <button
+                                key={option.id}
+                                onClick={() => toggleRequirement(index, option.id)}
+                                aria-pressed={active}
+                                className={`px-2 py-0.5 rounded-full text-xs font-medium transition-colors ${
+                                  active
+                                    ? 'bg-blue-100 text-blue-800 dark:bg-blue-900/20 dark:text-blue-400'
+                                    : 'bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-400 hover:bg-gray-200 dark:hover:bg-gray-600'
+                                }`}
+                              >
+                                {option.label}
+                              </button>
+                            );
+                          })}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                  <button
+                    onClick={() => setDraft({ ...draft, stages: [...draft.stages, newStage()] })}
+                    className="flex items-center gap-1 mt-3 text-sm text-blue-600 dark:text-blue-400 hover:underline"
+                  >
+                    <Plus className="w-4 h-4" />
+                    Add stage
+                  </button>
+                </div>
+
+                <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={draft.backwardMoves === 'managers'}
+                    onChange={(e) => setDraft({ ...draft, backwardMoves: e.target.checked ? 'managers' : undefined })}
+                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  Only managers and admins can move deals back to an earlier stage
+                </label>
+
+                {orphanedDeals.length > 0 && (
+                  <p className="text-sm text-yellow-700 dark:text-yellow-400">
+                    {orphanedDeals.length} deal{orphanedDeals.length === 1 ? ' is' : 's are'} in a removed stage and
+                    will move to the first stage with the same outcome.
+                  </p>
+                )}
+
+                {error && <p className="text-red-500 text-sm">{error}</p>}
+
+                <div className="flex gap-3 pt-4">
+                  <button
+                    type="button"
+                    onClick={() => setDraft(null)}
+                    className="flex-1 px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors text-gray-700 dark:text-gray-300"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    onClick={handleSave}
+                    className="flex-1 bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded-lg font-medium transition-colors"
+                  >
+                    {isNew ? 'Add' : 'Update'}
+                  </button>
+                </div>
+              </div>
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {deleting && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50"
+          >
+            <motion.div
+              initial={{ opacity: 0, scale: 0.95 }}
+              animate={{ opacity: 1, scale: 1 }}
+              exit={{ opacity: 0, scale: 0.95 }}
+              className="bg-white dark:bg-gray-800 rounded-xl p-6 w-full max-w-md"
+            >
+              <h2 className="text-xl font-bold text-gray-900 dark:text-white mb-2">
+                Delete {deleting.name}?
+              </h2>
+              {dealsIn(deleting).length > 0 ? (
+                <div className="space-y-2">
+                  <p className="text-sm text-gray-600 dark:text-gray-400">
+                    Its {dealsIn(deleting).length} deals will move to another pipeline.
+                  </p>
+                  <select
+                    value={deleteTargetId}
+                    onChange={(e) => setDeleteTargetId(e.target.value)}
+                    aria-label="Move deals to"
+                    className={inputClassName}
+                  >
+                    {pipelines
+                      .filter((pipeline) => pipeline.id !== deleting.id)
+                      .map((pipeline) => (
+                        <option key={pipeline.id} value={pipeline.id}>{pipeline.name}</option>
+                      ))}
+                  </select>
+                </div>
+              ) : (
+                <p className="text-sm text-gray-600 dark:text-gray-400">It has no deals.</p>
+              )}
+              <div className="flex gap-3 pt-6">
+                <button
+                  onClick={() => setDeleting(null)}
+                  className="flex-1 px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors text-gray-700 dark:text-gray-300"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleDelete}
+                  className="flex-1 bg-red-500 hover:bg-red-600 text-white px-4 py-2 rounded-lg font-medium transition-colors"
+                >
+                  Delete
+                </button>
+              </div>
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
+
+export default PipelinesPanel;
@@ -0,0 +1,19 @@
+import React from 'react';
+
+interface DetailFieldProps {
+  icon: React.ElementType;
+  label: string;
+  children: React.ReactNode;
+}
+
+const DetailField: React.FC<DetailFieldProps> = ({ icon: Icon, label, children }) => (
+  <div className="flex items-start gap-3">
+    <Icon className="w-4 h-4 text-gray-400 mt-1" />
+    <div>
+      <p className="text-xs text-gray-500 dark:text-gray-400">{label}</p>
+      <div className="text-sm text-gray-900 dark:text-white">{children || '—'}</div>
+    </div>
+  </div>
+);
+
+export default DetailField;
@@ -0,0 +1,43 @@
+import React from 'react';
+import { format } from 'date-fns';
+import { HistoryEntry } from '../../lib/records';
+import FieldChanges from '../audit/FieldChanges';
+
+interface RecordHistoryProps {
+  entries: HistoryEntry[];
+}
+
+const RecordHistory: React.FC<RecordHistoryProps> = ({ entries }) => {
+  const sorted = [...entries].sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+
+  return (
+    <ol className="space-y-4">
+      {sorted.map((entry) => (
+        <li key={entry.id} className="flex items-start gap-3">
+          <div className="w-2 h-2 bg-blue-500 rounded-full mt-2"></div>
+          <div className="flex-1">
+            <p className="text-sm text-gray-900 dark:text-white">
+              {entry.label}
+              {entry.actor && (
+                <span className="text-gray-500 dark:text-gray-400"> by {entry.actor}</span>
+              )}
+            </p>
+            {entry.detail && (
+              <p className="text-xs text-gray-600 dark:text-gray-400">{entry.detail}</p>
+            )}
+            {entry.changes && entry.changes.length > 0 && (
+              <div className="mt-1">
+                <FieldChanges changes={entry.changes} />
+              </div>
+            )}
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              {format(new Date(entry.date), 'MMM dd, yyyy HH:mm')}
+            </p>
+          </div>
+        </li>
+      ))}
+    </ol>
+  );
+};
+
+export default RecordHistory;
@@ -0,0 +1,44 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { X } from 'lucide-react';
+import { HistoryEntry } from '../../lib/records';
+import RecordHistory from './RecordHistory';
+
+interface RecordHistoryModalProps {
+  title: string;
+  entries: HistoryEntry[];
+  onClose: () => void;
+}
+
+// For records without a detail page of their own, such as tasks
+const RecordHistoryModal: React.FC<RecordHistoryModalProps> = ({ title, entries, onClose }) => (
+  <motion.div
+    initial={{ opacity: 0 }}
+    animate={{ opacity: 1 }}
+    exit={{ opacity: 0 }}
+    className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50"
+  >
+    <motion.div
+      initial={{ opacity: 0, scale: 0.95 }}
+      animate={{ opacity: 1, scale: 1 }}
+      exit={{ opacity: 0, scale: 0.95 }}
+      className="bg-white dark:bg-gray-800 rounded-xl p-6 w-full max-w-md max-h-[90vh] overflow-y-auto"
+    >
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-xl font-bold text-gray-900 dark:text-white truncate">
+          {title}
+        </h2>
+        <button
+          onClick={onClose}
+          className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+        >
+          <X className="w-5 h-5 text-gray-500" />
+        </button>
+      </div>
+
+      <RecordHistory entries={entries} />
+    </motion.div>
+  </motion.div>
+);
+
+export default RecordHistoryModal;
@@ -0,0 +1,24 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { Search } from 'lucide-react';
+
+interface RecordNotFoundProps {
+  label: string;
+  backTo: string;
+}
+
+const RecordNotFound: React.FC<RecordNotFoundProps> = ({ label, backTo }) => (
+  <div className="text-center py-12">
+    <div className="w-16 h-16 bg-gray-100 dark:bg-gray-800 rounded-full flex items-center justify-center mx-auto mb-4">
+      <Search className="w-8 h-8 text-gray-400" />
+    </div>
+    <p className="text-gray-500 dark:text-gray-400 mb-4">
+      This {label} doesn't exist or has been deleted.
+    </p>
+    <Link to={backTo} className="text-blue-500 hover:text-blue-600 font-medium">
+      Back to {label}s
+    </Link>
+  </div>
+);
+
+export default RecordNotFound;
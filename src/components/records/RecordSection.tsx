@@ -0,0 +1,21 @@
+import React from 'react';
+
+interface RecordSectionProps {
+  title: string;
+  action?: React.ReactNode;
+  children: React.ReactNode;
+}
+
+const RecordSection: React.FC<RecordSectionProps> = ({ title, action, children }) => (
+  <div className="bg-white dark:bg-gray-800 rounded-xl p-6 shadow-sm border border-gray-200 dark:border-gray-700">
+    <div className="flex items-center justify-between mb-4">
+      <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+        {title}
+      </h3>
+      {action}
+    </div>
+    {children}
+  </div>
+);
+
+export default RecordSection;
@@ -0,0 +1,51 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { Deal } from '../../stores/crmStore';
+import { useSettingsStore } from '../../stores/settingsStore';
+import { getDealStage, stageColor } from '../../lib/pipelines';
+import { recordPath } from '../../lib/records';
+
+interface RelatedDealsProps {
+  deals: Deal[];
+}
+
+const RelatedDeals: React.FC<RelatedDealsProps> = ({ deals }) => {
+  const pipelines = useSettingsStore((state) => state.pipelines);
+
+  if (deals.length === 0) {
+    return (
+      <p className="text-sm text-gray-500 dark:text-gray-400">
+        No deals yet.
+      </p>
+    );
+  }
+
+  return (
+    <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+      {deals.map((deal) => {
+        const stage = getDealStage(pipelines, deal);
+        return (
+          <li key={deal.id} className="flex items-center justify-between py-3 gap-4">
+            <Link
+              to={recordPath('deal', deal.id)}
+              className="text-sm font-medium text-blue-600 dark:text-blue-400 hover:underline truncate"
+            >
+              {deal.title}
+            </Link>
+            <div className="flex items-center gap-3 whitespace-nowrap">
+              <span className="flex items-center gap-1 text-xs text-gray-600 dark:text-gray-400">
+                <span className={`w-2 h-2 rounded-full ${stageColor(stage).className}`} />
+                {stage.title}
+              </span>
+              <span className="text-sm font-medium text-gray-900 dark:text-white">
+                ${deal.value.toLocaleString()}
+              </span>
+            </div>
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
+
+export default RelatedDeals;
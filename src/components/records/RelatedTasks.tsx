@@ -0,0 +1,55 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { CheckCircle, Clock, AlertCircle, Calendar } from 'lucide-react';
+import { format, isAfter } from 'date-fns';
+import { Task } from '../../stores/crmStore';
+
+interface RelatedTasksProps {
+  tasks: Task[];
+}
+
+const statusIcon = (status: Task['status']) => {
+  switch (status) {
+    case 'completed': return <CheckCircle className="w-4 h-4 text-green-500" />;
+    case 'in-progress': return <Clock className="w-4 h-4 text-blue-500" />;
+    default: return <AlertCircle className="w-4 h-4 text-gray-400" />;
+  }
+};
+
+const RelatedTasks: React.FC<RelatedTasksProps> = ({ tasks }) => {
+  if (tasks.length === 0) {
+    return (
+      <p className="text-sm text-gray-500 dark:text-gray-400">
+        No related tasks. <Link to="/tasks" className="text-blue-500 hover:text-blue-600">Create one</Link>
+      </p>
+    );
+  }
+
+  return (
+    <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+      {tasks.map((task) => {
+        const isOverdue = task.status !== 'completed' && isAfter(new Date(), new Date(task.dueDate));
+        return (
+          <li key={task.id} className="flex items-center justify-between py-3 gap-4">
+            <div className="flex items-center gap-3 min-w-0">
+              {statusIcon(task.status)}
+              <span className={`text-sm text-gray-900 dark:text-white truncate ${
+                task.status === 'completed' ? 'line-through opacity-60' : ''
+              }`}>
+                {task.title}
+              </span>
+            </div>
+            <div className={`flex items-center gap-1 text-xs whitespace-nowrap ${
+              isOverdue ? 'text-red-600 font-medium' : 'text-gray-500 dark:text-gray-400'
+            }`}>
+              <Calendar className="w-3 h-3" />
+              {format(new Date(task.dueDate), 'MMM dd, yyyy')}
+            </div>
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
+
+export default RelatedTasks;
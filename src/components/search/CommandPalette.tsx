@@ -0,0 +1,254 @@
+import React, { useDeferredValue, useEffect, useMemo, useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import { useNavigate } from 'react-router-dom';
+import {
+  Search,
+  Users,
+  Target,
+  PieChart,
+  CheckSquare,
+  LayoutDashboard,
+  BarChart3,
+  LineChart,
+  Settings,
+  Trash2,
+  Plus,
+  Moon,
+  Sun,
+  LogOut,
+  CornerDownLeft,
+} from 'lucide-react';
+import { useCRMStore } from '../../stores/crmStore';
+import { useAuthStore } from '../../stores/authStore';
+import { useThemeStore } from '../../stores/themeStore';
+import { useSettingsStore } from '../../stores/settingsStore';
+import { usePermissions } from '../../hooks/usePermissions';
+import { Resource } from '../../lib/permissions';
+import { recordPath } from '../../lib/records';
+import { getDealStage } from '../../lib/pipelines';
+import { SearchDocument, SearchDocumentType, buildSearchIndex, rankTopHits } from '../../lib/search';
+import { userName } from '../../lib/users';
+
+interface CommandPaletteProps {
+  onClose: () => void;
+}
+
+interface PaletteItem {
+  key: string;
+  label: string;
+  detail: string;
+  icon: React.ElementType;
+  run: () => void;
+}
+
+interface PaletteCommand extends PaletteItem {
+  keywords: string;
+  resource?: Resource;
+  action?: 'view' | 'create';
+}
+
+const RECORD_LIMIT = 30;
+
+const TYPE_ICONS: Record<SearchDocumentType, React.ElementType> = {
+  contact: Users,
+  lead: Target,
+  deal: PieChart,
+  task: CheckSquare,
+};
+
+const TYPE_LABELS: Record<SearchDocumentType, string> = {
+  contact: 'Contact',
+  lead: 'Lead',
+  deal: 'Deal',
+  task: 'Task',
+};
+
+const TYPE_RESOURCES: Record<SearchDocumentType, Resource> = {
+  contact: 'contact',
+  lead: 'lead',
+  deal: 'deal',
+  task: 'task',
+};
+
+const CommandPalette: React.FC<CommandPaletteProps> = ({ onClose }) => {
+  const navigate = useNavigate();
+  const { contacts, leads, deals, tasks } = useCRMStore();
+  const pipelines = useSettingsStore((state) => state.pipelines);
+  const logout = useAuthStore((state) => state.logout);
+  const directory = useAuthStore((state) => state.directory);
+  const { isDark, toggleTheme } = useThemeStore();
+  const can = usePermissions();
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const activeItemRef = useRef<HTMLButtonElement>(null);
+
+  // Typing stays responsive while a large store is ranked in the background
+  const deferredQuery = useDeferredValue(query);
+
+  const index = useMemo(
+    () =>
+      buildSearchIndex(
+        { contacts, leads, deals, tasks },
+        (deal) => getDealStage(pipelines, deal).title,
+        (assignee) => userName(directory, assignee)
+      ).filter((document) => can('view', TYPE_RESOURCES[document.type])),
+    [contacts, leads, deals, tasks, pipelines, directory, can]
+  );
+
+  const commands = useMemo(() => {
+    const go = (path: string) => () => navigate(path);
+    const all: PaletteCommand[] = [
+      { key: 'new-contact', label: 'New contact', detail: 'Command', keywords: 'add create', icon: Plus, resource: 'contact', action: 'create', run: go('/contacts?new=1') },
+      { key: 'new-lead', label: 'New lead', detail: 'Command', keywords: 'add create', icon: Plus, resource: 'lead', action: 'create', run: go('/leads?new=1') },
+      { key: 'new-deal', label: 'New deal', detail: 'Command', keywords: 'add create opportunity', icon: Plus, resource: 'deal', action: 'create', run: go('/pipeline?new=1') },
+      { key: 'new-task', label: 'New task', detail: 'Command', keywords: 'add create todo', icon: Plus, resource: 'task', action: 'create', run: go('/tasks?new=1') },
+      { key: 'go-dashboard', label: 'Go to Dashboard', detail: 'Navigation', keywords: 'home', icon: LayoutDashboard, run: go('/dashboard') },
+      { key: 'go-contacts', label: 'Go to Contacts', detail: 'Navigation', keywords: 'people', icon: Users, resource: 'contact', run: go('/contacts') },
+      { key: 'go-leads', label: 'Go to Leads', detail: 'Navigation', keywords: 'prospects', icon: Target, resource: 'lead', run: go('/leads') },
+      { key: 'go-pipeline', label: 'Go to Pipeline', detail: 'Navigation', keywords: 'deals board kanban', icon: PieChart, resource: 'deal', run: go('/pipeline') },
+      { key: 'go-tasks', label: 'Go to Tasks', detail: 'Navigation', keywords: 'todo', icon: CheckSquare, resource: 'task', run: go('/tasks') },
+      { key: 'go-analytics', label: 'Go to Analytics', detail: 'Navigation', keywords: 'reports charts', icon: BarChart3, resource: 'analytics', run: go('/analytics') },
+      { key: 'go-forecast', label: 'Go to Forecast', detail: 'Navigation', keywords: 'revenue quota weighted commit', icon: LineChart, resource: 'analytics', run: go('/forecast') },
+      { key: 'go-trash', label: 'Go to Trash', detail: 'Navigation', keywords: 'deleted restore recycle bin', icon: Trash2, resource: 'trash', run: go('/trash') },
+      { key: 'go-settings', label: 'Go to Settings', detail: 'Navigation', keywords: 'preferences profile', icon: Settings, resource: 'settings', run: go('/settings') },
+      { key: 'toggle-theme', label: 'Toggle dark mode', detail: 'Command', keywords: 'theme light appearance', icon: isDark ? Sun : Moon, run: toggleTheme },
+      { key: 'sign-out', label: 'Sign out', detail: 'Command', keywords: 'logout log out', icon: LogOut, run: logout },
+    ];
+    return all.filter((command) => !command.resource || can(command.action ?? 'view', command.resource));
+  }, [navigate, isDark, toggleTheme, logout, can]);
+
+  const items = useMemo<PaletteItem[]>(() => {
+    if (!deferredQuery.trim()) {
+      return commands;
+    }
+
+    const commandHits = rankTopHits(
+      commands,
+      deferredQuery,
+      (command) => [command.label.toLowerCase(), command.keywords],
+      commands.length
+    );
+    const recordHits = rankTopHits(index, deferredQuery, (document) => document.fields, RECORD_LIMIT);
+    const toItem = (document: SearchDocument): PaletteItem => ({
+      key: `${document.type}-${document.id}`,
+      label: document.title,
+      detail: [TYPE_LABELS[document.type], document.subtitle].filter(Boolean).join(' · '),
+      icon: TYPE_ICONS[document.type],
+      // Tasks have no page of their own, so open the task list filtered to this one
+      run: () =>
+        navigate(
+          document.type === 'task'
+            ? `/tasks?q=${encodeURIComponent(document.title)}`
+            : recordPath(document.type, document.id)
+        ),
+    });
+
+    return [
+      ...commandHits.map((hit): { item: PaletteItem; score: number } => hit),
+      ...recordHits.map((hit) => ({ item: toItem(hit.item), score: hit.score })),
+    ]
+      .sort((a, b) => b.score - a.score)
+      .map((hit) => hit.item);
+  }, [deferredQuery, commands, index, navigate]);
+
+  useEffect(() => {
+    setActiveIndex(0);
+  }, [deferredQuery]);
+
+  useEffect(() => {
+    activeItemRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  const runItem = (item: PaletteItem | undefined) => {
+    if (item) {
+      onClose();
+      item.run();
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault();
+        setActiveIndex((current) => (items.length === 0 ? 0 : (current + 1) % items.length));
+        break;
+      case 'ArrowUp':
+        e.preventDefault();
+        setActiveIndex((current) => (items.length === 0 ? 0 : (current - 1 + items.length) % items.length));
+        break;
+      case 'Enter':
+        e.preventDefault();
+        runItem(items[activeIndex]);
+        break;
+      case 'Escape':
+        e.preventDefault();
+        onClose();
+        break;
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      onClick={onClose}
+      className="fixed inset-0 bg-black/50 flex items-start justify-center p-4 pt-[15vh] z-50"
+    >
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        exit={{ opacity: 0, scale: 0.95 }}
+        onClick={(e) => e.stopPropagation()}
+        className="bg-white dark:bg-gray-800 rounded-xl shadow-xl w-full max-w-xl overflow-hidden"
+      >
+        <div className="flex items-center gap-3 px-4 border-b border-gray-200 dark:border-gray-700">
+          <Search className="w-5 h-5 text-gray-400" />
+          <input
+            autoFocus
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder="Search records or type a command..."
+            className="flex-1 py-4 bg-transparent text-gray-900 dark:text-white placeholder-gray-400 focus:outline-none"
+          />
+          <kbd className="text-xs text-gray-400 border border-gray-200 dark:border-gray-600 rounded px-1.5 py-0.5">
+            Esc
+          </kbd>
+        </div>
+
+        <div className="max-h-96 overflow-y-auto py-2">
+          {items.map((item, itemIndex) => {
+            const Icon = item.icon;
+            const active = itemIndex === activeIndex;
+            return (
+              <button
+                key={item.key}
+                ref={active ? activeItemRef : undefined}
+                onClick={() => runItem(item)}
+                onMouseMove={() => setActiveIndex(itemIndex)}
+                className={`flex items-center gap-3 w-full px-4 py-2 text-left transition-colors ${
+                  active ? 'bg-blue-50 dark:bg-blue-900/20' : ''
+                }`}
+              >
+                <Icon className={`w-4 h-4 ${active ? 'text-blue-500' : 'text-gray-400'}`} />
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm text-gray-900 dark:text-white truncate">{item.label}</p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 truncate">{item.detail}</p>
+                </div>
+                {active && <CornerDownLeft className="w-4 h-4 text-gray-400" />}
+              </button>
+            );
+          })}
+          {items.length === 0 && (
+            <p className="px-4 py-6 text-sm text-center text-gray-500 dark:text-gray-400">
+              No matches for "{deferredQuery}".
+            </p>
+          )}
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+};
+
+export default CommandPalette;
@@ -0,0 +1,232 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { X, ArrowUp, ArrowDown, Trash2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useSequenceStore } from '../../stores/sequenceStore';
+import { useEmailTemplateStore } from '../../stores/emailTemplateStore';
+import { templatesByCategory } from '../../lib/emailTemplates';
+import {
+  SEQUENCE_STEP_TYPES,
+  Sequence,
+  SequenceStep,
+  SequenceStepType,
+  newStep,
+  validateSequence,
+} from '../../lib/sequences';
+import { mutationErrorMessage } from '../history/undoToast';
+
+interface SequenceEditorProps {
+  sequence?: Sequence;
+  onClose: () => void;
+}
+
+const inputClassName =
+  'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white';
+
+const labelClassName = 'block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2';
+
+const STEP_LABELS = Object.fromEntries(SEQUENCE_STEP_TYPES.map(({ id, label }) => [id, label])) as Record<SequenceStepType, string>;
+
+// Adds or edits a sequence. Records already enrolled carry on from the furthest step they've
+// reached that's still in it.
+const SequenceEditor: React.FC<SequenceEditorProps> = ({ sequence, onClose }) => {
+  const templates = useEmailTemplateStore((state) => state.templates);
+  const saveSequence = useSequenceStore((state) => state.saveSequence);
+  const [name, setName] = useState(sequence?.name ?? '');
+  const [steps, setSteps] = useState<SequenceStep[]>(sequence?.steps ?? [newStep('email')]);
+  const [error, setError] = useState('');
+
+  // Every template is offered, not just the editor's own, since whoever runs the step may differ
+  const groups = templatesByCategory(templates);
+
+  const updateStep = (index: number, step: SequenceStep) =>
+    setSteps(steps.map((candidate, position) => (position === index ? step : candidate)));
+
+  const moveStep = (index: number, offset: number) => {
+    const moved = [...steps];
+    [moved[index], moved[index + offset]] = [moved[index + offset], moved[index]];
+    setSteps(moved);
+  };
+
+  const handleSave = () => {
+    const input = { name: name.trim(), steps };
+    const invalid = validateSequence(input);
+    if (invalid) {
+      setError(invalid);
+      return;
+    }
+    try {
+      saveSequence(input, sequence?.id);
+      toast.success(sequence ? 'Sequence updated' : 'Sequence added');
+      onClose();
+    } catch (saveError) {
+      toast.error(mutationErrorMessage(saveError));
+    }
+  };
+
+  const renderStepFields = (step: SequenceStep, index: number) => {
+    switch (step.type) {
+      case 'email':
+        return (
+          <select
+            value={step.templateId}
+            onChange={(e) => updateStep(index, { ...step, templateId: e.target.value })}
+            aria-label="Template"
+            className={inputClassName}
+          >
+            <option value="">Choose a template</option>
+            {groups.map(([category, categoryTemplates]) => (
+              <optgroup key={category} label={category}>
+                {categoryTemplates.map((template) => (
+                  <option key={template.id} value={template.id}>
+                    {template.name}
+                  </option>
+                ))}
+              </optgroup>
+            ))}
+          </select>
+        );
+      case 'wait':
+        return (
+          <div className="flex items-center gap-2">
+            <input
+              type="number"
+              min={1}
+              value={step.days}
+              onChange={(e) => updateStep(index, { ...step, days: Number(e.target.value) })}
+              aria-label="Days"
+              className={`${inputClassName} !w-24`}
+            />
+            <span className="text-sm text-gray-600 dark:text-gray-400">{step.days === 1 ? 'day' : 'days'}</span>
+          </div>
+        );
+      default:
+        return (
+          <input
+            value={step.note}
+            onChange={(e) => updateStep(index, { ...step, note: e.target.value })}
+            placeholder="Notes for whoever does it (optional)"
+            aria-label="Notes"
+            className={inputClassName}
+          />
+        );
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50"
+    >
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        exit={{ opacity: 0, scale: 0.95 }}
+        className="bg-white dark:bg-gray-800 rounded-xl p-6 w-full max-w-2xl max-h-[90vh] overflow-y-auto"
+      >
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-xl font-bold text-gray-900 dark:text-white">
+            {sequence ? 'Edit Sequence' : 'Add Sequence'}
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5 text-gray-500" />
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          <div>
+            <label className={labelClassName}>Name</label>
+            <input value={name} onChange={(e) => setName(e.target.value)} className={inputClassName} />
+          </div>
+
+          <div>
+            <label className={labelClassName}>Steps</label>
+            <div className="space-y-2">
+              {steps.map((step, index) => (
+                <div
+                  key={step.id}
+                  className="flex items-center gap-3 p-3 border border-gray-200 dark:border-gray-700 rounded-lg"
+                >
+                  <span className="w-6 text-sm font-medium text-gray-500 dark:text-gray-400">{index + 1}.</span>
+                  <span className="w-28 flex-shrink-0 text-sm font-medium text-gray-900 dark:text-white">
+                    {STEP_LABELS[step.type]}
+                  </span>
+                  <div className="flex-1 min-w-0">{renderStepFields(step, index)}</div>
+                  <div className="flex items-center">
+                    <button
+                      onClick={() => moveStep(index, -1)}
+                      disabled={index === 0}
+                      className="p-1.5 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors disabled:opacity-30"
+                      aria-label="Move up"
+                    >
+                      <ArrowUp className="w-4 h-4 text-gray-500" />
+                    </button>
+                    <button
+                      onClick={() => moveStep(index, 1)}
+                      disabled={index === steps.length - 1}
+                      className="p-1.5 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors disabled:opacity-30"
+                      aria-label="Move down"
+                    >
+                      <ArrowDown className="w-4 h-4 text-gray-500" />
+                    </button>
+                    <button
+                      onClick={() => setSteps(steps.filter((_, position) => position !== index))}
+                      className="p-1.5 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors"
+                      aria-label="Remove step"
+                    >
+                      <Trash2 className="w-4 h-4 text-red-500" />
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+            <select
+              value=""
+              onChange={(e) => e.target.value && setSteps([...steps, newStep(e.target.value as SequenceStepType)])}
+              aria-label="Add step"
+              className={`${inputClassName} mt-2`}
+            >
+              <option value="">Add step…</option>
+              {SEQUENCE_STEP_TYPES.map(({ id, label }) => (
+                <option key={id} value={id}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Each email, call and LinkedIn step becomes a task for the record's owner once the step before it is
+            completed. Waits push the next task's due date back.
+            {groups.length === 0 && ' There are no email templates yet; add some in Settings.'}
+          </p>
+        </div>
+
+        {error && <p className="text-red-500 text-sm mt-4">{error}</p>}
+
+        <div className="flex gap-3 pt-6">
+          <button
+            type="button"
+            onClick={onClose}
+            className="flex-1 px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors text-gray-700 dark:text-gray-300"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            className="flex-1 bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded-lg font-medium transition-colors"
+          >
+            {sequence ? 'Update' : 'Add'}
+          </button>
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+};
+
+export default SequenceEditor;
@@ -0,0 +1,158 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { Pause, Play, Reply, Square } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { Contact, Lead } from '../../stores/crmStore';
+import { useSequenceStore } from '../../stores/sequenceStore';
+import { usePermissions } from '../../hooks/usePermissions';
+import {
+  ENROLLMENT_STATUS_LABELS,
+  EnrollmentStatus,
+  PAUSING_LEAD_STATUSES,
+  SEQUENCE_STEP_TYPES,
+} from '../../lib/sequences';
+import { mutationErrorMessage } from '../history/undoToast';
+
+interface SequenceEnrollmentsProps {
+  type: 'contact' | 'lead';
+  record: Contact | Lead;
+}
+
+const statusColors: Record<EnrollmentStatus, string> = {
+  active: 'bg-blue-100 text-blue-800 dark:bg-blue-900/20 dark:text-blue-400',
+  paused: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/20 dark:text-yellow-400',
+  replied: 'bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-400',
+  completed: 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300',
+  stopped: 'bg-red-100 text-red-800 dark:bg-red-900/20 dark:text-red-400',
+};
+
+const actionClassName =
+  'p-1.5 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors';
+
+// The sequences a contact or lead is in, with where each has got to
+const SequenceEnrollments: React.FC<SequenceEnrollmentsProps> = ({ type, record }) => {
+  const { sequences, enrollments, enroll, pause, resume, stop, markReplied } = useSequenceStore();
+  const can = usePermissions();
+  const canEdit = can('update', type, record);
+
+  const own = enrollments
+    .filter((enrollment) => enrollment.relatedTo.type === type && enrollment.relatedTo.id === record.id)
+    .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+  const running = new Set(
+    own.filter((enrollment) => ['active', 'paused'].includes(enrollment.status)).map((enrollment) => enrollment.sequenceId)
+  );
+  const available = sequences.filter((sequence) => !running.has(sequence.id));
+  const isClosedLead = type === 'lead' && PAUSING_LEAD_STATUSES.includes((record as Lead).status);
+
+  const act = (work: () => void, message: string) => {
+    try {
+      work();
+      toast.success(message);
+    } catch (error) {
+      toast.error(mutationErrorMessage(error));
+    }
+  };
+
+  const handleEnroll = (sequenceId: string) => {
+    try {
+      if (enroll(sequenceId, [{ type, id: record.id }]) > 0) {
+        toast.success(`Enrolled ${record.name}`);
+      } else {
+        toast.error('The sequence has no steps to start');
+      }
+    } catch (error) {
+      toast.error(mutationErrorMessage(error));
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {own.length === 0 && (
+        <p className="text-sm text-gray-500 dark:text-gray-400">Not in any sequence.</p>
+      )}
+      {own.length > 0 && (
+        <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+          {own.map((enrollment) => {
+            const sequence = sequences.find((candidate) => candidate.id === enrollment.sequenceId);
+            const currentId = enrollment.steps[enrollment.steps.length - 1]?.stepId;
+            const position = sequence ? sequence.steps.findIndex((step) => step.id === currentId) : -1;
+            const isRunning = ['active', 'paused'].includes(enrollment.status);
+            return (
+              <li key={enrollment.id} className="flex items-center justify-between py-3 gap-4">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <Link to="/sequences" className="text-sm font-medium text-gray-900 dark:text-white hover:text-blue-600 dark:hover:text-blue-400 truncate">
+                      {sequence?.name ?? 'Deleted sequence'}
+                    </Link>
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${statusColors[enrollment.status]}`}>
+                      {ENROLLMENT_STATUS_LABELS[enrollment.status]}
+                    </span>
+                  </div>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    {sequence && position >= 0
+                      ? `Step ${position + 1} of ${sequence.steps.length}: ${SEQUENCE_STEP_TYPES.find(({ id }) => id === sequence.steps[position].type)?.label}`
+                      : `${enrollment.steps.length} ${enrollment.steps.length === 1 ? 'step' : 'steps'} reached`}
+                    {enrollment.status === 'paused' && enrollment.pausedReason && ` · ${enrollment.pausedReason}`}
+                  </p>
+                </div>
+                {canEdit && isRunning && (
+                  <div className="flex items-center">
+                    {enrollment.status === 'active' ? (
+                      <button
+                        onClick={() => act(() => pause([enrollment.id], 'Paused by hand'), 'Sequence paused')}
+                        className={actionClassName}
+                        title="Pause"
+                      >
+                        <Pause className="w-4 h-4 text-gray-500" />
+                      </button>
+                    ) : (
+                      <button
+                        onClick={() => act(() => resume(enrollment.id), 'Sequence resumed')}
+                        disabled={isClosedLead}
+                        className={`${actionClassName} disabled:opacity-30`}
+                        title={isClosedLead ? `The lead is ${(record as Lead).status}` : 'Resume'}
+                      >
+                        <Play className="w-4 h-4 text-gray-500" />
+                      </button>
+                    )}
+                    <button
+                      onClick={() => act(() => markReplied(enrollment.id), 'Marked as replied')}
+                      className={actionClassName}
+                      title="Mark replied"
+                    >
+                      <Reply className="w-4 h-4 text-green-500" />
+                    </button>
+                    <button
+                      onClick={() => act(() => stop(enrollment.id), 'Sequence stopped')}
+                      className={actionClassName}
+                      title="Stop"
+                    >
+                      <Square className="w-4 h-4 text-red-500" />
+                    </button>
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+      {canEdit && !isClosedLead && available.length > 0 && (
+        <select
+          value=""
+          onChange={(e) => e.target.value && handleEnroll(e.target.value)}
+          aria-label="Enroll in sequence"
+          className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm"
+        >
+          <option value="">Enroll in sequence…</option>
+          {available.map((sequence) => (
+            <option key={sequence.id} value={sequence.id}>
+              {sequence.name}
+            </option>
+          ))}
+        </select>
+      )}
+    </div>
+  );
+};
+
+export default SequenceEnrollments;
@@ -0,0 +1,16 @@
+import { useEffect } from 'react';
+import { useCRMStore } from '../stores/crmStore';
+import { useAuthStore } from '../stores/authStore';
+
+// Records from before the user directory name their assignee. Whenever records load,
+// the ones still doing so are pointed at the user's id.
+export const useAssigneeMigration = () => {
+  const { contacts, leads, deals, tasks, migrateAssignees } = useCRMStore();
+  const directory = useAuthStore((state) => state.directory);
+
+  useEffect(() => {
+    if (directory.length > 0) {
+      migrateAssignees(directory);
+    }
+  }, [contacts, leads, deals, tasks, directory, migrateAssignees]);
+};
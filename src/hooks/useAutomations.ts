@@ -0,0 +1,217 @@
+import { useEffect } from 'react';
+import { addDays } from 'date-fns';
+import { Deal, Lead, Task, subscribeToChanges, useCRMStore } from '../stores/crmStore';
+import { useSettingsStore } from '../stores/settingsStore';
+import { useAuthStore } from '../stores/authStore';
+import { useAutomationStore } from '../stores/automationStore';
+import { useNotificationStore } from '../stores/notificationStore';
+import { can } from '../lib/permissions';
+import { checkStageTransition, missingRequirementsMessage } from '../lib/stageRules';
+import { findUser, userName } from '../lib/users';
+import {
+  AutomationAction,
+  AutomationCollection,
+  AutomationEvent,
+  AutomationRecord,
+  AutomationRule,
+  AutomationRun,
+  MAX_AUTOMATION_DEPTH,
+  automationEvents,
+  fillTemplate,
+  hasRun,
+  overdueEvents,
+  recordLabel,
+  recordLink,
+  rulesFor,
+} from '../lib/automation';
+
+const SWEEP_INTERVAL = 60 * 1000;
+
+// One chain of automations: a user's change plus everything the rules it set off changed in turn
+interface Cascade {
+  depth: number;
+  // `<rule id>:<record id>` for every rule that already acted in the chain
+  fired: Set<string>;
+}
+
+// The chain whose actions are running right now; the changes they make belong to it
+let activeCascade: Cascade | null = null;
+
+const updateRecord = (collection: AutomationCollection, id: string, updates: Partial<Lead> | Partial<Deal> | Partial<Task>) => {
+  const store = useCRMStore.getState();
+  if (collection === 'leads') {
+    store.updateLead(id, updates as Partial<Lead>);
+  } else if (collection === 'deals') {
+    store.updateDeal(id, updates as Partial<Deal>);
+  } else {
+    store.updateTask(id, updates as Partial<Task>);
+  }
+};
+
+// Carries out one action and says what it did; throws if it can't be done
+const runAction = (rule: AutomationRule, action: AutomationAction, collection: AutomationCollection, record: AutomationRecord) => {
+  switch (action.type) {
+    case 'create-task': {
+      const title = fillTemplate(action.title, record);
+      useCRMStore.getState().addTask({
+        title,
+        description: `Created by the "${rule.name}" automation`,
+        dueDate: addDays(new Date(), action.dueInDays),
+        priority: action.priority,
+        status: 'pending',
+        assignedTo: record.assignedTo,
+        relatedTo: collection === 'tasks'
+          ? (record as Task).relatedTo
+          : { type: collection === 'leads' ? 'lead' : 'deal', id: record.id },
+      });
+      return `Created task "${title}"`;
+    }
+    case 'assign-owner':
+      updateRecord(collection, record.id, { assignedTo: action.assignedTo });
+      return `Assigned to ${userName(useAuthStore.getState().directory, action.assignedTo)}`;
+    case 'change-status': {
+      if (collection !== 'deals') {
+        updateRecord(collection, record.id, { status: action.status } as Partial<Lead> | Partial<Task>);
+        return `Status set to ${action.status}`;
+      }
+      const { pipelines, customFields } = useSettingsStore.getState();
+      const pipeline = pipelines.find((candidate) => candidate.stages.some((stage) => stage.id === action.status));
+      if (!pipeline) {
+        throw new Error('The stage no longer exists');
+      }
+      // Automations are held to the same stage requirements as people, though not to who may
+      // move deals back; the store enforces the WIP limits
+      const updates = { pipelineId: pipeline.id, stage: action.status };
+      const check = checkStageTransition(
+        pipelines,
+        record as Deal,
+        updates,
+        null,
+        customFields.filter((field) => field.entity === 'deal')
+      );
+      if (check.missing.length > 0) {
+        throw new Error(missingRequirementsMessage(check.target, check.missing, customFields));
+      }
+      updateRecord(collection, record.id, updates);
+      return `Moved to ${check.target.title}`;
+    }
+    case 'add-tag': {
+      const tags = (record as Lead | Deal).tags ?? [];
+      if (!tags.includes(action.tag)) {
+        updateRecord(collection, record.id, { tags: [...tags, action.tag] });
+      }
+      return `Tagged "${action.tag}"`;
+    }
+    case 'notify': {
+      const owner = findUser(useAuthStore.getState().directory, record.assignedTo);
+      if (!owner) {
+        throw new Error('There is no owner to notify');
+      }
+      useNotificationStore.getState().notify({
+        recipient: owner.id,
+        message: fillTemplate(action.message, record),
+        link: recordLink(collection, record.id, recordLabel(record)),
+      });
+      return `Notified ${owner.name}`;
+    }
+  }
+};
+
+// Runs every enabled rule the event matches, once per rule and occurrence, and logs the outcome
+const runAutomations = (event: AutomationEvent, cascade: Cascade) => {
+  // Acts on the record as it is now; it may have changed or been deleted since the event
+  const records: AutomationRecord[] = useCRMStore.getState()[event.collection];
+  const record = records.find((candidate) => candidate.id === event.record.id);
+  if (!record) {
+    return;
+  }
+  const runs = useAutomationStore.getState().runs;
+  const logged: AutomationRun[] = [];
+
+  rulesFor(useSettingsStore.getState().automations, event)
+    .filter((rule) => !hasRun(runs, rule, event))
+    .forEach((rule) => {
+      const log = (status: AutomationRun['status'], detail: string) =>
+        logged.push({
+          id: crypto.randomUUID(),
+          ruleId: rule.id,
+          ruleName: rule.name,
+          trigger: event.trigger,
+          collection: event.collection,
+          recordId: record.id,
+          recordLabel: recordLabel(record),
+          eventKey: event.key,
+          status,
+          detail,
+          timestamp: new Date(),
+        });
+
+      const firedKey = `${rule.id}:${record.id}`;
+      if (cascade.fired.has(firedKey)) {
+        log('skipped', 'Already ran on this record earlier in the same chain of automations');
+        return;
+      }
+      if (cascade.depth >= MAX_AUTOMATION_DEPTH) {
+        log('skipped', `Stopped after ${MAX_AUTOMATION_DEPTH} automations in a row set each other off`);
+        return;
+      }
+      cascade.fired.add(firedKey);
+
+      const done: string[] = [];
+      activeCascade = cascade;
+      try {
+        // Rules act for the workspace, whoever's change set them off
+        useCRMStore.getState().asSystem(() =>
+          rule.actions.forEach((action) => {
+            // Later actions see what earlier ones changed
+            const current = useCRMStore.getState()[event.collection].find((candidate) => candidate.id === record.id) ?? record;
+            done.push(runAction(rule, action, event.collection, current));
+          })
+        );
+        log('success', done.join('; '));
+      } catch (error) {
+        log('failed', [...done, `Failed: ${error instanceof Error ? error.message : 'Something went wrong'}`].join('; '));
+      } finally {
+        activeCascade = null;
+      }
+    });
+
+  useAutomationStore.getState().record(logged);
+};
+
+// Runs the workspace's automations for changes made in this session, and checks for overdue
+// tasks every minute. Waits for the log to load so nothing that already ran fires again.
+export const useAutomations = (isReady: boolean) => {
+  const tasks = useCRMStore((state) => state.tasks);
+  const automations = useSettingsStore((state) => state.automations);
+  const user = useAuthStore((state) => state.user);
+
+  useEffect(
+    () =>
+      subscribeToChanges((changes) => {
+        const events = automationEvents(changes);
+        if (events.length === 0) {
+          return;
+        }
+        const cascade = activeCascade
+          ? { depth: activeCascade.depth + 1, fired: activeCascade.fired }
+          : { depth: 0, fired: new Set<string>() };
+        // After the change that set them off has finished, so it stays its own undo step
+        queueMicrotask(() => events.forEach((event) => runAutomations(event, cascade)));
+      }),
+    []
+  );
+
+  useEffect(() => {
+    if (!isReady || !automations.some((rule) => rule.enabled && rule.trigger === 'task-overdue')) {
+      return;
+    }
+    // Only tasks this user may change; someone else's session picks up the rest
+    const sweep = () =>
+      overdueEvents(useCRMStore.getState().tasks.filter((task) => can(user, 'update', 'task', task)), new Date())
+        .forEach((event) => runAutomations(event, { depth: 0, fired: new Set() }));
+    sweep();
+    const interval = window.setInterval(sweep, SWEEP_INTERVAL);
+    return () => window.clearInterval(interval);
+  }, [isReady, tasks, automations, user]);
+};
@@ -0,0 +1,97 @@
+import { useCallback, useState } from 'react';
+import toast from 'react-hot-toast';
+import { CollectionName, CollectionRecords, Task, useCRMStore } from '../stores/crmStore';
+import { mutationErrorMessage, showStepUndoToast } from '../components/history/undoToast';
+
+export interface BulkProgress {
+  label: string;
+  done: number;
+  total: number;
+}
+
+interface Selection {
+  selectedIds: string[];
+  clear: () => void;
+}
+
+// Large selections are applied a chunk at a time so the page stays responsive
+// and the action bar can show how far along the change is.
+const CHUNK_SIZE = 200;
+
+const nextFrame = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+export const useBulkActions = <C extends CollectionName>(collection: C, { selectedIds, clear }: Selection) => {
+  const { updateMany, deleteMany, addTasks, startHistoryGroup, recordInGroup, endHistoryGroup } = useCRMStore();
+  const [progress, setProgress] = useState<BulkProgress | null>(null);
+
+  // Applies `apply` to every chunk as a single undo step; if one fails,
+  // whatever already went through is still returned (and undoable)
+  const runInChunks = useCallback(async <R>(label: string, apply: (chunk: string[]) => R, stepLabel = label) => {
+    const results: R[] = [];
+    let error: unknown;
+    setProgress({ label, done: 0, total: selectedIds.length });
+    const group = startHistoryGroup(stepLabel);
+    try {
+      for (let i = 0; i < selectedIds.length; i += CHUNK_SIZE) {
+        const chunk = selectedIds.slice(i, i + CHUNK_SIZE);
+        results.push(recordInGroup(group, () => apply(chunk)));
+        setProgress({ label, done: i + chunk.length, total: selectedIds.length });
+        if (i + CHUNK_SIZE < selectedIds.length) {
+          await nextFrame();
+        }
+      }
+    } catch (caught) {
+      error = caught;
+    }
+    const step = endHistoryGroup(group);
+    setProgress(null);
+    if (error) {
+      toast.error(mutationErrorMessage(error));
+    }
+    return { results, step };
+  }, [selectedIds, startHistoryGroup, recordInGroup, endHistoryGroup]);
+
+  const update = async (
+    label: string,
+    updates: (record: CollectionRecords[C]) => Partial<CollectionRecords[C]>
+  ) => {
+    const { results, step } = await runInChunks(label, (chunk) => updateMany(collection, chunk, updates));
+    const count = results.reduce((total, updated) => total + updated, 0);
+    if (step && count > 0) {
+      showStepUndoToast(`${label}: ${count} updated`, step);
+    }
+    clear();
+  };
+
+  const remove = async () => {
+    const { results, step } = await runInChunks(
+      'Deleting',
+      (chunk) => deleteMany(collection, chunk),
+      `Delete ${collection}`
+    );
+    const blocked = results.reduce((total, result) => total + result.blockedIds.length, 0);
+    const count = results.reduce((total, result) => total + result.deletedCount, 0);
+    if (blocked > 0) {
+      toast.error(`${blocked} record(s) still have deals or tasks and were kept`);
+    }
+    if (step && count > 0) {
+      showStepUndoToast(`${count} moved to trash`, step);
+    }
+    clear();
+  };
+
+  const createTasks = async (taskFor: (id: string) => Omit<Task, 'id' | 'createdAt' | 'updatedAt'>) => {
+    const { results, step } = await runInChunks(
+      'Creating tasks',
+      (chunk) => addTasks(chunk.map(taskFor)),
+      'Add tasks'
+    );
+    const created = results.flat();
+    if (step && created.length > 0) {
+      showStepUndoToast(`${created.length} task(s) created`, step);
+    }
+    clear();
+  };
+
+  return { progress, update, remove, createTasks };
+};
@@ -0,0 +1,99 @@
+import { useEffect, useRef } from 'react';
+import { useQueries } from '@tanstack/react-query';
+import { getRepository } from '../services/repository';
+import { crmQueryKey } from '../lib/queryClient';
+import { AUDIT_COLLECTION } from '../lib/audit';
+import { AUTOMATION_RUNS_COLLECTION } from '../lib/automation';
+import { EMAILS_COLLECTION } from '../lib/email';
+import { EMAIL_TEMPLATES_COLLECTION } from '../lib/emailTemplates';
+import { NOTIFICATIONS_COLLECTION } from '../lib/notifications';
+import { ENROLLMENTS_COLLECTION, SEQUENCES_COLLECTION } from '../lib/sequences';
+import { WORKSPACE_SETTINGS_COLLECTION } from '../lib/workspaceSettings';
+import { CRM_COLLECTIONS, useCRMStore } from '../stores/crmStore';
+import { useAuditStore } from '../stores/auditStore';
+import { useAutomationStore } from '../stores/automationStore';
+import { useEmailStore } from '../stores/emailStore';
+import { useEmailTemplateStore } from '../stores/emailTemplateStore';
+import { useNotificationStore } from '../stores/notificationStore';
+import { useSequenceStore } from '../stores/sequenceStore';
+import { useSettingsStore } from '../stores/settingsStore';
+
+// Every repository collection, which is also what a workspace backup holds. The audit and email
+// logs load alongside the records so timelines are complete on first render, and the workspace
+// settings so nothing runs on their defaults.
+export const SYNCED_COLLECTIONS = [
+  ...CRM_COLLECTIONS,
+  AUDIT_COLLECTION,
+  AUTOMATION_RUNS_COLLECTION,
+  NOTIFICATIONS_COLLECTION,
+  EMAILS_COLLECTION,
+  EMAIL_TEMPLATES_COLLECTION,
+  SEQUENCES_COLLECTION,
+  ENROLLMENTS_COLLECTION,
+  WORKSPACE_SETTINGS_COLLECTION,
+];
+
+// Loads every collection into the store and, for the REST adapter, keeps it
+// fresh by refetching on focus and on an interval so teammates' edits show up.
+export const useCRMSync = () => {
+  const setCollection = useCRMStore((state) => state.setCollection);
+  const setAuditEntries = useAuditStore((state) => state.setEntries);
+  const setAutomationRuns = useAutomationStore((state) => state.setRuns);
+  const setNotifications = useNotificationStore((state) => state.setNotifications);
+  const setEmails = useEmailStore((state) => state.setEmails);
+  const setEmailTemplates = useEmailTemplateStore((state) => state.setTemplates);
+  const setSequences = useSequenceStore((state) => state.setSequences);
+  const setEnrollments = useSequenceStore((state) => state.setEnrollments);
+  const setSettings = useSettingsStore((state) => state.setSettings);
+  const repository = getRepository();
+  const isRemote = repository.kind === 'rest';
+
+  const results = useQueries({
+    queries: SYNCED_COLLECTIONS.map((name) => ({
+      queryKey: crmQueryKey(name),
+      queryFn: () => repository.collection(name).list(),
+      staleTime: isRemote ? 30_000 : Infinity,
+      refetchInterval: isRemote ? 60_000 : (false as const),
+      refetchOnWindowFocus: isRemote,
+    })),
+  });
+
+  // `results` is a new array every render, so the effect runs off this signature instead and
+  // reads the results it stands for from the ref
+  const updatedAt = results.map((result) => result.dataUpdatedAt).join(':');
+  const latestResults = useRef(results);
+  latestResults.current = results;
+
+  useEffect(() => {
+    latestResults.current.forEach((result, index) => {
+      const name = SYNCED_COLLECTIONS[index];
+      if (!result.data) {
+        return;
+      }
+      if (name === AUDIT_COLLECTION) {
+        setAuditEntries(result.data);
+      } else if (name === AUTOMATION_RUNS_COLLECTION) {
+        setAutomationRuns(result.data);
+      } else if (name === NOTIFICATIONS_COLLECTION) {
+        setNotifications(result.data);
+      } else if (name === EMAILS_COLLECTION) {
+        setEmails(result.data);
+      } else if (name === EMAIL_TEMPLATES_COLLECTION) {
+        setEmailTemplates(result.data);
+      } else if (name === SEQUENCES_COLLECTION) {
+        setSequences(result.data);
+      } else if (name === ENROLLMENTS_COLLECTION) {
+        setEnrollments(result.data);
+      } else if (name === WORKSPACE_SETTINGS_COLLECTION) {
+        setSettings(result.data);
+      } else {
+        setCollection(name, result.data);
+      }
+    });
+  }, [updatedAt, setCollection, setAuditEntries, setAutomationRuns, setNotifications, setEmails, setEmailTemplates, setSequences, setEnrollments, setSettings]);
+
+  return {
+    isLoading: results.some((result) => result.isLoading),
+    error: results.find((result) => result.error)?.error ?? null,
+  };
+};
@@ -0,0 +1,8 @@
+import { useMemo } from 'react';
+import { useSettingsStore } from '../stores/settingsStore';
+import { CustomFieldEntity } from '../lib/customFields';
+
+export const useCustomFields = (entity: CustomFieldEntity) => {
+  const fields = useSettingsStore((state) => state.customFields);
+  return useMemo(() => fields.filter((field) => field.entity === entity), [fields, entity]);
+};
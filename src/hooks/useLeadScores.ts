@@ -0,0 +1,13 @@
+import { useMemo } from 'react';
+import { useCRMStore } from '../stores/crmStore';
+import { useSettingsStore } from '../stores/settingsStore';
+import { scoreLeads } from '../lib/leadScoring';
+
+// Scores for every lead, keyed by id. The trained model learns from all leads, not just
+// the ones on screen.
+export const useLeadScores = () => {
+  const leads = useCRMStore((state) => state.leads);
+  const tasks = useCRMStore((state) => state.tasks);
+  const leadScoring = useSettingsStore((state) => state.leadScoring);
+  return useMemo(() => scoreLeads(leads, tasks, leadScoring), [leads, tasks, leadScoring]);
+};
@@ -0,0 +1,29 @@
+import { useEffect, useRef } from 'react';
+import { useSearchParams } from 'react-router-dom';
+
+// Opens a page's create form when it is reached via `?new=1` (the command
+// palette links there), then drops the param so a refresh doesn't reopen it.
+export const useNewRecordParam = (open: () => void, allowed: boolean) => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const requested = searchParams.has('new');
+  // Pages pass a fresh `open` every render; only the param itself should trigger the effect
+  const latestOpen = useRef(open);
+  latestOpen.current = open;
+
+  useEffect(() => {
+    if (!requested) {
+      return;
+    }
+    if (allowed) {
+      latestOpen.current();
+    }
+    setSearchParams(
+      (current) => {
+        const next = new URLSearchParams(current);
+        next.delete('new');
+        return next;
+      },
+      { replace: true }
+    );
+  }, [requested, allowed, setSearchParams]);
+};
@@ -0,0 +1,12 @@
+import { useCallback } from 'react';
+import { useAuthStore } from '../stores/authStore';
+import { Action, OwnedRecord, Resource, can } from '../lib/permissions';
+
+export const usePermissions = () => {
+  const user = useAuthStore((state) => state.user);
+
+  return useCallback(
+    (action: Action, resource: Resource, record?: OwnedRecord) => can(user, action, resource, record),
+    [user]
+  );
+};
@@ -0,0 +1,35 @@
+import { useCallback, useMemo, useState } from 'react';
+
+// Selection over a filtered list. Ids that drop out of the list (filtered away or
+// deleted) stop counting as selected, so bulk actions only touch what's on screen.
+export const useSelection = (visibleIds: string[]) => {
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+
+  const selectedIds = useMemo(
+    () => visibleIds.filter((id) => selected.has(id)),
+    [visibleIds, selected]
+  );
+  const allSelected = visibleIds.length > 0 && selectedIds.length === visibleIds.length;
+
+  const isSelected = useCallback((id: string) => selected.has(id), [selected]);
+
+  const toggle = useCallback((id: string) => {
+    setSelected((current) => {
+      const next = new Set(current);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  }, []);
+
+  const toggleAll = useCallback(() => {
+    setSelected(allSelected ? new Set() : new Set(visibleIds));
+  }, [allSelected, visibleIds]);
+
+  const clear = useCallback(() => setSelected(new Set()), []);
+
+  return { selectedIds, allSelected, isSelected, toggle, toggleAll, clear };
+};
@@ -0,0 +1,88 @@
+import { useEffect } from 'react';
+import toast from 'react-hot-toast';
+import { Contact, Lead, Task, subscribeToChanges, useCRMStore } from '../stores/crmStore';
+import { useAuthStore } from '../stores/authStore';
+import { useSequenceStore } from '../stores/sequenceStore';
+import { can } from '../lib/permissions';
+import { PAUSING_LEAD_STATUSES, SequenceEnrollment } from '../lib/sequences';
+import { mutationErrorMessage } from '../components/history/undoToast';
+
+const run = (work: () => void) => {
+  try {
+    work();
+  } catch (error) {
+    toast.error(mutationErrorMessage(error));
+  }
+};
+
+const openTaskId = (enrollment: SequenceEnrollment) => enrollment.steps[enrollment.steps.length - 1]?.taskId;
+
+// Moves sequences on as their tasks are completed in this session, and pauses a lead's
+// enrollments once it's converted or lost. An enrollment whose open task is deleted pauses
+// too; resuming it starts the next step. Tasks finished or deleted elsewhere are picked up on load.
+export const useSequences = (isReady: boolean) => {
+  useEffect(
+    () =>
+      subscribeToChanges((changes) => {
+        const completed = (changes.tasks ?? [])
+          .filter(({ before, after }) => after && (after as Task).status === 'completed' && (before as Task | undefined)?.status !== 'completed')
+          .map(({ after }) => after!.id);
+        const closedLeads = (changes.leads ?? [])
+          .map(({ before, after }) => ({ before: before as Lead | undefined, after: after as Lead | undefined }))
+          .filter(({ before, after }) => after && before?.status !== after.status && PAUSING_LEAD_STATUSES.includes(after.status));
+        const deleted = new Set(
+          (changes.tasks ?? [])
+            .filter(({ before, after }) => before && !before.deletedAt && (!after || after.deletedAt))
+            .map(({ before }) => before!.id)
+        );
+        if (completed.length === 0 && closedLeads.length === 0 && deleted.size === 0) {
+          return;
+        }
+        // After the change that set them off has finished, so it stays its own undo step
+        queueMicrotask(() => {
+          const store = useSequenceStore.getState();
+          closedLeads.forEach(({ after }) => {
+            const ids = store.enrollments
+              .filter((enrollment) => enrollment.status === 'active' && enrollment.relatedTo.id === after!.id)
+              .map((enrollment) => enrollment.id);
+            run(() => store.pause(ids, `Lead ${after!.status}`));
+          });
+          if (deleted.size > 0) {
+            const ids = store.enrollments
+              .filter((enrollment) => enrollment.status === 'active' && deleted.has(openTaskId(enrollment)))
+              .map((enrollment) => enrollment.id);
+            run(() => store.pause(ids, 'Step task deleted'));
+          }
+          if (completed.length > 0) {
+            run(() => store.advance(completed));
+          }
+        });
+      }),
+    []
+  );
+
+  useEffect(() => {
+    if (!isReady) {
+      return;
+    }
+    // Only records this user may change; someone else's session picks up the rest
+    const { user } = useAuthStore.getState();
+    const { tasks, leads, contacts } = useCRMStore.getState();
+    const statuses = new Map(tasks.map((task) => [task.id, task.status]));
+    const own = useSequenceStore
+      .getState()
+      .enrollments.filter((enrollment) => {
+        const records: (Contact | Lead)[] = enrollment.relatedTo.type === 'lead' ? leads : contacts;
+        const record = records.find((candidate) => candidate.id === enrollment.relatedTo.id);
+        return enrollment.status === 'active' && record && can(user, 'update', enrollment.relatedTo.type, record);
+      });
+    const missing = own.filter((enrollment) => !statuses.has(openTaskId(enrollment))).map((enrollment) => enrollment.id);
+    if (missing.length > 0) {
+      run(() => useSequenceStore.getState().pause(missing, 'Step task deleted'));
+    }
+    const completed = own.map(openTaskId).filter((taskId) => statuses.get(taskId) === 'completed');
+    if (completed.length > 0) {
+      run(() => useSequenceStore.getState().advance(completed));
+    }
+  }, [isReady]);
+};
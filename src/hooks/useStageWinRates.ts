@@ -0,0 +1,13 @@
+import { useMemo } from 'react';
+import { useCRMStore } from '../stores/crmStore';
+import { useSettingsStore } from '../stores/settingsStore';
+import { useAuditStore } from '../stores/auditStore';
+import { stageWinRates } from '../lib/pipelines';
+
+// Learned from the deals closed so far, whichever probability model is in use
+export const useStageWinRates = () => {
+  const pipelines = useSettingsStore((state) => state.pipelines);
+  const deals = useCRMStore((state) => state.deals);
+  const entries = useAuditStore((state) => state.entries);
+  return useMemo(() => stageWinRates(pipelines, deals, entries), [pipelines, deals, entries]);
+};
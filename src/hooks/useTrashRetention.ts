@@ -0,0 +1,23 @@
+import { useEffect } from 'react';
+import { useCRMStore } from '../stores/crmStore';
+import { useSettingsStore } from '../stores/settingsStore';
+
+const SWEEP_INTERVAL = 60 * 60 * 1000;
+
+// Purges trashed records once they outlive the retention setting: whenever the
+// trash loads or the setting changes, and hourly for sessions left open. Waits for the
+// workspace settings to load so nothing is purged on the default retention.
+export const useTrashRetention = (isReady: boolean) => {
+  const trash = useCRMStore((state) => state.trash);
+  const purgeExpiredTrash = useCRMStore((state) => state.purgeExpiredTrash);
+  const retentionDays = useSettingsStore((state) => state.trashRetentionDays);
+
+  useEffect(() => {
+    if (!isReady || retentionDays <= 0) {
+      return;
+    }
+    purgeExpiredTrash(retentionDays);
+    const interval = window.setInterval(() => purgeExpiredTrash(retentionDays), SWEEP_INTERVAL);
+    return () => window.clearInterval(interval);
+  }, [isReady, trash, retentionDays, purgeExpiredTrash]);
+};
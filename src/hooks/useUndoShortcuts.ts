@@ -0,0 +1,37 @@
+import { useEffect } from 'react';
+import toast from 'react-hot-toast';
+import { useCRMStore } from '../stores/crmStore';
+import { mutationErrorMessage } from '../components/history/undoToast';
+
+// Text fields keep the browser's own undo for what is being typed
+const isEditingText = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+// Ctrl+Z undoes the last store change, Ctrl+Shift+Z (or Ctrl+Y) redoes it; Cmd on macOS
+export const useUndoShortcuts = () => {
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const key = e.key.toLowerCase();
+      if (!(e.metaKey || e.ctrlKey) || (key !== 'z' && key !== 'y') || isEditingText(e.target)) {
+        return;
+      }
+      e.preventDefault();
+      const isRedo = key === 'y' || e.shiftKey;
+      try {
+        const { undo, redo } = useCRMStore.getState();
+        const step = isRedo ? redo() : undo();
+        if (step) {
+          toast.success(`${isRedo ? 'Redone' : 'Undone'}: ${step.label}`);
+        } else {
+          toast(`Nothing to ${isRedo ? 'redo' : 'undo'}`);
+        }
+      } catch (error) {
+        toast.error(mutationErrorMessage(error));
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+};
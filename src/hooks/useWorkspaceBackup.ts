@@ -0,0 +1,45 @@
+import { useCallback } from 'react';
+import { getRepository } from '../services/repository';
+import { queryClient } from '../lib/queryClient';
+import { PermissionError, can } from '../lib/permissions';
+import { exportWorkspaceBackup, parseWorkspaceBackup } from '../lib/exporter';
+import { useAuthStore } from '../stores/authStore';
+import { useCRMStore } from '../stores/crmStore';
+import { SYNCED_COLLECTIONS } from './useCRMSync';
+
+// Downloads every collection as stored, trashed records (flagged by `deletedAt`) included, and
+// puts a downloaded backup back. Restoring replaces each collection the backup holds and leaves
+// the others alone; undo history is cleared since it refers to the records being replaced.
+export const useWorkspaceBackup = () => {
+  const user = useAuthStore((state) => state.user);
+  const clearHistory = useCRMStore((state) => state.clearHistory);
+
+  const downloadBackup = useCallback(async () => {
+    const repository = getRepository();
+    const lists = await Promise.all(SYNCED_COLLECTIONS.map((name) => repository.collection(name).list()));
+    exportWorkspaceBackup(Object.fromEntries(SYNCED_COLLECTIONS.map((name, index) => [name, lists[index]])));
+  }, []);
+
+  // Resolves to the number of records restored
+  const restoreBackup = useCallback(
+    async (text: string) => {
+      if (!can(user, 'update', 'settings')) {
+        throw new PermissionError('update', 'settings');
+      }
+      const collections = parseWorkspaceBackup(text, SYNCED_COLLECTIONS);
+      const repository = getRepository();
+      for (const [name, records] of Object.entries(collections)) {
+        const collection = repository.collection(name);
+        const existing = await collection.list();
+        await collection.removeMany(existing.map((record) => record.id));
+        await collection.createMany(records);
+      }
+      clearHistory();
+      await queryClient.invalidateQueries({ queryKey: ['crm'] });
+      return Object.values(collections).reduce((total, records) => total + records.length, 0);
+    },
+    [user, clearHistory]
+  );
+
+  return { downloadBackup, restoreBackup };
+};
@@ -0,0 +1,200 @@
+import type { Lead } from '../stores/crmStore';
+import type { DirectoryUser } from '../services/authService';
+import { assignableUsers, findUser } from './users';
+
+// How a new lead that nobody picked an owner for gets one
+export type AssignmentStrategy = 'manual' | 'round-robin' | 'weighted' | 'least-loaded' | 'rules';
+
+export const ASSIGNMENT_STRATEGIES: { id: AssignmentStrategy; label: string; description: string }[] = [
+  { id: 'manual', label: 'Manual', description: 'New leads wait in the unassigned queue until a manager assigns them.' },
+  { id: 'round-robin', label: 'Round robin', description: 'Takes turns through the rotation, in name order.' },
+  { id: 'weighted', label: 'Weighted by capacity', description: 'Whoever holds the smallest share of their capacity goes next.' },
+  { id: 'least-loaded', label: 'Least loaded', description: 'Whoever has the fewest open leads goes next.' },
+  { id: 'rules', label: 'Rules', description: 'The first rule matching the lead picks the owner; the fallback handles the rest.' },
+];
+
+export type FallbackStrategy = Exclude<AssignmentStrategy, 'rules'>;
+
+// A user's part in automatic assignment
+export interface AssignmentMember {
+  userId: string;
+  // Only members in the rotation are picked by round robin, weighted and least loaded
+  inRotation: boolean;
+  // Most open leads they are given automatically; also their share under the weighted strategy
+  capacity: number;
+}
+
+// Conditions left out match any lead
+export interface AssignmentRule {
+  id: string;
+  source?: string;
+  minValue?: number;
+  territory?: string;
+  assignTo: string;
+}
+
+export interface AssignmentSettings {
+  strategy: AssignmentStrategy;
+  members: AssignmentMember[];
+  // Checked in order under the rules strategy
+  rules: AssignmentRule[];
+  // Used for leads no rule matches
+  fallback: FallbackStrategy;
+}
+
+export const DEFAULT_CAPACITY = 25;
+
+export const DEFAULT_ASSIGNMENT: AssignmentSettings = {
+  strategy: 'manual',
+  members: [],
+  rules: [],
+  fallback: 'round-robin',
+};
+
+export const LEAD_SOURCES = ['Website', 'Referral', 'Social Media', 'Cold Call', 'Email', 'Event'];
+
+export type AssignableLead = Pick<Lead, 'source' | 'value' | 'territory'>;
+
+export const memberSettings = (settings: AssignmentSettings, userId: string): AssignmentMember =>
+  settings.members.find((member) => member.userId === userId) ?? { userId, inRotation: false, capacity: DEFAULT_CAPACITY };
+
+// Leads still being worked; converted and lost ones don't count towards anyone's load
+export const isOpenLead = (lead: Lead) => lead.status === 'new' || lead.status === 'qualified';
+
+// Open leads waiting for an owner, including ones whose owner has been deactivated
+export const isUnassigned = (lead: Lead, users: DirectoryUser[]) =>
+  isOpenLead(lead) && !findUser(users, lead.assignedTo)?.active;
+
+// Open leads per user id
+export const openLeadCounts = (leads: Lead[], users: DirectoryUser[]) => {
+  const counts = new Map<string, number>();
+  leads.filter(isOpenLead).forEach((lead) => {
+    const owner = findUser(users, lead.assignedTo);
+    if (owner) {
+      counts.set(owner.id, (counts.get(owner.id) ?? 0) + 1);
+    }
+  });
+  return counts;
+};
+
+// Active members in the rotation, in name order
+const rotation = (settings: AssignmentSettings, users: DirectoryUser[]) =>
+  assignableUsers(users)
+    .map((user) => memberSettings(settings, user.id))
+    .filter((member) => member.inRotation);
+
+// Owner of the newest lead that went to someone in the rotation
+const lastInTurn = (order: string[], leads: Lead[], users: DirectoryUser[]) => {
+  let latest: { owner: string; time: number } | null = null;
+  for (const lead of leads) {
+    const owner = findUser(users, lead.assignedTo)?.id;
+    const time = new Date(lead.createdAt).getTime();
+    if (owner && order.includes(owner) && (!latest || time >= latest.time)) {
+      latest = { owner, time };
+    }
+  }
+  return latest?.owner;
+};
+
+// The first member with room after whoever had the last turn
+const nextInTurn = (members: AssignmentMember[], available: AssignmentMember[], last: string | undefined) => {
+  const order = members.map((member) => member.userId);
+  const start = last && order.includes(last) ? order.indexOf(last) + 1 : 0;
+  const turns = [...order.slice(start), ...order.slice(0, start)];
+  return turns.find((userId) => available.some((member) => member.userId === userId)) ?? '';
+};
+
+const pickByStrategy = (
+  strategy: FallbackStrategy,
+  settings: AssignmentSettings,
+  users: DirectoryUser[],
+  leads: Lead[],
+  lastTurn?: string
+) => {
+  const counts = openLeadCounts(leads, users);
+  const load = (member: AssignmentMember) => counts.get(member.userId) ?? 0;
+  const members = rotation(settings, users);
+  // Nobody is given leads past their capacity
+  const available = members.filter((member) => load(member) < member.capacity);
+  if (strategy === 'manual' || available.length === 0) {
+    return '';
+  }
+  switch (strategy) {
+    case 'round-robin':
+      return nextInTurn(
+        members,
+        available,
+        lastTurn ?? lastInTurn(members.map((member) => member.userId), leads, users)
+      );
+    case 'least-loaded':
+      return available.reduce((best, member) => (load(member) < load(best) ? member : best)).userId;
+    case 'weighted':
+      return available.reduce((best, member) =>
+        load(member) / member.capacity < load(best) / best.capacity ? member : best
+      ).userId;
+  }
+};
+
+export const ruleMatches = (rule: AssignmentRule, lead: AssignableLead) =>
+  (!rule.source || rule.source === lead.source) &&
+  (rule.minValue === undefined || lead.value >= rule.minValue) &&
+  (!rule.territory || rule.territory === lead.territory);
+
+// The id of the user a lead should go to, or '' to leave it in the unassigned queue.
+// `leads` are the other leads, which the load counts go by. Round robin carries on from
+// `lastTurn`, or else from whoever got the newest of them.
+export const chooseAssignee = (
+  lead: AssignableLead,
+  settings: AssignmentSettings,
+  users: DirectoryUser[],
+  leads: Lead[],
+  lastTurn?: string
+): string => {
+  if (settings.strategy !== 'rules') {
+    return pickByStrategy(settings.strategy, settings, users, leads, lastTurn);
+  }
+  // Rules route leads explicitly, so they ignore the rotation and capacity
+  const rule = settings.rules.find((candidate) => ruleMatches(candidate, lead) && findUser(users, candidate.assignTo)?.active);
+  return rule ? rule.assignTo : pickByStrategy(settings.fallback, settings, users, leads, lastTurn);
+};
+
+// Fills in the owner of every lead that has none, one after another so a batch is spread
+// out the same way as leads assigned one at a time
+export const assignLeads = (
+  unowned: Lead[],
+  settings: AssignmentSettings,
+  users: DirectoryUser[],
+  leads: Lead[]
+) => {
+  const others = [...leads];
+  let lastTurn: string | undefined;
+  return unowned.map((lead) => {
+    if (lead.assignedTo) {
+      return lead;
+    }
+    const assigned = { ...lead, assignedTo: chooseAssignee(lead, settings, users, others, lastTurn) };
+    others.push(assigned);
+    if (assigned.assignedTo && memberSettings(settings, assigned.assignedTo).inRotation) {
+      lastTurn = assigned.assignedTo;
+    }
+    return assigned;
+  });
+};
+
+// New owners for existing leads, worked out as if they were coming in now. Leads the
+// strategy can't place are left out.
+export const redistributeLeads = (
+  moving: Lead[],
+  settings: AssignmentSettings,
+  users: DirectoryUser[],
+  leads: Lead[]
+) => {
+  const movingIds = new Set(moving.map((lead) => lead.id));
+  const assigned = assignLeads(
+    moving.map((lead) => ({ ...lead, assignedTo: '' })),
+    settings,
+    users,
+    leads.filter((lead) => !movingIds.has(lead.id))
+  );
+  return new Map(assigned.filter((lead) => lead.assignedTo).map((lead) => [lead.id, lead.assignedTo]));
+};
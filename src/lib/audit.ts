@@ -0,0 +1,144 @@
+import { format } from 'date-fns';
+import type { User } from '../stores/authStore';
+import type { CollectionName, CollectionRecords } from '../stores/crmStore';
+
+// `delete` moves a record to the trash; `purge` removes it for good
+export type AuditAction = 'create' | 'update' | 'delete' | 'restore' | 'purge';
+
+export interface FieldChange {
+  field: string;
+  // JSON-safe copies (dates as ISO strings); absent when the field was unset
+  from?: unknown;
+  to?: unknown;
+}
+
+export interface AuditEntry {
+  id: string;
+  collection: CollectionName;
+  recordId: string;
+  // Name or title at the time, so entries for deleted records stay readable
+  recordLabel: string;
+  action: AuditAction;
+  userId: string | null;
+  userName: string;
+  // Only updates carry a diff; the other actions are identified by the record itself
+  changes: FieldChange[];
+  timestamp: Date;
+}
+
+type AuditedRecord = CollectionRecords[CollectionName];
+
+export interface AuditChange {
+  before?: AuditedRecord;
+  after?: AuditedRecord;
+}
+
+export const AUDIT_COLLECTION = 'auditLog' as const;
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  create: 'created',
+  update: 'updated',
+  delete: 'deleted',
+  restore: 'restored',
+  purge: 'permanently deleted',
+};
+
+// Bookkeeping that changes on every write and would drown out the real edits
+const IGNORED_FIELDS = new Set(['id', 'createdAt', 'updatedAt']);
+
+const FIELD_LABELS: Record<string, string> = {
+  contactId: 'Contact',
+  relatedTo: 'Related to',
+  sourceLeadId: 'Source lead',
+  convertedContactId: 'Converted contact',
+  convertedDealId: 'Converted deal',
+};
+
+const toAuditValue = (value: unknown) => (value instanceof Date ? value.toISOString() : value);
+
+const isSameValue = (a: unknown, b: unknown) =>
+  JSON.stringify(toAuditValue(a)) === JSON.stringify(toAuditValue(b));
+
+export const diffRecords = (before: object, after: object): FieldChange[] => {
+  const previous = before as Record<string, unknown>;
+  const next = after as Record<string, unknown>;
+  const fields = new Set([...Object.keys(previous), ...Object.keys(next)]);
+  return [...fields]
+    .filter((field) => !IGNORED_FIELDS.has(field) && !isSameValue(previous[field], next[field]))
+    .map((field) => ({ field, from: toAuditValue(previous[field]), to: toAuditValue(next[field]) }));
+};
+
+const recordLabel = (record: AuditedRecord) => ('title' in record ? record.title : record.name);
+
+const auditAction = (before: AuditedRecord | undefined, after: AuditedRecord | undefined): AuditAction => {
+  if (!before) {
+    return 'create';
+  }
+  if (!after) {
+    return 'purge';
+  }
+  if (!before.deletedAt && after.deletedAt) {
+    return 'delete';
+  }
+  return before.deletedAt && !after.deletedAt ? 'restore' : 'update';
+};
+
+// One entry per touched record; updates that changed nothing but `updatedAt` are dropped
+export const buildAuditEntries = (
+  collection: CollectionName,
+  changes: AuditChange[],
+  user: User | null,
+  timestamp: Date
+): AuditEntry[] =>
+  changes.flatMap(({ before, after }) => {
+    const record = after ?? before;
+    if (!record) {
+      return [];
+    }
+    const action = auditAction(before, after);
+    const fieldChanges = action === 'update' && before && after ? diffRecords(before, after) : [];
+    if (action === 'update' && fieldChanges.length === 0) {
+      return [];
+    }
+    return [{
+      id: crypto.randomUUID(),
+      collection,
+      recordId: record.id,
+      recordLabel: recordLabel(record),
+      action,
+      userId: user?.id ?? null,
+      userName: user?.name ?? 'System',
+      changes: fieldChanges,
+      timestamp,
+    }];
+  });
+
+// "closeDate" → "Close date"
+export const fieldLabel = (field: string) => {
+  if (FIELD_LABELS[field]) {
+    return FIELD_LABELS[field];
+  }
+  const words = field.replace(/([A-Z])/g, ' $1').toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}T/;
+
+export const formatAuditValue = (value: unknown): string => {
+  if (value === undefined || value === null || value === '') {
+    return '—';
+  }
+  if (Array.isArray(value)) {
+    return value.length > 0 ? value.join(', ') : '—';
+  }
+  if (typeof value === 'string' && ISO_DATE.test(value)) {
+    return format(new Date(value), 'MMM dd, yyyy');
+  }
+  if (typeof value === 'number') {
+    return value.toLocaleString();
+  }
+  if (typeof value === 'object') {
+    return Object.values(value).join(' ');
+  }
+  return String(value);
+};
@@ -0,0 +1,321 @@
+import type { ChangeSet, Deal, Lead, Task } from '../stores/crmStore';
+import type { CustomFieldDefinition } from './customFields';
+import { Pipeline } from './pipelines';
+import { recordPath } from './records';
+
+export type AutomationTrigger = 'lead-created' | 'deal-stage-changed' | 'task-overdue';
+
+export type AutomationCollection = 'leads' | 'deals' | 'tasks';
+
+export const AUTOMATION_TRIGGERS: { id: AutomationTrigger; label: string; collection: AutomationCollection }[] = [
+  { id: 'lead-created', label: 'Lead is created', collection: 'leads' },
+  { id: 'deal-stage-changed', label: 'Deal changes stage', collection: 'deals' },
+  { id: 'task-overdue', label: 'Task becomes overdue', collection: 'tasks' },
+];
+
+export const triggerCollection = (trigger: AutomationTrigger) =>
+  AUTOMATION_TRIGGERS.find((option) => option.id === trigger)?.collection ?? 'leads';
+
+export type ConditionOperator = 'equals' | 'not-equals' | 'contains' | 'greater-than' | 'less-than' | 'is-empty' | 'is-not-empty';
+
+export const CONDITION_OPERATORS: { id: ConditionOperator; label: string }[] = [
+  { id: 'equals', label: 'is' },
+  { id: 'not-equals', label: 'is not' },
+  { id: 'contains', label: 'contains' },
+  { id: 'greater-than', label: 'is more than' },
+  { id: 'less-than', label: 'is less than' },
+  { id: 'is-empty', label: 'is empty' },
+  { id: 'is-not-empty', label: 'is not empty' },
+];
+
+// Operators that don't compare against a value
+export const isUnaryOperator = (operator: ConditionOperator) => operator === 'is-empty' || operator === 'is-not-empty';
+
+export interface AutomationCondition {
+  // A record field, or `custom:<field id>`
+  field: string;
+  operator: ConditionOperator;
+  value: string;
+}
+
+export type AutomationAction =
+  | { type: 'create-task'; title: string; dueInDays: number; priority: Task['priority'] }
+  | { type: 'assign-owner'; assignedTo: string }
+  // A lead or task status, or a deal's stage id
+  | { type: 'change-status'; status: string }
+  // Leads and deals only; tasks have no tags
+  | { type: 'add-tag'; tag: string }
+  // Sent to the record's owner
+  | { type: 'notify'; message: string };
+
+export type AutomationActionType = AutomationAction['type'];
+
+export const AUTOMATION_ACTIONS: { id: AutomationActionType; label: string }[] = [
+  { id: 'create-task', label: 'Create a task' },
+  { id: 'assign-owner', label: 'Assign owner' },
+  { id: 'change-status', label: 'Change status' },
+  { id: 'add-tag', label: 'Add a tag' },
+  { id: 'notify', label: 'Notify the owner' },
+];
+
+export const actionsFor = (trigger: AutomationTrigger) =>
+  AUTOMATION_ACTIONS.filter((action) => action.id !== 'add-tag' || triggerCollection(trigger) !== 'tasks');
+
+export const newAction = (type: AutomationActionType): AutomationAction => {
+  switch (type) {
+    case 'create-task':
+      return { type, title: 'Follow up on {{record}}', dueInDays: 1, priority: 'medium' };
+    case 'assign-owner':
+      return { type, assignedTo: '' };
+    case 'change-status':
+      return { type, status: '' };
+    case 'add-tag':
+      return { type, tag: '' };
+    case 'notify':
+      return { type, message: '{{record}} needs your attention' };
+  }
+};
+
+export interface AutomationRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  trigger: AutomationTrigger;
+  // For `deal-stage-changed`: only fire on entering this stage; absent for any stage
+  stageId?: string;
+  // All of them must hold
+  conditions: AutomationCondition[];
+  // Run in order; the first failure stops the rest
+  actions: AutomationAction[];
+}
+
+export type AutomationRecord = Lead | Deal | Task;
+
+export interface AutomationEvent {
+  trigger: AutomationTrigger;
+  collection: AutomationCollection;
+  record: AutomationRecord;
+  // Identifies one occurrence, so time-based triggers fire once per occurrence
+  key: string;
+}
+
+export type AutomationRunStatus = 'success' | 'failed' | 'skipped';
+
+export const AUTOMATION_RUNS_COLLECTION = 'automationRuns' as const;
+
+// One execution-log entry: a rule that fired, or was held back, for one record
+export interface AutomationRun {
+  id: string;
+  ruleId: string;
+  ruleName: string;
+  trigger: AutomationTrigger;
+  collection: AutomationCollection;
+  recordId: string;
+  recordLabel: string;
+  eventKey: string;
+  status: AutomationRunStatus;
+  // What the actions did, or why they didn't run
+  detail: string;
+  timestamp: Date;
+}
+
+// Automations set off by other automations' changes nest; past this depth they stop
+export const MAX_AUTOMATION_DEPTH = 3;
+
+export const LEAD_STATUSES: Lead['status'][] = ['new', 'qualified', 'lost'];
+
+export const TASK_STATUSES: Task['status'][] = ['pending', 'in-progress', 'completed'];
+
+export const TASK_PRIORITIES: Task['priority'][] = ['low', 'medium', 'high'];
+
+// Tasks have neither a detail page nor custom fields
+const COLLECTION_TYPES: Record<AutomationCollection, 'lead' | 'deal' | null> = {
+  leads: 'lead',
+  deals: 'deal',
+  tasks: null,
+};
+
+const BUILT_IN_FIELDS: Record<AutomationCollection, { id: string; label: string }[]> = {
+  leads: [
+    { id: 'name', label: 'Name' },
+    { id: 'company', label: 'Company' },
+    { id: 'email', label: 'Email' },
+    { id: 'value', label: 'Value' },
+    { id: 'status', label: 'Status' },
+    { id: 'source', label: 'Source' },
+    { id: 'territory', label: 'Territory' },
+    { id: 'assignedTo', label: 'Assigned to' },
+  ],
+  deals: [
+    { id: 'title', label: 'Title' },
+    { id: 'value', label: 'Value' },
+    { id: 'probability', label: 'Probability' },
+    { id: 'assignedTo', label: 'Assigned to' },
+    { id: 'lossReason', label: 'Loss reason' },
+  ],
+  tasks: [
+    { id: 'title', label: 'Title' },
+    { id: 'priority', label: 'Priority' },
+    { id: 'status', label: 'Status' },
+    { id: 'assignedTo', label: 'Assigned to' },
+  ],
+};
+
+// Fields conditions can test for the trigger's records, custom fields included
+export const conditionFields = (trigger: AutomationTrigger, customFields: CustomFieldDefinition[]) => {
+  const collection = triggerCollection(trigger);
+  const entity = COLLECTION_TYPES[collection];
+  return [
+    ...BUILT_IN_FIELDS[collection],
+    ...customFields
+      .filter((field) => field.entity === entity)
+      .map((field) => ({ id: `custom:${field.id}`, label: field.label })),
+  ];
+};
+
+export const recordLabel = (record: AutomationRecord) => ('name' in record ? record.name : record.title);
+
+// Tasks have no page of their own, so they link to the task list searched for the title
+export const recordLink = (collection: AutomationCollection, id: string, label: string) => {
+  const type = COLLECTION_TYPES[collection];
+  return type ? recordPath(type, id) : `/tasks?q=${encodeURIComponent(label)}`;
+};
+
+// `{{record}}` in task titles and messages becomes the record's name or title
+export const fillTemplate = (template: string, record: AutomationRecord) =>
+  template.replace(/\{\{\s*record\s*\}\}/g, recordLabel(record));
+
+const fieldValue = (record: AutomationRecord, field: string): unknown =>
+  field.startsWith('custom:')
+    ? ('customFields' in record ? record.customFields?.[field.slice('custom:'.length)] : undefined)
+    : (record as unknown as Record<string, unknown>)[field];
+
+const isEmptyValue = (value: unknown) =>
+  value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+
+const matchesCondition = (record: AutomationRecord, { field, operator, value }: AutomationCondition) => {
+  const actual = fieldValue(record, field);
+  const values = (Array.isArray(actual) ? actual : [actual]).map((item) => String(item ?? '').toLowerCase());
+  const expected = value.trim().toLowerCase();
+  switch (operator) {
+    case 'is-empty':
+      return isEmptyValue(actual);
+    case 'is-not-empty':
+      return !isEmptyValue(actual);
+    case 'equals':
+      return values.includes(expected);
+    case 'not-equals':
+      return !values.includes(expected);
+    case 'contains':
+      return values.some((item) => item.includes(expected));
+    case 'greater-than':
+    case 'less-than': {
+      const number = Number(actual);
+      const limit = Number(value);
+      if (isEmptyValue(actual) || Number.isNaN(number) || value.trim() === '' || Number.isNaN(limit)) {
+        return false;
+      }
+      return operator === 'greater-than' ? number > limit : number < limit;
+    }
+  }
+};
+
+export const matchesConditions = (record: AutomationRecord, conditions: AutomationCondition[]) =>
+  conditions.every((condition) => matchesCondition(record, condition));
+
+export const rulesFor = (rules: AutomationRule[], event: AutomationEvent) =>
+  rules.filter(
+    (rule) =>
+      rule.enabled &&
+      rule.trigger === event.trigger &&
+      (rule.trigger !== 'deal-stage-changed' || !rule.stageId || rule.stageId === (event.record as Deal).stage) &&
+      matchesConditions(event.record, rule.conditions)
+  );
+
+// The trigger events in one committed change. Task deadlines pass without any change, see `overdueEvents`.
+export const automationEvents = (changes: ChangeSet): AutomationEvent[] => [
+  ...(changes.leads ?? [])
+    .filter(({ before, after }) => !before && after && !after.deletedAt)
+    .map(({ after }) => ({
+      trigger: 'lead-created' as const,
+      collection: 'leads' as const,
+      record: after as Lead,
+      key: `${after!.id}:created`,
+    })),
+  ...(changes.deals ?? [])
+    .filter(
+      ({ before, after }) =>
+        before && after && !after.deletedAt && (before as Deal).stage !== (after as Deal).stage
+    )
+    .map(({ after }) => ({
+      trigger: 'deal-stage-changed' as const,
+      collection: 'deals' as const,
+      record: after as Deal,
+      key: `${after!.id}:${(after as Deal).stage}:${new Date(after!.updatedAt).getTime()}`,
+    })),
+];
+
+export const isTaskOverdue = (task: Task, now: Date) =>
+  task.status !== 'completed' && new Date(task.dueDate).getTime() < now.getTime();
+
+// Overdue tasks, keyed by due date so a task that's rescheduled and slips again fires again
+export const overdueEvents = (tasks: Task[], now: Date): AutomationEvent[] =>
+  tasks
+    .filter((task) => isTaskOverdue(task, now))
+    .map((task) => ({
+      trigger: 'task-overdue',
+      collection: 'tasks',
+      record: task,
+      key: `${task.id}:overdue:${new Date(task.dueDate).getTime()}`,
+    }));
+
+export const hasRun = (runs: AutomationRun[], rule: AutomationRule, event: AutomationEvent) =>
+  runs.some((run) => run.ruleId === rule.id && run.eventKey === event.key);
+
+// Choices for the change-status action; for deals, every stage of every pipeline
+export const statusOptions = (trigger: AutomationTrigger, pipelines: Pipeline[]) => {
+  switch (triggerCollection(trigger)) {
+    case 'leads':
+      return LEAD_STATUSES.map((status) => ({ id: status, label: status }));
+    case 'tasks':
+      return TASK_STATUSES.map((status) => ({ id: status, label: status }));
+    case 'deals':
+      return pipelines.flatMap((pipeline) =>
+        pipeline.stages.map((stage) => ({
+          id: stage.id,
+          label: pipelines.length > 1 ? `${pipeline.name}: ${stage.title}` : stage.title,
+        }))
+      );
+  }
+};
+
+// Why the rule can't be saved as it stands, or null
+export const validateAutomationRule = (rule: AutomationRule): string | null => {
+  if (!rule.name.trim()) {
+    return 'Give the automation a name';
+  }
+  if (rule.actions.length === 0) {
+    return 'Add at least one action';
+  }
+  if (rule.conditions.some((condition) => !isUnaryOperator(condition.operator) && !condition.value.trim())) {
+    return 'Every condition needs a value';
+  }
+  for (const action of rule.actions) {
+    if (action.type === 'create-task' && (!action.title.trim() || !Number.isInteger(action.dueInDays) || action.dueInDays < 0)) {
+      return 'Tasks need a title and a due date of 0 or more days';
+    }
+    if (action.type === 'assign-owner' && !action.assignedTo) {
+      return 'Choose who to assign';
+    }
+    if (action.type === 'change-status' && !action.status) {
+      return 'Choose the new status';
+    }
+    if (action.type === 'add-tag' && !action.tag.trim()) {
+      return 'Enter the tag to add';
+    }
+    if (action.type === 'notify' && !action.message.trim()) {
+      return 'Enter the notification message';
+    }
+  }
+  return null;
+};
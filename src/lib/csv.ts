@@ -0,0 +1,70 @@
+// RFC 4180 parsing: quoted fields may contain commas, doubled quotes and line breaks
+export const parseCSV = (text: string, delimiter = ','): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Blank lines carry no data, and spreadsheets like to leave a few at the end
+  return rows.filter((cells) => cells.some((cell) => cell.trim() !== ''));
+};
+
+// Excel exports use semicolons in locales where the comma is the decimal separator
+export const detectDelimiter = (text: string) => {
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? '';
+  const counts = [',', ';', '\t'].map((delimiter) => ({
+    delimiter,
+    count: firstLine.split(delimiter).length,
+  }));
+  return counts.reduce((best, candidate) => (candidate.count > best.count ? candidate : best)).delimiter;
+};
+
+// Spreadsheets run cells starting with these as formulas; plain numbers like -5 are left alone
+const FORMULA_START = /^[=+\-@\t\r]/;
+const NUMBER = /^[-+]?\d+(\.\d+)?$/;
+
+const neutralizeFormula = (cell: string) => (FORMULA_START.test(cell) && !NUMBER.test(cell) ? `'${cell}` : cell);
+
+const escapeCell = (value: string) => {
+  const cell = neutralizeFormula(value);
+  return /[",\r\n]/.test(cell) || /^\s|\s$/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+};
+
+export const toCSV = (rows: string[][]) =>
+  rows.map((row) => row.map(escapeCell).join(',')).join('\r\n');
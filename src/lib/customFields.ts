@@ -0,0 +1,178 @@
+import { z } from 'zod';
+import { format, parseISO } from 'date-fns';
+import { isWebLink } from './html';
+
+export type CustomFieldEntity = 'contact' | 'lead' | 'deal';
+
+export type CustomFieldType = 'text' | 'number' | 'date' | 'select' | 'multiselect' | 'checkbox' | 'url';
+
+// Dates are kept as `yyyy-MM-dd` strings so the values stay JSON-safe without reviving
+export type CustomFieldValue = string | number | boolean | string[];
+
+// Keyed by definition id, so renaming a field keeps its values
+export type CustomFieldValues = Record<string, CustomFieldValue>;
+
+export interface CustomFieldDefinition {
+  id: string;
+  entity: CustomFieldEntity;
+  label: string;
+  type: CustomFieldType;
+  // Choices for `select` and `multiselect`; empty for the other types
+  options: string[];
+  required: boolean;
+}
+
+export interface CustomFieldRecord {
+  customFields?: CustomFieldValues;
+}
+
+// What the record forms hold while editing: inputs that were left empty are undefined
+export interface CustomFieldFormData {
+  customFields: Record<string, CustomFieldValue | undefined>;
+}
+
+export const CUSTOM_FIELD_TYPES: { id: CustomFieldType; label: string }[] = [
+  { id: 'text', label: 'Text' },
+  { id: 'number', label: 'Number' },
+  { id: 'date', label: 'Date' },
+  { id: 'select', label: 'Select' },
+  { id: 'multiselect', label: 'Multi-select' },
+  { id: 'checkbox', label: 'Checkbox' },
+  { id: 'url', label: 'URL' },
+];
+
+export const CUSTOM_FIELD_ENTITIES: { id: CustomFieldEntity; label: string }[] = [
+  { id: 'contact', label: 'Contacts' },
+  { id: 'lead', label: 'Leads' },
+  { id: 'deal', label: 'Deals' },
+];
+
+export const hasOptions = (type: CustomFieldType) => type === 'select' || type === 'multiselect';
+
+const ISO_DAY = /^\d{4}-\d{2}-\d{2}$/;
+
+const fieldSchema = (field: CustomFieldDefinition): z.ZodType<CustomFieldValue | undefined> => {
+  const required = `${field.label} is required`;
+  switch (field.type) {
+    case 'number':
+      return field.required ? z.number(required) : z.number('Enter a number').optional();
+    case 'date': {
+      const date = z.string().regex(ISO_DAY, 'Enter a valid date');
+      return field.required ? date : date.optional().or(z.literal(''));
+    }
+    case 'select': {
+      const option = z.string().refine((value) => field.options.includes(value), 'Choose one of the options');
+      return field.required ? z.string(required).min(1, required).pipe(option) : option.optional().or(z.literal(''));
+    }
+    case 'multiselect': {
+      const options = z.array(z.string().refine((value) => field.options.includes(value), 'Choose from the options'));
+      return field.required ? options.min(1, required) : options.optional();
+    }
+    case 'checkbox':
+      return field.required ? z.literal(true, required) : z.boolean().optional();
+    case 'url': {
+      const url = z.string().url('Enter a valid URL').refine(isWebLink, 'Enter an http:// or https:// URL');
+      return field.required ? url : url.optional().or(z.literal(''));
+    }
+    case 'text':
+      return field.required ? z.string(required).trim().min(1, required) : z.string().trim().optional();
+  }
+};
+
+// Validates the `customFields` part of a record form against the current definitions
+export const customFieldsSchema = (fields: CustomFieldDefinition[]) =>
+  z.object(Object.fromEntries(fields.map((field) => [field.id, fieldSchema(field)])));
+
+export const withCustomFields = <Output, Input>(
+  schema: z.ZodObject<z.ZodRawShape> & z.ZodType<Output, Input>,
+  fields: CustomFieldDefinition[]
+) =>
+  schema.extend({ customFields: customFieldsSchema(fields) }) as unknown as z.ZodType<
+    Output & CustomFieldFormData,
+    Input & CustomFieldFormData
+  >;
+
+const isEmpty = (value: CustomFieldValue | undefined) =>
+  value === undefined || value === '' || (Array.isArray(value) && value.length === 0);
+
+export const hasCustomFieldValue = (record: CustomFieldRecord, fieldId: string) =>
+  !isEmpty(record.customFields?.[fieldId]);
+
+export const customFieldFormValues = (
+  fields: CustomFieldDefinition[],
+  values: CustomFieldValues = {}
+): CustomFieldFormData['customFields'] =>
+  Object.fromEntries(
+    fields.map((field) => [field.id, values[field.id] ?? (field.type === 'multiselect' ? [] : undefined)])
+  );
+
+// Applies the form's values on top of what the record already had. Values of fields
+// that were deleted or belong to another form are left untouched.
+export const mergeCustomFieldValues = (
+  fields: CustomFieldDefinition[],
+  formValues: CustomFieldFormData['customFields'],
+  existing: CustomFieldValues = {}
+): CustomFieldValues => {
+  const merged = { ...existing };
+  fields.forEach((field) => {
+    const value = formValues[field.id];
+    if (isEmpty(value)) {
+      delete merged[field.id];
+    } else {
+      merged[field.id] = value as CustomFieldValue;
+    }
+  });
+  return merged;
+};
+
+export const formatCustomFieldValue = (field: CustomFieldDefinition, value: CustomFieldValue | undefined): string => {
+  if (isEmpty(value)) {
+    return field.type === 'checkbox' ? 'No' : '';
+  }
+  switch (field.type) {
+    case 'checkbox':
+      return value ? 'Yes' : 'No';
+    case 'date':
+      return format(parseISO(String(value)), 'MMM dd, yyyy');
+    case 'number':
+      return Number(value).toLocaleString();
+    case 'multiselect':
+      return (value as string[]).join(', ');
+    default:
+      return String(value);
+  }
+};
+
+// Free-text values, so the list searches can find records by them
+export const customFieldSearchText = (fields: CustomFieldDefinition[], record: CustomFieldRecord) =>
+  fields
+    .filter((field) => field.type === 'text' || field.type === 'url' || hasOptions(field.type))
+    .map((field) => formatCustomFieldValue(field, record.customFields?.[field.id]))
+    .join(' ')
+    .toLowerCase();
+
+// Only fields with a fixed set of values get a filter; '' means "any"
+export const isFilterable = (field: CustomFieldDefinition) => hasOptions(field.type) || field.type === 'checkbox';
+
+export type CustomFieldFilterValues = Record<string, string>;
+
+export const matchesCustomFieldFilters = (
+  fields: CustomFieldDefinition[],
+  filters: CustomFieldFilterValues,
+  record: CustomFieldRecord
+) =>
+  fields.every((field) => {
+    const filter = filters[field.id];
+    if (!filter) {
+      return true;
+    }
+    const value = record.customFields?.[field.id];
+    switch (field.type) {
+      case 'checkbox':
+        return (value === true) === (filter === 'yes');
+      case 'multiselect':
+        return Array.isArray(value) && value.includes(filter);
+      default:
+        return value === filter;
+    }
+  });
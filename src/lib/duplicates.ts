@@ -0,0 +1,166 @@
+import { normalizeEmail } from '../stores/crmStore';
+import type { Contact, Lead } from '../stores/crmStore';
+
+// The collections that can hold duplicates of one another's records
+export type MergeCollection = 'contacts' | 'leads';
+
+export type MergeableRecord = Contact | Lead;
+
+// Why two records look like the same person
+export type DuplicateReason = 'email' | 'phone' | 'name';
+
+export const DUPLICATE_REASON_LABELS: Record<DuplicateReason, string> = {
+  email: 'Same email',
+  phone: 'Same phone',
+  name: 'Similar name and company',
+};
+
+export interface DuplicatePair {
+  // Stable for the pair whichever way round it was found, for remembering dismissals
+  key: string;
+  // Older record first
+  records: [MergeableRecord, MergeableRecord];
+  reasons: DuplicateReason[];
+}
+
+// Name and company must each be at least this similar (0–1) to count as a fuzzy match
+export const SIMILARITY_THRESHOLD = 0.85;
+
+// Phone numbers shorter than this once reduced to digits are too partial to match on
+const MIN_PHONE_DIGITS = 7;
+
+const COMPANY_SUFFIXES = /\b(inc|incorporated|llc|ltd|limited|corp|corporation|co|company|gmbh|plc|sa)\b/g;
+
+export const normalizePhone = (phone: string) => phone.replace(/\D/g, '');
+
+const normalizeName = (name: string) =>
+  name.toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, ' ').replace(/\s+/g, ' ').trim();
+
+const normalizeCompany = (company: string) =>
+  normalizeName(company).replace(COMPANY_SUFFIXES, '').replace(/\s+/g, ' ').trim();
+
+const editDistance = (a: string, b: string) => {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// 1 for identical strings, falling towards 0 the more edits it takes to turn one into the other
+export const similarity = (a: string, b: string) => {
+  const longest = Math.max(a.length, b.length);
+  return longest === 0 ? 1 : 1 - editDistance(a, b) / longest;
+};
+
+export const pairKey = (collection: MergeCollection, a: string, b: string) =>
+  `${collection}:${[a, b].sort().join(':')}`;
+
+// Exact matches come from lookups on email and phone. Comparing every name with every
+// other would be too slow for large lists, so fuzzy matching only compares records whose
+// companies start the same way; typos further into the company name still match.
+export const findDuplicates = (
+  collection: MergeCollection,
+  records: MergeableRecord[],
+  dismissed: string[] = []
+): DuplicatePair[] => {
+  const pairs = new Map<string, { ids: [string, string]; reasons: Set<DuplicateReason> }>();
+  const add = (a: MergeableRecord, b: MergeableRecord, reason: DuplicateReason) => {
+    const key = pairKey(collection, a.id, b.id);
+    const pair = pairs.get(key) ?? { ids: [a.id, b.id] as [string, string], reasons: new Set<DuplicateReason>() };
+    pair.reasons.add(reason);
+    pairs.set(key, pair);
+  };
+  const groupBy = (key: (record: MergeableRecord) => string) => {
+    const groups = new Map<string, MergeableRecord[]>();
+    records.forEach((record) => {
+      const value = key(record);
+      if (value) {
+        groups.set(value, [...(groups.get(value) ?? []), record]);
+      }
+    });
+    return [...groups.values()];
+  };
+  const eachPair = (group: MergeableRecord[], visit: (a: MergeableRecord, b: MergeableRecord) => void) =>
+    group.forEach((a, i) => group.slice(i + 1).forEach((b) => visit(a, b)));
+
+  const exactKeys: [DuplicateReason, (record: MergeableRecord) => string][] = [
+    ['email', (record) => normalizeEmail(record.email)],
+    ['phone', (record) => {
+      const digits = normalizePhone(record.phone);
+      return digits.length >= MIN_PHONE_DIGITS ? digits : '';
+    }],
+  ];
+  exactKeys.forEach(([reason, key]) =>
+    groupBy(key).forEach((group) => eachPair(group, (a, b) => add(a, b, reason)))
+  );
+
+  groupBy((record) => normalizeCompany(record.company).slice(0, 3)).forEach((block) =>
+    eachPair(block, (a, b) => {
+      if (
+        similarity(normalizeName(a.name), normalizeName(b.name)) >= SIMILARITY_THRESHOLD &&
+        similarity(normalizeCompany(a.company), normalizeCompany(b.company)) >= SIMILARITY_THRESHOLD
+      ) {
+        add(a, b, 'name');
+      }
+    })
+  );
+
+  const byId = new Map(records.map((record) => [record.id, record]));
+  const time = (record: MergeableRecord) => new Date(record.createdAt).getTime();
+  return [...pairs]
+    .filter(([key]) => !dismissed.includes(key))
+    .map(([key, { ids, reasons }]) => {
+      const [a, b] = ids.map((id) => byId.get(id)!);
+      return {
+        key,
+        records: (time(a) <= time(b) ? [a, b] : [b, a]) as [MergeableRecord, MergeableRecord],
+        reasons: (['email', 'phone', 'name'] as DuplicateReason[]).filter((reason) => reasons.has(reason)),
+      };
+    })
+    .sort((a, b) => b.reasons.length - a.reasons.length || time(b.records[1]) - time(a.records[1]));
+};
+
+// Fields whose winner is picked in the merge screen. Tags and notes are combined instead,
+// and custom field values the survivor lacks are filled in from the other record.
+export const MERGE_FIELDS: Record<MergeCollection, { key: string; label: string }[]> = {
+  contacts: [
+    { key: 'name', label: 'Name' },
+    { key: 'email', label: 'Email' },
+    { key: 'phone', label: 'Phone' },
+    { key: 'company', label: 'Company' },
+    { key: 'position', label: 'Position' },
+    { key: 'assignedTo', label: 'Owner' },
+  ],
+  leads: [
+    { key: 'name', label: 'Name' },
+    { key: 'email', label: 'Email' },
+    { key: 'phone', label: 'Phone' },
+    { key: 'company', label: 'Company' },
+    { key: 'companySize', label: 'Company size' },
+    { key: 'value', label: 'Value' },
+    { key: 'status', label: 'Status' },
+    { key: 'assignedTo', label: 'Owner' },
+    { key: 'source', label: 'Source' },
+    { key: 'territory', label: 'Territory' },
+  ],
+};
+
+export const combineTags = (a: string[] = [], b: string[] = []) => [...new Set([...a, ...b])];
+
+// The survivor's notes, then the other record's if they say something different
+export const combineNotes = (survivor: string, other: string) => {
+  const kept = survivor.trim();
+  const added = other.trim();
+  if (!added || kept.includes(added)) {
+    return survivor;
+  }
+  return kept ? `${kept}\n\n${added}` : added;
+};
+
+// Which record each merge field is taken from; fields left out keep the survivor's value
+export type MergeChoices = Partial<Record<string, 'survivor' | 'duplicate'>>;
@@ -0,0 +1,19 @@
+export const EMAILS_COLLECTION = 'emails' as const;
+
+// A sent email, logged on the timeline of the record it went to
+export interface EmailActivity {
+  id: string;
+  relatedTo: { type: 'contact' | 'lead'; id: string };
+  from: string;
+  to: string;
+  subject: string;
+  // Plain text; `html` holds the formatted version for emails written in the rich-text editor
+  body: string;
+  html?: string;
+  // Id and name of the user who sent it, as it was at the time
+  sentBy: string;
+  sentByName: string;
+  // The transport's id for the message, for tracing it in the mail server's logs
+  messageId: string;
+  createdAt: Date;
+}
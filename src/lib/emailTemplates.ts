@@ -0,0 +1,218 @@
+import { format } from 'date-fns';
+import type { User, UserRole } from '../stores/authStore';
+import type { Contact, Deal, Lead } from '../stores/crmStore';
+import { escapeHtml } from './html';
+
+export const EMAIL_TEMPLATES_COLLECTION = 'emailTemplates' as const;
+
+export interface EmailTemplate {
+  id: string;
+  name: string;
+  category: string;
+  subject: string;
+  // HTML from the rich-text editor; see `sanitizeHtml`
+  body: string;
+  // Roles that can pick the template in the composer; admins and managers see every
+  // template in Settings regardless
+  visibleTo: UserRole[];
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type EmailTemplateInput = Pick<EmailTemplate, 'name' | 'category' | 'subject' | 'body' | 'visibleTo'>;
+
+export const TEMPLATE_CATEGORIES = ['Prospecting', 'Follow-up', 'Meetings', 'Closing'];
+
+export const ALL_ROLES: UserRole[] = ['admin', 'manager', 'salesperson'];
+
+// Offered when the library is empty, so a new workspace has something to start from
+export const STARTER_EMAIL_TEMPLATES: EmailTemplateInput[] = [
+  {
+    name: 'Introduction',
+    category: 'Prospecting',
+    subject: 'Hello from {{user.name}}',
+    body: '<p>Hi {{firstName}},</p><p>I wanted to reach out and introduce myself. I work with teams like {{company}} and would love to learn more about what you are working on.</p><p>Would you be open to a short call this week?</p><p>Best,<br>{{user.name}}</p>',
+    visibleTo: ALL_ROLES,
+  },
+  {
+    name: 'Follow-up',
+    category: 'Follow-up',
+    subject: 'Following up',
+    body: '<p>Hi {{firstName}},</p><p>Just following up on my last message. Is there a good time to talk about how we could help {{company}}?</p><p>Best,<br>{{user.name}}</p>',
+    visibleTo: ALL_ROLES,
+  },
+  {
+    name: 'Thank you',
+    category: 'Meetings',
+    subject: 'Thanks for your time, {{firstName}}',
+    body: '<p>Hi {{firstName}},</p><p>Thank you for taking the time to speak with me today. I will send over the details we discussed shortly.</p><p>Best,<br>{{user.name}}</p>',
+    visibleTo: ALL_ROLES,
+  },
+  {
+    name: 'Proposal',
+    category: 'Closing',
+    subject: 'Proposal: {{deal.title}}',
+    body: '<p>Hi {{contact.firstName}},</p><p>As promised, here is our proposal for <b>{{deal.title}}</b> at {{deal.value}}. I have assumed a start before {{deal.closeDate}}; let me know if that timing works.</p><p>Best,<br>{{user.name}}</p>',
+    visibleTo: ['admin', 'manager'],
+  },
+];
+
+// The records a template is filled in from. The recipient is the contact or lead being
+// emailed; the deal is the one the email is about, when there is one.
+export interface MergeContext {
+  recipient?: Contact | Lead;
+  contact?: Contact;
+  lead?: Lead;
+  deal?: Deal;
+  user: User | null;
+}
+
+export type MergeSource = 'recipient' | 'contact' | 'lead' | 'deal' | 'user';
+
+export const MERGE_SOURCE_LABELS: Record<MergeSource, string> = {
+  recipient: 'Recipient',
+  contact: 'Contact',
+  lead: 'Lead',
+  deal: 'Deal',
+  user: 'You',
+};
+
+interface MergeVariable {
+  key: string;
+  label: string;
+  source: MergeSource;
+  value: (context: MergeContext) => string | undefined;
+}
+
+const firstName = (name?: string) => name?.trim().split(/\s+/)[0];
+const money = (value?: number) => (value === undefined ? undefined : `$${value.toLocaleString()}`);
+
+// What can be written as `{{key}}` in a subject or body
+export const MERGE_VARIABLES: MergeVariable[] = [
+  { key: 'name', label: 'Full name', source: 'recipient', value: ({ recipient }) => recipient?.name },
+  { key: 'firstName', label: 'First name', source: 'recipient', value: ({ recipient }) => firstName(recipient?.name) },
+  { key: 'company', label: 'Company', source: 'recipient', value: ({ recipient }) => recipient?.company },
+  { key: 'email', label: 'Email', source: 'recipient', value: ({ recipient }) => recipient?.email },
+  { key: 'contact.name', label: 'Full name', source: 'contact', value: ({ contact }) => contact?.name },
+  { key: 'contact.firstName', label: 'First name', source: 'contact', value: ({ contact }) => firstName(contact?.name) },
+  { key: 'contact.company', label: 'Company', source: 'contact', value: ({ contact }) => contact?.company },
+  { key: 'contact.position', label: 'Position', source: 'contact', value: ({ contact }) => contact?.position },
+  { key: 'contact.email', label: 'Email', source: 'contact', value: ({ contact }) => contact?.email },
+  { key: 'contact.phone', label: 'Phone', source: 'contact', value: ({ contact }) => contact?.phone },
+  { key: 'lead.name', label: 'Full name', source: 'lead', value: ({ lead }) => lead?.name },
+  { key: 'lead.firstName', label: 'First name', source: 'lead', value: ({ lead }) => firstName(lead?.name) },
+  { key: 'lead.company', label: 'Company', source: 'lead', value: ({ lead }) => lead?.company },
+  { key: 'lead.email', label: 'Email', source: 'lead', value: ({ lead }) => lead?.email },
+  { key: 'lead.phone', label: 'Phone', source: 'lead', value: ({ lead }) => lead?.phone },
+  { key: 'lead.value', label: 'Value', source: 'lead', value: ({ lead }) => money(lead?.value) },
+  { key: 'lead.source', label: 'Source', source: 'lead', value: ({ lead }) => lead?.source },
+  { key: 'deal.title', label: 'Title', source: 'deal', value: ({ deal }) => deal?.title },
+  { key: 'deal.value', label: 'Value', source: 'deal', value: ({ deal }) => money(deal?.value) },
+  {
+    key: 'deal.closeDate',
+    label: 'Close date',
+    source: 'deal',
+    value: ({ deal }) => (deal ? format(new Date(deal.closeDate), 'MMMM d, yyyy') : undefined),
+  },
+  { key: 'user.name', label: 'Name', source: 'user', value: ({ user }) => user?.name },
+  { key: 'user.firstName', label: 'First name', source: 'user', value: ({ user }) => firstName(user?.name) },
+  { key: 'user.email', label: 'Email', source: 'user', value: ({ user }) => user?.email },
+];
+
+const KNOWN_VARIABLES = new Set(MERGE_VARIABLES.map((variable) => variable.key));
+
+export type MergeValues = Record<string, string>;
+
+// Values for every variable the context can fill; the rest are left out
+export const mergeValues = (context: MergeContext): MergeValues =>
+  Object.fromEntries(
+    MERGE_VARIABLES.flatMap((variable) => {
+      const value = variable.value(context);
+      return value ? [[variable.key, value]] : [];
+    })
+  );
+
+const MERGE_FIELD = /\{\{\s*([\w.]+)\s*\}\}/g;
+
+// Every `{{key}}` used in the texts, in order of first appearance
+export const templateVariables = (...texts: string[]) => [
+  ...new Set(texts.flatMap((text) => [...text.matchAll(MERGE_FIELD)].map((match) => match[1]))),
+];
+
+// Variables that no record or user can fill, usually typos
+export const unknownVariables = (...texts: string[]) =>
+  templateVariables(...texts).filter((key) => !KNOWN_VARIABLES.has(key));
+
+// Known variables the chosen records have no value for, e.g. `deal.*` on a lead without a deal
+export const emptyVariables = (values: MergeValues, ...texts: string[]) =>
+  templateVariables(...texts).filter((key) => KNOWN_VARIABLES.has(key) && !values[key]);
+
+// Fills in `{{key}}` placeholders. Unknown ones are left as written so they stand out;
+// known ones without a value become empty. Values are escaped when filling in HTML.
+export const renderTemplate = (text: string, values: MergeValues, as: 'text' | 'html' = 'text') =>
+  text.replace(MERGE_FIELD, (placeholder, key: string) => {
+    if (!KNOWN_VARIABLES.has(key)) {
+      return placeholder;
+    }
+    const value = values[key] ?? '';
+    return as === 'html' ? escapeHtml(value) : value;
+  });
+
+// The records behind an email to a contact or lead: a lead brings the deal it was converted
+// into, a contact its most recently updated deal
+export const recipientContext = (
+  type: 'contact' | 'lead',
+  record: Contact | Lead,
+  deals: Deal[],
+  user: User | null
+): MergeContext => {
+  if (type === 'lead') {
+    const lead = record as Lead;
+    return { recipient: lead, lead, deal: deals.find((deal) => deal.id === lead.convertedDealId), user };
+  }
+  const contact = record as Contact;
+  const deal = deals
+    .filter((candidate) => candidate.contactId === contact.id && !candidate.deletedAt)
+    .sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime())[0];
+  return { recipient: contact, contact, deal, user };
+};
+
+// The records behind an email about a deal, which goes to the deal's contact
+export const dealContext = (deal: Deal, contacts: Contact[], user: User | null): MergeContext => {
+  const contact = contacts.find((candidate) => candidate.id === deal.contactId);
+  return { recipient: contact, contact, deal, user };
+};
+
+// Templates a role can pick in the composer, grouped by category; without a role, all of them
+export const templatesByCategory = (templates: EmailTemplate[], role?: UserRole) => {
+  const groups = new Map<string, EmailTemplate[]>();
+  templates
+    .filter((template) => !role || template.visibleTo.includes(role))
+    .sort((a, b) => a.category.localeCompare(b.category) || a.name.localeCompare(b.name))
+    .forEach((template) => {
+      const category = template.category || 'Uncategorized';
+      groups.set(category, [...(groups.get(category) ?? []), template]);
+    });
+  return [...groups.entries()];
+};
+
+export const validateEmailTemplate = (input: EmailTemplateInput): string | null => {
+  if (!input.name.trim()) {
+    return 'Give the template a name';
+  }
+  if (!input.subject.trim()) {
+    return 'Enter a subject';
+  }
+  if (!input.body.replace(/<[^>]*>|&nbsp;/g, '').trim()) {
+    return 'Write the message';
+  }
+  if (input.visibleTo.length === 0) {
+    return 'Choose at least one role that can use the template';
+  }
+  const unknown = unknownVariables(input.subject, input.body);
+  if (unknown.length > 0) {
+    return `Unknown variable${unknown.length === 1 ? '' : 's'}: ${unknown.map((key) => `{{${key}}}`).join(', ')}`;
+  }
+  return null;
+};
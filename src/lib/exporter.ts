@@ -0,0 +1,259 @@
+import { format, parseISO } from 'date-fns';
+import { Contact, Deal, Lead, Task } from '../stores/crmStore';
+import { CustomFieldDefinition, CustomFieldRecord, formatCustomFieldValue } from './customFields';
+import { Pipeline, dealPipeline, getDealStage } from './pipelines';
+import { userName } from './users';
+import type { DirectoryUser } from '../services/authService';
+import type { Entity } from '../services/repository';
+import { toCSV } from './csv';
+import { XlsxValue, createXlsx } from './xlsx';
+import { WORKSPACE_SETTINGS_COLLECTION } from './workspaceSettings';
+
+export type ExportFormat = 'csv' | 'json' | 'xlsx';
+
+export const EXPORT_FORMATS: { id: ExportFormat; label: string }[] = [
+  { id: 'csv', label: 'CSV' },
+  { id: 'json', label: 'JSON' },
+  { id: 'xlsx', label: 'Excel (XLSX)' },
+];
+
+type ExportValue = string | number | Date | undefined;
+
+export interface ExportColumn<T> {
+  key: string;
+  label: string;
+  // `date` drops the time of day; `datetime` keeps it
+  type: 'text' | 'number' | 'date' | 'datetime';
+  value: (record: T) => ExportValue;
+}
+
+const toDate = (value: ExportValue) => (value instanceof Date ? value : value ? new Date(value) : undefined);
+
+const text = <T>(key: string, label: string, value: (record: T) => string | undefined): ExportColumn<T> => ({
+  key,
+  label,
+  type: 'text',
+  value,
+});
+
+export const CONTACT_EXPORT_COLUMNS: ExportColumn<Contact>[] = [
+  text('name', 'Name', (contact) => contact.name),
+  text('email', 'Email', (contact) => contact.email),
+  text('phone', 'Phone', (contact) => contact.phone),
+  text('company', 'Company', (contact) => contact.company),
+  text('position', 'Position', (contact) => contact.position),
+  text('tags', 'Tags', (contact) => contact.tags.join('; ')),
+  text('notes', 'Notes', (contact) => contact.notes),
+  { key: 'createdAt', label: 'Created', type: 'datetime', value: (contact) => contact.createdAt },
+  { key: 'updatedAt', label: 'Updated', type: 'datetime', value: (contact) => contact.updatedAt },
+];
+
+// Owners are stored by user id, so the lead, deal and task columns need the directory to name them
+export const leadExportColumns = (users: DirectoryUser[]): ExportColumn<Lead>[] => [
+  text('name', 'Name', (lead) => lead.name),
+  text('email', 'Email', (lead) => lead.email),
+  text('phone', 'Phone', (lead) => lead.phone),
+  text('company', 'Company', (lead) => lead.company),
+  { key: 'value', label: 'Value', type: 'number', value: (lead) => lead.value },
+  text('status', 'Status', (lead) => lead.status),
+  text('assignedTo', 'Assigned to', (lead) => userName(users, lead.assignedTo)),
+  text('source', 'Source', (lead) => lead.source),
+  text('territory', 'Territory', (lead) => lead.territory),
+  text('companySize', 'Company size', (lead) => lead.companySize),
+  text('notes', 'Notes', (lead) => lead.notes),
+  { key: 'convertedAt', label: 'Converted', type: 'datetime', value: (lead) => lead.convertedAt },
+  { key: 'createdAt', label: 'Created', type: 'datetime', value: (lead) => lead.createdAt },
+];
+
+// Stages are stored by id, so the columns need the pipeline definitions to name them
+export const dealExportColumns = (pipelines: Pipeline[], users: DirectoryUser[]): ExportColumn<Deal>[] => [
+  text('title', 'Title', (deal) => deal.title),
+  { key: 'value', label: 'Value', type: 'number', value: (deal) => deal.value },
+  text('pipeline', 'Pipeline', (deal) => dealPipeline(pipelines, deal).name),
+  text('stage', 'Stage', (deal) => getDealStage(pipelines, deal)?.title),
+  { key: 'probability', label: 'Probability', type: 'number', value: (deal) => deal.probability },
+  { key: 'closeDate', label: 'Close date', type: 'date', value: (deal) => deal.closeDate },
+  text('lossReason', 'Loss reason', (deal) => deal.lossReason),
+  text('assignedTo', 'Assigned to', (deal) => userName(users, deal.assignedTo)),
+  text('notes', 'Notes', (deal) => deal.notes),
+  { key: 'createdAt', label: 'Created', type: 'datetime', value: (deal) => deal.createdAt },
+];
+
+// One column per custom field, keyed by the field's label so JSON exports stay readable
+export const customFieldExportColumns = <T extends CustomFieldRecord>(
+  fields: CustomFieldDefinition[]
+): ExportColumn<T>[] =>
+  fields.map((field, index) => {
+    const slug = field.label.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+    const key = `custom_${slug || index}`;
+    const value = (record: T) => record.customFields?.[field.id];
+    switch (field.type) {
+      case 'number':
+        return { key, label: field.label, type: 'number', value: (record) => value(record) as number | undefined };
+      case 'date':
+        return {
+          key,
+          label: field.label,
+          type: 'date',
+          value: (record) => {
+            const day = value(record);
+            return typeof day === 'string' && day ? parseISO(day) : undefined;
+          },
+        };
+      default:
+        return text(key, field.label, (record) => formatCustomFieldValue(field, value(record)) || undefined);
+    }
+  });
+
+// Tasks only store the id of what they relate to, so the page supplies the display name
+export const taskExportColumns = (
+  relatedLabel: (relatedTo: NonNullable<Task['relatedTo']>) => string,
+  users: DirectoryUser[]
+): ExportColumn<Task>[] => [
+  text('title', 'Title', (task) => task.title),
+  text('description', 'Description', (task) => task.description),
+  { key: 'dueDate', label: 'Due date', type: 'date', value: (task) => task.dueDate },
+  text('priority', 'Priority', (task) => task.priority),
+  text('status', 'Status', (task) => task.status),
+  text('assignedTo', 'Assigned to', (task) => userName(users, task.assignedTo)),
+  text('relatedType', 'Related type', (task) => task.relatedTo?.type),
+  text('relatedTo', 'Related to', (task) => task.relatedTo && relatedLabel(task.relatedTo)),
+  { key: 'createdAt', label: 'Created', type: 'datetime', value: (task) => task.createdAt },
+];
+
+const formatCell = <T>(column: ExportColumn<T>, record: T): string => {
+  const value = column.value(record);
+  if (column.type === 'date' || column.type === 'datetime') {
+    const date = toDate(value);
+    return date && !Number.isNaN(date.getTime())
+      ? format(date, column.type === 'date' ? 'yyyy-MM-dd' : 'yyyy-MM-dd HH:mm')
+      : '';
+  }
+  return value === undefined ? '' : String(value);
+};
+
+const jsonValue = <T>(column: ExportColumn<T>, record: T) => {
+  const value = column.value(record);
+  if (column.type === 'date') {
+    return formatCell(column, record) || null;
+  }
+  if (column.type === 'datetime') {
+    return toDate(value)?.toISOString() ?? null;
+  }
+  return value ?? null;
+};
+
+const xlsxValue = <T>(column: ExportColumn<T>, record: T): XlsxValue => {
+  const value = column.value(record);
+  if (column.type === 'date' || column.type === 'datetime') {
+    const date = toDate(value);
+    return date && { date, withTime: column.type === 'datetime' };
+  }
+  return value instanceof Date ? value.toISOString() : value;
+};
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+// Writes the records in the order given, so the file matches what the page shows
+export const exportRecords = <T>(
+  name: string,
+  records: T[],
+  columns: ExportColumn<T>[],
+  exportFormat: ExportFormat
+) => {
+  const fileName = `${name}-${format(new Date(), 'yyyy-MM-dd')}.${exportFormat}`;
+
+  switch (exportFormat) {
+    case 'csv': {
+      const rows = [
+        columns.map((column) => column.label),
+        ...records.map((record) => columns.map((column) => formatCell(column, record))),
+      ];
+      // The BOM makes Excel read the file as UTF-8
+      downloadBlob(new Blob(['\ufeff', toCSV(rows)], { type: 'text/csv;charset=utf-8' }), fileName);
+      break;
+    }
+    case 'json': {
+      const rows = records.map((record) =>
+        Object.fromEntries(columns.map((column) => [column.key, jsonValue(column, record)]))
+      );
+      downloadBlob(new Blob([JSON.stringify(rows, null, 2)], { type: 'application/json' }), fileName);
+      break;
+    }
+    case 'xlsx': {
+      const rows = records.map((record) => columns.map((column) => xlsxValue(column, record)));
+      downloadBlob(createXlsx(name, columns.map((column) => column.label), rows), fileName);
+      break;
+    }
+  }
+};
+
+export const BACKUP_VERSION = 2;
+
+// Raw records (not the display columns) by collection name
+export type WorkspaceCollections = Record<string, Entity[]>;
+
+export class BackupError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BackupError';
+  }
+}
+
+// Everything needed to rebuild the workspace: every repository collection, settings and logs included
+export const exportWorkspaceBackup = (collections: WorkspaceCollections) => {
+  const backup = {
+    version: BACKUP_VERSION,
+    exportedAt: new Date().toISOString(),
+    ...collections,
+  };
+  downloadBlob(
+    new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' }),
+    `crm-backup-${format(new Date(), 'yyyy-MM-dd-HHmm')}.json`
+  );
+};
+
+const isEntityList = (value: unknown): value is Entity[] =>
+  Array.isArray(value) && value.every((record) => typeof record?.id === 'string');
+
+// Reads a downloaded backup back into the `names` collections it holds. Version 1 backups only
+// had the CRM records, with the settings as one object.
+export const parseWorkspaceBackup = (text: string, names: readonly string[]): WorkspaceCollections => {
+  let backup: Record<string, unknown>;
+  try {
+    backup = JSON.parse(text);
+  } catch {
+    throw new BackupError('That file is not a workspace backup.');
+  }
+  if (typeof backup?.version !== 'number' || backup.version < 1) {
+    throw new BackupError('That file is not a workspace backup.');
+  }
+  if (backup.version > BACKUP_VERSION) {
+    throw new BackupError('That backup was made by a newer version of the app.');
+  }
+  const collections: WorkspaceCollections = {};
+  names.forEach((name) => {
+    const records = backup[name];
+    if (records === undefined) {
+      return;
+    }
+    if (!isEntityList(records)) {
+      throw new BackupError(`The backup's ${name} are damaged.`);
+    }
+    collections[name] = records;
+  });
+  const { settings } = backup;
+  if (backup.version === 1 && settings && typeof settings === 'object') {
+    collections[WORKSPACE_SETTINGS_COLLECTION] = Object.entries(settings).map(([id, value]) => ({ id, value }));
+  }
+  return collections;
+};
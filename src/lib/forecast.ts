@@ -0,0 +1,134 @@
+import { addMonths, endOfMonth, format, isAfter, isBefore, startOfMonth } from 'date-fns';
+import type { Deal } from '../stores/crmStore';
+import type { AuditEntry } from './audit';
+import { Pipeline, dealOutcome } from './pipelines';
+
+// Open deals are bucketed by probability, from the most to the least certain
+export type ForecastCategory = 'commit' | 'best' | 'pipeline';
+
+export const FORECAST_CATEGORIES: { id: ForecastCategory; label: string; minProbability: number; color: string }[] = [
+  { id: 'commit', label: 'Commit', minProbability: 70, color: '#10B981' },
+  { id: 'best', label: 'Best case', minProbability: 40, color: '#3B82F6' },
+  { id: 'pipeline', label: 'Pipeline', minProbability: 0, color: '#9CA3AF' },
+];
+
+export const forecastCategory = (probability: number): ForecastCategory =>
+  FORECAST_CATEGORIES.find((category) => probability >= category.minProbability)?.id ?? 'pipeline';
+
+export const weightedValue = (deal: Pick<Deal, 'value' | 'probability'>) => (deal.value * deal.probability) / 100;
+
+export interface ForecastTotals {
+  won: number;
+  // Weighted value of the open deals in each category
+  commit: number;
+  best: number;
+  pipeline: number;
+  // Won plus every open deal's weighted value
+  forecast: number;
+}
+
+export interface ForecastMonth extends ForecastTotals {
+  month: Date;
+  name: string;
+  // What the forecast for the month was when it began; absent for months still ahead
+  forecastAtStart?: number;
+}
+
+export interface RepForecast extends ForecastTotals {
+  assignedTo: string;
+}
+
+const emptyTotals = (): ForecastTotals => ({ won: 0, commit: 0, best: 0, pipeline: 0, forecast: 0 });
+
+// Open deals whose close date has passed can still close, so they count towards the current month
+const forecastMonth = (deal: Deal, pipelines: Pipeline[], now: Date) => {
+  const month = startOfMonth(new Date(deal.closeDate));
+  return dealOutcome(pipelines, deal) === 'open' && isBefore(month, startOfMonth(now)) ? startOfMonth(now) : month;
+};
+
+const addToTotals = (totals: ForecastTotals, deal: Deal, pipelines: Pipeline[]) => {
+  const outcome = dealOutcome(pipelines, deal);
+  if (outcome === 'won') {
+    totals.won += deal.value;
+    totals.forecast += deal.value;
+  } else if (outcome === 'open') {
+    totals[forecastCategory(deal.probability)] += weightedValue(deal);
+    totals.forecast += weightedValue(deal);
+  }
+  return totals;
+};
+
+// Only the fields the forecast reads are rolled back
+const FORECAST_FIELDS = new Set(['value', 'stage', 'pipelineId', 'probability', 'closeDate', 'assignedTo']);
+
+// The deal as it stood at `time`, worked out by undoing the audited changes made since.
+// Undefined when the deal did not exist yet.
+export const dealAsOf = (deal: Deal, history: AuditEntry[], time: Date): Deal | undefined => {
+  if (isAfter(new Date(deal.createdAt), time)) {
+    return undefined;
+  }
+  const past: Record<string, unknown> = { ...deal };
+  const later = history
+    .filter((entry) => isAfter(new Date(entry.timestamp), time))
+    .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+  for (const entry of later) {
+    if (entry.action === 'create') {
+      return undefined;
+    }
+    entry.changes
+      .filter((change) => FORECAST_FIELDS.has(change.field))
+      .forEach((change) => {
+        past[change.field] = change.field === 'closeDate' && change.from ? new Date(change.from as string) : change.from;
+      });
+  }
+  return past as unknown as Deal;
+};
+
+// Monthly totals from `from` for `count` months. Months that have already begun also get
+// the forecast as it stood on their first day, to compare with what was actually won.
+export const monthlyForecast = (
+  deals: Deal[],
+  pipelines: Pipeline[],
+  auditEntries: AuditEntry[],
+  from: Date,
+  count: number,
+  now = new Date()
+): ForecastMonth[] => {
+  const history = new Map<string, AuditEntry[]>();
+  auditEntries
+    .filter((entry) => entry.collection === 'deals')
+    .forEach((entry) => history.set(entry.recordId, [...(history.get(entry.recordId) ?? []), entry]));
+
+  return Array.from({ length: count }, (_, index) => {
+    const month = startOfMonth(addMonths(from, index));
+    const totals = deals
+      .filter((deal) => forecastMonth(deal, pipelines, now).getTime() === month.getTime())
+      .reduce((sum, deal) => addToTotals(sum, deal, pipelines), emptyTotals());
+
+    const forecastAtStart = isAfter(month, now)
+      ? undefined
+      : deals
+          .map((deal) => dealAsOf(deal, history.get(deal.id) ?? [], month))
+          .filter((deal): deal is Deal => deal !== undefined && forecastMonth(deal, pipelines, month).getTime() === month.getTime())
+          .reduce((sum, deal) => addToTotals(sum, deal, pipelines), emptyTotals()).forecast;
+
+    return { ...totals, month, name: format(month, 'MMM yyyy'), forecastAtStart };
+  });
+};
+
+// Totals per salesperson for deals expected to close between the two months, inclusive
+export const forecastByRep = (deals: Deal[], pipelines: Pipeline[], from: Date, to: Date, now = new Date()) => {
+  const start = startOfMonth(from);
+  const end = endOfMonth(to);
+  const reps = new Map<string, RepForecast>();
+  deals
+    .filter((deal) => {
+      const month = forecastMonth(deal, pipelines, now);
+      return !isBefore(month, start) && !isAfter(month, end);
+    })
+    .forEach((deal) => {
+      const rep = reps.get(deal.assignedTo) ?? { assignedTo: deal.assignedTo, ...emptyTotals() };
+      reps.set(deal.assignedTo, addToTotals(rep, deal, pipelines) as RepForecast);
+    });
+  return [...reps.values()].sort((a, b) => b.forecast - a.forecast);
+};
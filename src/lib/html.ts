@@ -0,0 +1,60 @@
+// Template bodies are stored as HTML written in the rich-text editor, so anything coming
+// from the editor, a teammate or the repository is reduced to these tags before it's shown or sent.
+const ALLOWED_TAGS = new Set(['p', 'div', 'br', 'b', 'strong', 'i', 'em', 'u', 'ul', 'ol', 'li', 'a']);
+const SAFE_LINK = /^(https?:|mailto:)/i;
+const WEB_LINK = /^https?:/i;
+
+// Whether a URL from a user or an import is safe to put in a link's href
+export const isWebLink = (url: string) => WEB_LINK.test(url.trim());
+
+export const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const cleanNode = (node: Node, document: Document): Node[] => {
+  if (node.nodeType === Node.TEXT_NODE) {
+    return [document.createTextNode(node.textContent ?? '')];
+  }
+  if (!(node instanceof Element)) {
+    return [];
+  }
+  const children = [...node.childNodes].flatMap((child) => cleanNode(child, document));
+  const tag = node.tagName.toLowerCase();
+  if (tag === 'script' || tag === 'style') {
+    return [];
+  }
+  // Unknown wrappers (spans, fonts, ...) are dropped but keep their text
+  if (!ALLOWED_TAGS.has(tag)) {
+    return children;
+  }
+  const clean = document.createElement(tag);
+  const href = node.getAttribute('href');
+  if (tag === 'a' && href && SAFE_LINK.test(href.trim())) {
+    clean.setAttribute('href', href.trim());
+    clean.setAttribute('target', '_blank');
+    clean.setAttribute('rel', 'noopener noreferrer');
+  }
+  clean.append(...children);
+  return [clean];
+};
+
+export const sanitizeHtml = (html: string) => {
+  const source = new DOMParser().parseFromString(html, 'text/html');
+  const target = document.implementation.createHTMLDocument('');
+  target.body.append(...[...source.body.childNodes].flatMap((node) => cleanNode(node, target)));
+  return target.body.innerHTML;
+};
+
+// The plain-text alternative sent alongside the HTML
+export const htmlToText = (html: string) => {
+  const body = new DOMParser().parseFromString(html, 'text/html').body;
+  body.querySelectorAll('br').forEach((br) => br.replaceWith('\n'));
+  body.querySelectorAll('li').forEach((item) => item.prepend('- '));
+  body.querySelectorAll('a[href]').forEach((link) => {
+    const href = link.getAttribute('href');
+    if (href && href !== link.textContent) {
+      link.append(` (${href})`);
+    }
+  });
+  body.querySelectorAll('p, div, li').forEach((block) => block.append('\n'));
+  return (body.textContent ?? '').replace(/\n{3,}/g, '\n\n').trim();
+};
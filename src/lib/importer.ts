@@ -0,0 +1,166 @@
+import { contactSchema, leadSchema } from './schemas';
+import { ImportCollection, ImportableRecords, normalizeEmail } from '../stores/crmStore';
+import type { DirectoryUser } from '../services/authService';
+import { matchUser } from './users';
+import { companySizeBand } from './leadScoring';
+
+export type ImportEntity = ImportCollection;
+
+export interface ImportField {
+  key: string;
+  label: string;
+  required: boolean;
+  // Header spellings recognised when guessing the mapping
+  aliases: string[];
+}
+
+const sharedFields: ImportField[] = [
+  { key: 'name', label: 'Name', required: true, aliases: ['full name', 'contact name', 'contact'] },
+  { key: 'email', label: 'Email', required: true, aliases: ['e-mail', 'email address', 'mail'] },
+  { key: 'phone', label: 'Phone', required: true, aliases: ['phone number', 'telephone', 'mobile', 'tel'] },
+  { key: 'company', label: 'Company', required: true, aliases: ['organization', 'organisation', 'account', 'company name'] },
+];
+
+export const IMPORT_FIELDS: Record<ImportEntity, ImportField[]> = {
+  contacts: [
+    ...sharedFields,
+    { key: 'position', label: 'Position', required: true, aliases: ['title', 'job title', 'role'] },
+    { key: 'tags', label: 'Tags', required: false, aliases: ['labels'] },
+    { key: 'notes', label: 'Notes', required: false, aliases: ['note', 'comments', 'description'] },
+  ],
+  leads: [
+    ...sharedFields,
+    { key: 'value', label: 'Value', required: false, aliases: ['amount', 'deal value', 'estimated value'] },
+    { key: 'status', label: 'Status', required: false, aliases: ['lead status', 'stage'] },
+    { key: 'assignedTo', label: 'Assigned to', required: false, aliases: ['owner', 'assignee', 'assigned to', 'sales rep'] },
+    { key: 'source', label: 'Source', required: false, aliases: ['lead source', 'channel'] },
+    { key: 'territory', label: 'Territory', required: false, aliases: ['region', 'area'] },
+    { key: 'companySize', label: 'Company size', required: false, aliases: ['employees', 'headcount', 'size'] },
+    { key: 'notes', label: 'Notes', required: false, aliases: ['note', 'comments', 'description'] },
+  ],
+};
+
+// Field key -> index of the CSV column feeding it, or null when left unmapped
+export type ColumnMapping = Record<string, number | null>;
+
+const normalizeHeader = (header: string) => header.trim().toLowerCase().replace(/[_-]+/g, ' ');
+
+export const autoMapColumns = (entity: ImportEntity, headers: string[]): ColumnMapping => {
+  const normalized = headers.map(normalizeHeader);
+  const taken = new Set<number>();
+
+  return Object.fromEntries(
+    IMPORT_FIELDS[entity].map((field) => {
+      const candidates = [field.key.toLowerCase(), field.label.toLowerCase(), ...field.aliases];
+      const index = normalized.findIndex((header, i) => !taken.has(i) && candidates.includes(header));
+      if (index === -1) {
+        return [field.key, null];
+      }
+      taken.add(index);
+      return [field.key, index];
+    })
+  );
+};
+
+export type ImportRecord<E extends ImportEntity> = ImportableRecords[E];
+
+export interface ImportRow<E extends ImportEntity = ImportEntity> {
+  // 1-based line in the file, counting the header, so it matches what a spreadsheet shows
+  line: number;
+  record?: ImportRecord<E>;
+  errors: string[];
+  duplicate?: { kind: 'existing'; name: string } | { kind: 'file'; line: number };
+}
+
+export interface ImportDefaults {
+  // For rows without an owner; empty leaves them to the assignment strategy
+  assignedTo: string;
+  // Owners in the file are matched to these by email or name
+  users: DirectoryUser[];
+}
+
+const parseValue = (raw: string) => {
+  const cleaned = raw.replace(/[^0-9.-]/g, '');
+  return cleaned === '' ? 0 : Number(cleaned);
+};
+
+const buildCandidate = (
+  entity: ImportEntity,
+  cells: string[],
+  mapping: ColumnMapping,
+  defaults: ImportDefaults
+) => {
+  const read = (key: string) => {
+    const index = mapping[key];
+    return index === null || index === undefined ? '' : (cells[index] ?? '').trim();
+  };
+
+  const base = {
+    name: read('name'),
+    email: read('email'),
+    phone: read('phone'),
+    company: read('company'),
+    notes: read('notes'),
+  };
+
+  if (entity === 'contacts') {
+    return {
+      ...base,
+      position: read('position'),
+      tags: read('tags').split(/[;|,]/).map((tag) => tag.trim()).filter(Boolean),
+    };
+  }
+  // Owners nobody in the directory matches are kept as written, which puts the lead in the unassigned queue
+  const owner = read('assignedTo');
+  return {
+    ...base,
+    value: parseValue(read('value')),
+    status: read('status').toLowerCase() || 'new',
+    assignedTo: owner ? matchUser(defaults.users, owner)?.id ?? owner : defaults.assignedTo,
+    source: read('source') || 'Import',
+    territory: read('territory') || undefined,
+    companySize: companySizeBand(read('companySize')),
+  };
+};
+
+export const validateImportRows = <E extends ImportEntity>(
+  entity: E,
+  rows: string[][],
+  mapping: ColumnMapping,
+  existing: { name: string; email: string }[],
+  defaults: ImportDefaults
+): ImportRow<E>[] => {
+  const schema = entity === 'contacts' ? contactSchema : leadSchema;
+  const existingByEmail = new Map(existing.map((record) => [normalizeEmail(record.email), record.name]));
+  const seenInFile = new Map<string, number>();
+
+  return rows.map((cells, index) => {
+    const line = index + 2;
+    const candidate = buildCandidate(entity, cells, mapping, defaults);
+    const result = schema.safeParse(candidate);
+
+    if (!result.success) {
+      return {
+        line,
+        errors: result.error.issues.map((issue) => `${String(issue.path[0] ?? 'row')}: ${issue.message}`),
+      };
+    }
+
+    const email = normalizeEmail(candidate.email);
+    const row: ImportRow<E> = {
+      line,
+      record: { ...candidate, ...result.data } as ImportRecord<E>,
+      errors: [],
+    };
+    const existingName = existingByEmail.get(email);
+    const firstLine = seenInFile.get(email);
+    if (existingName !== undefined) {
+      row.duplicate = { kind: 'existing', name: existingName };
+    } else if (firstLine !== undefined) {
+      row.duplicate = { kind: 'file', line: firstLine };
+    } else {
+      seenInFile.set(email, line);
+    }
+    return row;
+  });
+};
@@ -0,0 +1,274 @@
+import type { Lead, Task } from '../stores/crmStore';
+
+// Headcount bands a lead's company can be filed under, smallest first
+export const COMPANY_SIZES = ['1-10', '11-50', '51-200', '201-1000', '1000+'];
+
+// The band an imported size falls in: one of the bands as written, or a headcount
+export const companySizeBand = (value: string) => {
+  const size = value.trim();
+  if (COMPANY_SIZES.includes(size)) {
+    return size;
+  }
+  const headcount = Number(size.replace(/[,+\s]/g, ''));
+  if (!size || Number.isNaN(headcount)) {
+    return undefined;
+  }
+  const upperBounds = [10, 50, 200, 1000];
+  const index = upperBounds.findIndex((bound) => headcount <= bound);
+  return COMPANY_SIZES[index === -1 ? COMPANY_SIZES.length - 1 : index];
+};
+
+// Where a lead's score comes from: the configured points, or a model trained on the
+// leads that were converted or lost so far
+export type ScoringModel = 'rules' | 'trained';
+
+export interface ScoringRules {
+  // Points per lead source; sources left out score nothing
+  sources: Record<string, number>;
+  // The band with the highest minimum at or below the lead's value applies
+  valueBands: { min: number; points: number }[];
+  // Points per company size band
+  companySizes: Record<string, number>;
+  // The band with the fewest days covering the time since the lead was last updated applies
+  recency: { days: number; points: number }[];
+  // Points per completed task related to the lead, up to `taskMax`
+  taskPoints: number;
+  taskMax: number;
+}
+
+export interface LeadScoringSettings {
+  model: ScoringModel;
+  rules: ScoringRules;
+}
+
+// Adds up to 100 for a lead that tops every factor
+export const DEFAULT_LEAD_SCORING: LeadScoringSettings = {
+  model: 'rules',
+  rules: {
+    sources: { Referral: 20, Event: 15, Website: 10, Email: 5, 'Social Media': 5, 'Cold Call': 0 },
+    valueBands: [
+      { min: 1000, points: 5 },
+      { min: 10000, points: 15 },
+      { min: 50000, points: 25 },
+    ],
+    companySizes: { '1-10': 0, '11-50': 5, '51-200': 10, '201-1000': 15, '1000+': 20 },
+    recency: [
+      { days: 7, points: 20 },
+      { days: 30, points: 10 },
+    ],
+    taskPoints: 5,
+    taskMax: 15,
+  },
+};
+
+// The trained model is only used once this many leads were converted or lost, with at least one of each
+export const MIN_TRAINING_SAMPLE = 10;
+
+// One line of a score's breakdown
+export interface ScoreFactor {
+  label: string;
+  detail: string;
+  // What the factor added to (or took off) the score
+  points: number;
+}
+
+export interface LeadScore {
+  // 0–100
+  score: number;
+  factors: ScoreFactor[];
+  // The model the score came from, which is the rules while there is too little history to train on
+  model: ScoringModel;
+  // Under the trained model, the score of a lead nothing is known about
+  baseline?: { score: number; detail: string };
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const clampScore = (score: number) => Math.min(100, Math.max(0, Math.round(score)));
+
+// Completed tasks per lead id, counted in one pass so scoring stays linear in leads + tasks
+type CompletedCounts = Map<string, number>;
+
+const countCompletedTasks = (tasks: Task[]): CompletedCounts => {
+  const counts: CompletedCounts = new Map();
+  tasks.forEach((task) => {
+    if (task.status === 'completed' && task.relatedTo?.type === 'lead') {
+      counts.set(task.relatedTo.id, (counts.get(task.relatedTo.id) ?? 0) + 1);
+    }
+  });
+  return counts;
+};
+
+const isClosed = (lead: Lead) => lead.status === 'converted' || lead.status === 'lost';
+
+const valueBand = (rules: ScoringRules, value: number) =>
+  [...rules.valueBands].sort((a, b) => b.min - a.min).find((band) => value >= band.min);
+
+const recencyBand = (rules: ScoringRules, days: number) =>
+  [...rules.recency].sort((a, b) => a.days - b.days).find((band) => days <= band.days);
+
+const scoreByRules = (lead: Lead, completedCounts: CompletedCounts, rules: ScoringRules, now: Date): LeadScore => {
+  const value = valueBand(rules, lead.value);
+  const days = Math.max(0, Math.floor((now.getTime() - new Date(lead.updatedAt).getTime()) / DAY));
+  const recency = recencyBand(rules, days);
+  const completed = completedCounts.get(lead.id) ?? 0;
+  const factors: ScoreFactor[] = [
+    { label: 'Source', detail: lead.source, points: rules.sources[lead.source] ?? 0 },
+    {
+      label: 'Value',
+      detail: value ? `$${value.min.toLocaleString()} or more` : 'Below every value band',
+      points: value?.points ?? 0,
+    },
+    {
+      label: 'Company size',
+      detail: lead.companySize ? `${lead.companySize} employees` : 'Not known',
+      points: lead.companySize ? rules.companySizes[lead.companySize] ?? 0 : 0,
+    },
+    {
+      label: 'Recent activity',
+      detail: days === 0 ? 'Updated today' : `Updated ${days} day${days === 1 ? '' : 's'} ago`,
+      points: recency?.points ?? 0,
+    },
+    {
+      label: 'Completed tasks',
+      detail: `${completed} completed`,
+      points: Math.min(completed * rules.taskPoints, rules.taskMax),
+    },
+  ];
+  return { score: clampScore(factors.reduce((sum, factor) => sum + factor.points, 0)), factors, model: 'rules' };
+};
+
+// What the trained model looks at. Recency is left out: a closed lead was last updated
+// when it was closed, which says nothing about how active it was.
+const features = (lead: Lead, completedCounts: CompletedCounts, rules: ScoringRules) => {
+  const value = valueBand(rules, lead.value);
+  const completed = completedCounts.get(lead.id) ?? 0;
+  return [
+    { label: 'Source', value: lead.source },
+    { label: 'Value', value: value ? `$${value.min.toLocaleString()} or more` : 'Below every value band' },
+    { label: 'Company size', value: lead.companySize ? `${lead.companySize} employees` : 'Size not known' },
+    { label: 'Completed tasks', value: completed === 0 ? 'No completed tasks' : completed === 1 ? '1 completed task' : '2 or more completed tasks' },
+  ];
+};
+
+// Naive Bayes over the features above: how much more common each feature value was among
+// converted leads than among lost ones, as log odds
+export interface TrainedModel {
+  converted: number;
+  lost: number;
+  // Log odds of converting before looking at the lead
+  prior: number;
+  // Feature label -> feature value -> log odds it adds
+  weights: Record<string, Record<string, number>>;
+  // Feature label -> feature value -> [converted, lost] counts, for the breakdown
+  counts: Record<string, Record<string, [number, number]>>;
+}
+
+export const trainScoringModel = (leads: Lead[], tasks: Task[], rules: ScoringRules): TrainedModel | null => {
+  const closed = leads.filter(isClosed);
+  const converted = closed.filter((lead) => lead.status === 'converted').length;
+  const lost = closed.length - converted;
+  if (closed.length < MIN_TRAINING_SAMPLE || converted === 0 || lost === 0) {
+    return null;
+  }
+
+  const completedCounts = countCompletedTasks(tasks);
+  const counts: TrainedModel['counts'] = {};
+  closed.forEach((lead) => {
+    features(lead, completedCounts, rules).forEach(({ label, value }) => {
+      counts[label] ??= {};
+      const [wins, losses] = counts[label][value] ?? [0, 0];
+      counts[label][value] = lead.status === 'converted' ? [wins + 1, losses] : [wins, losses + 1];
+    });
+  });
+
+  // Laplace smoothing, with one extra slot for values never seen in training
+  const weights = Object.fromEntries(
+    Object.entries(counts).map(([label, values]) => {
+      const slots = Object.keys(values).length + 1;
+      return [
+        label,
+        Object.fromEntries(
+          Object.entries(values).map(([value, [wins, losses]]) => [
+            value,
+            Math.log((wins + 1) / (converted + slots)) - Math.log((losses + 1) / (lost + slots)),
+          ])
+        ),
+      ];
+    })
+  );
+
+  return { converted, lost, prior: Math.log(converted / lost), weights, counts };
+};
+
+const probability = (logOdds: number) => 1 / (1 + Math.exp(-logOdds));
+
+// Each factor shows how far it moves the score from the baseline on its own, so the
+// factors don't add up exactly to the score
+const scoreByModel = (lead: Lead, completedCounts: CompletedCounts, rules: ScoringRules, model: TrainedModel): LeadScore => {
+  const baseline = probability(model.prior) * 100;
+  const factors = features(lead, completedCounts, rules).map(({ label, value }) => {
+    const [wins, losses] = model.counts[label]?.[value] ?? [0, 0];
+    const weight = model.weights[label]?.[value] ?? 0;
+    return {
+      label,
+      detail: wins + losses > 0 ? `${value}: ${wins} of ${wins + losses} converted` : `${value}: no history`,
+      points: Math.round(probability(model.prior + weight) * 100 - baseline),
+      weight,
+    };
+  });
+  const score = clampScore(probability(model.prior + factors.reduce((sum, factor) => sum + factor.weight, 0)) * 100);
+  return {
+    score,
+    factors: factors.map(({ label, detail, points }) => ({ label, detail, points })),
+    model: 'trained',
+    baseline: {
+      score: Math.round(baseline),
+      detail: `${model.converted} of ${model.converted + model.lost} closed leads converted`,
+    },
+  };
+};
+
+// Scores keyed by lead id, for open leads only. The trained model falls back to the rules
+// until there is enough history.
+export const scoreLeads = (leads: Lead[], tasks: Task[], settings: LeadScoringSettings, now = new Date()) => {
+  const model = settings.model === 'trained' ? trainScoringModel(leads, tasks, settings.rules) : null;
+  const completedCounts = countCompletedTasks(tasks);
+  return new Map(
+    leads
+      .filter((lead) => !isClosed(lead))
+      .map((lead) => [
+        lead.id,
+        model
+          ? scoreByModel(lead, completedCounts, settings.rules, model)
+          : scoreByRules(lead, completedCounts, settings.rules, now),
+      ])
+  );
+};
+
+export const scoreColor = (score: number) =>
+  score >= 70
+    ? 'bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-400'
+    : score >= 40
+      ? 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/20 dark:text-yellow-400'
+      : 'bg-gray-100 text-gray-800 dark:bg-gray-900/20 dark:text-gray-400';
+
+export type LeadSort = 'added' | 'score' | 'value' | 'activity';
+
+export const LEAD_SORTS: { id: LeadSort; label: string }[] = [
+  { id: 'added', label: 'Date added' },
+  { id: 'score', label: 'Score' },
+  { id: 'value', label: 'Value' },
+  { id: 'activity', label: 'Last activity' },
+];
+
+export const sortLeads = (leads: Lead[], sort: LeadSort, scores: Map<string, LeadScore>) => {
+  const time = (date: Date) => new Date(date).getTime();
+  const compare: Record<LeadSort, (a: Lead, b: Lead) => number> = {
+    added: (a, b) => time(a.createdAt) - time(b.createdAt),
+    score: (a, b) => (scores.get(b.id)?.score ?? 0) - (scores.get(a.id)?.score ?? 0),
+    value: (a, b) => b.value - a.value,
+    activity: (a, b) => time(b.updatedAt) - time(a.updatedAt),
+  };
+  return [...leads].sort((a, b) => compare[sort](a, b) || a.id.localeCompare(b.id));
+};
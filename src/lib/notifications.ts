@@ -0,0 +1,12 @@
+export const NOTIFICATIONS_COLLECTION = 'notifications' as const;
+
+export interface Notification {
+  id: string;
+  // Id of the user it is for
+  recipient: string;
+  message: string;
+  // Where clicking it goes
+  link?: string;
+  read: boolean;
+  createdAt: Date;
+}
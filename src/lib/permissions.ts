@@ -0,0 +1,93 @@
+import type { User, UserRole } from '../stores/authStore';
+
+export type Resource = 'contact' | 'lead' | 'deal' | 'task' | 'analytics' | 'settings' | 'integrations' | 'audit' | 'trash' | 'assignment' | 'duplicates' | 'emailTemplate' | 'sequence';
+
+export type Action = 'view' | 'create' | 'update' | 'delete';
+
+// `own` limits the action to records whose `assignedTo` is the acting user
+type Scope = 'all' | 'own';
+
+type PermissionMatrix = Record<UserRole, Partial<Record<Resource, Partial<Record<Action, Scope>>>>>;
+
+const FULL_ACCESS = { view: 'all', create: 'all', update: 'all', delete: 'all' } as const;
+
+export const PERMISSIONS: PermissionMatrix = {
+  admin: {
+    contact: FULL_ACCESS,
+    lead: FULL_ACCESS,
+    deal: FULL_ACCESS,
+    task: FULL_ACCESS,
+    analytics: { view: 'all' },
+    settings: { view: 'all', update: 'all' },
+    integrations: { view: 'all', update: 'all' },
+    audit: { view: 'all' },
+    // Restoring needs the same right as deleting; emptying the trash is admin-only
+    trash: { view: 'all', delete: 'all' },
+    // The lead assignment screen: the unassigned queue and reassigning between people
+    assignment: { view: 'all', update: 'all' },
+    // The duplicate review queue; merging also needs the right to edit and delete the records
+    duplicates: { view: 'all' },
+    // The shared email template library; which templates someone can use also depends
+    // on each template's role visibility
+    emailTemplate: FULL_ACCESS,
+    // Sales sequences; enrolling a record needs the right to edit it rather than this
+    sequence: FULL_ACCESS,
+  },
+  manager: {
+    contact: FULL_ACCESS,
+    lead: FULL_ACCESS,
+    deal: FULL_ACCESS,
+    task: FULL_ACCESS,
+    analytics: { view: 'all' },
+    settings: { view: 'all' },
+    trash: { view: 'all' },
+    assignment: { view: 'all', update: 'all' },
+    duplicates: { view: 'all' },
+    emailTemplate: FULL_ACCESS,
+    sequence: FULL_ACCESS,
+  },
+  salesperson: {
+    contact: { view: 'all', create: 'all', update: 'all' },
+    lead: { view: 'all', create: 'all', update: 'own', delete: 'own' },
+    deal: { view: 'all', create: 'all', update: 'own', delete: 'own' },
+    task: { view: 'all', create: 'all', update: 'own', delete: 'own' },
+    settings: { view: 'all' },
+    trash: { view: 'all' },
+    emailTemplate: { view: 'all' },
+    sequence: { view: 'all' },
+  },
+};
+
+export interface OwnedRecord {
+  assignedTo?: string;
+}
+
+export class PermissionError extends Error {
+  constructor(action: Action, resource: Resource) {
+    super(`You don't have permission to ${action} this ${resource}.`);
+    this.name = 'PermissionError';
+  }
+}
+
+// `assignedTo` holds the assignee's user id; records from before the user directory may
+// still hold their display name until they are migrated
+export const isOwnedBy = (record: OwnedRecord, user: User) =>
+  record.assignedTo === user.id || record.assignedTo === user.name;
+
+// Without a record, an `own` scope answers whether the action is possible at all,
+// e.g. whether to show an edit column; pass the record to check a specific one.
+export const can = (
+  user: User | null,
+  action: Action,
+  resource: Resource,
+  record?: OwnedRecord
+) => {
+  if (!user) {
+    return false;
+  }
+  const scope = PERMISSIONS[user.role][resource]?.[action];
+  if (!scope) {
+    return false;
+  }
+  return scope === 'all' || !record || isOwnedBy(record, user);
+};
@@ -0,0 +1,278 @@
+import type { Deal } from '../stores/crmStore';
+import type { AuditEntry } from './audit';
+import type { BackwardMoves, StageRequirement } from './stageRules';
+
+// Whether deals in the stage are still being worked, or closed one way or the other
+export type StageOutcome = 'open' | 'won' | 'lost';
+
+export interface PipelineStage {
+  id: string;
+  title: string;
+  color: StageColor;
+  // Default win probability (0–100) for deals entering the stage
+  probability: number;
+  outcome: StageOutcome;
+  // Most deals the column should hold; absent for no limit
+  wipLimit?: number;
+  // Whether going over the limit only warns (the default) or is refused
+  wipMode?: WipMode;
+  // What deals must have before they can enter the stage
+  requirements?: StageRequirement[];
+}
+
+export type WipMode = 'warn' | 'block';
+
+export interface Pipeline {
+  id: string;
+  name: string;
+  // In board order
+  stages: PipelineStage[];
+  // Absent means anyone who can edit the deal
+  backwardMoves?: BackwardMoves;
+}
+
+// Tailwind needs the full class names in the source, so the palette is fixed
+export const STAGE_COLORS = {
+  blue: { label: 'Blue', className: 'bg-blue-500', hex: '#3B82F6' },
+  yellow: { label: 'Yellow', className: 'bg-yellow-500', hex: '#EAB308' },
+  orange: { label: 'Orange', className: 'bg-orange-500', hex: '#F97316' },
+  purple: { label: 'Purple', className: 'bg-purple-500', hex: '#8B5CF6' },
+  teal: { label: 'Teal', className: 'bg-teal-500', hex: '#14B8A6' },
+  pink: { label: 'Pink', className: 'bg-pink-500', hex: '#EC4899' },
+  gray: { label: 'Gray', className: 'bg-gray-500', hex: '#6B7280' },
+  green: { label: 'Green', className: 'bg-green-500', hex: '#22C55E' },
+  red: { label: 'Red', className: 'bg-red-500', hex: '#EF4444' },
+} as const;
+
+export type StageColor = keyof typeof STAGE_COLORS;
+
+export const STAGE_OUTCOMES: { id: StageOutcome; label: string }[] = [
+  { id: 'open', label: 'Open' },
+  { id: 'won', label: 'Won' },
+  { id: 'lost', label: 'Lost' },
+];
+
+export const DEFAULT_PIPELINE_ID = 'default';
+
+// The stages every deal had before pipelines were configurable. Their ids are kept
+// so deals created back then land in the right column without rewriting them.
+export const DEFAULT_PIPELINE: Pipeline = {
+  id: DEFAULT_PIPELINE_ID,
+  name: 'Sales',
+  stages: [
+    { id: 'prospecting', title: 'Prospecting', color: 'blue', probability: 10, outcome: 'open' },
+    { id: 'qualification', title: 'Qualification', color: 'yellow', probability: 25, outcome: 'open' },
+    { id: 'proposal', title: 'Proposal', color: 'orange', probability: 50, outcome: 'open' },
+    { id: 'negotiation', title: 'Negotiation', color: 'purple', probability: 75, outcome: 'open' },
+    { id: 'closed-won', title: 'Closed Won', color: 'green', probability: 100, outcome: 'won' },
+    { id: 'closed-lost', title: 'Closed Lost', color: 'red', probability: 0, outcome: 'lost', requirements: ['lossReason'] },
+  ],
+};
+
+export const stageColor = (stage: PipelineStage) => STAGE_COLORS[stage.color] ?? STAGE_COLORS.gray;
+
+export const getPipeline = (pipelines: Pipeline[], id?: string) =>
+  pipelines.find((pipeline) => pipeline.id === id) ?? pipelines[0] ?? DEFAULT_PIPELINE;
+
+// Deals from before pipelines existed have no `pipelineId` and belong to the first one
+export const dealPipeline = (pipelines: Pipeline[], deal: Pick<Deal, 'pipelineId'>) =>
+  getPipeline(pipelines, deal.pipelineId ?? DEFAULT_PIPELINE_ID);
+
+// Falls back to the pipeline's first stage when the deal's stage was removed
+export const getDealStage = (pipelines: Pipeline[], deal: Pick<Deal, 'pipelineId' | 'stage'>) => {
+  const { stages } = dealPipeline(pipelines, deal);
+  return stages.find((stage) => stage.id === deal.stage) ?? stages[0];
+};
+
+export const dealOutcome = (pipelines: Pipeline[], deal: Pick<Deal, 'pipelineId' | 'stage'>): StageOutcome =>
+  getDealStage(pipelines, deal)?.outcome ?? 'open';
+
+export const isDealWon = (pipelines: Pipeline[], deal: Deal) => dealOutcome(pipelines, deal) === 'won';
+
+export const isDealOpen = (pipelines: Pipeline[], deal: Deal) => dealOutcome(pipelines, deal) === 'open';
+
+export const isInPipeline = (pipelines: Pipeline[], deal: Deal, pipelineId: string) =>
+  dealPipeline(pipelines, deal).id === pipelineId;
+
+export const WIP_MODES: { id: WipMode; label: string }[] = [
+  { id: 'warn', label: 'Warn' },
+  { id: 'block', label: 'Block' },
+];
+
+// Set when adding one more deal to the stage would take it over its WIP limit.
+// `dealId` is left out of the count, for deals already in the stage.
+export const wipViolation = (pipelines: Pipeline[], deals: Deal[], stage: PipelineStage, dealId?: string) => {
+  if (stage.wipLimit === undefined) {
+    return null;
+  }
+  const count = deals.filter((deal) => deal.id !== dealId && getDealStage(pipelines, deal).id === stage.id).length;
+  if (count < stage.wipLimit) {
+    return null;
+  }
+  return {
+    blocking: stage.wipMode === 'block',
+    message: `${stage.title} is at its limit of ${stage.wipLimit} deal${stage.wipLimit === 1 ? '' : 's'}`,
+  };
+};
+
+export type DealSort = 'manual' | 'value' | 'closeDate' | 'probability' | 'activity';
+
+export const DEAL_SORTS: { id: DealSort; label: string }[] = [
+  { id: 'manual', label: 'Manual order' },
+  { id: 'value', label: 'Value' },
+  { id: 'closeDate', label: 'Close date' },
+  { id: 'probability', label: 'Probability' },
+  { id: 'activity', label: 'Last activity' },
+];
+
+// Deals that were never reordered keep their creation order: their position defaults to
+// the creation timestamp, so a moved deal only needs a number between its new neighbours.
+export const dealPosition = (deal: Deal) => deal.position ?? new Date(deal.createdAt).getTime();
+
+export const positionBetween = (before: Deal | undefined, after: Deal | undefined) => {
+  if (before && after) {
+    return (dealPosition(before) + dealPosition(after)) / 2;
+  }
+  if (before) {
+    return dealPosition(before) + 1000;
+  }
+  return after ? dealPosition(after) - 1000 : Date.now();
+};
+
+export const sortDeals = (deals: Deal[], sort: DealSort) => {
+  const time = (date: Date) => new Date(date).getTime();
+  const compare: Record<DealSort, (a: Deal, b: Deal) => number> = {
+    manual: (a, b) => dealPosition(a) - dealPosition(b),
+    value: (a, b) => b.value - a.value,
+    closeDate: (a, b) => time(a.closeDate) - time(b.closeDate),
+    probability: (a, b) => b.probability - a.probability,
+    activity: (a, b) => time(b.updatedAt) - time(a.updatedAt),
+  };
+  return [...deals].sort((a, b) => compare[sort](a, b) || a.id.localeCompare(b.id));
+};
+
+// Where a deal lands when moved to another pipeline: the stage with the same id if
+// there is one, otherwise the first stage with the same outcome, otherwise the first
+export const matchingStage = (target: Pipeline, stage: PipelineStage | undefined) =>
+  target.stages.find((candidate) => candidate.id === stage?.id) ??
+  target.stages.find((candidate) => candidate.outcome === stage?.outcome) ??
+  target.stages[0];
+
+// Where a deal's probability comes from when it enters a stage: the stage's configured
+// default, or the share of closed deals through that stage that were won
+export type ProbabilityModel = 'stage' | 'historical';
+
+// Learned rates replace a stage's default only once this many deals closed through it
+export const MIN_WIN_RATE_SAMPLE = 5;
+
+// Keyed by stage id, 0–100
+export type StageWinRates = Record<string, number>;
+
+// A closed deal counts towards every stage it was ever in. Stage moves come from the
+// audit log; deals without any were created in the stage they closed in.
+export const stageWinRates = (pipelines: Pipeline[], deals: Deal[], auditEntries: AuditEntry[]): StageWinRates => {
+  const visited = new Map<string, Set<string>>();
+  auditEntries
+    .filter((entry) => entry.collection === 'deals')
+    .forEach((entry) =>
+      entry.changes
+        .filter((change) => change.field === 'stage')
+        .forEach((change) => {
+          const stages = visited.get(entry.recordId) ?? new Set<string>();
+          [change.from, change.to].forEach((stage) => typeof stage === 'string' && stages.add(stage));
+          visited.set(entry.recordId, stages);
+        })
+    );
+
+  const counts = new Map<string, { won: number; closed: number }>();
+  deals.forEach((deal) => {
+    const outcome = dealOutcome(pipelines, deal);
+    if (outcome === 'open') {
+      return;
+    }
+    new Set([...(visited.get(deal.id) ?? []), deal.stage]).forEach((stage) => {
+      const count = counts.get(stage) ?? { won: 0, closed: 0 };
+      counts.set(stage, { won: count.won + (outcome === 'won' ? 1 : 0), closed: count.closed + 1 });
+    });
+  });
+
+  return Object.fromEntries(
+    [...counts]
+      .filter(([, count]) => count.closed >= MIN_WIN_RATE_SAMPLE)
+      .map(([stage, count]) => [stage, Math.round((count.won / count.closed) * 100)])
+  );
+};
+
+// Closed stages keep their fixed probability; open ones use the learned rate when given one
+export const stageProbability = (stage: PipelineStage, winRates?: StageWinRates) =>
+  stage.outcome === 'open' ? winRates?.[stage.id] ?? stage.probability : stage.probability;
+
+// Looks a stage up across every pipeline, for ids recorded before a deal changed pipeline
+export const findStage = (pipelines: Pipeline[], stageId: string) =>
+  pipelines.flatMap((pipeline) => pipeline.stages).find((stage) => stage.id === stageId);
+
+export interface StageVisit {
+  stageId: string;
+  enteredAt: Date;
+  // Who moved the deal there; absent when the log doesn't say
+  userName?: string;
+}
+
+// The stages a deal has been in, oldest first. Moves come from the audit log; the first
+// stage is where the earliest move started, or the current one if it never moved.
+export const stageHistory = (deal: Deal, auditEntries: AuditEntry[]): StageVisit[] => {
+  const entries = auditEntries
+    .filter((entry) => entry.collection === 'deals' && entry.recordId === deal.id)
+    .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+  const moves = entries.flatMap((entry) =>
+    entry.changes
+      .filter((change) => change.field === 'stage')
+      .map((change) => ({ from: String(change.from), to: String(change.to), at: entry.timestamp, userName: entry.userName }))
+  );
+  const creator = entries.find((entry) => entry.action === 'create')?.userName;
+  return [
+    { stageId: moves[0]?.from ?? deal.stage, enteredAt: deal.createdAt, userName: creator },
+    ...moves.map((move) => ({ stageId: move.to, enteredAt: move.at, userName: move.userName })),
+  ];
+};
+
+// Returns why the pipeline can't be saved, or null when it is valid
+export const validatePipeline = (pipeline: Pipeline): string | null => {
+  if (!pipeline.name.trim()) {
+    return 'Pipeline name is required';
+  }
+  if (pipeline.stages.length === 0) {
+    return 'Add at least one stage';
+  }
+  if (pipeline.stages.some((stage) => !stage.title.trim())) {
+    return 'Every stage needs a name';
+  }
+  if (pipeline.stages.some((stage) => stage.probability < 0 || stage.probability > 100 || Number.isNaN(stage.probability))) {
+    return 'Probabilities must be between 0 and 100';
+  }
+  if (pipeline.stages.some((stage) => stage.wipLimit !== undefined && !(Number.isInteger(stage.wipLimit) && stage.wipLimit > 0))) {
+    return 'WIP limits must be whole numbers above 0';
+  }
+  if (!pipeline.stages.some((stage) => stage.outcome === 'open')) {
+    return 'Add at least one open stage';
+  }
+  if (!pipeline.stages.some((stage) => stage.outcome === 'won')) {
+    return 'Add a stage for won deals';
+  }
+  return null;
+};
+
+// Deal counts per stage of one pipeline for the distribution charts; lost deals are left out
+export const stageDistribution = (pipelines: Pipeline[], deals: Deal[], pipelineId?: string) => {
+  const pipeline = getPipeline(pipelines, pipelineId);
+  const counts = new Map<string, number>();
+  deals
+    .filter((deal) => isInPipeline(pipelines, deal, pipeline.id))
+    .forEach((deal) => {
+      const stage = getDealStage(pipelines, deal);
+      counts.set(stage.id, (counts.get(stage.id) ?? 0) + 1);
+    });
+  return pipeline.stages
+    .filter((stage) => stage.outcome !== 'lost')
+    .map((stage) => ({ name: stage.title, value: counts.get(stage.id) ?? 0, color: stageColor(stage).hex }));
+};
@@ -0,0 +1,5 @@
+import { QueryClient } from '@tanstack/react-query';
+
+export const queryClient = new QueryClient();
+
+export const crmQueryKey = (collection: string) => ['crm', collection] as const;
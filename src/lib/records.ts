@@ -0,0 +1,63 @@
+import type { Task } from '../stores/crmStore';
+import { AUDIT_ACTION_LABELS, AuditEntry, FieldChange } from './audit';
+import type { EmailActivity } from './email';
+
+export type RecordType = NonNullable<Task['relatedTo']>['type'];
+
+export interface HistoryEntry {
+  id: string;
+  label: string;
+  detail?: string;
+  // Who made the change and what it changed, for entries that come from the audit log.
+  // Sent emails carry only the sender.
+  actor?: string;
+  changes?: FieldChange[];
+  date: Date;
+}
+
+export const recordPath = (type: RecordType, id: string) => `/${type}s/${id}`;
+
+export const isRelatedTo = (task: Task, type: RecordType, id: string) =>
+  task.relatedTo?.type === type && task.relatedTo.id === id;
+
+// The record's audit trail plus completed related tasks and emails sent to it.
+// Records that predate the audit log fall back to their created/updated timestamps.
+export const recordHistory = (
+  record: { id: string; createdAt: Date; updatedAt: Date },
+  label: string,
+  tasks: Task[],
+  auditLog: AuditEntry[],
+  emails: EmailActivity[] = []
+): HistoryEntry[] => {
+  const logged = auditLog.filter((entry) => entry.recordId === record.id);
+  const entries: HistoryEntry[] = logged.map((entry) => ({
+    id: entry.id,
+    label: `${label} ${AUDIT_ACTION_LABELS[entry.action]}`,
+    actor: entry.userName,
+    changes: entry.changes,
+    date: entry.timestamp,
+  }));
+  if (!logged.some((entry) => entry.action === 'create')) {
+    entries.push({ id: `${record.id}-created`, label: `${label} created`, date: record.createdAt });
+  }
+  if (logged.length === 0 && new Date(record.updatedAt).getTime() !== new Date(record.createdAt).getTime()) {
+    entries.push({ id: `${record.id}-updated`, label: `${label} last updated`, date: record.updatedAt });
+  }
+  tasks
+    .filter((task) => task.status === 'completed')
+    .forEach((task) => {
+      entries.push({ id: `${task.id}-completed`, label: 'Task completed', detail: task.title, date: task.updatedAt });
+    });
+  emails
+    .filter((email) => email.relatedTo.id === record.id)
+    .forEach((email) => {
+      entries.push({
+        id: email.id,
+        label: 'Email sent',
+        detail: `${email.subject} (to ${email.to})`,
+        actor: email.sentByName,
+        date: email.createdAt,
+      });
+    });
+  return entries;
+};
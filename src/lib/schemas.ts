@@ -0,0 +1,46 @@
+import { z } from 'zod';
+
+// Shared by the record forms and the CSV importer so both enforce the same rules
+export const contactSchema = z.object({
+  name: z.string().min(1, 'Name is required'),
+  email: z.string().email('Valid email is required'),
+  phone: z.string().min(1, 'Phone is required'),
+  company: z.string().min(1, 'Company is required'),
+  position: z.string().min(1, 'Position is required'),
+  notes: z.string().optional(),
+});
+
+export type ContactFormData = z.infer<typeof contactSchema>;
+
+export const leadSchema = z.object({
+  name: z.string().min(1, 'Name is required'),
+  email: z.string().email('Valid email is required'),
+  phone: z.string().min(1, 'Phone is required'),
+  company: z.string().min(1, 'Company is required'),
+  value: z.number().min(0, 'Value must be positive'),
+  status: z.enum(['new', 'qualified', 'converted', 'lost']),
+  // Left empty for the assignment strategy to fill in, or for the unassigned queue
+  assignedTo: z.string(),
+  source: z.string().min(1, 'Source is required'),
+  territory: z.string().optional(),
+  companySize: z.string().optional(),
+  notes: z.string().optional(),
+});
+
+export type LeadFormData = z.infer<typeof leadSchema>;
+
+export const dealSchema = z.object({
+  title: z.string().min(1, 'Title is required'),
+  value: z.number('Value is required').min(0, 'Value must be positive'),
+  pipelineId: z.string().min(1, 'Pipeline is required'),
+  stage: z.string().min(1, 'Stage is required'),
+  contactId: z.string().min(1, 'Contact is required'),
+  assignedTo: z.string().min(1, 'Assigned to is required'),
+  // `yyyy-MM-dd` from the date input
+  closeDate: z.string().min(1, 'Close date is required'),
+  probability: z.number('Probability is required').min(0, 'Probability must be 0–100').max(100, 'Probability must be 0–100'),
+  notes: z.string().optional(),
+  lossReason: z.string().optional(),
+});
+
+export type DealFormData = z.infer<typeof dealSchema>;
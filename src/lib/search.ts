@@ -0,0 +1,156 @@
+import type { Contact, Deal, Lead, Task } from '../stores/crmStore';
+
+export type SearchDocumentType = 'contact' | 'lead' | 'deal' | 'task';
+
+export interface SearchDocument {
+  type: SearchDocumentType;
+  id: string;
+  title: string;
+  subtitle: string;
+  // Lowercased once at index time; the first entry is the title and weighs the most
+  fields: string[];
+}
+
+export interface SearchHit<T> {
+  item: T;
+  score: number;
+}
+
+const SECONDARY_FIELD_WEIGHT = 0.7;
+
+const isBoundary = (char: string | undefined) => char === undefined || /[\s@.\-_/]/.test(char);
+
+// How well `query` matches `text`, both lowercase; null when it doesn't match.
+// Prefixes beat word starts, which beat other substrings, which beat scattered
+// subsequences ("jsmth" → "john smith").
+export const fuzzyScore = (text: string, query: string): number | null => {
+  const index = text.indexOf(query);
+  if (index === 0) {
+    return query.length === text.length ? 120 : 100;
+  }
+  if (index > 0) {
+    return (isBoundary(text[index - 1]) ? 80 : 60) - Math.min(index, 20) / 2;
+  }
+
+  let score = 10;
+  let from = 0;
+  let previous = -2;
+  for (const char of query) {
+    const found = text.indexOf(char, from);
+    if (found === -1) {
+      return null;
+    }
+    if (found === previous + 1) {
+      score += 4;
+    } else if (isBoundary(text[found - 1])) {
+      score += 3;
+    } else {
+      score -= Math.min(found - from, 5);
+    }
+    previous = found;
+    from = found + 1;
+  }
+  return Math.max(Math.min(score, 50), 1);
+};
+
+const tokenize = (query: string) => query.toLowerCase().split(/\s+/).filter(Boolean);
+
+// Every token must match some field; the document scores the sum of each token's best field
+export const scoreFields = (fields: string[], tokens: string[]) => {
+  let total = 0;
+  for (const token of tokens) {
+    let best: number | null = null;
+    for (let i = 0; i < fields.length; i++) {
+      const score = fuzzyScore(fields[i], token);
+      if (score !== null) {
+        const weighted = i === 0 ? score : score * SECONDARY_FIELD_WEIGHT;
+        best = best === null ? weighted : Math.max(best, weighted);
+      }
+    }
+    if (best === null) {
+      return null;
+    }
+    total += best;
+  }
+  return total;
+};
+
+// Ranks `items` and keeps only the best `limit`, without sorting every match:
+// a one-letter query can match most of a 50k-record store.
+export const rankTopHits = <T>(
+  items: T[],
+  query: string,
+  getFields: (item: T) => string[],
+  limit: number
+): SearchHit<T>[] => {
+  const tokens = tokenize(query);
+  if (tokens.length === 0) {
+    return [];
+  }
+
+  const hits: SearchHit<T>[] = [];
+  for (const item of items) {
+    const score = scoreFields(getFields(item), tokens);
+    if (score === null || (hits.length === limit && score <= hits[hits.length - 1].score)) {
+      continue;
+    }
+    let position = hits.length;
+    while (position > 0 && hits[position - 1].score < score) {
+      position--;
+    }
+    hits.splice(position, 0, { item, score });
+    if (hits.length > limit) {
+      hits.pop();
+    }
+  }
+  return hits;
+};
+
+const lower = (...values: (string | undefined)[]) =>
+  values.filter((value): value is string => !!value).map((value) => value.toLowerCase());
+
+// Deals store a stage id and records an owner's user id, so the caller names both
+export const buildSearchIndex = (
+  {
+    contacts,
+    leads,
+    deals,
+    tasks,
+  }: {
+    contacts: Contact[];
+    leads: Lead[];
+    deals: Deal[];
+    tasks: Task[];
+  },
+  stageTitle: (deal: Deal) => string,
+  ownerName: (assignee?: string) => string
+): SearchDocument[] => [
+  ...contacts.map((contact) => ({
+    type: 'contact' as const,
+    id: contact.id,
+    title: contact.name,
+    subtitle: [contact.company, contact.email].filter(Boolean).join(' · '),
+    fields: lower(contact.name, contact.email, contact.company, contact.phone, contact.tags.join(' ')),
+  })),
+  ...leads.map((lead) => ({
+    type: 'lead' as const,
+    id: lead.id,
+    title: lead.name,
+    subtitle: [lead.company, lead.email].filter(Boolean).join(' · '),
+    fields: lower(lead.name, lead.email, lead.company, lead.phone),
+  })),
+  ...deals.map((deal) => ({
+    type: 'deal' as const,
+    id: deal.id,
+    title: deal.title,
+    subtitle: `$${deal.value.toLocaleString()} · ${stageTitle(deal)}`,
+    fields: lower(deal.title, ownerName(deal.assignedTo)),
+  })),
+  ...tasks.map((task) => ({
+    type: 'task' as const,
+    id: task.id,
+    title: task.title,
+    subtitle: `${task.status} · ${task.priority} priority`,
+    fields: lower(task.title, task.description, ownerName(task.assignedTo)),
+  })),
+];
@@ -0,0 +1,204 @@
+import { addDays } from 'date-fns';
+import type { Task } from '../stores/crmStore';
+
+export const SEQUENCES_COLLECTION = 'sequences' as const;
+export const ENROLLMENTS_COLLECTION = 'sequenceEnrollments' as const;
+
+export type SequenceStepType = 'email' | 'call' | 'linkedin' | 'wait';
+
+export type SequenceStep =
+  | { id: string; type: 'email'; templateId: string }
+  | { id: string; type: 'call'; note: string }
+  | { id: string; type: 'linkedin'; note: string }
+  | { id: string; type: 'wait'; days: number };
+
+export const SEQUENCE_STEP_TYPES: { id: SequenceStepType; label: string }[] = [
+  { id: 'email', label: 'Email' },
+  { id: 'call', label: 'Call' },
+  { id: 'linkedin', label: 'LinkedIn touch' },
+  { id: 'wait', label: 'Wait' },
+];
+
+export interface Sequence {
+  id: string;
+  name: string;
+  steps: SequenceStep[];
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type SequenceInput = Pick<Sequence, 'name' | 'steps'>;
+
+export type EnrollmentTarget = { type: 'lead' | 'contact'; id: string };
+
+// `paused` enrollments can be resumed; the others are finished
+export type EnrollmentStatus = 'active' | 'paused' | 'replied' | 'completed' | 'stopped';
+
+export const ENROLLMENT_STATUS_LABELS: Record<EnrollmentStatus, string> = {
+  active: 'Active',
+  paused: 'Paused',
+  replied: 'Replied',
+  completed: 'Completed',
+  stopped: 'Stopped',
+};
+
+export interface SequenceEnrollment {
+  id: string;
+  sequenceId: string;
+  relatedTo: EnrollmentTarget;
+  status: EnrollmentStatus;
+  // Why a paused enrollment stopped moving, e.g. the lead was lost
+  pausedReason?: string;
+  // Every step reached so far with the task made for it, oldest first. The last one's task is
+  // the open one; the sequence moves on when it's completed.
+  steps: { stepId: string; taskId: string }[];
+  // The email step the reply came after, for reply rates
+  repliedStepId?: string;
+  enrolledBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Lead statuses that end outreach, so enrollments pause on their own
+export const PAUSING_LEAD_STATUSES = ['converted', 'lost'];
+
+// An enrollment change the record no longer allows, e.g. resuming outreach to a converted lead
+export class SequenceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SequenceError';
+  }
+}
+
+export const newStep = (type: SequenceStepType): SequenceStep => {
+  const id = crypto.randomUUID();
+  switch (type) {
+    case 'email':
+      return { id, type, templateId: '' };
+    case 'wait':
+      return { id, type, days: 2 };
+    default:
+      return { id, type, note: '' };
+  }
+};
+
+// Steps that become a task; waits only push the next one back
+export type ActionStep = Exclude<SequenceStep, { type: 'wait' }>;
+
+export interface NextStep {
+  index: number;
+  step: ActionStep;
+  dueDate: Date;
+}
+
+// The first step from `index` on that needs doing, due once the waits in front of it have
+// passed; null when only waits (or nothing) are left
+export const nextStep = (sequence: Sequence, index: number, from: Date): NextStep | null => {
+  let days = 0;
+  for (let position = index; position < sequence.steps.length; position++) {
+    const step = sequence.steps[position];
+    if (step.type === 'wait') {
+      days += step.days;
+    } else {
+      return { index: position, step, dueDate: addDays(from, days) };
+    }
+  }
+  return null;
+};
+
+// Where to carry on from: after the furthest step reached that's still in the sequence, which
+// may have been edited since
+export const resumeIndex = (sequence: Sequence, enrollment: SequenceEnrollment) => {
+  const reached = new Set(enrollment.steps.map(({ stepId }) => stepId));
+  return sequence.steps.reduce((index, step, position) => (reached.has(step.id) ? position + 1 : index), 0);
+};
+
+const STEP_TASK_TITLES: Record<ActionStep['type'], (name: string) => string> = {
+  email: (name) => `Email ${name}`,
+  call: (name) => `Call ${name}`,
+  linkedin: (name) => `LinkedIn touch: ${name}`,
+};
+
+// The task a step creates for the record, before the ids and timestamps the store adds
+export const stepTask = (
+  sequence: Sequence,
+  next: NextStep,
+  target: EnrollmentTarget,
+  recordName: string,
+  assignedTo: string,
+  templateName?: string
+): Omit<Task, 'id' | 'createdAt' | 'updatedAt'> => {
+  const detail = next.step.type === 'email'
+    ? templateName && `Use the "${templateName}" template.`
+    : next.step.note;
+  return {
+    title: STEP_TASK_TITLES[next.step.type](recordName),
+    description: [`Step ${next.index + 1} of the "${sequence.name}" sequence.`, detail].filter(Boolean).join(' '),
+    dueDate: next.dueDate,
+    priority: 'medium',
+    status: 'pending',
+    assignedTo,
+    relatedTo: target,
+  };
+};
+
+// The email step a reply most likely answers: the last one reached
+export const replyStep = (sequence: Sequence, enrollment: SequenceEnrollment) =>
+  [...enrollment.steps]
+    .reverse()
+    .map(({ stepId }) => sequence.steps.find((step) => step.id === stepId))
+    .find((step) => step?.type === 'email')?.id;
+
+export interface StepStats {
+  step: SequenceStep;
+  // Enrollments that got as far as this step
+  reached: number;
+  completed: number;
+  completionRate: number;
+  // Email steps only
+  replies?: number;
+  replyRate?: number;
+}
+
+const rate = (part: number, whole: number) => (whole === 0 ? 0 : Math.round((part / whole) * 100));
+
+export const sequenceStats = (sequence: Sequence, enrollments: SequenceEnrollment[], tasks: Task[]): StepStats[] => {
+  const taskStatus = new Map(tasks.map((task) => [task.id, task.status]));
+  const own = enrollments.filter((enrollment) => enrollment.sequenceId === sequence.id);
+  return sequence.steps
+    .filter((step) => step.type !== 'wait')
+    .map((step) => {
+      const reached = own.flatMap((enrollment) => enrollment.steps.filter(({ stepId }) => stepId === step.id));
+      const completed = reached.filter(({ taskId }) => taskStatus.get(taskId) === 'completed').length;
+      const stats: StepStats = {
+        step,
+        reached: reached.length,
+        completed,
+        completionRate: rate(completed, reached.length),
+      };
+      if (step.type === 'email') {
+        stats.replies = own.filter((enrollment) => enrollment.repliedStepId === step.id).length;
+        stats.replyRate = rate(stats.replies, reached.length);
+      }
+      return stats;
+    });
+};
+
+export const validateSequence = (input: SequenceInput): string | null => {
+  if (!input.name.trim()) {
+    return 'Give the sequence a name';
+  }
+  if (!input.steps.some((step) => step.type !== 'wait')) {
+    return 'Add at least one email, call or LinkedIn step';
+  }
+  for (const step of input.steps) {
+    if (step.type === 'wait' && (!Number.isInteger(step.days) || step.days < 1)) {
+      return 'Waits need to be at least 1 day';
+    }
+    if (step.type === 'email' && !step.templateId) {
+      return 'Choose a template for every email step';
+    }
+  }
+  return null;
+};
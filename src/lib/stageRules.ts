@@ -0,0 +1,109 @@
+import type { Deal } from '../stores/crmStore';
+import type { User } from '../stores/authStore';
+import { CustomFieldDefinition, hasCustomFieldValue } from './customFields';
+import { Pipeline, PipelineStage, dealPipeline, getDealStage } from './pipelines';
+
+// What a stage can require of deals entering it: a built-in field, or `custom:<field id>`
+export type StageRequirement = 'value' | 'contact' | 'closeDate' | 'notes' | 'lossReason' | `custom:${string}`;
+
+export const BUILT_IN_REQUIREMENTS: { id: StageRequirement; label: string }[] = [
+  { id: 'value', label: 'Value above 0' },
+  { id: 'contact', label: 'Contact' },
+  { id: 'closeDate', label: 'Close date' },
+  { id: 'notes', label: 'Notes' },
+  { id: 'lossReason', label: 'Loss reason' },
+];
+
+// Who may move a deal to an earlier stage of its pipeline
+export type BackwardMoves = 'anyone' | 'managers';
+
+// A stage move the pipeline's rules don't allow: a gated stage, a backward move or a full stage
+export class StageRuleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StageRuleError';
+  }
+}
+
+export const DEFAULT_LOSS_REASONS = ['Price', 'Competitor', 'No budget', 'No decision', 'Timing', 'Other'];
+
+export const customFieldRequirement = (field: CustomFieldDefinition): StageRequirement => `custom:${field.id}`;
+
+const customFieldOf = (requirement: StageRequirement, customFields: CustomFieldDefinition[]) =>
+  requirement.startsWith('custom:')
+    ? customFields.find((field) => field.id === requirement.slice('custom:'.length))
+    : undefined;
+
+export const requirementLabel = (requirement: StageRequirement, customFields: CustomFieldDefinition[]) =>
+  BUILT_IN_REQUIREMENTS.find((option) => option.id === requirement)?.label ??
+  customFieldOf(requirement, customFields)?.label ??
+  'Deleted field';
+
+// The parts of a deal stage requirements look at, so unsaved deals can be checked too
+export type GatedDeal = Pick<Deal, 'value' | 'contactId' | 'closeDate' | 'notes' | 'lossReason' | 'customFields'>;
+
+const isRequirementMet = (requirement: StageRequirement, deal: GatedDeal, customFields: CustomFieldDefinition[]) => {
+  switch (requirement) {
+    case 'value':
+      return deal.value > 0;
+    case 'contact':
+      return !!deal.contactId;
+    case 'closeDate':
+      return !!deal.closeDate && !Number.isNaN(new Date(deal.closeDate).getTime());
+    case 'notes':
+      return !!deal.notes?.trim();
+    case 'lossReason':
+      return !!deal.lossReason?.trim();
+    default: {
+      // Requirements on deleted custom fields no longer apply
+      const field = customFieldOf(requirement, customFields);
+      return !field || hasCustomFieldValue(deal, field.id);
+    }
+  }
+};
+
+export const canMoveBackward = (user: User | null) => user?.role === 'admin' || user?.role === 'manager';
+
+// The requirements of `stage` that `deal` doesn't meet
+export const missingRequirements = (stage: PipelineStage, deal: GatedDeal, customFields: CustomFieldDefinition[]) =>
+  (stage.requirements ?? []).filter((requirement) => !isRequirementMet(requirement, deal, customFields));
+
+export interface TransitionCheck {
+  // The stage the deal would enter
+  target: PipelineStage;
+  // Why the move isn't allowed at all; filling in fields won't help
+  blocked?: string;
+  // Requirements of the target stage the deal doesn't meet yet
+  missing: StageRequirement[];
+}
+
+// What stands between the deal and the stage `updates` move it to, judged on the deal as it would be
+// after the update. Rules only apply on entering a stage, so deals already in one can still be edited.
+export const checkStageTransition = (
+  pipelines: Pipeline[],
+  deal: Deal,
+  updates: Partial<Deal>,
+  user: User | null,
+  customFields: CustomFieldDefinition[]
+): TransitionCheck => {
+  const moved = { ...deal, ...updates };
+  const current = getDealStage(pipelines, deal);
+  const target = getDealStage(pipelines, moved);
+  if (target.id === current.id) {
+    return { target, missing: [] };
+  }
+  const pipeline = dealPipeline(pipelines, moved);
+  const isBackward =
+    dealPipeline(pipelines, deal).id === pipeline.id && pipeline.stages.indexOf(target) < pipeline.stages.indexOf(current);
+  if (isBackward && pipeline.backwardMoves === 'managers' && !canMoveBackward(user)) {
+    return { target, blocked: `Only managers can move deals back to ${target.title}`, missing: [] };
+  }
+  return { target, missing: missingRequirements(target, moved, customFields) };
+};
+
+// "Proposal needs Value above 0 and Contact"
+export const missingRequirementsMessage = (
+  target: PipelineStage,
+  missing: StageRequirement[],
+  customFields: CustomFieldDefinition[]
+) => `${target.title} needs ${missing.map((requirement) => requirementLabel(requirement, customFields)).join(' and ')}`;
@@ -0,0 +1,33 @@
+import type { DirectoryUser } from '../services/authService';
+import type { UserRole } from '../stores/authStore';
+
+export const ROLE_LABELS: Record<UserRole, string> = { admin: 'Admin', manager: 'Manager', salesperson: 'Salesperson' };
+
+// The user an `assignedTo` value refers to. Records from before the user directory hold the
+// assignee's name rather than their id, so names are matched too.
+export const findUser = (users: DirectoryUser[], assignee?: string) =>
+  assignee ? users.find((user) => user.id === assignee) ?? users.find((user) => user.name === assignee) : undefined;
+
+// Who a record is assigned to, for display; values that match nobody are shown as they are
+export const userName = (users: DirectoryUser[], assignee?: string) =>
+  findUser(users, assignee)?.name ?? assignee ?? '';
+
+// People new work can go to, by name
+export const assignableUsers = (users: DirectoryUser[]) =>
+  users.filter((user) => user.active).sort((a, b) => a.name.localeCompare(b.name));
+
+// Options for owner pickers. A current owner who can't take new work is kept so editing
+// the record doesn't silently reassign it.
+export const userOptions = (users: DirectoryUser[], current?: string) => {
+  const options = assignableUsers(users).map((user) => ({ value: user.id, label: user.name }));
+  if (current && !options.some((option) => option.value === current)) {
+    options.push({ value: current, label: userName(users, current) });
+  }
+  return options;
+};
+
+// Matches an owner given in an import file by email or name
+export const matchUser = (users: DirectoryUser[], value: string) => {
+  const key = value.trim().toLowerCase();
+  return users.find((user) => user.email.toLowerCase() === key || user.name.toLowerCase() === key);
+};
@@ -0,0 +1,8 @@
+export const WORKSPACE_SETTINGS_COLLECTION = 'workspaceSettings' as const;
+
+// One workspace setting, stored under its name, so teammates changing different settings
+// don't overwrite each other
+export interface WorkspaceSetting {
+  id: string;
+  value: unknown;
+}
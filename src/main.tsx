@@ -2,6 +2,28 @@ import { StrictMode } from 'react';
 import { createRoot } from 'react-dom/client';
 import App from './App.tsx';
 import './index.css';
+import { configureRepository } from './services/repository';
+import { createLocalRepository } from './services/localRepository';
+import { createRestRepository } from './services/restRepository';
+import { configureAuthProvider } from './services/authService';
+import { createLocalAuthService } from './services/localAuthService';
+import { configureEmailTransport } from './services/emailTransport';
+import { createLocalEmailTransport } from './services/localEmailTransport';
+import { createSmtpEmailTransport } from './services/smtpEmailTransport';
+import { useAuthStore } from './stores/authStore';
+
+configureRepository(
+  import.meta.env.VITE_CRM_BACKEND === 'rest'
+    ? createRestRepository(import.meta.env.VITE_CRM_API_URL ?? 'http://localhost:3001')
+    : createLocalRepository()
+);
+configureAuthProvider(createLocalAuthService());
+configureEmailTransport(
+  import.meta.env.VITE_CRM_EMAIL_TRANSPORT === 'smtp'
+    ? createSmtpEmailTransport(import.meta.env.VITE_CRM_SMTP_RELAY_URL ?? 'http://127.0.0.1:3025')
+    : createLocalEmailTransport()
+);
+useAuthStore.getState().restoreSession();
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
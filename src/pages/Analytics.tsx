@@ -10,6 +10,8 @@ import {
   Download,
 } from 'lucide-react';
 import { useCRMStore } from '../stores/crmStore';
+import { useSettingsStore } from '../stores/settingsStore';
+import { dealOutcome, getPipeline, isDealOpen, isDealWon, stageDistribution } from '../lib/pipelines';
 import {
   BarChart,
   Bar,
@@ -31,22 +33,28 @@ import { format, subDays, subMonths, startOfMonth, endOfMonth } from 'date-fns';
 const Analytics: React.FC = () => {
   const { contacts, leads, deals, tasks } = useCRMStore();
   const [timeRange, setTimeRange] = useState<'7d' | '30d' | '90d' | '1y'>('30d');
+  const pipelines = useSettingsStore((state) => state.pipelines);
+  const [distributionPipelineId, setDistributionPipelineId] = useState(pipelines[0]?.id);
+  const isWon = (deal: (typeof deals)[number]) => isDealWon(pipelines, deal);
 
   // Calculate key metrics
   const totalRevenue = deals
-    .filter(deal => deal.stage === 'closed-won')
+    .filter(isWon)
     .reduce((sum, deal) => sum + deal.value, 0);
 
   const pipelineValue = deals
-    .filter(deal => !['closed-won', 'closed-lost'].includes(deal.stage))
+    .filter(deal => isDealOpen(pipelines, deal))
     .reduce((sum, deal) => sum + deal.value, 0);
 
+  // Follows the conversion back-references so only leads that really produced a deal count
+  const dealIds = new Set(deals.map(deal => deal.id));
+  const leadsWithDeals = leads.filter(lead => lead.convertedDealId && dealIds.has(lead.convertedDealId));
   const conversionRate = leads.length > 0 
-    ? (leads.filter(lead => lead.status === 'converted').length / leads.length) * 100 
+    ? (leadsWithDeals.length / leads.length) * 100 
     : 0;
 
-  const avgDealSize = deals.filter(d => d.stage === 'closed-won').length > 0
-    ? totalRevenue / deals.filter(d => d.stage === 'closed-won').length
+  const avgDealSize = deals.filter(isWon).length > 0
+    ? totalRevenue / deals.filter(isWon).length
     : 0;
 
   // Generate revenue trend data
@@ -55,7 +63,7 @@ const Analytics: React.FC = () => {
     const date = subDays(new Date(), days - 1 - i);
     const dayRevenue = deals
       .filter(deal => 
-        deal.stage === 'closed-won' && 
+        isWon(deal) && 
         format(deal.updatedAt, 'yyyy-MM-dd') === format(date, 'yyyy-MM-dd')
       )
       .reduce((sum, deal) => sum + deal.value, 0);
@@ -64,20 +72,14 @@ const Analytics: React.FC = () => {
       name: format(date, days <= 30 ? 'MMM dd' : 'MMM'),
       revenue: dayRevenue,
       deals: deals.filter(deal => 
-        deal.stage === 'closed-won' && 
+        isWon(deal) && 
         format(deal.updatedAt, 'yyyy-MM-dd') === format(date, 'yyyy-MM-dd')
       ).length,
     };
   });
 
   // Pipeline distribution
-  const pipelineData = [
-    { name: 'Prospecting', value: deals.filter(d => d.stage === 'prospecting').length, color: '#3B82F6' },
-    { name: 'Qualification', value: deals.filter(d => d.stage === 'qualification').length, color: '#10B981' },
-    { name: 'Proposal', value: deals.filter(d => d.stage === 'proposal').length, color: '#F59E0B' },
-    { name: 'Negotiation', value: deals.filter(d => d.stage === 'negotiation').length, color: '#EF4444' },
-    { name: 'Closed Won', value: deals.filter(d => d.stage === 'closed-won').length, color: '#8B5CF6' },
-  ];
+  const pipelineData = stageDistribution(pipelines, deals, distributionPipelineId);
 
   // Lead sources
   const leadSources = leads.reduce((acc, lead) => {
@@ -90,6 +92,19 @@ const Analytics: React.FC = () => {
     value: count,
   }));
 
+  // Why lost deals were lost, most common first
+  const lossReasons = deals
+    .filter(deal => dealOutcome(pipelines, deal) === 'lost')
+    .reduce((acc, deal) => {
+      const reason = deal.lossReason || 'Not recorded';
+      acc[reason] = acc[reason] ?? { name: reason, deals: 0, value: 0 };
+      acc[reason].deals += 1;
+      acc[reason].value += deal.value;
+      return acc;
+    }, {} as Record<string, { name: string; deals: number; value: number }>);
+
+  const lossReasonData = Object.values(lossReasons).sort((a, b) => b.deals - a.deals);
+
   // Monthly performance
   const monthlyData = Array.from({ length: 12 }, (_, i) => {
     const date = subMonths(new Date(), 11 - i);
@@ -97,7 +112,7 @@ const Analytics: React.FC = () => {
     const monthEnd = endOfMonth(date);
     
     const monthDeals = deals.filter(deal => 
-      deal.stage === 'closed-won' &&
+      isWon(deal) &&
       new Date(deal.updatedAt) >= monthStart &&
       new Date(deal.updatedAt) <= monthEnd
     );
@@ -135,7 +150,7 @@ const Analytics: React.FC = () => {
       changeType: 'positive' as const,
     },
     {
-      name: 'Conversion Rate',
+      name: 'Lead → Deal Rate',
       value: `${conversionRate.toFixed(1)}%`,
       icon: Target,
       color: 'bg-purple-500',
@@ -263,9 +278,23 @@ const Analytics: React.FC = () => {
           transition={{ delay: 0.3 }}
           className="bg-white dark:bg-gray-800 rounded-xl p-6 shadow-sm border border-gray-200 dark:border-gray-700"
         >
-          <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
-            Pipeline Distribution
-          </h3>
+          <div className="flex items-center justify-between gap-4 mb-4">
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+              Pipeline Distribution
+            </h3>
+            {pipelines.length > 1 && (
+              <select
+                value={getPipeline(pipelines, distributionPipelineId).id}
+                onChange={(e) => setDistributionPipelineId(e.target.value)}
+                aria-label="Pipeline"
+                className="px-3 py-1.5 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm"
+              >
+                {pipelines.map((pipeline) => (
+                  <option key={pipeline.id} value={pipeline.id}>{pipeline.name}</option>
+                ))}
+              </select>
+            )}
+          </div>
           <ResponsiveContainer width="100%" height={300}>
             <PieChart>
               <Pie
@@ -354,6 +383,43 @@ const Analytics: React.FC = () => {
             </LineChart>
           </ResponsiveContainer>
         </motion.div>
+
+        {/* Loss Reasons */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.55 }}
+          className="lg:col-span-2 bg-white dark:bg-gray-800 rounded-xl p-6 shadow-sm border border-gray-200 dark:border-gray-700"
+        >
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
+            Loss Reasons
+          </h3>
+          {lossReasonData.length > 0 ? (
+            <ResponsiveContainer width="100%" height={300}>
+              <BarChart data={lossReasonData}>
+                <CartesianGrid strokeDasharray="3 3" className="opacity-30" />
+                <XAxis dataKey="name" className="text-xs" />
+                <YAxis yAxisId="deals" allowDecimals={false} className="text-xs" />
+                <YAxis yAxisId="value" orientation="right" className="text-xs" />
+                <Tooltip
+                  contentStyle={{
+                    backgroundColor: 'rgba(17, 24, 39, 0.8)',
+                    border: 'none',
+                    borderRadius: '8px',
+                    color: 'white',
+                  }}
+                  formatter={(value: number, name: string) => (name === 'Value' ? `$${value.toLocaleString()}` : value)}
+                />
+                <Bar yAxisId="deals" dataKey="deals" name="Deals" fill="#EF4444" radius={[4, 4, 0, 0]} />
+                <Bar yAxisId="value" dataKey="value" name="Value" fill="#F59E0B" radius={[4, 4, 0, 0]} />
+              </BarChart>
+            </ResponsiveContainer>
+          ) : (
+            <p className="py-12 text-sm text-center text-gray-500 dark:text-gray-400">
+              No lost deals yet.
+            </p>
+          )}
+        </motion.div>
       </div>
 
       {/* Performance Summary */}
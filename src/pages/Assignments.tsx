@@ -0,0 +1,261 @@
+import React, { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { format } from 'date-fns';
+import { Inbox, Shuffle, UserPlus } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useCRMStore } from '../stores/crmStore';
+import { useAuthStore } from '../stores/authStore';
+import { useSettingsStore } from '../stores/settingsStore';
+import { usePermissions } from '../hooks/usePermissions';
+import { useSelection } from '../hooks/useSelection';
+import { mutationErrorMessage, withUndoToast } from '../components/history/undoToast';
+import { recordPath } from '../lib/records';
+import { assignableUsers, findUser, userName, userOptions } from '../lib/users';
+import {
+  ASSIGNMENT_STRATEGIES,
+  isOpenLead,
+  isUnassigned,
+  memberSettings,
+  openLeadCounts,
+  redistributeLeads,
+} from '../lib/assignment';
+
+const UNASSIGNED = 'unassigned';
+
+const inputClassName =
+  'px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+// Where managers work the unassigned-leads queue and move open leads between people
+const Assignments: React.FC = () => {
+  const { leads, updateMany } = useCRMStore();
+  const directory = useAuthStore((state) => state.directory);
+  const assignment = useSettingsStore((state) => state.assignment);
+  const can = usePermissions();
+  // The unassigned queue, or the id of the user whose leads are listed
+  const [ownerFilter, setOwnerFilter] = useState(UNASSIGNED);
+  const [target, setTarget] = useState('');
+
+  const counts = useMemo(() => openLeadCounts(leads, directory), [leads, directory]);
+  const users = assignableUsers(directory);
+  const queue = leads.filter((lead) => isUnassigned(lead, directory));
+  const listed = (
+    ownerFilter === UNASSIGNED
+      ? queue
+      : leads.filter((lead) => isOpenLead(lead) && findUser(directory, lead.assignedTo)?.id === ownerFilter)
+  ).sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+
+  const selection = useSelection(listed.map((lead) => lead.id));
+  const canAssign = can('update', 'assignment');
+  const strategy = ASSIGNMENT_STRATEGIES.find((option) => option.id === assignment.strategy);
+
+  const reassign = (message: string, owners: Map<string, string>) => {
+    try {
+      withUndoToast(message, () => updateMany('leads', [...owners.keys()], (lead) => ({ assignedTo: owners.get(lead.id) })));
+      selection.clear();
+    } catch (error) {
+      toast.error(mutationErrorMessage(error));
+    }
+  };
+
+  const handleAssign = (ids: string[], userId: string) => {
+    if (!userId) {
+      return;
+    }
+    reassign(
+      `${ids.length} lead(s) assigned to ${userName(directory, userId)}`,
+      new Map(ids.map((id) => [id, userId]))
+    );
+  };
+
+  const handleAutoAssign = () => {
+    const moving = listed.filter((lead) => selection.isSelected(lead.id));
+    const owners = redistributeLeads(moving, assignment, directory, leads);
+    if (owners.size === 0) {
+      toast.error('Nobody in the rotation has room for these leads');
+      return;
+    }
+    const left = moving.length - owners.size;
+    reassign(
+      left > 0 ? `${owners.size} lead(s) assigned; ${left} left for lack of capacity` : `${owners.size} lead(s) assigned`,
+      owners
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">
+            Lead Assignment
+          </h1>
+          <p className="text-gray-600 dark:text-gray-400">
+            New leads are assigned {strategy?.id === 'manual' ? 'by hand' : `by ${strategy?.label.toLowerCase()}`}.
+            {can('update', 'settings') && (
+              <>
+                {' '}
+                <Link to="/settings" className="text-blue-600 dark:text-blue-400 hover:underline">
+                  Change in Settings
+                </Link>
+              </>
+            )}
+          </p>
+        </div>
+      </div>
+
+      {/* Workload */}
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+        <button
+          onClick={() => setOwnerFilter(UNASSIGNED)}
+          className={`text-left bg-white dark:bg-gray-800 rounded-xl p-4 shadow-sm border transition-colors ${
+            ownerFilter === UNASSIGNED ? 'border-blue-500' : 'border-gray-200 dark:border-gray-700 hover:border-blue-300'
+          }`}
+        >
+          <div className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+            <Inbox className="w-4 h-4" />
+            Unassigned queue
+          </div>
+          <p className="text-2xl font-bold text-gray-900 dark:text-white mt-1">{queue.length}</p>
+        </button>
+        {users.map((user) => {
+          const member = memberSettings(assignment, user.id);
+          const load = counts.get(user.id) ?? 0;
+          return (
+            <button
+              key={user.id}
+              onClick={() => setOwnerFilter(user.id)}
+              className={`text-left bg-white dark:bg-gray-800 rounded-xl p-4 shadow-sm border transition-colors ${
+                ownerFilter === user.id ? 'border-blue-500' : 'border-gray-200 dark:border-gray-700 hover:border-blue-300'
+              }`}
+            >
+              <div className="flex items-center justify-between gap-2 text-sm text-gray-600 dark:text-gray-400">
+                <span className="truncate">{user.name}</span>
+                {member.inRotation && (
+                  <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800 dark:bg-blue-900/20 dark:text-blue-400">
+                    In rotation
+                  </span>
+                )}
+              </div>
+              <p className="text-2xl font-bold text-gray-900 dark:text-white mt-1">
+                {load}
+                {member.inRotation && (
+                  <span className="text-sm font-normal text-gray-500 dark:text-gray-400"> / {member.capacity}</span>
+                )}
+              </p>
+              {member.inRotation && (
+                <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-1.5 mt-2">
+                  <div
+                    className={`h-1.5 rounded-full ${load >= member.capacity ? 'bg-red-500' : 'bg-blue-500'}`}
+                    style={{ width: `${Math.min((load / member.capacity) * 100, 100)}%` }}
+                  />
+                </div>
+              )}
+            </button>
+          );
+        })}
+      </div>
+
+      {/* Leads */}
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700">
+        <div className="flex flex-col lg:flex-row lg:items-center justify-between gap-3 p-4 border-b border-gray-200 dark:border-gray-700">
+          <label className="flex items-center gap-3 text-sm text-gray-700 dark:text-gray-300">
+            <input
+              type="checkbox"
+              checked={selection.allSelected}
+              onChange={selection.toggleAll}
+              disabled={!canAssign || listed.length === 0}
+              className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            <span className="font-medium text-gray-900 dark:text-white">
+              {ownerFilter === UNASSIGNED ? 'Unassigned leads' : `Open leads of ${userName(directory, ownerFilter)}`}
+            </span>
+            {selection.selectedIds.length > 0 && `${selection.selectedIds.length} selected`}
+          </label>
+          {canAssign && (
+            <div className="flex flex-wrap items-center gap-2">
+              <select value={target} onChange={(e) => setTarget(e.target.value)} aria-label="Assign to" className={inputClassName}>
+                <option value="">Choose someone</option>
+                {userOptions(directory)
+                  .filter((option) => option.value !== ownerFilter)
+                  .map((option) => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+              </select>
+              <button
+                onClick={() => handleAssign(selection.selectedIds, target)}
+                disabled={!target || selection.selectedIds.length === 0}
+                className="flex items-center gap-2 bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <UserPlus className="w-4 h-4" />
+                Assign
+              </button>
+              <button
+                onClick={handleAutoAssign}
+                disabled={assignment.strategy === 'manual' || selection.selectedIds.length === 0}
+                title={assignment.strategy === 'manual' ? 'Choose an assignment strategy in Settings first' : undefined}
+                className="flex items-center gap-2 px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors text-sm text-gray-700 dark:text-gray-300 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Shuffle className="w-4 h-4" />
+                Auto-assign
+              </button>
+            </div>
+          )}
+        </div>
+
+        <div className="divide-y divide-gray-200 dark:divide-gray-700">
+          {listed.map((lead) => (
+            <div key={lead.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-4">
+              <label className="flex items-center gap-3 min-w-0">
+                <input
+                  type="checkbox"
+                  checked={selection.isSelected(lead.id)}
+                  onChange={() => selection.toggle(lead.id)}
+                  disabled={!canAssign}
+                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                <span className="min-w-0">
+                  <Link
+                    to={recordPath('lead', lead.id)}
+                    className="block font-medium text-gray-900 dark:text-white hover:text-blue-600 dark:hover:text-blue-400 truncate"
+                  >
+                    {lead.name}
+                  </Link>
+                  <span className="block text-sm text-gray-500 dark:text-gray-400 truncate">
+                    {[lead.company, lead.source, lead.territory, `$${lead.value.toLocaleString()}`].filter(Boolean).join(' · ')}
+                    {' · '}Added {format(new Date(lead.createdAt), 'MMM dd')}
+                    {ownerFilter === UNASSIGNED && lead.assignedTo && ` · was ${userName(directory, lead.assignedTo)}`}
+                  </span>
+                </span>
+              </label>
+              {canAssign && (
+                <select
+                  value=""
+                  onChange={(e) => handleAssign([lead.id], e.target.value)}
+                  aria-label={`Assign ${lead.name}`}
+                  className={`${inputClassName} sm:w-48`}
+                >
+                  <option value="">{ownerFilter === UNASSIGNED ? 'Assign to…' : 'Reassign to…'}</option>
+                  {userOptions(directory)
+                    .filter((option) => option.value !== ownerFilter)
+                    .map((option) => (
+                      <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                </select>
+              )}
+            </div>
+          ))}
+          {listed.length === 0 && (
+            <div className="text-center py-12">
+              <Inbox className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+              <p className="text-gray-500 dark:text-gray-400">
+                {ownerFilter === UNASSIGNED ? 'Every open lead has an owner' : 'No open leads'}
+              </p>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Assignments;
@@ -0,0 +1,172 @@
+import React from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import {
+  ArrowLeft,
+  Mail,
+  Phone,
+  Building,
+  Briefcase,
+  Tag,
+  Target,
+  Trash2,
+  User,
+} from 'lucide-react';
+import toast from 'react-hot-toast';
+import { DeleteBlockedError, getContactDependents, useCRMStore } from '../stores/crmStore';
+import { useAuthStore } from '../stores/authStore';
+import { useAuditStore } from '../stores/auditStore';
+import { useEmailStore } from '../stores/emailStore';
+import { useSettingsStore } from '../stores/settingsStore';
+import { usePermissions } from '../hooks/usePermissions';
+import { useCustomFields } from '../hooks/useCustomFields';
+import { withUndoToast } from '../components/history/undoToast';
+import { PermissionError } from '../lib/permissions';
+import { isRelatedTo, recordHistory, recordPath } from '../lib/records';
+import { userName } from '../lib/users';
+import RecordSection from '../components/records/RecordSection';
+import DetailField from '../components/records/DetailField';
+import RelatedDeals from '../components/records/RelatedDeals';
+import RelatedTasks from '../components/records/RelatedTasks';
+import RecordHistory from '../components/records/RecordHistory';
+import RecordNotFound from '../components/records/RecordNotFound';
+import CustomFieldDetails from '../components/customFields/CustomFieldDetails';
+import SequenceEnrollments from '../components/sequences/SequenceEnrollments';
+
+const ContactDetail: React.FC = () => {
+  const { id = '' } = useParams();
+  const navigate = useNavigate();
+  const { contacts, leads, deals, tasks, deleteContact } = useCRMStore();
+  const directory = useAuthStore((state) => state.directory);
+  const contactDeletePolicy = useSettingsStore((state) => state.contactDeletePolicy);
+  const can = usePermissions();
+  const auditLog = useAuditStore((state) => state.entries);
+  const emails = useEmailStore((state) => state.emails);
+  const customFields = useCustomFields('contact');
+
+  const contact = contacts.find((candidate) => candidate.id === id);
+  if (!contact) {
+    return <RecordNotFound label="contact" backTo="/contacts" />;
+  }
+
+  const dependents = getContactDependents({ deals, tasks }, contact.id);
+  const sourceLead = leads.find((lead) => lead.id === contact.sourceLeadId);
+  const ownTasks = tasks.filter((task) => isRelatedTo(task, 'contact', contact.id));
+
+  const history = recordHistory(contact, 'Contact', dependents.tasks, auditLog, emails);
+  if (sourceLead?.convertedAt) {
+    history.push({
+      id: `${sourceLead.id}-converted`,
+      label: 'Converted from lead',
+      detail: sourceLead.name,
+      date: sourceLead.convertedAt,
+    });
+  }
+  dependents.deals.forEach((deal) => {
+    history.push({ id: `${deal.id}-opened`, label: 'Deal opened', detail: deal.title, date: deal.createdAt });
+  });
+
+  const handleDelete = () => {
+    const hasDependents = dependents.deals.length > 0 || dependents.tasks.length > 0;
+    const message = hasDependents && contactDeletePolicy === 'cascade'
+      ? `Delete this contact along with ${dependents.deals.length} deal(s) and ${dependents.tasks.length} task(s)?`
+      : 'Are you sure you want to delete this contact?';
+
+    if (window.confirm(message)) {
+      try {
+        withUndoToast('Contact moved to trash', () => deleteContact(contact.id));
+        navigate('/contacts');
+      } catch (error) {
+        toast.error(
+          error instanceof PermissionError || error instanceof DeleteBlockedError
+            ? error.message
+            : 'Something went wrong'
+        );
+      }
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Link to="/contacts" className="inline-flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white">
+        <ArrowLeft className="w-4 h-4" />
+        Contacts
+      </Link>
+
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="bg-white dark:bg-gray-800 rounded-xl p-6 shadow-sm border border-gray-200 dark:border-gray-700"
+      >
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div className="flex items-center gap-4">
+            <div className="w-16 h-16 bg-gradient-to-r from-blue-500 to-indigo-600 rounded-full flex items-center justify-center">
+              <span className="text-white font-semibold text-2xl">
+                {contact.name.charAt(0).toUpperCase()}
+              </span>
+            </div>
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900 dark:text-white">
+                {contact.name}
+              </h1>
+              <p className="text-gray-600 dark:text-gray-400">
+                {[contact.position, contact.company].filter(Boolean).join(' at ')}
+              </p>
+            </div>
+          </div>
+          {can('delete', 'contact') && (
+            <button
+              onClick={handleDelete}
+              className="flex items-center gap-2 px-4 py-2 border border-red-200 dark:border-red-800 text-red-600 rounded-lg hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors"
+            >
+              <Trash2 className="w-4 h-4" />
+              Delete
+            </button>
+          )}
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6 mt-6">
+          <DetailField icon={Mail} label="Email">{contact.email}</DetailField>
+          <DetailField icon={Phone} label="Phone">{contact.phone}</DetailField>
+          <DetailField icon={Building} label="Company">{contact.company}</DetailField>
+          <DetailField icon={Briefcase} label="Position">{contact.position}</DetailField>
+          <DetailField icon={User} label="Owner">{userName(directory, contact.assignedTo)}</DetailField>
+          <DetailField icon={Tag} label="Tags">{contact.tags.join(', ')}</DetailField>
+          <DetailField icon={Target} label="Source lead">
+            {sourceLead && (
+              <Link to={recordPath('lead', sourceLead.id)} className="text-blue-600 dark:text-blue-400 hover:underline">
+                {sourceLead.name}
+              </Link>
+            )}
+          </DetailField>
+          <CustomFieldDetails fields={customFields} record={contact} />
+        </div>
+
+        {contact.notes && (
+          <p className="mt-6 text-sm text-gray-700 dark:text-gray-300 whitespace-pre-line">
+            {contact.notes}
+          </p>
+        )}
+      </motion.div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2 space-y-6">
+          <RecordSection title={`Deals (${dependents.deals.length})`}>
+            <RelatedDeals deals={dependents.deals} />
+          </RecordSection>
+          <RecordSection title={`Tasks (${ownTasks.length})`}>
+            <RelatedTasks tasks={ownTasks} />
+          </RecordSection>
+          <RecordSection title="Sequences">
+            <SequenceEnrollments type="contact" record={contact} />
+          </RecordSection>
+        </div>
+        <RecordSection title="History">
+          <RecordHistory entries={history} />
+        </RecordSection>
+      </div>
+    </div>
+  );
+};
+
+export default ContactDetail;
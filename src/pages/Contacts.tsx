@@ -1,7 +1,10 @@
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
 import { motion, AnimatePresence } from 'framer-motion';
 import {
   Plus,
+  Upload,
+  Download,
   Search,
   Filter,
   MoreHorizontal,
@@ -11,46 +14,93 @@ import {
   Edit,
   Trash2,
   X,
+  Tag,
+  UserPlus,
+  CheckSquare,
+  Send,
+  Repeat,
 } from 'lucide-react';
-import { useCRMStore, Contact } from '../stores/crmStore';
+import { useCRMStore, Contact, DeleteBlockedError } from '../stores/crmStore';
+import { useAuthStore } from '../stores/authStore';
+import { useSettingsStore } from '../stores/settingsStore';
+import { useSequenceStore } from '../stores/sequenceStore';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
-import { z } from 'zod';
 import toast from 'react-hot-toast';
+import { usePermissions } from '../hooks/usePermissions';
+import { withUndoToast } from '../components/history/undoToast';
+import { PermissionError } from '../lib/permissions';
+import { recordPath } from '../lib/records';
+import { userOptions } from '../lib/users';
+import { contactSchema, ContactFormData } from '../lib/schemas';
+import {
+  CustomFieldFilterValues,
+  CustomFieldFormData,
+  customFieldFormValues,
+  customFieldSearchText,
+  isFilterable,
+  matchesCustomFieldFilters,
+  mergeCustomFieldValues,
+  withCustomFields,
+} from '../lib/customFields';
+import ImportWizard from '../components/import/ImportWizard';
+import ExportModal from '../components/export/ExportModal';
+import EmailComposer from '../components/email/EmailComposer';
+import { CONTACT_EXPORT_COLUMNS, customFieldExportColumns } from '../lib/exporter';
+import { useSelection } from '../hooks/useSelection';
+import { useNewRecordParam } from '../hooks/useNewRecordParam';
+import { useCustomFields } from '../hooks/useCustomFields';
+import { useBulkActions } from '../hooks/useBulkActions';
+import BulkActionBar, { BulkAction } from '../components/bulk/BulkActionBar';
+import BulkFieldModal, { BulkForm } from '../components/bulk/BulkFieldModal';
+import CustomFieldInputs from '../components/customFields/CustomFieldInputs';
+import CustomFieldFilters from '../components/customFields/CustomFieldFilters';
+import { followUpFields, followUpTask } from '../components/bulk/followUpFields';
+import { enrollForm } from '../components/bulk/enrollForm';
 
-const contactSchema = z.object({
-  name: z.string().min(1, 'Name is required'),
-  email: z.string().email('Valid email is required'),
-  phone: z.string().min(1, 'Phone is required'),
-  company: z.string().min(1, 'Company is required'),
-  position: z.string().min(1, 'Position is required'),
-  notes: z.string().optional(),
-});
-
-type ContactFormData = z.infer<typeof contactSchema>;
+type ContactFormValues = ContactFormData & CustomFieldFormData;
 
 const Contacts: React.FC = () => {
   const { contacts, addContact, updateContact, deleteContact } = useCRMStore();
+  const user = useAuthStore((state) => state.user);
+  const directory = useAuthStore((state) => state.directory);
+  const contactDeletePolicy = useSettingsStore((state) => state.contactDeletePolicy);
+  const can = usePermissions();
+  const sequences = useSequenceStore((state) => state.sequences);
   const [searchTerm, setSearchTerm] = useState('');
   const [isModalOpen, setIsModalOpen] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [exportList, setExportList] = useState<Contact[] | null>(null);
   const [editingContact, setEditingContact] = useState<Contact | null>(null);
-  const [selectedContacts, setSelectedContacts] = useState<string[]>([]);
+  const [emailingContact, setEmailingContact] = useState<Contact | null>(null);
+  const [bulkForm, setBulkForm] = useState<BulkForm | null>(null);
+  const [showFilters, setShowFilters] = useState(false);
+  const [fieldFilters, setFieldFilters] = useState<CustomFieldFilterValues>({});
+  const customFields = useCustomFields('contact');
+  const formSchema = useMemo(() => withCustomFields(contactSchema, customFields), [customFields]);
 
   const {
     register,
+    control,
     handleSubmit,
     reset,
     formState: { errors, isSubmitting },
-  } = useForm<ContactFormData>({
-    resolver: zodResolver(contactSchema),
+  } = useForm<ContactFormValues>({
+    resolver: zodResolver(formSchema),
   });
 
   const filteredContacts = contacts.filter(contact =>
-    contact.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    contact.email.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    contact.company.toLowerCase().includes(searchTerm.toLowerCase())
+    (contact.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      contact.email.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      contact.company.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      customFieldSearchText(customFields, contact).includes(searchTerm.toLowerCase())) &&
+    matchesCustomFieldFilters(customFields, fieldFilters, contact)
   );
 
+  const selection = useSelection(filteredContacts.map((contact) => contact.id));
+  const bulk = useBulkActions('contacts', selection);
+  const selectedContacts = filteredContacts.filter((contact) => selection.isSelected(contact.id));
+
   const handleOpenModal = (contact?: Contact) => {
     if (contact) {
       setEditingContact(contact);
@@ -61,6 +111,7 @@ const Contacts: React.FC = () => {
         company: contact.company,
         position: contact.position,
         notes: contact.notes,
+        customFields: customFieldFormValues(customFields, contact.customFields),
       });
     } else {
       setEditingContact(null);
@@ -71,45 +122,189 @@ const Contacts: React.FC = () => {
         company: '',
         position: '',
         notes: '',
+        customFields: customFieldFormValues(customFields),
       });
     }
     setIsModalOpen(true);
   };
 
+  useNewRecordParam(() => handleOpenModal(), can('create', 'contact'));
+
   const handleCloseModal = () => {
     setIsModalOpen(false);
     setEditingContact(null);
     reset();
   };
 
-  const onSubmit = async (data: ContactFormData) => {
+  const onSubmit = async ({ customFields: customFieldValues, ...data }: ContactFormValues) => {
     try {
       if (editingContact) {
-        updateContact(editingContact.id, { ...data, tags: [] });
-        toast.success('Contact updated successfully');
+        // Keep tags; the form doesn't edit them and imports may have set some
+        withUndoToast('Contact updated successfully', () =>
+          updateContact(editingContact.id, {
+            ...data,
+            notes: data.notes ?? '',
+            customFields: mergeCustomFieldValues(customFields, customFieldValues, editingContact.customFields),
+          })
+        );
       } else {
-        addContact({ ...data, tags: [] });
-        toast.success('Contact added successfully');
+        withUndoToast('Contact added successfully', () =>
+          addContact({
+            ...data,
+            notes: data.notes ?? '',
+            tags: [],
+            customFields: mergeCustomFieldValues(customFields, customFieldValues),
+          })
+        );
       }
       handleCloseModal();
     } catch (error) {
-      toast.error('Something went wrong');
+      toast.error(error instanceof PermissionError ? error.message : 'Something went wrong');
     }
   };
 
   const handleDelete = (id: string) => {
     if (window.confirm('Are you sure you want to delete this contact?')) {
-      deleteContact(id);
-      toast.success('Contact deleted successfully');
+      try {
+        withUndoToast('Contact moved to trash', () => deleteContact(id));
+      } catch (error) {
+        toast.error(
+          error instanceof PermissionError || error instanceof DeleteBlockedError
+            ? error.message
+            : 'Something went wrong'
+        );
+      }
     }
   };
 
-  const handleSelectContact = (id: string) => {
-    setSelectedContacts(prev =>
-      prev.includes(id) ? prev.filter(cId => cId !== id) : [...prev, id]
-    );
+  const handleBulkDelete = () => {
+    const count = selection.selectedIds.length;
+    const message = contactDeletePolicy === 'cascade'
+      ? `Delete ${count} contact(s) along with their deals and tasks?`
+      : `Delete ${count} contact(s)? Contacts that still have deals or tasks will be kept.`;
+    if (window.confirm(message)) {
+      bulk.remove();
+    }
   };
 
+  const selectedTags = [...new Set(selectedContacts.flatMap((contact) => contact.tags))].sort();
+
+  const bulkActions: BulkAction[] = [
+    ...(can('update', 'contact')
+      ? [
+          {
+            label: 'Add tag',
+            icon: Tag,
+            onClick: () =>
+              setBulkForm({
+                title: 'Add Tag',
+                description: `Tag ${selection.selectedIds.length} contact(s).`,
+                confirmLabel: 'Add tag',
+                fields: [{ key: 'tag', label: 'Tag', type: 'text', required: true }],
+                onConfirm: ({ tag }) =>
+                  bulk.update('Tag added', (contact) => ({
+                    tags: contact.tags.includes(tag) ? contact.tags : [...contact.tags, tag],
+                  })),
+              }),
+          },
+          {
+            label: 'Remove tag',
+            icon: Tag,
+            onClick: () => {
+              if (selectedTags.length === 0) {
+                toast.error('The selected contacts have no tags');
+                return;
+              }
+              setBulkForm({
+                title: 'Remove Tag',
+                description: `Remove a tag from ${selection.selectedIds.length} contact(s).`,
+                confirmLabel: 'Remove tag',
+                fields: [{
+                  key: 'tag',
+                  label: 'Tag',
+                  type: 'select',
+                  options: selectedTags.map((tag) => ({ value: tag, label: tag })),
+                  defaultValue: selectedTags[0],
+                }],
+                onConfirm: ({ tag }) =>
+                  bulk.update('Tag removed', (contact) => ({
+                    tags: contact.tags.filter((existing) => existing !== tag),
+                  })),
+              });
+            },
+          },
+          {
+            label: 'Change company',
+            icon: Building,
+            onClick: () =>
+              setBulkForm({
+                title: 'Change Company',
+                description: `Move ${selection.selectedIds.length} contact(s) to another company.`,
+                confirmLabel: 'Change company',
+                fields: [{
+                  key: 'company',
+                  label: 'Company',
+                  type: 'text',
+                  required: true,
+                  suggestions: [...new Set(contacts.map((contact) => contact.company))].sort(),
+                }],
+                onConfirm: ({ company }) => bulk.update('Company changed', () => ({ company })),
+              }),
+          },
+          {
+            label: 'Assign owner',
+            icon: UserPlus,
+            onClick: () =>
+              setBulkForm({
+                title: 'Assign Owner',
+                description: `Choose who owns ${selection.selectedIds.length} contact(s).`,
+                confirmLabel: 'Assign',
+                fields: [{
+                  key: 'owner',
+                  label: 'Owner',
+                  type: 'select',
+                  required: true,
+                  options: userOptions(directory),
+                  defaultValue: user?.id,
+                }],
+                onConfirm: ({ owner }) => bulk.update('Owner assigned', () => ({ assignedTo: owner })),
+              }),
+          },
+        ]
+      : []),
+    ...(can('update', 'contact') && sequences.length > 0
+      ? [{
+          label: 'Enroll in sequence',
+          icon: Repeat,
+          onClick: () =>
+            setBulkForm(enrollForm('contact', selectedContacts.filter((record) => can('update', 'contact', record)), selection.clear)),
+        }]
+      : []),
+    ...(can('create', 'task')
+      ? [{
+          label: 'Follow-up task',
+          icon: CheckSquare,
+          onClick: () =>
+            setBulkForm({
+              title: 'Create Follow-up Tasks',
+              description: `One task per contact, ${selection.selectedIds.length} in total.`,
+              confirmLabel: 'Create tasks',
+              fields: followUpFields(),
+              onConfirm: (values) => {
+                const byId = new Map(contacts.map((contact) => [contact.id, contact]));
+                bulk.createTasks((id) =>
+                  followUpTask(values, byId.get(id)!, { type: 'contact', id }, user?.id ?? '')
+                );
+              },
+            }),
+        }]
+      : []),
+    { label: 'Export', icon: Download, onClick: () => setExportList(selectedContacts) },
+    ...(can('delete', 'contact')
+      ? [{ label: 'Delete', icon: Trash2, onClick: handleBulkDelete, danger: true }]
+      : []),
+  ];
+
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -122,15 +317,35 @@ const Contacts: React.FC = () => {
             Manage your customer relationships
           </p>
         </div>
-        <motion.button
-          whileHover={{ scale: 1.02 }}
-          whileTap={{ scale: 0.98 }}
-          onClick={() => handleOpenModal()}
-          className="bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded-lg font-medium flex items-center gap-2 transition-colors"
-        >
-          <Plus className="w-5 h-5" />
-          Add Contact
-        </motion.button>
+        <div className="flex items-center gap-3">
+          <button
+            onClick={() => setExportList(filteredContacts)}
+            className="flex items-center gap-2 px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors text-gray-700 dark:text-gray-300"
+          >
+            <Download className="w-5 h-5" />
+            Export
+          </button>
+          {can('create', 'contact') && (
+            <>
+              <button
+                onClick={() => setIsImporting(true)}
+                className="flex items-center gap-2 px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors text-gray-700 dark:text-gray-300"
+              >
+                <Upload className="w-5 h-5" />
+                Import
+              </button>
+              <motion.button
+                whileHover={{ scale: 1.02 }}
+                whileTap={{ scale: 0.98 }}
+                onClick={() => handleOpenModal()}
+                className="bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded-lg font-medium flex items-center gap-2 transition-colors"
+              >
+                <Plus className="w-5 h-5" />
+                Add Contact
+              </motion.button>
+            </>
+          )}
+        </div>
       </div>
 
       {/* Filters */}
@@ -146,11 +361,29 @@ const Contacts: React.FC = () => {
               className="w-full pl-10 pr-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
             />
           </div>
-          <button className="flex items-center gap-2 px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors">
+          <button
+            onClick={() => setShowFilters((open) => !open)}
+            className={`flex items-center gap-2 px-4 py-2 border rounded-lg transition-colors ${
+              showFilters
+                ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/20 text-blue-700 dark:text-blue-300'
+                : 'border-gray-300 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-700'
+            }`}
+          >
             <Filter className="w-5 h-5" />
             Filter
           </button>
         </div>
+        {showFilters && (
+          <div className="mt-4 pt-4 border-t border-gray-200 dark:border-gray-700">
+            {customFields.some(isFilterable) ? (
+              <CustomFieldFilters fields={customFields} filters={fieldFilters} onChange={setFieldFilters} />
+            ) : (
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                Add select or checkbox custom fields in Settings to filter contacts by them.
+              </p>
+            )}
+          </div>
+        )}
       </div>
 
       {/* Stats */}
@@ -175,6 +408,18 @@ const Contacts: React.FC = () => {
         </div>
       </div>
 
+      {filteredContacts.length > 0 && (
+        <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400 cursor-pointer w-fit">
+          <input
+            type="checkbox"
+            checked={selection.allSelected}
+            onChange={selection.toggleAll}
+            className="w-4 h-4 text-blue-500 rounded"
+          />
+          Select all {filteredContacts.length}
+        </label>
+      )}
+
       {/* Contacts Grid */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
         <AnimatePresence>
@@ -185,19 +430,28 @@ const Contacts: React.FC = () => {
               animate={{ opacity: 1, y: 0 }}
               exit={{ opacity: 0, y: -20 }}
               transition={{ delay: index * 0.05 }}
-              className="bg-white dark:bg-gray-800 rounded-xl p-6 shadow-sm border border-gray-200 dark:border-gray-700 hover:shadow-md transition-shadow"
+              className={`bg-white dark:bg-gray-800 rounded-xl p-6 shadow-sm border hover:shadow-md transition-shadow ${
+                selection.isSelected(contact.id) ? 'border-blue-500 ring-2 ring-blue-500' : 'border-gray-200 dark:border-gray-700'
+              }`}
             >
               <div className="flex items-start justify-between mb-4">
                 <div className="flex items-center gap-3">
+                  <input
+                    type="checkbox"
+                    checked={selection.isSelected(contact.id)}
+                    onChange={() => selection.toggle(contact.id)}
+                    aria-label={`Select ${contact.name}`}
+                    className="w-4 h-4 text-blue-500 rounded"
+                  />
                   <div className="w-12 h-12 bg-gradient-to-r from-blue-500 to-indigo-600 rounded-full flex items-center justify-center">
                     <span className="text-white font-semibold text-lg">
                       {contact.name.charAt(0).toUpperCase()}
                     </span>
                   </div>
                   <div>
-                    <h3 className="font-semibold text-gray-900 dark:text-white">
+                    <Link to={recordPath('contact', contact.id)} className="block font-semibold text-gray-900 dark:text-white hover:text-blue-600 dark:hover:text-blue-400">
                       {contact.name}
-                    </h3>
+                    </Link>
                     <p className="text-sm text-gray-600 dark:text-gray-400">
                       {contact.position}
                     </p>
@@ -236,18 +490,31 @@ const Contacts: React.FC = () => {
                   Added {new Date(contact.createdAt).toLocaleDateString()}
                 </span>
                 <div className="flex items-center gap-2">
-                  <button
-                    onClick={() => handleOpenModal(contact)}
-                    className="p-2 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-lg transition-colors"
-                  >
-                    <Edit className="w-4 h-4 text-blue-500" />
-                  </button>
-                  <button
-                    onClick={() => handleDelete(contact.id)}
-                    className="p-2 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors"
-                  >
-                    <Trash2 className="w-4 h-4 text-red-500" />
-                  </button>
+                  {contact.email && (
+                    <button
+                      onClick={() => setEmailingContact(contact)}
+                      title="Send email"
+                      className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+                    >
+                      <Send className="w-4 h-4 text-gray-500" />
+                    </button>
+                  )}
+                  {can('update', 'contact') && (
+                    <button
+                      onClick={() => handleOpenModal(contact)}
+                      className="p-2 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-lg transition-colors"
+                    >
+                      <Edit className="w-4 h-4 text-blue-500" />
+                    </button>
+                  )}
+                  {can('delete', 'contact') && (
+                    <button
+                      onClick={() => handleDelete(contact.id)}
+                      className="p-2 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors"
+                    >
+                      <Trash2 className="w-4 h-4 text-red-500" />
+                    </button>
+                  )}
                 </div>
               </div>
             </motion.div>
@@ -266,6 +533,12 @@ const Contacts: React.FC = () => {
         </div>
       )}
 
+      <AnimatePresence>
+        {emailingContact && (
+          <EmailComposer type="contact" record={emailingContact} onClose={() => setEmailingContact(null)} />
+        )}
+      </AnimatePresence>
+
       {/* Contact Modal */}
       <AnimatePresence>
         {isModalOpen && (
@@ -360,6 +633,8 @@ const Contacts: React.FC = () => {
                   )}
                 </div>
 
+                <CustomFieldInputs fields={customFields} control={control} />
+
                 <div>
                   <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
                     Notes
@@ -392,6 +667,41 @@ const Contacts: React.FC = () => {
           </motion.div>
         )}
       </AnimatePresence>
+
+      <AnimatePresence>
+        {isImporting && (
+          <ImportWizard entity="contacts" onClose={() => setIsImporting(false)} />
+        )}
+        {exportList && (
+          <ExportModal
+            name="contacts"
+            records={exportList}
+            columns={[...CONTACT_EXPORT_COLUMNS, ...customFieldExportColumns<Contact>(customFields)]}
+            onClose={() => setExportList(null)}
+          />
+        )}
+        {bulkForm && (
+          <BulkFieldModal
+            {...bulkForm}
+            onConfirm={(values) => {
+              setBulkForm(null);
+              bulkForm.onConfirm(values);
+            }}
+            onClose={() => setBulkForm(null)}
+          />
+        )}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {(selection.selectedIds.length > 0 || bulk.progress) && (
+          <BulkActionBar
+            count={selection.selectedIds.length}
+            actions={bulkActions}
+            progress={bulk.progress}
+            onClear={selection.clear}
+          />
+        )}
+      </AnimatePresence>
     </div>
   );
 };
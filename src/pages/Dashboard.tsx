@@ -12,12 +12,15 @@ import {
 } from 'lucide-react';
 import { useCRMStore } from '../stores/crmStore';
 import { useAuthStore } from '../stores/authStore';
+import { useSettingsStore } from '../stores/settingsStore';
+import { isDealWon, stageDistribution } from '../lib/pipelines';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell } from 'recharts';
 import { format, subDays, isAfter } from 'date-fns';
 
 const Dashboard: React.FC = () => {
   const { contacts, leads, deals, tasks } = useCRMStore();
   const { user } = useAuthStore();
+  const pipelines = useSettingsStore((state) => state.pipelines);
 
   // Calculate stats
   const totalContacts = contacts.length;
@@ -26,7 +29,7 @@ const Dashboard: React.FC = () => {
   const conversionRate = totalLeads > 0 ? (convertedLeads / totalLeads) * 100 : 0;
   
   const totalRevenue = deals
-    .filter(deal => deal.stage === 'closed-won')
+    .filter(deal => isDealWon(pipelines, deal))
     .reduce((sum, deal) => sum + deal.value, 0);
 
   const pendingTasks = tasks.filter(task => task.status === 'pending').length;
@@ -39,7 +42,7 @@ const Dashboard: React.FC = () => {
     const date = subDays(new Date(), 6 - i);
     const dayRevenue = deals
       .filter(deal => 
-        deal.stage === 'closed-won' && 
+        isDealWon(pipelines, deal) && 
         format(deal.updatedAt, 'yyyy-MM-dd') === format(date, 'yyyy-MM-dd')
       )
       .reduce((sum, deal) => sum + deal.value, 0);
@@ -50,15 +53,8 @@ const Dashboard: React.FC = () => {
     };
   });
 
-  const pipelineData = [
-    { name: 'Prospecting', value: deals.filter(d => d.stage === 'prospecting').length },
-    { name: 'Qualification', value: deals.filter(d => d.stage === 'qualification').length },
-    { name: 'Proposal', value: deals.filter(d => d.stage === 'proposal').length },
-    { name: 'Negotiation', value: deals.filter(d => d.stage === 'negotiation').length },
-    { name: 'Closed Won', value: deals.filter(d => d.stage === 'closed-won').length },
-  ];
-
-  const COLORS = ['#3B82F6', '#10B981', '#F59E0B', '#EF4444', '#8B5CF6'];
+  // The default pipeline; Analytics breaks the others down
+  const pipelineData = stageDistribution(pipelines, deals);
 
   const stats = [
     {
@@ -208,7 +204,7 @@ const Dashboard: React.FC = () => {
                 label={({ name, percent }) => `${name} ${(percent * 100).toFixed(0)}%`}
               >
                 {pipelineData.map((entry, index) => (
-                  <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
+                  <Cell key={`cell-${index}`} fill={entry.color} />
                 ))}
               </Pie>
               <Tooltip />
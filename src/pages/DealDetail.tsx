@@ -0,0 +1,164 @@
+import React, { useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { motion, AnimatePresence } from 'framer-motion';
+import {
+  ArrowLeft,
+  DollarSign,
+  Calendar,
+  User,
+  Percent,
+  Target,
+  Trash2,
+  Edit,
+  Tag,
+} from 'lucide-react';
+import { format } from 'date-fns';
+import toast from 'react-hot-toast';
+import { useCRMStore } from '../stores/crmStore';
+import { useAuthStore } from '../stores/authStore';
+import { useAuditStore } from '../stores/auditStore';
+import { useSettingsStore } from '../stores/settingsStore';
+import { usePermissions } from '../hooks/usePermissions';
+import { useCustomFields } from '../hooks/useCustomFields';
+import { withUndoToast } from '../components/history/undoToast';
+import { PermissionError } from '../lib/permissions';
+import { dealPipeline, getDealStage, stageColor } from '../lib/pipelines';
+import { isRelatedTo, recordHistory, recordPath } from '../lib/records';
+import { userName } from '../lib/users';
+import RecordSection from '../components/records/RecordSection';
+import DetailField from '../components/records/DetailField';
+import RelatedTasks from '../components/records/RelatedTasks';
+import RecordHistory from '../components/records/RecordHistory';
+import RecordNotFound from '../components/records/RecordNotFound';
+import CustomFieldDetails from '../components/customFields/CustomFieldDetails';
+import DealDrawer from '../components/deals/DealDrawer';
+
+const DealDetail: React.FC = () => {
+  const { id = '' } = useParams();
+  const navigate = useNavigate();
+  const { deals, contacts, leads, tasks, deleteDeal } = useCRMStore();
+  const directory = useAuthStore((state) => state.directory);
+  const can = usePermissions();
+  const auditLog = useAuditStore((state) => state.entries);
+  const customFields = useCustomFields('deal');
+  const pipelines = useSettingsStore((state) => state.pipelines);
+  const [isEditing, setIsEditing] = useState(false);
+
+  const deal = deals.find((candidate) => candidate.id === id);
+  if (!deal) {
+    return <RecordNotFound label="deal" backTo="/pipeline" />;
+  }
+
+  const pipeline = dealPipeline(pipelines, deal);
+  const stage = getDealStage(pipelines, deal);
+  const contact = contacts.find((candidate) => candidate.id === deal.contactId);
+  const sourceLead = leads.find((lead) => lead.id === deal.sourceLeadId);
+  const relatedTasks = tasks.filter((task) => isRelatedTo(task, 'deal', deal.id));
+  const history = recordHistory(deal, 'Deal', relatedTasks, auditLog);
+
+  const handleDelete = () => {
+    if (window.confirm('Are you sure you want to delete this deal?')) {
+      try {
+        withUndoToast('Deal moved to trash', () => deleteDeal(deal.id));
+        navigate('/pipeline');
+      } catch (error) {
+        toast.error(error instanceof PermissionError ? error.message : 'Something went wrong');
+      }
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Link to="/pipeline" className="inline-flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white">
+        <ArrowLeft className="w-4 h-4" />
+        Pipeline
+      </Link>
+
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="bg-white dark:bg-gray-800 rounded-xl p-6 shadow-sm border border-gray-200 dark:border-gray-700"
+      >
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900 dark:text-white">
+              {deal.title}
+            </h1>
+            <span className="inline-flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+              <span className={`w-3 h-3 rounded-full ${stageColor(stage).className}`} />
+              {pipelines.length > 1 ? `${pipeline.name} · ${stage.title}` : stage.title}
+            </span>
+          </div>
+          <div className="flex items-center gap-3">
+            {can('update', 'deal', deal) && (
+              <button
+                onClick={() => setIsEditing(true)}
+                className="flex items-center gap-2 px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors text-gray-700 dark:text-gray-300"
+              >
+                <Edit className="w-4 h-4" />
+                Edit
+              </button>
+            )}
+            {can('delete', 'deal', deal) && (
+              <button
+                onClick={handleDelete}
+                className="flex items-center gap-2 px-4 py-2 border border-red-200 dark:border-red-800 text-red-600 rounded-lg hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors"
+              >
+                <Trash2 className="w-4 h-4" />
+                Delete
+              </button>
+            )}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6 mt-6">
+          <DetailField icon={DollarSign} label="Value">${deal.value.toLocaleString()}</DetailField>
+          <DetailField icon={Percent} label="Probability">{deal.probability}%</DetailField>
+          <DetailField icon={Calendar} label="Close date">{format(new Date(deal.closeDate), 'MMM dd, yyyy')}</DetailField>
+          <DetailField icon={User} label="Assigned to">{userName(directory, deal.assignedTo)}</DetailField>
+          <DetailField icon={User} label="Contact">
+            {contact && (
+              <Link to={recordPath('contact', contact.id)} className="text-blue-600 dark:text-blue-400 hover:underline">
+                {contact.name}
+              </Link>
+            )}
+          </DetailField>
+          <DetailField icon={Target} label="Source lead">
+            {sourceLead && (
+              <Link to={recordPath('lead', sourceLead.id)} className="text-blue-600 dark:text-blue-400 hover:underline">
+                {sourceLead.name}
+              </Link>
+            )}
+          </DetailField>
+          {deal.tags && deal.tags.length > 0 && (
+            <DetailField icon={Tag} label="Tags">{deal.tags.join(', ')}</DetailField>
+          )}
+          <CustomFieldDetails fields={customFields} record={deal} />
+        </div>
+
+        {deal.notes && (
+          <p className="mt-6 text-sm text-gray-700 dark:text-gray-300 whitespace-pre-line">
+            {deal.notes}
+          </p>
+        )}
+      </motion.div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2">
+          <RecordSection title={`Tasks (${relatedTasks.length})`}>
+            <RelatedTasks tasks={relatedTasks} />
+          </RecordSection>
+        </div>
+        <RecordSection title="History">
+          <RecordHistory entries={history} />
+        </RecordSection>
+      </div>
+
+      <AnimatePresence>
+        {isEditing && <DealDrawer dealId={deal.id} onClose={() => setIsEditing(false)} />}
+      </AnimatePresence>
+    </div>
+  );
+};
+
+export default DealDetail;
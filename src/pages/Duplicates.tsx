@@ -0,0 +1,149 @@
+import React, { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { AnimatePresence } from 'framer-motion';
+import { format } from 'date-fns';
+import { Combine, CopyCheck, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useCRMStore } from '../stores/crmStore';
+import { useSettingsStore } from '../stores/settingsStore';
+import { usePermissions } from '../hooks/usePermissions';
+import { recordPath } from '../lib/records';
+import {
+  DUPLICATE_REASON_LABELS,
+  DuplicatePair,
+  MergeCollection,
+  findDuplicates,
+} from '../lib/duplicates';
+import MergeModal from '../components/duplicates/MergeModal';
+
+const COLLECTION_OPTIONS = {
+  contacts: { label: 'Contacts', type: 'contact' },
+  leads: { label: 'Leads', type: 'lead' },
+} as const;
+
+// The review queue of records that look like the same person
+const Duplicates: React.FC = () => {
+  const { contacts, leads } = useCRMStore();
+  const { dismissedDuplicates, dismissDuplicate } = useSettingsStore();
+  const can = usePermissions();
+  const [collection, setCollection] = useState<MergeCollection>('contacts');
+  const [merging, setMerging] = useState<DuplicatePair | null>(null);
+
+  const pairs = useMemo(
+    () => ({
+      contacts: findDuplicates('contacts', contacts, dismissedDuplicates),
+      leads: findDuplicates('leads', leads, dismissedDuplicates),
+    }),
+    [contacts, leads, dismissedDuplicates]
+  );
+
+  const { type } = COLLECTION_OPTIONS[collection];
+  const canMerge = (pair: DuplicatePair) =>
+    pair.records.every((record) => can('update', type, record) && can('delete', type, record));
+
+  const handleDismiss = (pair: DuplicatePair) => {
+    dismissDuplicate(pair.key);
+    toast.success('Marked as not duplicates');
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900 dark:text-white">
+          Duplicates
+        </h1>
+        <p className="text-gray-600 dark:text-gray-400">
+          Records sharing an email or phone number, or with near-identical names at the same company
+        </p>
+      </div>
+
+      {/* Filters */}
+      <div className="bg-white dark:bg-gray-800 rounded-xl p-4 shadow-sm border border-gray-200 dark:border-gray-700">
+        <div className="flex gap-2 flex-wrap">
+          {(Object.keys(COLLECTION_OPTIONS) as MergeCollection[]).map((name) => (
+            <button
+              key={name}
+              onClick={() => setCollection(name)}
+              className={`px-4 py-2 rounded-lg font-medium text-sm transition-colors ${
+                collection === name
+                  ? 'bg-blue-500 text-white'
+                  : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+              }`}
+            >
+              {COLLECTION_OPTIONS[name].label} ({pairs[name].length})
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Pairs */}
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 divide-y divide-gray-200 dark:divide-gray-700">
+        {pairs[collection].map((pair) => (
+          <div key={pair.key} className="flex flex-col lg:flex-row lg:items-center justify-between gap-4 p-4">
+            <div className="min-w-0 flex-1">
+              <div className="flex flex-wrap gap-2 mb-3">
+                {pair.reasons.map((reason) => (
+                  <span
+                    key={reason}
+                    className="px-2 py-0.5 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800 dark:bg-yellow-900/20 dark:text-yellow-400"
+                  >
+                    {DUPLICATE_REASON_LABELS[reason]}
+                  </span>
+                ))}
+              </div>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                {pair.records.map((record) => (
+                  <div key={record.id} className="min-w-0">
+                    <Link
+                      to={recordPath(type, record.id)}
+                      className="block font-medium text-gray-900 dark:text-white hover:text-blue-600 dark:hover:text-blue-400 truncate"
+                    >
+                      {record.name}
+                    </Link>
+                    <p className="text-sm text-gray-500 dark:text-gray-400 truncate">
+                      {[record.company, record.email, record.phone].filter(Boolean).join(' · ')}
+                    </p>
+                    <p className="text-xs text-gray-400">Added {format(new Date(record.createdAt), 'MMM dd, yyyy')}</p>
+                  </div>
+                ))}
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => handleDismiss(pair)}
+                className="flex items-center gap-2 px-3 py-1.5 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors text-sm text-gray-700 dark:text-gray-300 whitespace-nowrap"
+              >
+                <X className="w-4 h-4" />
+                Not duplicates
+              </button>
+              {canMerge(pair) && (
+                <button
+                  onClick={() => setMerging(pair)}
+                  className="flex items-center gap-2 bg-blue-500 hover:bg-blue-600 text-white px-3 py-1.5 rounded-lg text-sm font-medium transition-colors whitespace-nowrap"
+                >
+                  <Combine className="w-4 h-4" />
+                  Review and merge
+                </button>
+              )}
+            </div>
+          </div>
+        ))}
+        {pairs[collection].length === 0 && (
+          <div className="text-center py-12">
+            <CopyCheck className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+            <p className="text-gray-500 dark:text-gray-400">No likely duplicates</p>
+          </div>
+        )}
+      </div>
+
+      <AnimatePresence>
+        {merging && (
+          <MergeModal collection={collection} pair={merging} onClose={() => setMerging(null)} />
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
+
+export default Duplicates;
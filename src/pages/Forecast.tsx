@@ -0,0 +1,285 @@
+import React, { useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { CheckCircle, DollarSign, Target, TrendingUp } from 'lucide-react';
+import {
+  Bar,
+  CartesianGrid,
+  ComposedChart,
+  Legend,
+  Line,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import { addMonths, addQuarters, endOfQuarter, endOfYear, startOfQuarter, startOfYear, subMonths } from 'date-fns';
+import { useCRMStore } from '../stores/crmStore';
+import { useSettingsStore } from '../stores/settingsStore';
+import { useAuditStore } from '../stores/auditStore';
+import { useAuthStore } from '../stores/authStore';
+import { isInPipeline } from '../lib/pipelines';
+import { FORECAST_CATEGORIES, ForecastTotals, forecastByRep, monthlyForecast } from '../lib/forecast';
+import { userName } from '../lib/users';
+
+type ForecastRange = 'quarter' | 'next-quarter' | 'half' | 'year';
+
+const RANGE_OPTIONS: { id: ForecastRange; label: string }[] = [
+  { id: 'quarter', label: 'This quarter' },
+  { id: 'next-quarter', label: 'Next quarter' },
+  { id: 'half', label: 'Next 6 months' },
+  { id: 'year', label: 'This year' },
+];
+
+const rangeBounds = (range: ForecastRange, now: Date): [Date, Date] => {
+  switch (range) {
+    case 'quarter':
+      return [startOfQuarter(now), endOfQuarter(now)];
+    case 'next-quarter':
+      return [startOfQuarter(addQuarters(now, 1)), endOfQuarter(addQuarters(now, 1))];
+    case 'half':
+      return [now, addMonths(now, 5)];
+    case 'year':
+      return [startOfYear(now), endOfYear(now)];
+  }
+};
+
+// Past months shown on the chart, to compare what was forecast with what was won
+const HISTORY_MONTHS = 5;
+const UPCOMING_MONTHS = 6;
+
+const money = (value: number) => `$${Math.round(value).toLocaleString()}`;
+
+const tooltipStyle = {
+  backgroundColor: 'rgba(17, 24, 39, 0.8)',
+  border: 'none',
+  borderRadius: '8px',
+  color: 'white',
+};
+
+const Forecast: React.FC = () => {
+  const deals = useCRMStore((state) => state.deals);
+  const pipelines = useSettingsStore((state) => state.pipelines);
+  const directory = useAuthStore((state) => state.directory);
+  const auditEntries = useAuditStore((state) => state.entries);
+  // '' for every pipeline
+  const [pipelineId, setPipelineId] = useState('');
+  const [range, setRange] = useState<ForecastRange>('quarter');
+
+  const pipelineDeals = useMemo(
+    () => (pipelineId ? deals.filter((deal) => isInPipeline(pipelines, deal, pipelineId)) : deals),
+    [deals, pipelines, pipelineId]
+  );
+
+  const months = useMemo(
+    () => monthlyForecast(pipelineDeals, pipelines, auditEntries, subMonths(new Date(), HISTORY_MONTHS), HISTORY_MONTHS + 1 + UPCOMING_MONTHS),
+    [pipelineDeals, pipelines, auditEntries]
+  );
+
+  const [rangeStart, rangeEnd] = rangeBounds(range, new Date());
+  const reps = forecastByRep(pipelineDeals, pipelines, rangeStart, rangeEnd);
+  const totals = reps.reduce<ForecastTotals>(
+    (sum, rep) => ({
+      won: sum.won + rep.won,
+      commit: sum.commit + rep.commit,
+      best: sum.best + rep.best,
+      pipeline: sum.pipeline + rep.pipeline,
+      forecast: sum.forecast + rep.forecast,
+    }),
+    { won: 0, commit: 0, best: 0, pipeline: 0, forecast: 0 }
+  );
+
+  const stats = [
+    { name: 'Closed Won', value: money(totals.won), icon: CheckCircle, color: 'bg-green-500' },
+    { name: 'Commit', value: money(totals.commit), icon: Target, color: 'bg-emerald-500' },
+    { name: 'Best Case', value: money(totals.best), icon: TrendingUp, color: 'bg-blue-500' },
+    { name: 'Weighted Forecast', value: money(totals.forecast), icon: DollarSign, color: 'bg-purple-500' },
+  ];
+
+  const pastMonths = months.filter((month) => month.forecastAtStart !== undefined);
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">
+            Forecast
+          </h1>
+          <p className="text-gray-600 dark:text-gray-400">
+            Revenue weighted by each deal's probability, by expected close month
+          </p>
+        </div>
+        <div className="flex items-center gap-4">
+          {pipelines.length > 1 && (
+            <select
+              value={pipelineId}
+              onChange={(e) => setPipelineId(e.target.value)}
+              aria-label="Pipeline"
+              className="px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+            >
+              <option value="">All pipelines</option>
+              {pipelines.map((option) => (
+                <option key={option.id} value={option.id}>{option.name}</option>
+              ))}
+            </select>
+          )}
+          <select
+            value={range}
+            onChange={(e) => setRange(e.target.value as ForecastRange)}
+            aria-label="Period"
+            className="px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+          >
+            {RANGE_OPTIONS.map((option) => (
+              <option key={option.id} value={option.id}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {/* Key Metrics */}
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+        {stats.map((stat, index) => {
+          const Icon = stat.icon;
+          return (
+            <motion.div
+              key={stat.name}
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: index * 0.1 }}
+              className="bg-white dark:bg-gray-800 rounded-xl p-6 shadow-sm border border-gray-200 dark:border-gray-700"
+            >
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="text-sm text-gray-600 dark:text-gray-400">
+                    {stat.name}
+                  </p>
+                  <p className="text-3xl font-bold text-gray-900 dark:text-white mt-1">
+                    {stat.value}
+                  </p>
+                </div>
+                <div className={`w-12 h-12 ${stat.color} rounded-xl flex items-center justify-center`}>
+                  <Icon className="w-6 h-6 text-white" />
+                </div>
+              </div>
+            </motion.div>
+          );
+        })}
+      </div>
+
+      {/* Monthly Forecast */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.4 }}
+        className="bg-white dark:bg-gray-800 rounded-xl p-6 shadow-sm border border-gray-200 dark:border-gray-700"
+      >
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
+          Revenue by Close Month
+        </h3>
+        <ResponsiveContainer width="100%" height={350}>
+          <ComposedChart data={months}>
+            <CartesianGrid strokeDasharray="3 3" className="opacity-30" />
+            <XAxis dataKey="name" className="text-xs" />
+            <YAxis className="text-xs" />
+            <Tooltip contentStyle={tooltipStyle} formatter={(value: number) => money(value)} />
+            <Legend />
+            <Bar dataKey="won" name="Closed won" stackId="forecast" fill="#8B5CF6" />
+            {FORECAST_CATEGORIES.map((category) => (
+              <Bar key={category.id} dataKey={category.id} name={category.label} stackId="forecast" fill={category.color} />
+            ))}
+            <Line
+              type="monotone"
+              dataKey="forecastAtStart"
+              name="Forecast at month start"
+              stroke="#F59E0B"
+              strokeWidth={3}
+              dot={{ fill: '#F59E0B', strokeWidth: 2, r: 4 }}
+            />
+          </ComposedChart>
+        </ResponsiveContainer>
+      </motion.div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Forecast vs Actual */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.5 }}
+          className="bg-white dark:bg-gray-800 rounded-xl p-6 shadow-sm border border-gray-200 dark:border-gray-700"
+        >
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
+            Forecast vs. Actual
+          </h3>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-600 dark:text-gray-400">
+                <th className="pb-2 font-medium">Month</th>
+                <th className="pb-2 font-medium text-right">Forecast</th>
+                <th className="pb-2 font-medium text-right">Closed won</th>
+                <th className="pb-2 font-medium text-right">Attainment</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+              {pastMonths.map((month) => (
+                <tr key={month.name} className="text-gray-900 dark:text-white">
+                  <td className="py-2">{month.name}</td>
+                  <td className="py-2 text-right">{money(month.forecastAtStart ?? 0)}</td>
+                  <td className="py-2 text-right">{money(month.won)}</td>
+                  <td className="py-2 text-right">
+                    {month.forecastAtStart ? `${((month.won / month.forecastAtStart) * 100).toFixed(0)}%` : '—'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="text-xs text-gray-500 dark:text-gray-400 mt-3">
+            The forecast is the weighted value of the month's deals as they stood on its first day.
+          </p>
+        </motion.div>
+
+        {/* By Salesperson */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.6 }}
+          className="bg-white dark:bg-gray-800 rounded-xl p-6 shadow-sm border border-gray-200 dark:border-gray-700"
+        >
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
+            By Salesperson
+          </h3>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-600 dark:text-gray-400">
+                <th className="pb-2 font-medium">Owner</th>
+                <th className="pb-2 font-medium text-right">Won</th>
+                {FORECAST_CATEGORIES.map((category) => (
+                  <th key={category.id} className="pb-2 font-medium text-right">{category.label}</th>
+                ))}
+                <th className="pb-2 font-medium text-right">Forecast</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+              {reps.map((rep) => (
+                <tr key={rep.assignedTo} className="text-gray-900 dark:text-white">
+                  <td className="py-2 truncate">{userName(directory, rep.assignedTo) || 'Unassigned'}</td>
+                  <td className="py-2 text-right">{money(rep.won)}</td>
+                  {FORECAST_CATEGORIES.map((category) => (
+                    <td key={category.id} className="py-2 text-right">{money(rep[category.id])}</td>
+                  ))}
+                  <td className="py-2 text-right font-medium">{money(rep.forecast)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {reps.length === 0 && (
+            <p className="py-6 text-sm text-center text-gray-500 dark:text-gray-400">
+              No deals expected to close in this period.
+            </p>
+          )}
+        </motion.div>
+      </div>
+    </div>
+  );
+};
+
+export default Forecast;
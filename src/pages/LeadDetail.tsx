@@ -0,0 +1,185 @@
+import React, { useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { motion, AnimatePresence } from 'framer-motion';
+import {
+  ArrowLeft,
+  Mail,
+  Phone,
+  Building,
+  DollarSign,
+  User,
+  Globe,
+  UserCheck,
+  Briefcase,
+  Tag,
+  MapPin,
+  Users,
+} from 'lucide-react';
+import { useCRMStore } from '../stores/crmStore';
+import { useAuthStore } from '../stores/authStore';
+import { useAuditStore } from '../stores/auditStore';
+import { useEmailStore } from '../stores/emailStore';
+import { usePermissions } from '../hooks/usePermissions';
+import { useCustomFields } from '../hooks/useCustomFields';
+import { isRelatedTo, recordHistory, recordPath } from '../lib/records';
+import { userName } from '../lib/users';
+import RecordSection from '../components/records/RecordSection';
+import DetailField from '../components/records/DetailField';
+import RelatedTasks from '../components/records/RelatedTasks';
+import RecordHistory from '../components/records/RecordHistory';
+import RecordNotFound from '../components/records/RecordNotFound';
+import CustomFieldDetails from '../components/customFields/CustomFieldDetails';
+import ConvertLeadModal from '../components/leads/ConvertLeadModal';
+import SequenceEnrollments from '../components/sequences/SequenceEnrollments';
+
+const statusColors: Record<string, string> = {
+  new: 'bg-blue-100 text-blue-800 dark:bg-blue-900/20 dark:text-blue-400',
+  qualified: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/20 dark:text-yellow-400',
+  converted: 'bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-400',
+  lost: 'bg-red-100 text-red-800 dark:bg-red-900/20 dark:text-red-400',
+};
+
+const LeadDetail: React.FC = () => {
+  const { id = '' } = useParams();
+  const { leads, contacts, deals, tasks } = useCRMStore();
+  const directory = useAuthStore((state) => state.directory);
+  const can = usePermissions();
+  const auditLog = useAuditStore((state) => state.entries);
+  const emails = useEmailStore((state) => state.emails);
+  const customFields = useCustomFields('lead');
+  const [isConverting, setIsConverting] = useState(false);
+
+  const lead = leads.find((candidate) => candidate.id === id);
+  if (!lead) {
+    return <RecordNotFound label="lead" backTo="/leads" />;
+  }
+
+  const contact = contacts.find((candidate) => candidate.id === lead.convertedContactId);
+  const deal = deals.find((candidate) => candidate.id === lead.convertedDealId);
+  // Tasks that moved on conversion now hang off the deal or contact, so include those too
+  const relatedTasks = tasks.filter(
+    (task) =>
+      isRelatedTo(task, 'lead', lead.id) ||
+      (deal && isRelatedTo(task, 'deal', deal.id)) ||
+      (contact && isRelatedTo(task, 'contact', contact.id))
+  );
+
+  const history = recordHistory(lead, 'Lead', relatedTasks, auditLog, emails);
+  if (lead.convertedAt) {
+    history.push({
+      id: `${lead.id}-converted`,
+      label: 'Converted',
+      detail: [contact?.name, deal?.title].filter(Boolean).join(' · '),
+      date: lead.convertedAt,
+    });
+  }
+
+  return (
+    <div className="space-y-6">
+      <Link to="/leads" className="inline-flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white">
+        <ArrowLeft className="w-4 h-4" />
+        Leads
+      </Link>
+
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="bg-white dark:bg-gray-800 rounded-xl p-6 shadow-sm border border-gray-200 dark:border-gray-700"
+      >
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div className="flex items-center gap-4">
+            <div className="w-16 h-16 bg-gradient-to-r from-green-500 to-emerald-600 rounded-full flex items-center justify-center">
+              <span className="text-white font-semibold text-2xl">
+                {lead.name.charAt(0).toUpperCase()}
+              </span>
+            </div>
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900 dark:text-white">
+                {lead.name}
+              </h1>
+              <span className={`inline-block px-2 py-1 rounded-full text-xs font-medium ${statusColors[lead.status]}`}>
+                {lead.status.charAt(0).toUpperCase() + lead.status.slice(1)}
+              </span>
+            </div>
+          </div>
+          {!lead.convertedContactId && can('update', 'lead', lead) && (
+            <button
+              onClick={() => setIsConverting(true)}
+              className="flex items-center gap-2 bg-green-500 hover:bg-green-600 text-white px-4 py-2 rounded-lg font-medium transition-colors"
+            >
+              <UserCheck className="w-4 h-4" />
+              Convert lead
+            </button>
+          )}
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6 mt-6">
+          <DetailField icon={Mail} label="Email">{lead.email}</DetailField>
+          <DetailField icon={Phone} label="Phone">{lead.phone}</DetailField>
+          <DetailField icon={Building} label="Company">{lead.company}</DetailField>
+          {lead.companySize && (
+            <DetailField icon={Users} label="Company size">{lead.companySize} employees</DetailField>
+          )}
+          <DetailField icon={DollarSign} label="Value">${lead.value.toLocaleString()}</DetailField>
+          <DetailField icon={User} label="Assigned to">{userName(directory, lead.assignedTo)}</DetailField>
+          <DetailField icon={Globe} label="Source">{lead.source}</DetailField>
+          {lead.territory && (
+            <DetailField icon={MapPin} label="Territory">{lead.territory}</DetailField>
+          )}
+          {lead.tags && lead.tags.length > 0 && (
+            <DetailField icon={Tag} label="Tags">{lead.tags.join(', ')}</DetailField>
+          )}
+          <CustomFieldDetails fields={customFields} record={lead} />
+        </div>
+
+        {lead.notes && (
+          <p className="mt-6 text-sm text-gray-700 dark:text-gray-300 whitespace-pre-line">
+            {lead.notes}
+          </p>
+        )}
+      </motion.div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2 space-y-6">
+          {lead.convertedContactId && (
+            <RecordSection title="Conversion">
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
+                <DetailField icon={User} label="Contact">
+                  {contact && (
+                    <Link to={recordPath('contact', contact.id)} className="text-blue-600 dark:text-blue-400 hover:underline">
+                      {contact.name}
+                    </Link>
+                  )}
+                </DetailField>
+                <DetailField icon={Briefcase} label="Deal">
+                  {deal && (
+                    <Link to={recordPath('deal', deal.id)} className="text-blue-600 dark:text-blue-400 hover:underline">
+                      {deal.title}
+                    </Link>
+                  )}
+                </DetailField>
+              </div>
+            </RecordSection>
+          )}
+          <RecordSection title={`Tasks (${relatedTasks.length})`}>
+            <RelatedTasks tasks={relatedTasks} />
+          </RecordSection>
+          <RecordSection title="Sequences">
+            <SequenceEnrollments type="lead" record={lead} />
+          </RecordSection>
+        </div>
+        <RecordSection title="History">
+          <RecordHistory entries={history} />
+        </RecordSection>
+      </div>
+
+      <AnimatePresence>
+        {isConverting && (
+          <ConvertLeadModal lead={lead} onClose={() => setIsConverting(false)} />
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
+
+export default LeadDetail;
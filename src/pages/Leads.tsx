@@ -1,9 +1,11 @@
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
 import { motion, AnimatePresence } from 'framer-motion';
 import {
   Plus,
+  Upload,
+  Download,
   Search,
-  Filter,
   MoreHorizontal,
   Mail,
   Phone,
@@ -13,55 +15,106 @@ import {
   X,
   DollarSign,
   User,
-  Calendar,
+  UserCheck,
+  UserPlus,
+  CheckSquare,
+  Flag,
+  Send,
+  Repeat,
 } from 'lucide-react';
 import { useCRMStore, Lead } from '../stores/crmStore';
+import { useAuthStore } from '../stores/authStore';
+import { useSettingsStore } from '../stores/settingsStore';
+import { useSequenceStore } from '../stores/sequenceStore';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
-import { z } from 'zod';
 import toast from 'react-hot-toast';
+import { usePermissions } from '../hooks/usePermissions';
+import { withUndoToast } from '../components/history/undoToast';
+import { PermissionError } from '../lib/permissions';
+import { recordPath } from '../lib/records';
+import { userName, userOptions } from '../lib/users';
+import { LEAD_SOURCES } from '../lib/assignment';
+import { COMPANY_SIZES, LEAD_SORTS, LeadSort, sortLeads } from '../lib/leadScoring';
+import { leadSchema, LeadFormData } from '../lib/schemas';
+import {
+  CustomFieldFilterValues,
+  CustomFieldFormData,
+  customFieldFormValues,
+  customFieldSearchText,
+  isFilterable,
+  matchesCustomFieldFilters,
+  mergeCustomFieldValues,
+  withCustomFields,
+} from '../lib/customFields';
+import ConvertLeadModal from '../components/leads/ConvertLeadModal';
+import EmailComposer from '../components/email/EmailComposer';
+import LeadScoreBadge from '../components/leads/LeadScoreBadge';
+import ImportWizard from '../components/import/ImportWizard';
+import ExportModal from '../components/export/ExportModal';
+import { customFieldExportColumns, leadExportColumns } from '../lib/exporter';
+import { useSelection } from '../hooks/useSelection';
+import { useNewRecordParam } from '../hooks/useNewRecordParam';
+import { useCustomFields } from '../hooks/useCustomFields';
+import { useLeadScores } from '../hooks/useLeadScores';
+import { useBulkActions } from '../hooks/useBulkActions';
+import BulkActionBar, { BulkAction } from '../components/bulk/BulkActionBar';
+import BulkFieldModal, { BulkForm } from '../components/bulk/BulkFieldModal';
+import CustomFieldInputs from '../components/customFields/CustomFieldInputs';
+import CustomFieldFilters from '../components/customFields/CustomFieldFilters';
+import { followUpFields, followUpTask } from '../components/bulk/followUpFields';
+import { enrollForm } from '../components/bulk/enrollForm';
 import { format } from 'date-fns';
 
-const leadSchema = z.object({
-  name: z.string().min(1, 'Name is required'),
-  email: z.string().email('Valid email is required'),
-  phone: z.string().min(1, 'Phone is required'),
-  company: z.string().min(1, 'Company is required'),
-  value: z.number().min(0, 'Value must be positive'),
-  status: z.enum(['new', 'qualified', 'converted', 'lost']),
-  assignedTo: z.string().min(1, 'Assigned to is required'),
-  source: z.string().min(1, 'Source is required'),
-  notes: z.string().optional(),
-});
-
-type LeadFormData = z.infer<typeof leadSchema>;
+type LeadFormValues = LeadFormData & CustomFieldFormData;
 
 const Leads: React.FC = () => {
   const { leads, addLead, updateLead, deleteLead } = useCRMStore();
+  const user = useAuthStore((state) => state.user);
+  const directory = useAuthStore((state) => state.directory);
+  const assignmentStrategy = useSettingsStore((state) => state.assignment.strategy);
+  const territories = useSettingsStore((state) => state.territories);
+  const can = usePermissions();
+  const sequences = useSequenceStore((state) => state.sequences);
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState<string>('all');
+  const [sort, setSort] = useState<LeadSort>('added');
   const [isModalOpen, setIsModalOpen] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [exportList, setExportList] = useState<Lead[] | null>(null);
+  const [bulkForm, setBulkForm] = useState<BulkForm | null>(null);
   const [editingLead, setEditingLead] = useState<Lead | null>(null);
+  const [convertingLead, setConvertingLead] = useState<Lead | null>(null);
+  const [emailingLead, setEmailingLead] = useState<Lead | null>(null);
+  const [fieldFilters, setFieldFilters] = useState<CustomFieldFilterValues>({});
+  const customFields = useCustomFields('lead');
+  const formSchema = useMemo(() => withCustomFields(leadSchema, customFields), [customFields]);
+  const scores = useLeadScores();
 
   const {
     register,
+    control,
     handleSubmit,
     reset,
     formState: { errors, isSubmitting },
-  } = useForm<LeadFormData>({
-    resolver: zodResolver(leadSchema),
+  } = useForm<LeadFormValues>({
+    resolver: zodResolver(formSchema),
   });
 
-  const filteredLeads = leads.filter(lead => {
+  const filteredLeads = sortLeads(leads.filter(lead => {
     const matchesSearch = 
       lead.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
       lead.email.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      lead.company.toLowerCase().includes(searchTerm.toLowerCase());
+      lead.company.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      customFieldSearchText(customFields, lead).includes(searchTerm.toLowerCase());
     
     const matchesStatus = statusFilter === 'all' || lead.status === statusFilter;
     
-    return matchesSearch && matchesStatus;
-  });
+    return matchesSearch && matchesStatus && matchesCustomFieldFilters(customFields, fieldFilters, lead);
+  }), sort, scores);
+
+  const selection = useSelection(filteredLeads.map((lead) => lead.id));
+  const bulk = useBulkActions('leads', selection);
 
   const handleOpenModal = (lead?: Lead) => {
     if (lead) {
@@ -75,7 +128,10 @@ const Leads: React.FC = () => {
         status: lead.status,
         assignedTo: lead.assignedTo,
         source: lead.source,
+        territory: lead.territory ?? '',
+        companySize: lead.companySize ?? '',
         notes: lead.notes,
+        customFields: customFieldFormValues(customFields, lead.customFields),
       });
     } else {
       setEditingLead(null);
@@ -86,42 +142,156 @@ const Leads: React.FC = () => {
         company: '',
         value: 0,
         status: 'new',
-        assignedTo: 'John Doe',
+        // Left to the assignment strategy when the workspace has one
+        assignedTo: assignmentStrategy === 'manual' ? user?.id ?? '' : '',
         source: 'Website',
+        territory: '',
+        companySize: '',
         notes: '',
+        customFields: customFieldFormValues(customFields),
       });
     }
     setIsModalOpen(true);
   };
 
+  useNewRecordParam(() => handleOpenModal(), can('create', 'lead'));
+
   const handleCloseModal = () => {
     setIsModalOpen(false);
     setEditingLead(null);
     reset();
   };
 
-  const onSubmit = async (data: LeadFormData) => {
+  const onSubmit = async ({ customFields: customFieldValues, ...data }: LeadFormValues) => {
     try {
       if (editingLead) {
-        updateLead(editingLead.id, data);
-        toast.success('Lead updated successfully');
+        withUndoToast('Lead updated successfully', () =>
+          updateLead(editingLead.id, {
+            ...data,
+            territory: data.territory || undefined,
+            companySize: data.companySize || undefined,
+            customFields: mergeCustomFieldValues(customFields, customFieldValues, editingLead.customFields),
+          })
+        );
       } else {
-        addLead(data);
-        toast.success('Lead added successfully');
+        withUndoToast('Lead added successfully', () =>
+          addLead({
+            ...data,
+            territory: data.territory || undefined,
+            companySize: data.companySize || undefined,
+            notes: data.notes ?? '',
+            customFields: mergeCustomFieldValues(customFields, customFieldValues),
+          })
+        );
       }
       handleCloseModal();
     } catch (error) {
-      toast.error('Something went wrong');
+      toast.error(error instanceof PermissionError ? error.message : 'Something went wrong');
     }
   };
 
   const handleDelete = (id: string) => {
     if (window.confirm('Are you sure you want to delete this lead?')) {
-      deleteLead(id);
-      toast.success('Lead deleted successfully');
+      try {
+        withUndoToast('Lead moved to trash', () => deleteLead(id));
+      } catch (error) {
+        toast.error(error instanceof PermissionError ? error.message : 'Something went wrong');
+      }
+    }
+  };
+
+  const handleBulkDelete = () => {
+    if (window.confirm(`Delete ${selection.selectedIds.length} lead(s)?`)) {
+      bulk.remove();
     }
   };
 
+  const bulkActions: BulkAction[] = [
+    ...(can('update', 'lead')
+      ? [
+          {
+            label: 'Change status',
+            icon: Flag,
+            onClick: () =>
+              setBulkForm({
+                title: 'Change Status',
+                description: `Update ${selection.selectedIds.length} lead(s). Converted leads keep their status.`,
+                confirmLabel: 'Change status',
+                fields: [{
+                  key: 'status',
+                  label: 'Status',
+                  type: 'select',
+                  defaultValue: 'qualified',
+                  options: [
+                    { value: 'new', label: 'New' },
+                    { value: 'qualified', label: 'Qualified' },
+                    { value: 'lost', label: 'Lost' },
+                  ],
+                }],
+                onConfirm: ({ status }) =>
+                  bulk.update('Status changed', (lead) =>
+                    lead.convertedContactId ? {} : { status: status as Lead['status'] }
+                  ),
+              }),
+          },
+          {
+            label: 'Assign owner',
+            icon: UserPlus,
+            onClick: () =>
+              setBulkForm({
+                title: 'Assign Owner',
+                description: `Choose who works ${selection.selectedIds.length} lead(s).`,
+                confirmLabel: 'Assign',
+                fields: [{
+                  key: 'owner',
+                  label: 'Owner',
+                  type: 'select',
+                  required: true,
+                  options: userOptions(directory),
+                  defaultValue: user?.id,
+                }],
+                onConfirm: ({ owner }) => bulk.update('Owner assigned', () => ({ assignedTo: owner })),
+              }),
+          },
+        ]
+      : []),
+    ...(can('update', 'lead') && sequences.length > 0
+      ? [{
+          label: 'Enroll in sequence',
+          icon: Repeat,
+          onClick: () =>
+            setBulkForm(enrollForm('lead', filteredLeads.filter((lead) => selection.isSelected(lead.id)).filter((record) => can('update', 'lead', record)), selection.clear)),
+        }]
+      : []),
+    ...(can('create', 'task')
+      ? [{
+          label: 'Follow-up task',
+          icon: CheckSquare,
+          onClick: () =>
+            setBulkForm({
+              title: 'Create Follow-up Tasks',
+              description: `One task per lead, ${selection.selectedIds.length} in total.`,
+              confirmLabel: 'Create tasks',
+              fields: followUpFields(),
+              onConfirm: (values) => {
+                const byId = new Map(leads.map((lead) => [lead.id, lead]));
+                bulk.createTasks((id) =>
+                  followUpTask(values, byId.get(id)!, { type: 'lead', id }, user?.id ?? '')
+                );
+              },
+            }),
+        }]
+      : []),
+    {
+      label: 'Export',
+      icon: Download,
+      onClick: () => setExportList(filteredLeads.filter((lead) => selection.isSelected(lead.id))),
+    },
+    ...(can('delete', 'lead')
+      ? [{ label: 'Delete', icon: Trash2, onClick: handleBulkDelete, danger: true }]
+      : []),
+  ];
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'new': return 'bg-blue-100 text-blue-800 dark:bg-blue-900/20 dark:text-blue-400';
@@ -152,15 +322,35 @@ const Leads: React.FC = () => {
             Track and convert your potential customers
           </p>
         </div>
-        <motion.button
-          whileHover={{ scale: 1.02 }}
-          whileTap={{ scale: 0.98 }}
-          onClick={() => handleOpenModal()}
-          className="bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded-lg font-medium flex items-center gap-2 transition-colors"
-        >
-          <Plus className="w-5 h-5" />
-          Add Lead
-        </motion.button>
+        <div className="flex items-center gap-3">
+          <button
+            onClick={() => setExportList(filteredLeads)}
+            className="flex items-center gap-2 px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors text-gray-700 dark:text-gray-300"
+          >
+            <Download className="w-5 h-5" />
+            Export
+          </button>
+          {can('create', 'lead') && (
+            <>
+              <button
+                onClick={() => setIsImporting(true)}
+                className="flex items-center gap-2 px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors text-gray-700 dark:text-gray-300"
+              >
+                <Upload className="w-5 h-5" />
+                Import
+              </button>
+              <motion.button
+                whileHover={{ scale: 1.02 }}
+                whileTap={{ scale: 0.98 }}
+                onClick={() => handleOpenModal()}
+                className="bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded-lg font-medium flex items-center gap-2 transition-colors"
+              >
+                <Plus className="w-5 h-5" />
+                Add Lead
+              </motion.button>
+            </>
+          )}
+        </div>
       </div>
 
       {/* Filters */}
@@ -190,8 +380,23 @@ const Leads: React.FC = () => {
                 {status === 'all' ? 'All' : status.charAt(0).toUpperCase() + status.slice(1)} ({count})
               </button>
             ))}
+            <select
+              value={sort}
+              onChange={(e) => setSort(e.target.value as LeadSort)}
+              aria-label="Sort leads"
+              className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              {LEAD_SORTS.map((option) => (
+                <option key={option.id} value={option.id}>{option.label}</option>
+              ))}
+            </select>
           </div>
         </div>
+        {customFields.some(isFilterable) && (
+          <div className="mt-4 pt-4 border-t border-gray-200 dark:border-gray-700">
+            <CustomFieldFilters fields={customFields} filters={fieldFilters} onChange={setFieldFilters} />
+          </div>
+        )}
       </div>
 
       {/* Stats */}
@@ -222,6 +427,18 @@ const Leads: React.FC = () => {
         </div>
       </div>
 
+      {filteredLeads.length > 0 && (
+        <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400 cursor-pointer w-fit">
+          <input
+            type="checkbox"
+            checked={selection.allSelected}
+            onChange={selection.toggleAll}
+            className="w-4 h-4 text-blue-500 rounded"
+          />
+          Select all {filteredLeads.length}
+        </label>
+      )}
+
       {/* Leads Grid */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
         <AnimatePresence>
@@ -232,28 +449,40 @@ const Leads: React.FC = () => {
               animate={{ opacity: 1, y: 0 }}
               exit={{ opacity: 0, y: -20 }}
               transition={{ delay: index * 0.05 }}
-              className="bg-white dark:bg-gray-800 rounded-xl p-6 shadow-sm border border-gray-200 dark:border-gray-700 hover:shadow-md transition-shadow"
+              className={`bg-white dark:bg-gray-800 rounded-xl p-6 shadow-sm border hover:shadow-md transition-shadow ${
+                selection.isSelected(lead.id) ? 'border-blue-500 ring-2 ring-blue-500' : 'border-gray-200 dark:border-gray-700'
+              }`}
             >
               <div className="flex items-start justify-between mb-4">
                 <div className="flex items-center gap-3">
+                  <input
+                    type="checkbox"
+                    checked={selection.isSelected(lead.id)}
+                    onChange={() => selection.toggle(lead.id)}
+                    aria-label={`Select ${lead.name}`}
+                    className="w-4 h-4 text-blue-500 rounded"
+                  />
                   <div className="w-12 h-12 bg-gradient-to-r from-green-500 to-emerald-600 rounded-full flex items-center justify-center">
                     <span className="text-white font-semibold text-lg">
                       {lead.name.charAt(0).toUpperCase()}
                     </span>
                   </div>
                   <div>
-                    <h3 className="font-semibold text-gray-900 dark:text-white">
+                    <Link to={recordPath('lead', lead.id)} className="block font-semibold text-gray-900 dark:text-white hover:text-blue-600 dark:hover:text-blue-400">
                       {lead.name}
-                    </h3>
+                    </Link>
                     <div className={`px-2 py-1 rounded-full text-xs font-medium ${getStatusColor(lead.status)}`}>
                       {lead.status.charAt(0).toUpperCase() + lead.status.slice(1)}
                     </div>
                   </div>
                 </div>
-                <div className="relative">
-                  <button className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors">
-                    <MoreHorizontal className="w-5 h-5 text-gray-500" />
-                  </button>
+                <div className="flex items-center gap-1">
+                  {scores.get(lead.id) && <LeadScoreBadge score={scores.get(lead.id)!} />}
+                  <div className="relative">
+                    <button className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors">
+                      <MoreHorizontal className="w-5 h-5 text-gray-500" />
+                    </button>
+                  </div>
                 </div>
               </div>
 
@@ -285,7 +514,7 @@ const Leads: React.FC = () => {
                 <div className="flex items-center gap-3">
                   <User className="w-4 h-4 text-purple-500" />
                   <span className="text-sm text-gray-700 dark:text-gray-300">
-                    {lead.assignedTo}
+                    {userName(directory, lead.assignedTo) || 'Unassigned'}
                   </span>
                 </div>
               </div>
@@ -296,18 +525,40 @@ const Leads: React.FC = () => {
                   <div>Added {format(new Date(lead.createdAt), 'MMM dd')}</div>
                 </div>
                 <div className="flex items-center gap-2">
-                  <button
-                    onClick={() => handleOpenModal(lead)}
-                    className="p-2 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-lg transition-colors"
-                  >
-                    <Edit className="w-4 h-4 text-blue-500" />
-                  </button>
-                  <button
-                    onClick={() => handleDelete(lead.id)}
-                    className="p-2 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors"
-                  >
-                    <Trash2 className="w-4 h-4 text-red-500" />
-                  </button>
+                  {lead.email && (
+                    <button
+                      onClick={() => setEmailingLead(lead)}
+                      title="Send email"
+                      className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+                    >
+                      <Send className="w-4 h-4 text-gray-500" />
+                    </button>
+                  )}
+                  {!lead.convertedContactId && can('update', 'lead', lead) && (
+                    <button
+                      onClick={() => setConvertingLead(lead)}
+                      title="Convert lead"
+                      className="p-2 hover:bg-green-50 dark:hover:bg-green-900/20 rounded-lg transition-colors"
+                    >
+                      <UserCheck className="w-4 h-4 text-green-500" />
+                    </button>
+                  )}
+                  {can('update', 'lead', lead) && (
+                    <button
+                      onClick={() => handleOpenModal(lead)}
+                      className="p-2 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-lg transition-colors"
+                    >
+                      <Edit className="w-4 h-4 text-blue-500" />
+                    </button>
+                  )}
+                  {can('delete', 'lead', lead) && (
+                    <button
+                      onClick={() => handleDelete(lead.id)}
+                      className="p-2 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors"
+                    >
+                      <Trash2 className="w-4 h-4 text-red-500" />
+                    </button>
+                  )}
                 </div>
               </div>
             </motion.div>
@@ -329,6 +580,18 @@ const Leads: React.FC = () => {
         </div>
       )}
 
+      <AnimatePresence>
+        {convertingLead && (
+          <ConvertLeadModal lead={convertingLead} onClose={() => setConvertingLead(null)} />
+        )}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {emailingLead && (
+          <EmailComposer type="lead" record={emailingLead} onClose={() => setEmailingLead(null)} />
+        )}
+      </AnimatePresence>
+
       {/* Lead Modal */}
       <AnimatePresence>
         {isModalOpen && (
@@ -410,6 +673,21 @@ const Leads: React.FC = () => {
                   )}
                 </div>
 
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                    Company Size
+                  </label>
+                  <select
+                    {...register('companySize')}
+                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                  >
+                    <option value="">Not known</option>
+                    {COMPANY_SIZES.map((size) => (
+                      <option key={size} value={size}>{size} employees</option>
+                    ))}
+                  </select>
+                </div>
+
                 <div>
                   <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
                     Value ($)
@@ -436,7 +714,8 @@ const Leads: React.FC = () => {
                   >
                     <option value="new">New</option>
                     <option value="qualified">Qualified</option>
-                    <option value="converted">Converted</option>
+                    {/* Converting goes through the convert action so the contact and deal get created */}
+                    {editingLead?.convertedContactId && <option value="converted">Converted</option>}
                     <option value="lost">Lost</option>
                   </select>
                 </div>
@@ -449,9 +728,12 @@ const Leads: React.FC = () => {
                     {...register('assignedTo')}
                     className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
                   >
-                    <option value="John Doe">John Doe</option>
-                    <option value="Jane Smith">Jane Smith</option>
-                    <option value="Mike Johnson">Mike Johnson</option>
+                    <option value="">
+                      {!editingLead && assignmentStrategy !== 'manual' ? 'Assign automatically' : 'Unassigned'}
+                    </option>
+                    {userOptions(directory, editingLead?.assignedTo).map((option) => (
+                      <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
                   </select>
                 </div>
 
@@ -463,15 +745,37 @@ const Leads: React.FC = () => {
                     {...register('source')}
                     className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
                   >
-                    <option value="Website">Website</option>
-                    <option value="Referral">Referral</option>
-                    <option value="Social Media">Social Media</option>
-                    <option value="Cold Call">Cold Call</option>
-                    <option value="Email">Email</option>
-                    <option value="Event">Event</option>
+                    {LEAD_SOURCES.map((source) => (
+                      <option key={source} value={source}>{source}</option>
+                    ))}
+                    {editingLead && !LEAD_SOURCES.includes(editingLead.source) && (
+                      <option value={editingLead.source}>{editingLead.source}</option>
+                    )}
                   </select>
                 </div>
 
+                {(territories.length > 0 || editingLead?.territory) && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                      Territory
+                    </label>
+                    <select
+                      {...register('territory')}
+                      className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                    >
+                      <option value="">None</option>
+                      {territories.map((territory) => (
+                        <option key={territory} value={territory}>{territory}</option>
+                      ))}
+                      {editingLead?.territory && !territories.includes(editingLead.territory) && (
+                        <option value={editingLead.territory}>{editingLead.territory}</option>
+                      )}
+                    </select>
+                  </div>
+                )}
+
+                <CustomFieldInputs fields={customFields} control={control} />
+
                 <div>
                   <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
                     Notes
@@ -504,6 +808,41 @@ const Leads: React.FC = () => {
           </motion.div>
         )}
       </AnimatePresence>
+
+      <AnimatePresence>
+        {isImporting && (
+          <ImportWizard entity="leads" onClose={() => setIsImporting(false)} />
+        )}
+        {exportList && (
+          <ExportModal
+            name="leads"
+            records={exportList}
+            columns={[...leadExportColumns(directory), ...customFieldExportColumns<Lead>(customFields)]}
+            onClose={() => setExportList(null)}
+          />
+        )}
+        {bulkForm && (
+          <BulkFieldModal
+            {...bulkForm}
+            onConfirm={(values) => {
+              setBulkForm(null);
+              bulkForm.onConfirm(values);
+            }}
+            onClose={() => setBulkForm(null)}
+          />
+        )}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {(selection.selectedIds.length > 0 || bulk.progress) && (
+          <BulkActionBar
+            count={selection.selectedIds.length}
+            actions={bulkActions}
+            progress={bulk.progress}
+            onClear={selection.clear}
+          />
+        )}
+      </AnimatePresence>
     </div>
   );
 };
@@ -1,33 +1,66 @@
 import React, { useState } from 'react';
-import { motion } from 'framer-motion';
-import { LogIn, Mail, Lock, Building2 } from 'lucide-react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { LogIn, Mail, Lock, Building2, AlertCircle } from 'lucide-react';
 import { useAuthStore } from '../stores/authStore';
+import { AuthError, AuthErrorCode } from '../services/authService';
 import toast from 'react-hot-toast';
+import { format } from 'date-fns';
+
+interface LoginError {
+  code: AuthErrorCode;
+  retryAt?: number;
+}
+
+const errorMessage = ({ code, retryAt }: LoginError) => {
+  switch (code) {
+    case 'invalid_credentials':
+      return 'Email or password is incorrect.';
+    case 'account_locked':
+      return retryAt
+        ? `Too many failed attempts. Try again after ${format(retryAt, 'HH:mm')}.`
+        : 'Too many failed attempts. Try again later.';
+    case 'account_disabled':
+      return 'This account has been disabled. Contact your administrator.';
+    case 'session_expired':
+      return 'Your session has expired. Please sign in again.';
+    case 'invalid_token':
+      return 'Your session could not be verified. Please sign in again.';
+    default:
+      return 'The sign-in service is unavailable. Please try again shortly.';
+  }
+};
 
 const LoginPage: React.FC = () => {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const login = useAuthStore((state) => state.login);
+  const sessionError = useAuthStore((state) => state.sessionError);
+  const [error, setError] = useState<LoginError | null>(
+    sessionError ? { code: sessionError } : null
+  );
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsLoading(true);
+    setError(null);
     
     try {
-      const success = await login(email, password);
-      if (success) {
-        toast.success('Login successful!');
-      } else {
-        toast.error('Invalid credentials');
-      }
+      await login(email, password);
+      toast.success('Login successful!');
     } catch (error) {
-      toast.error('Login failed');
+      setError(
+        error instanceof AuthError
+          ? { code: error.code, retryAt: error.retryAt }
+          : { code: 'unavailable' }
+      );
     } finally {
       setIsLoading(false);
     }
   };
 
+  const hasCredentialError = error?.code === 'invalid_credentials';
+
   const demoCredentials = [
     { email: 'admin@crm.com', password: 'password', role: 'Admin' },
     { email: 'manager@crm.com', password: 'password', role: 'Manager' },
@@ -61,6 +94,21 @@ const LoginPage: React.FC = () => {
           </div>
 
           <form onSubmit={handleSubmit} className="space-y-6">
+            <AnimatePresence>
+              {error && (
+                <motion.div
+                  initial={{ opacity: 0, y: -10 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  exit={{ opacity: 0, y: -10 }}
+                  role="alert"
+                  className="flex items-start gap-3 p-3 rounded-lg bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-400 text-sm"
+                >
+                  <AlertCircle className="w-5 h-5 flex-shrink-0" />
+                  <span>{errorMessage(error)}</span>
+                </motion.div>
+              )}
+            </AnimatePresence>
+
             <div>
               <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
                 Email
@@ -71,7 +119,7 @@ const LoginPage: React.FC = () => {
                   type="email"
                   value={email}
                   onChange={(e) => setEmail(e.target.value)}
-                  className="w-full pl-10 pr-4 py-3 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white transition-colors"
+                  className={`w-full pl-10 pr-4 py-3 border ${hasCredentialError ? 'border-red-500' : 'border-gray-300 dark:border-gray-600'} rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white transition-colors`}
                   placeholder="Enter your email"
                   required
                 />
@@ -88,7 +136,7 @@ const LoginPage: React.FC = () => {
                   type="password"
                   value={password}
                   onChange={(e) => setPassword(e.target.value)}
-                  className="w-full pl-10 pr-4 py-3 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white transition-colors"
+                  className={`w-full pl-10 pr-4 py-3 border ${hasCredentialError ? 'border-red-500' : 'border-gray-300 dark:border-gray-600'} rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white transition-colors`}
                   placeholder="Enter your password"
                   required
                 />
@@ -6,11 +6,14 @@ import {
   DragOverlay,
   DragStartEvent,
   PointerSensor,
+  closestCorners,
+  useDroppable,
   useSensor,
   useSensors,
 } from '@dnd-kit/core';
 import {
   SortableContext,
+  arrayMove,
   useSortable,
   verticalListSortingStrategy,
 } from '@dnd-kit/sortable';
@@ -22,24 +25,59 @@ import {
   User,
   MoreHorizontal,
   TrendingUp,
+  Download,
+  Scale,
 } from 'lucide-react';
 import { useCRMStore, Deal } from '../stores/crmStore';
 import { format } from 'date-fns';
 import toast from 'react-hot-toast';
+import { usePermissions } from '../hooks/usePermissions';
+import { withUndoToast } from '../components/history/undoToast';
+import { PermissionError } from '../lib/permissions';
+import { useSettingsStore } from '../stores/settingsStore';
+import {
+  DEAL_SORTS,
+  DealSort,
+  getDealStage,
+  getPipeline,
+  isDealOpen,
+  isDealWon,
+  isInPipeline,
+  positionBetween,
+  sortDeals,
+  stageColor,
+  wipViolation,
+} from '../lib/pipelines';
+import { weightedValue } from '../lib/forecast';
+import { CustomFieldFilterValues, isFilterable, matchesCustomFieldFilters } from '../lib/customFields';
+import { customFieldExportColumns, dealExportColumns } from '../lib/exporter';
+import { useCustomFields } from '../hooks/useCustomFields';
+import { useNewRecordParam } from '../hooks/useNewRecordParam';
+import { useAuthStore } from '../stores/authStore';
+import { TransitionCheck, checkStageTransition } from '../lib/stageRules';
+import { userName } from '../lib/users';
+import ExportModal from '../components/export/ExportModal';
+import DealDrawer from '../components/deals/DealDrawer';
+import StageGateModal from '../components/deals/StageGateModal';
+import CustomFieldFilters from '../components/customFields/CustomFieldFilters';
 
 interface DealCardProps {
   deal: Deal;
   isDragging?: boolean;
+  onOpen?: (deal: Deal) => void;
 }
 
-const DealCard: React.FC<DealCardProps> = ({ deal, isDragging = false }) => {
+const DealCard: React.FC<DealCardProps> = ({ deal, isDragging = false, onOpen }) => {
+  const can = usePermissions();
+  const directory = useAuthStore((state) => state.directory);
+  const canMove = can('update', 'deal', deal);
   const {
     attributes,
     listeners,
     setNodeRef,
     transform,
     transition,
-  } = useSortable({ id: deal.id });
+  } = useSortable({ id: deal.id, disabled: !canMove });
 
   const style = {
     transform: CSS.Transform.toString(transform),
@@ -53,15 +91,17 @@ const DealCard: React.FC<DealCardProps> = ({ deal, isDragging = false }) => {
     return 'text-red-600 bg-red-100';
   };
 
+  // Drags only start once the pointer moves, so a plain click still opens the deal
   return (
     <div
       ref={setNodeRef}
       style={style}
       {...attributes}
       {...listeners}
+      onClick={() => onOpen?.(deal)}
       className={`
         bg-white dark:bg-gray-800 rounded-lg p-4 shadow-sm border border-gray-200 dark:border-gray-700 
-        cursor-grab active:cursor-grabbing hover:shadow-md transition-shadow
+        ${canMove ? 'cursor-grab active:cursor-grabbing' : 'cursor-pointer'} hover:shadow-md transition-shadow
         ${isDragging ? 'opacity-50' : ''}
       `}
     >
@@ -92,7 +132,7 @@ const DealCard: React.FC<DealCardProps> = ({ deal, isDragging = false }) => {
         <div className="flex items-center gap-2">
           <User className="w-4 h-4 text-purple-500" />
           <span className="text-xs text-gray-600 dark:text-gray-400">
-            {deal.assignedTo}
+            {userName(directory, deal.assignedTo)}
           </span>
         </div>
       </div>
@@ -117,13 +157,30 @@ interface PipelineColumnProps {
   title: string;
   deals: Deal[];
   color: string;
+  wipLimit?: number;
+  onOpenDeal: (deal: Deal) => void;
+  // Absent when the user can't create deals
+  onAddDeal?: () => void;
 }
 
-const PipelineColumn: React.FC<PipelineColumnProps> = ({ stage, title, deals, color }) => {
+const PipelineColumn: React.FC<PipelineColumnProps> = ({ stage, title, deals, color, wipLimit, onOpenDeal, onAddDeal }) => {
+  // Lets deals be dropped on the column itself, which is the only target when it is empty
+  const { setNodeRef, isOver } = useDroppable({ id: stage });
   const totalValue = deals.reduce((sum, deal) => sum + deal.value, 0);
 
+  const countClassName = wipLimit === undefined || deals.length < wipLimit
+    ? 'bg-gray-200 dark:bg-gray-700 text-gray-600 dark:text-gray-400'
+    : deals.length === wipLimit
+      ? 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/20 dark:text-yellow-400'
+      : 'bg-red-100 text-red-800 dark:bg-red-900/20 dark:text-red-400';
+
   return (
-    <div className="bg-gray-50 dark:bg-gray-800/50 rounded-xl p-4 min-h-[600px] w-80">
+    <div
+      ref={setNodeRef}
+      className={`bg-gray-50 dark:bg-gray-800/50 rounded-xl p-4 min-h-[600px] w-80 transition-shadow ${
+        isOver ? 'ring-2 ring-blue-400' : ''
+      }`}
+    >
       <div className="flex items-center justify-between mb-4">
         <div>
           <div className="flex items-center gap-2">
@@ -131,17 +188,26 @@ const PipelineColumn: React.FC<PipelineColumnProps> = ({ stage, title, deals, co
             <h3 className="font-semibold text-gray-900 dark:text-white">
               {title}
             </h3>
-            <span className="bg-gray-200 dark:bg-gray-700 text-gray-600 dark:text-gray-400 text-xs px-2 py-1 rounded-full">
-              {deals.length}
+            <span
+              className={`${countClassName} text-xs px-2 py-1 rounded-full`}
+              title={wipLimit !== undefined ? `WIP limit: ${wipLimit}` : undefined}
+            >
+              {wipLimit !== undefined ? `${deals.length} / ${wipLimit}` : deals.length}
             </span>
           </div>
           <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
             ${totalValue.toLocaleString()}
           </p>
         </div>
-        <button className="p-2 hover:bg-gray-200 dark:hover:bg-gray-700 rounded-lg transition-colors">
-          <Plus className="w-4 h-4 text-gray-500" />
-        </button>
+        {onAddDeal && (
+          <button
+            onClick={onAddDeal}
+            className="p-2 hover:bg-gray-200 dark:hover:bg-gray-700 rounded-lg transition-colors"
+            aria-label={`New deal in ${title}`}
+          >
+            <Plus className="w-4 h-4 text-gray-500" />
+          </button>
+        )}
       </div>
 
       <SortableContext items={deals.map(deal => deal.id)} strategy={verticalListSortingStrategy}>
@@ -155,7 +221,7 @@ const PipelineColumn: React.FC<PipelineColumnProps> = ({ stage, title, deals, co
                 exit={{ opacity: 0, y: -20 }}
                 transition={{ duration: 0.2 }}
               >
-                <DealCard deal={deal} />
+                <DealCard deal={deal} onOpen={onOpenDeal} />
               </motion.div>
             ))}
           </AnimatePresence>
@@ -168,6 +234,21 @@ const PipelineColumn: React.FC<PipelineColumnProps> = ({ stage, title, deals, co
 const Pipeline: React.FC = () => {
   const { deals, updateDeal } = useCRMStore();
   const [activeDeal, setActiveDeal] = useState<Deal | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const [fieldFilters, setFieldFilters] = useState<CustomFieldFilterValues>({});
+  const [sort, setSort] = useState<DealSort>('manual');
+  // The deal open in the drawer, or where a new one starts
+  const [drawer, setDrawer] = useState<{ dealId?: string; stage?: string } | null>(null);
+  // A move held back until the target stage's required fields are filled in
+  const [gate, setGate] = useState<{ deal: Deal; updates: Partial<Deal>; check: TransitionCheck } | null>(null);
+  const user = useAuthStore((state) => state.user);
+  const directory = useAuthStore((state) => state.directory);
+  const can = usePermissions();
+  const customFields = useCustomFields('deal');
+  const pipelines = useSettingsStore((state) => state.pipelines);
+  const [pipelineId, setPipelineId] = useState(pipelines[0]?.id);
+  // Falls back to the first pipeline if the selected one was removed
+  const pipeline = getPipeline(pipelines, pipelineId);
 
   const sensors = useSensors(
     useSensor(PointerSensor, {
@@ -177,17 +258,17 @@ const Pipeline: React.FC = () => {
     })
   );
 
-  const pipelineStages = [
-    { id: 'prospecting', title: 'Prospecting', color: 'bg-blue-500' },
-    { id: 'qualification', title: 'Qualification', color: 'bg-yellow-500' },
-    { id: 'proposal', title: 'Proposal', color: 'bg-orange-500' },
-    { id: 'negotiation', title: 'Negotiation', color: 'bg-purple-500' },
-    { id: 'closed-won', title: 'Closed Won', color: 'bg-green-500' },
-    { id: 'closed-lost', title: 'Closed Lost', color: 'bg-red-500' },
-  ];
+  const pipelineStages = pipeline.stages;
 
+  useNewRecordParam(() => setDrawer({}), can('create', 'deal'));
+
+  const visibleDeals = deals.filter((deal) =>
+    isInPipeline(pipelines, deal, pipeline.id) && matchesCustomFieldFilters(customFields, fieldFilters, deal)
+  );
+
+  // Deals whose stage was removed from the pipeline show up in its first column
   const getDealsByStage = (stage: string) => {
-    return deals.filter(deal => deal.stage === stage);
+    return sortDeals(visibleDeals.filter(deal => getDealStage(pipelines, deal).id === stage), sort);
   };
 
   const handleDragStart = (event: DragStartEvent) => {
@@ -198,49 +279,91 @@ const Pipeline: React.FC = () => {
 
   const handleDragEnd = (event: DragEndEvent) => {
     const { active, over } = event;
-    
-    if (!over) {
-      setActiveDeal(null);
+    setActiveDeal(null);
+
+    const deal = deals.find(d => d.id === active.id);
+    if (!over || !deal || active.id === over.id) {
       return;
     }
 
-    // Find the stage from the over container
+    // Dropped either on a column or on a card in one
     const overId = over.id as string;
-    let newStage = '';
-    
-    // Check if we're dropping over a stage column
-    const stageColumn = pipelineStages.find(stage => stage.id === overId);
-    if (stageColumn) {
-      newStage = stageColumn.id;
-    } else {
-      // If dropping over another deal, find its stage
-      const overDeal = deals.find(d => d.id === overId);
-      if (overDeal) {
-        newStage = overDeal.stage;
+    const overDeal = visibleDeals.find(d => d.id === overId);
+    const targetStage = pipelineStages.find(stage => stage.id === overId) ?? (overDeal && getDealStage(pipelines, overDeal));
+    if (!targetStage) {
+      return;
+    }
+    const isSameStage = getDealStage(pipelines, deal).id === targetStage.id;
+    // Under any other sort the order within a column isn't the user's to change
+    if (isSameStage && sort !== 'manual') {
+      return;
+    }
+
+    const updates: Partial<Deal> = {};
+    if (!isSameStage) {
+      const violation = wipViolation(pipelines, deals, targetStage, deal.id);
+      if (violation?.blocking) {
+        toast.error(violation.message);
+        return;
       }
+      if (violation) {
+        toast(violation.message);
+      }
+      updates.stage = targetStage.id;
+    }
+
+    const column = getDealsByStage(targetStage.id);
+    if (sort === 'manual') {
+      const ids = column.map(d => d.id);
+      const from = ids.indexOf(deal.id);
+      const to = overDeal ? ids.indexOf(overDeal.id) : ids.length;
+      const reordered = from === -1 ? [...ids.slice(0, to), deal.id, ...ids.slice(to)] : arrayMove(ids, from, to);
+      const index = reordered.indexOf(deal.id);
+      const neighbour = (id: string | undefined) => column.find(d => d.id === id);
+      updates.position = positionBetween(neighbour(reordered[index - 1]), neighbour(reordered[index + 1]));
+    } else {
+      // Goes to the bottom of the column's manual order
+      const manualOrder = sortDeals(column, 'manual');
+      updates.position = positionBetween(manualOrder[manualOrder.length - 1], undefined);
     }
 
-    if (newStage && active.id !== over.id) {
-      const deal = deals.find(d => d.id === active.id);
-      if (deal && deal.stage !== newStage) {
-        updateDeal(deal.id, { stage: newStage as any });
-        toast.success(`Deal moved to ${pipelineStages.find(s => s.id === newStage)?.title}`);
+    if (!isSameStage) {
+      const check = checkStageTransition(pipelines, deal, updates, user, customFields);
+      if (check.blocked) {
+        toast.error(check.blocked);
+        return;
+      }
+      // The card snaps back while the missing fields are asked for
+      if (check.missing.length > 0) {
+        setGate({ deal, updates, check });
+        return;
       }
     }
 
-    setActiveDeal(null);
+    try {
+      withUndoToast(isSameStage ? 'Deal reordered' : `Deal moved to ${targetStage.title}`, () =>
+        updateDeal(deal.id, updates)
+      );
+    } catch (error) {
+      toast.error(error instanceof PermissionError ? error.message : 'Something went wrong');
+    }
   };
 
-  const totalPipelineValue = deals
-    .filter(deal => !['closed-won', 'closed-lost'].includes(deal.stage))
+  const totalPipelineValue = visibleDeals
+    .filter(deal => isDealOpen(pipelines, deal))
     .reduce((sum, deal) => sum + deal.value, 0);
 
-  const wonValue = deals
-    .filter(deal => deal.stage === 'closed-won')
+  // What the open deals are worth once each is discounted by its probability
+  const weightedPipelineValue = visibleDeals
+    .filter(deal => isDealOpen(pipelines, deal))
+    .reduce((sum, deal) => sum + weightedValue(deal), 0);
+
+  const wonValue = visibleDeals
+    .filter(deal => isDealWon(pipelines, deal))
     .reduce((sum, deal) => sum + deal.value, 0);
 
-  const conversionRate = deals.length > 0 
-    ? (deals.filter(deal => deal.stage === 'closed-won').length / deals.length) * 100 
+  const conversionRate = visibleDeals.length > 0 
+    ? (visibleDeals.filter(deal => isDealWon(pipelines, deal)).length / visibleDeals.length) * 100 
     : 0;
 
   return (
@@ -255,10 +378,56 @@ const Pipeline: React.FC = () => {
             Track your deals through the sales process
           </p>
         </div>
+        <div className="flex items-center gap-3">
+          <select
+            value={sort}
+            onChange={(e) => setSort(e.target.value as DealSort)}
+            aria-label="Sort deals"
+            className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            {DEAL_SORTS.map((option) => (
+              <option key={option.id} value={option.id}>{option.label}</option>
+            ))}
+          </select>
+          {pipelines.length > 1 && (
+            <select
+              value={pipeline.id}
+              onChange={(e) => setPipelineId(e.target.value)}
+              aria-label="Pipeline"
+              className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              {pipelines.map((option) => (
+                <option key={option.id} value={option.id}>{option.name}</option>
+              ))}
+            </select>
+          )}
+          {can('create', 'deal') && (
+            <button
+              onClick={() => setDrawer({})}
+              className="flex items-center gap-2 bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded-lg font-medium transition-colors"
+            >
+              <Plus className="w-5 h-5" />
+              New deal
+            </button>
+          )}
+          <button
+            onClick={() => setIsExporting(true)}
+            className="flex items-center gap-2 px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors text-gray-700 dark:text-gray-300"
+          >
+            <Download className="w-5 h-5" />
+            Export
+          </button>
+        </div>
       </div>
 
+      {customFields.some(isFilterable) && (
+        <div className="bg-white dark:bg-gray-800 rounded-xl p-4 shadow-sm border border-gray-200 dark:border-gray-700">
+          <CustomFieldFilters fields={customFields} filters={fieldFilters} onChange={setFieldFilters} />
+        </div>
+      )}
+
       {/* Pipeline Stats */}
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
         <motion.div
           initial={{ opacity: 0, y: 20 }}
           animate={{ opacity: 1, y: 0 }}
@@ -282,6 +451,25 @@ const Pipeline: React.FC = () => {
           animate={{ opacity: 1, y: 0 }}
           transition={{ delay: 0.1 }}
           className="bg-white dark:bg-gray-800 rounded-xl p-6 shadow-sm border border-gray-200 dark:border-gray-700"
+        >
+          <div className="flex items-center gap-3">
+            <div className="w-12 h-12 bg-teal-100 dark:bg-teal-900/20 rounded-xl flex items-center justify-center">
+              <Scale className="w-6 h-6 text-teal-600" />
+            </div>
+            <div>
+              <p className="text-sm text-gray-600 dark:text-gray-400">Weighted Value</p>
+              <p className="text-2xl font-bold text-gray-900 dark:text-white">
+                ${Math.round(weightedPipelineValue).toLocaleString()}
+              </p>
+            </div>
+          </div>
+        </motion.div>
+
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.2 }}
+          className="bg-white dark:bg-gray-800 rounded-xl p-6 shadow-sm border border-gray-200 dark:border-gray-700"
         >
           <div className="flex items-center gap-3">
             <div className="w-12 h-12 bg-green-100 dark:bg-green-900/20 rounded-xl flex items-center justify-center">
@@ -299,7 +487,7 @@ const Pipeline: React.FC = () => {
         <motion.div
           initial={{ opacity: 0, y: 20 }}
           animate={{ opacity: 1, y: 0 }}
-          transition={{ delay: 0.2 }}
+          transition={{ delay: 0.3 }}
           className="bg-white dark:bg-gray-800 rounded-xl p-6 shadow-sm border border-gray-200 dark:border-gray-700"
         >
           <div className="flex items-center gap-3">
@@ -318,8 +506,10 @@ const Pipeline: React.FC = () => {
 
       {/* Pipeline Board */}
       <div className="bg-white dark:bg-gray-800 rounded-xl p-6 shadow-sm border border-gray-200 dark:border-gray-700">
+        {/* Corner distance picks the card under the pointer rather than the column holding it */}
         <DndContext
           sensors={sensors}
+          collisionDetection={closestCorners}
           onDragStart={handleDragStart}
           onDragEnd={handleDragEnd}
         >
@@ -330,7 +520,10 @@ const Pipeline: React.FC = () => {
                 stage={stage.id}
                 title={stage.title}
                 deals={getDealsByStage(stage.id)}
-                color={stage.color}
+                color={stageColor(stage).className}
+                wipLimit={stage.wipLimit}
+                onOpenDeal={(deal) => setDrawer({ dealId: deal.id })}
+                onAddDeal={can('create', 'deal') ? () => setDrawer({ stage: stage.id }) : undefined}
               />
             ))}
           </div>
@@ -351,6 +544,40 @@ const Pipeline: React.FC = () => {
           </p>
         </div>
       )}
+
+      <AnimatePresence>
+        {drawer && (
+          <DealDrawer
+            key={drawer.dealId ?? 'new'}
+            dealId={drawer.dealId}
+            pipelineId={pipeline.id}
+            stage={drawer.stage}
+            onClose={() => setDrawer(null)}
+          />
+        )}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {gate && (
+          <StageGateModal
+            deal={gate.deal}
+            updates={gate.updates}
+            check={gate.check}
+            onClose={() => setGate(null)}
+          />
+        )}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {isExporting && (
+          <ExportModal
+            name="deals"
+            records={visibleDeals}
+            columns={[...dealExportColumns(pipelines, directory), ...customFieldExportColumns<Deal>(customFields)]}
+            onClose={() => setIsExporting(false)}
+          />
+        )}
+      </AnimatePresence>
     </div>
   );
 };
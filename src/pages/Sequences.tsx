@@ -0,0 +1,193 @@
+import React, { useState } from 'react';
+import { AnimatePresence, motion } from 'framer-motion';
+import { Plus, Edit, Trash2, Repeat } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useCRMStore } from '../stores/crmStore';
+import { useSequenceStore } from '../stores/sequenceStore';
+import { useEmailTemplateStore } from '../stores/emailTemplateStore';
+import { usePermissions } from '../hooks/usePermissions';
+import {
+  ENROLLMENT_STATUS_LABELS,
+  EnrollmentStatus,
+  SEQUENCE_STEP_TYPES,
+  Sequence,
+  SequenceStep,
+  sequenceStats,
+} from '../lib/sequences';
+import { mutationErrorMessage } from '../components/history/undoToast';
+import SequenceEditor from '../components/sequences/SequenceEditor';
+
+const STATUS_ORDER: EnrollmentStatus[] = ['active', 'paused', 'replied', 'completed', 'stopped'];
+
+// Sequences with how far their enrollments get. Records are enrolled from the Leads and
+// Contacts pages or a record's own page.
+const Sequences: React.FC = () => {
+  const tasks = useCRMStore((state) => state.tasks);
+  const { sequences, enrollments, deleteSequence } = useSequenceStore();
+  const templates = useEmailTemplateStore((state) => state.templates);
+  const can = usePermissions();
+  const [editing, setEditing] = useState<Sequence | 'new' | null>(null);
+
+  const stepLabel = (step: SequenceStep) => {
+    const type = SEQUENCE_STEP_TYPES.find(({ id }) => id === step.type)?.label;
+    switch (step.type) {
+      case 'email':
+        return `${type}: ${templates.find((template) => template.id === step.templateId)?.name ?? 'deleted template'}`;
+      case 'wait':
+        return `${type} ${step.days} ${step.days === 1 ? 'day' : 'days'}`;
+      default:
+        return type;
+    }
+  };
+
+  const handleDelete = (sequence: Sequence) => {
+    if (window.confirm(`Delete the "${sequence.name}" sequence? Records in it are taken out; their tasks are kept.`)) {
+      try {
+        deleteSequence(sequence.id);
+        toast.success('Sequence deleted');
+      } catch (error) {
+        toast.error(mutationErrorMessage(error));
+      }
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">
+            Sequences
+          </h1>
+          <p className="text-gray-600 dark:text-gray-400">
+            Timed series of emails, calls and LinkedIn touches, each one a task for the record's owner
+          </p>
+        </div>
+        {can('create', 'sequence') && (
+          <motion.button
+            whileHover={{ scale: 1.02 }}
+            whileTap={{ scale: 0.98 }}
+            onClick={() => setEditing('new')}
+            className="bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded-lg font-medium flex items-center gap-2 transition-colors"
+          >
+            <Plus className="w-5 h-5" />
+            Add Sequence
+          </motion.button>
+        )}
+      </div>
+
+      {sequences.map((sequence) => {
+        const own = enrollments.filter((enrollment) => enrollment.sequenceId === sequence.id);
+        const stats = sequenceStats(sequence, enrollments, tasks);
+        return (
+          <div
+            key={sequence.id}
+            className="bg-white dark:bg-gray-800 rounded-xl p-6 shadow-sm border border-gray-200 dark:border-gray-700"
+          >
+            <div className="flex items-start justify-between gap-4 mb-4">
+              <div className="min-w-0">
+                <h2 className="text-lg font-semibold text-gray-900 dark:text-white">{sequence.name}</h2>
+                <div className="flex flex-wrap gap-2 mt-2">
+                  {sequence.steps.map((step, index) => (
+                    <span
+                      key={step.id}
+                      className={`px-2 py-0.5 rounded-full text-xs font-medium ${
+                        step.type === 'wait'
+                          ? 'bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300'
+                          : 'bg-blue-100 text-blue-800 dark:bg-blue-900/20 dark:text-blue-400'
+                      }`}
+                    >
+                      {index + 1}. {stepLabel(step)}
+                    </span>
+                  ))}
+                </div>
+              </div>
+              <div className="flex items-center gap-1">
+                {can('update', 'sequence') && (
+                  <button
+                    onClick={() => setEditing(sequence)}
+                    className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+                    aria-label={`Edit ${sequence.name}`}
+                  >
+                    <Edit className="w-4 h-4 text-gray-500" />
+                  </button>
+                )}
+                {can('delete', 'sequence') && (
+                  <button
+                    onClick={() => handleDelete(sequence)}
+                    className="p-2 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors"
+                    aria-label={`Delete ${sequence.name}`}
+                  >
+                    <Trash2 className="w-4 h-4 text-red-500" />
+                  </button>
+                )}
+              </div>
+            </div>
+
+            <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+              {own.length === 0
+                ? 'Nobody enrolled yet'
+                : STATUS_ORDER.map((status) => [status, own.filter((enrollment) => enrollment.status === status).length] as const)
+                    .filter(([, count]) => count > 0)
+                    .map(([status, count]) => `${count} ${ENROLLMENT_STATUS_LABELS[status].toLowerCase()}`)
+                    .join(' · ')}
+            </p>
+
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                    <th className="py-2 pr-4 font-medium">Step</th>
+                    <th className="py-2 pr-4 font-medium text-right">Reached</th>
+                    <th className="py-2 pr-4 font-medium text-right">Completed</th>
+                    <th className="py-2 font-medium text-right">Reply rate</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100 dark:divide-gray-700">
+                  {stats.map(({ step, reached, completed, completionRate, replies, replyRate }) => (
+                    <tr key={step.id} className="text-gray-900 dark:text-white">
+                      <td className="py-2 pr-4">
+                        {sequence.steps.indexOf(step) + 1}. {stepLabel(step)}
+                      </td>
+                      <td className="py-2 pr-4 text-right">{reached}</td>
+                      <td className="py-2 pr-4 text-right">
+                        {completed} <span className="text-gray-500 dark:text-gray-400">({completionRate}%)</span>
+                      </td>
+                      <td className="py-2 text-right">
+                        {replyRate === undefined ? (
+                          <span className="text-gray-400">—</span>
+                        ) : (
+                          <>
+                            {replies} <span className="text-gray-500 dark:text-gray-400">({replyRate}%)</span>
+                          </>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        );
+      })}
+
+      {sequences.length === 0 && (
+        <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 text-center py-12">
+          <Repeat className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+          <p className="text-gray-500 dark:text-gray-400">No sequences yet</p>
+        </div>
+      )}
+
+      <AnimatePresence>
+        {editing && (
+          <SequenceEditor
+            sequence={editing === 'new' ? undefined : editing}
+            onClose={() => setEditing(null)}
+          />
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
+
+export default Sequences;
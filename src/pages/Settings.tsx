@@ -12,15 +12,52 @@ import {
   Save,
   Eye,
   EyeOff,
+  HardDrive,
+  Download,
+  Upload,
+  History,
+  SlidersHorizontal,
+  Columns3,
+  Workflow,
+  Shuffle,
+  Gauge,
+  FileText,
 } from 'lucide-react';
 import { useAuthStore } from '../stores/authStore';
 import { useThemeStore } from '../stores/themeStore';
+import { ContactDeletePolicy, useSettingsStore } from '../stores/settingsStore';
+import { useCRMStore } from '../stores/crmStore';
+import { BackupError } from '../lib/exporter';
+import { getEmailTransport } from '../services/emailTransport';
 import toast from 'react-hot-toast';
+import { usePermissions } from '../hooks/usePermissions';
+import { useWorkspaceBackup } from '../hooks/useWorkspaceBackup';
+import { mutationErrorMessage } from '../components/history/undoToast';
+import AuditLogPanel from '../components/audit/AuditLogPanel';
+import CustomFieldsPanel from '../components/customFields/CustomFieldsPanel';
+import PipelinesPanel from '../components/pipelines/PipelinesPanel';
+import AutomationsPanel from '../components/automations/AutomationsPanel';
+import AssignmentPanel from '../components/assignment/AssignmentPanel';
+import LeadScoringPanel from '../components/leadScoring/LeadScoringPanel';
+import EmailTemplatesPanel from '../components/emailTemplates/EmailTemplatesPanel';
+
+const TRASH_RETENTION_OPTIONS = [
+  { days: 7, label: '7 days' },
+  { days: 30, label: '30 days' },
+  { days: 90, label: '90 days' },
+  { days: 365, label: '1 year' },
+  { days: 0, label: 'Until emptied' },
+];
 
 const Settings: React.FC = () => {
   const { user, updateUser } = useAuthStore();
   const { isDark, toggleTheme } = useThemeStore();
+  const can = usePermissions();
+  const { contactDeletePolicy, setContactDeletePolicy, trashRetentionDays, setTrashRetentionDays } = useSettingsStore();
+  const { contacts, leads, deals, tasks } = useCRMStore();
+  const { downloadBackup, restoreBackup } = useWorkspaceBackup();
   const [activeTab, setActiveTab] = useState('profile');
+  const emailTransportKind = getEmailTransport().kind;
   const [showPassword, setShowPassword] = useState(false);
 
   const [profileData, setProfileData] = useState({
@@ -52,15 +89,27 @@ const Settings: React.FC = () => {
     { id: 'notifications', name: 'Notifications', icon: Bell },
     { id: 'security', name: 'Security', icon: Shield },
     { id: 'appearance', name: 'Appearance', icon: Palette },
-    { id: 'integrations', name: 'Integrations', icon: Database },
-  ];
-
-  const handleSaveProfile = () => {
-    updateUser({
-      name: profileData.name,
-      email: profileData.email,
-    });
-    toast.success('Profile updated successfully');
+    { id: 'integrations', name: 'Integrations', icon: Database, visible: can('view', 'integrations') },
+    { id: 'customFields', name: 'Custom Fields', icon: SlidersHorizontal, visible: can('update', 'settings') },
+    { id: 'pipelines', name: 'Pipelines', icon: Columns3, visible: can('update', 'settings') },
+    { id: 'automations', name: 'Automations', icon: Workflow, visible: can('update', 'settings') },
+    { id: 'assignment', name: 'Assignment', icon: Shuffle, visible: can('update', 'settings') },
+    { id: 'leadScoring', name: 'Lead Scoring', icon: Gauge, visible: can('update', 'settings') },
+    { id: 'emailTemplates', name: 'Email Templates', icon: FileText, visible: can('create', 'emailTemplate') },
+    { id: 'data', name: 'Data Management', icon: HardDrive, visible: can('update', 'settings') },
+    { id: 'audit', name: 'Audit Log', icon: History, visible: can('view', 'audit') },
+  ].filter((tab) => tab.visible !== false);
+
+  const handleSaveProfile = async () => {
+    try {
+      await updateUser({
+        name: profileData.name,
+        email: profileData.email,
+      });
+      toast.success('Profile updated successfully');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not update profile');
+    }
   };
 
   const handleSaveNotifications = () => {
@@ -485,37 +534,18 @@ const Settings: React.FC = () => {
         <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
           Email Integration
         </h3>
-        <div className="space-y-4">
-          {[
-            { name: 'Gmail', icon: Mail, connected: true, description: 'Sync emails and calendar events' },
-            { name: 'Outlook', icon: Mail, connected: false, description: 'Microsoft email integration' },
-          ].map((integration) => {
-            const Icon = integration.icon;
-            return (
-              <div key={integration.name} className="flex items-center justify-between p-4 border border-gray-200 dark:border-gray-700 rounded-lg">
-                <div className="flex items-center gap-3">
-                  <Icon className="w-8 h-8 text-gray-600 dark:text-gray-400" />
-                  <div>
-                    <h4 className="font-medium text-gray-900 dark:text-white">
-                      {integration.name}
-                    </h4>
-                    <p className="text-sm text-gray-600 dark:text-gray-400">
-                      {integration.description}
-                    </p>
-                  </div>
-                </div>
-                <button
-                  className={`px-4 py-2 rounded-lg font-medium transition-colors ${
-                    integration.connected
-                      ? 'bg-red-100 text-red-700 hover:bg-red-200 dark:bg-red-900/20 dark:text-red-400'
-                      : 'bg-blue-500 text-white hover:bg-blue-600'
-                  }`}
-                >
-                  {integration.connected ? 'Disconnect' : 'Connect'}
-                </button>
-              </div>
-            );
-          })}
+        <div className="flex items-center gap-3 p-4 border border-gray-200 dark:border-gray-700 rounded-lg">
+          <Mail className="w-8 h-8 text-gray-600 dark:text-gray-400" />
+          <div>
+            <h4 className="font-medium text-gray-900 dark:text-white">
+              {emailTransportKind === 'smtp' ? 'SMTP' : 'Not connected'}
+            </h4>
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              {emailTransportKind === 'smtp'
+                ? 'Emails sent from contacts and leads are delivered through the SMTP relay.'
+                : 'Emails sent from contacts and leads are only logged on their timelines. Set VITE_CRM_EMAIL_TRANSPORT=smtp to deliver them.'}
+            </p>
+          </div>
         </div>
       </div>
 
@@ -591,6 +621,156 @@ const Settings: React.FC = () => {
     </div>
   );
 
+  const handleBackup = async () => {
+    try {
+      await downloadBackup();
+      toast.success('Backup downloaded');
+    } catch (error) {
+      toast.error(`Could not download the backup: ${(error as Error).message}`);
+    }
+  };
+
+  const handleRestore = async (file: File) => {
+    if (!window.confirm('Restore this backup? Everything it holds replaces what is in the workspace now.')) {
+      return;
+    }
+    try {
+      const count = await restoreBackup(await file.text());
+      toast.success(`Restored ${count} records`);
+    } catch (error) {
+      toast.error(error instanceof BackupError ? error.message : mutationErrorMessage(error));
+    }
+  };
+
+  const renderDataTab = () => (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
+          Deleting Contacts
+        </h3>
+        <div className="space-y-4">
+          {([
+            {
+              id: 'restrict',
+              label: 'Block deletion',
+              description: 'A contact with deals or tasks cannot be deleted until they are removed or reassigned.',
+            },
+            {
+              id: 'cascade',
+              label: 'Delete related records',
+              description: "Deleting a contact also deletes its deals and every task linked to the contact or those deals.",
+            },
+          ] as { id: ContactDeletePolicy; label: string; description: string }[]).map((option) => (
+            <label
+              key={option.id}
+              className={`flex items-start gap-3 p-4 border rounded-lg cursor-pointer transition-colors ${
+                contactDeletePolicy === option.id
+                  ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/20'
+                  : 'border-gray-200 dark:border-gray-700'
+              }`}
+            >
+              <input
+                type="radio"
+                name="contactDeletePolicy"
+                checked={contactDeletePolicy === option.id}
+                onChange={() => {
+                  setContactDeletePolicy(option.id);
+                  toast.success('Delete policy updated');
+                }}
+                className="mt-1"
+              />
+              <div>
+                <h4 className="font-medium text-gray-900 dark:text-white">
+                  {option.label}
+                </h4>
+                <p className="text-sm text-gray-600 dark:text-gray-400">
+                  {option.description}
+                </p>
+              </div>
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
+          Trash Retention
+        </h3>
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 p-4 border border-gray-200 dark:border-gray-700 rounded-lg">
+          <div>
+            <h4 className="font-medium text-gray-900 dark:text-white">
+              Keep deleted records for
+            </h4>
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Records older than this are permanently removed from the trash.
+            </p>
+          </div>
+          <select
+            value={trashRetentionDays}
+            onChange={(e) => {
+              setTrashRetentionDays(Number(e.target.value));
+              toast.success('Trash retention updated');
+            }}
+            className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            {TRASH_RETENTION_OPTIONS.map((option) => (
+              <option key={option.days} value={option.days}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div>
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
+          Workspace Backup
+        </h3>
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 p-4 border border-gray-200 dark:border-gray-700 rounded-lg">
+          <div>
+            <h4 className="font-medium text-gray-900 dark:text-white">
+              Download everything
+            </h4>
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              {contacts.length} contacts, {leads.length} leads, {deals.length} deals and {tasks.length} tasks, with the trash, settings, templates, sequences and logs, as a single JSON file.
+            </p>
+          </div>
+          <button
+            onClick={handleBackup}
+            className="flex items-center gap-2 bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded-lg font-medium transition-colors"
+          >
+            <Download className="w-4 h-4" />
+            Download backup
+          </button>
+        </div>
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 p-4 mt-4 border border-gray-200 dark:border-gray-700 rounded-lg">
+          <div>
+            <h4 className="font-medium text-gray-900 dark:text-white">
+              Restore from a backup
+            </h4>
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Replaces everything the backup holds. Undo history is cleared.
+            </p>
+          </div>
+          <label className="flex items-center gap-2 border border-gray-300 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-700 text-gray-700 dark:text-gray-300 px-4 py-2 rounded-lg font-medium transition-colors cursor-pointer">
+            <Upload className="w-4 h-4" />
+            Restore backup
+            <input
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                e.target.value = '';
+                if (file) {
+                  handleRestore(file);
+                }
+              }}
+            />
+          </label>
+        </div>
+      </div>
+    </div>
+  );
+
   const renderTabContent = () => {
     switch (activeTab) {
       case 'profile':
@@ -602,7 +782,23 @@ const Settings: React.FC = () => {
       case 'appearance':
         return renderAppearanceTab();
       case 'integrations':
-        return renderIntegrationsTab();
+        return can('view', 'integrations') ? renderIntegrationsTab() : renderProfileTab();
+      case 'customFields':
+        return can('update', 'settings') ? <CustomFieldsPanel /> : renderProfileTab();
+      case 'pipelines':
+        return can('update', 'settings') ? <PipelinesPanel /> : renderProfileTab();
+      case 'automations':
+        return can('update', 'settings') ? <AutomationsPanel /> : renderProfileTab();
+      case 'assignment':
+        return can('update', 'settings') ? <AssignmentPanel /> : renderProfileTab();
+      case 'leadScoring':
+        return can('update', 'settings') ? <LeadScoringPanel /> : renderProfileTab();
+      case 'emailTemplates':
+        return can('create', 'emailTemplate') ? <EmailTemplatesPanel /> : renderProfileTab();
+      case 'data':
+        return can('update', 'settings') ? renderDataTab() : renderProfileTab();
+      case 'audit':
+        return can('view', 'audit') ? <AuditLogPanel /> : renderProfileTab();
       default:
         return renderProfileTab();
     }
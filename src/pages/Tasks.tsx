@@ -1,9 +1,10 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
 import { motion, AnimatePresence } from 'framer-motion';
 import {
   Plus,
+  Download,
   Search,
-  Filter,
   Calendar,
   User,
   AlertCircle,
@@ -14,12 +15,30 @@ import {
   Edit,
   Trash2,
   X,
+  Link2,
+  UserPlus,
+  History,
 } from 'lucide-react';
 import { useCRMStore, Task } from '../stores/crmStore';
+import { useAuthStore } from '../stores/authStore';
+import { useAuditStore } from '../stores/auditStore';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import toast from 'react-hot-toast';
+import { usePermissions } from '../hooks/usePermissions';
+import { withUndoToast } from '../components/history/undoToast';
+import { PermissionError } from '../lib/permissions';
+import { RecordType, recordHistory, recordPath } from '../lib/records';
+import { userName, userOptions } from '../lib/users';
+import ExportModal from '../components/export/ExportModal';
+import RecordHistoryModal from '../components/records/RecordHistoryModal';
+import { taskExportColumns } from '../lib/exporter';
+import { useSelection } from '../hooks/useSelection';
+import { useNewRecordParam } from '../hooks/useNewRecordParam';
+import { useBulkActions } from '../hooks/useBulkActions';
+import BulkActionBar, { BulkAction } from '../components/bulk/BulkActionBar';
+import BulkFieldModal, { BulkForm } from '../components/bulk/BulkFieldModal';
 import { format, isAfter, isBefore, addDays } from 'date-fns';
 
 const taskSchema = z.object({
@@ -29,17 +48,35 @@ const taskSchema = z.object({
   priority: z.enum(['low', 'medium', 'high']),
   status: z.enum(['pending', 'in-progress', 'completed']),
   assignedTo: z.string().min(1, 'Assigned to is required'),
+  // Encoded as "type:id" so a single select can pick across contacts, leads and deals
+  relatedTo: z.string().optional(),
 });
 
 type TaskFormData = z.infer<typeof taskSchema>;
 
 const Tasks: React.FC = () => {
-  const { tasks, addTask, updateTask, deleteTask } = useCRMStore();
-  const [searchTerm, setSearchTerm] = useState('');
+  const { tasks, contacts, leads, deals, addTask, updateTask, deleteTask } = useCRMStore();
+  const user = useAuthStore((state) => state.user);
+  const directory = useAuthStore((state) => state.directory);
+  const can = usePermissions();
+  const [searchParams] = useSearchParams();
+  // Tasks have no detail page, so the command palette links here with `?q=<title>`
+  const queryParam = searchParams.get('q');
+  const [searchTerm, setSearchTerm] = useState(queryParam ?? '');
   const [statusFilter, setStatusFilter] = useState<string>('all');
   const [priorityFilter, setPriorityFilter] = useState<string>('all');
   const [isModalOpen, setIsModalOpen] = useState(false);
+  const [exportList, setExportList] = useState<Task[] | null>(null);
+  const [bulkForm, setBulkForm] = useState<BulkForm | null>(null);
   const [editingTask, setEditingTask] = useState<Task | null>(null);
+  const [historyTask, setHistoryTask] = useState<Task | null>(null);
+  const auditLog = useAuditStore((state) => state.entries);
+
+  useEffect(() => {
+    if (queryParam !== null) {
+      setSearchTerm(queryParam);
+    }
+  }, [queryParam]);
 
   const {
     register,
@@ -61,6 +98,9 @@ const Tasks: React.FC = () => {
     return matchesSearch && matchesStatus && matchesPriority;
   });
 
+  const selection = useSelection(filteredTasks.map((task) => task.id));
+  const bulk = useBulkActions('tasks', selection);
+
   const handleOpenModal = (task?: Task) => {
     if (task) {
       setEditingTask(task);
@@ -71,6 +111,7 @@ const Tasks: React.FC = () => {
         priority: task.priority,
         status: task.status,
         assignedTo: task.assignedTo,
+        relatedTo: task.relatedTo ? `${task.relatedTo.type}:${task.relatedTo.id}` : '',
       });
     } else {
       setEditingTask(null);
@@ -80,12 +121,15 @@ const Tasks: React.FC = () => {
         dueDate: format(addDays(new Date(), 1), 'yyyy-MM-dd'),
         priority: 'medium',
         status: 'pending',
-        assignedTo: 'John Doe',
+        assignedTo: user?.id ?? '',
+        relatedTo: '',
       });
     }
     setIsModalOpen(true);
   };
 
+  useNewRecordParam(() => handleOpenModal(), can('create', 'task'));
+
   const handleCloseModal = () => {
     setIsModalOpen(false);
     setEditingTask(null);
@@ -94,35 +138,133 @@ const Tasks: React.FC = () => {
 
   const onSubmit = async (data: TaskFormData) => {
     try {
+      const [relatedType, relatedId] = (data.relatedTo ?? '').split(':');
       const taskData = {
         ...data,
+        description: data.description ?? '',
         dueDate: new Date(data.dueDate),
+        relatedTo: relatedId ? { type: relatedType as RecordType, id: relatedId } : undefined,
       };
 
       if (editingTask) {
-        updateTask(editingTask.id, taskData);
-        toast.success('Task updated successfully');
+        withUndoToast('Task updated successfully', () => updateTask(editingTask.id, taskData));
       } else {
-        addTask(taskData);
-        toast.success('Task added successfully');
+        withUndoToast('Task added successfully', () => addTask(taskData));
       }
       handleCloseModal();
     } catch (error) {
-      toast.error('Something went wrong');
+      toast.error(error instanceof PermissionError ? error.message : 'Something went wrong');
     }
   };
 
   const handleDelete = (id: string) => {
     if (window.confirm('Are you sure you want to delete this task?')) {
-      deleteTask(id);
-      toast.success('Task deleted successfully');
+      try {
+        withUndoToast('Task moved to trash', () => deleteTask(id));
+      } catch (error) {
+        toast.error(error instanceof PermissionError ? error.message : 'Something went wrong');
+      }
+    }
+  };
+
+  const relatedLabel = ({ type, id }: NonNullable<Task['relatedTo']>) => {
+    switch (type) {
+      case 'contact': return contacts.find(contact => contact.id === id)?.name ?? 'Deleted contact';
+      case 'lead': return leads.find(lead => lead.id === id)?.name ?? 'Deleted lead';
+      case 'deal': return deals.find(deal => deal.id === id)?.title ?? 'Deleted deal';
+    }
+  };
+
+  const handleBulkDelete = () => {
+    if (window.confirm(`Delete ${selection.selectedIds.length} task(s)?`)) {
+      bulk.remove();
     }
   };
 
+  const bulkActions: BulkAction[] = [
+    ...(can('update', 'task')
+      ? [
+          {
+            label: 'Mark complete',
+            icon: CheckCircle,
+            onClick: () => bulk.update('Marked complete', () => ({ status: 'completed' as const })),
+          },
+          {
+            label: 'Change priority',
+            icon: Flag,
+            onClick: () =>
+              setBulkForm({
+                title: 'Change Priority',
+                description: `Update ${selection.selectedIds.length} task(s).`,
+                confirmLabel: 'Change priority',
+                fields: [{
+                  key: 'priority',
+                  label: 'Priority',
+                  type: 'select',
+                  defaultValue: 'high',
+                  options: [
+                    { value: 'low', label: 'Low' },
+                    { value: 'medium', label: 'Medium' },
+                    { value: 'high', label: 'High' },
+                  ],
+                }],
+                onConfirm: ({ priority }) =>
+                  bulk.update('Priority changed', () => ({ priority: priority as Task['priority'] })),
+              }),
+          },
+          {
+            label: 'Reschedule',
+            icon: Calendar,
+            onClick: () =>
+              setBulkForm({
+                title: 'Reschedule',
+                description: `Give ${selection.selectedIds.length} task(s) a new due date.`,
+                confirmLabel: 'Reschedule',
+                fields: [{
+                  key: 'dueDate',
+                  label: 'Due date',
+                  type: 'date',
+                  required: true,
+                  defaultValue: format(addDays(new Date(), 1), 'yyyy-MM-dd'),
+                }],
+                onConfirm: ({ dueDate }) =>
+                  bulk.update('Rescheduled', () => ({ dueDate: new Date(`${dueDate}T09:00`) })),
+              }),
+          },
+          {
+            label: 'Assign',
+            icon: UserPlus,
+            onClick: () =>
+              setBulkForm({
+                title: 'Assign Tasks',
+                description: `Choose who works ${selection.selectedIds.length} task(s).`,
+                confirmLabel: 'Assign',
+                fields: [{
+                  key: 'owner',
+                  label: 'Assigned to',
+                  type: 'select',
+                  required: true,
+                  options: userOptions(directory),
+                  defaultValue: user?.id,
+                }],
+                onConfirm: ({ owner }) => bulk.update('Assigned', () => ({ assignedTo: owner })),
+              }),
+          },
+        ]
+      : []),
+    {
+      label: 'Export',
+      icon: Download,
+      onClick: () => setExportList(filteredTasks.filter((task) => selection.isSelected(task.id))),
+    },
+    ...(can('delete', 'task')
+      ? [{ label: 'Delete', icon: Trash2, onClick: handleBulkDelete, danger: true }]
+      : []),
+  ];
+
   const handleToggleStatus = (task: Task) => {
     const newStatus = task.status === 'completed' ? 'pending' : 'completed';
-    updateTask(task.id, { status: newStatus });
-    toast.success(`Task marked as ${newStatus}`);
+    withUndoToast(`Task marked as ${newStatus}`, () => updateTask(task.id, { status: newStatus }));
   };
 
   const getPriorityIcon = (priority: string) => {
@@ -188,15 +330,26 @@ const Tasks: React.FC = () => {
             Manage your tasks and deadlines
           </p>
         </div>
-        <motion.button
-          whileHover={{ scale: 1.02 }}
-          whileTap={{ scale: 0.98 }}
-          onClick={() => handleOpenModal()}
-          className="bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded-lg font-medium flex items-center gap-2 transition-colors"
-        >
-          <Plus className="w-5 h-5" />
-          Add Task
-        </motion.button>
+        <div className="flex items-center gap-3">
+          <button
+            onClick={() => setExportList(filteredTasks)}
+            className="flex items-center gap-2 px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors text-gray-700 dark:text-gray-300"
+          >
+            <Download className="w-5 h-5" />
+            Export
+          </button>
+          {can('create', 'task') && (
+            <motion.button
+              whileHover={{ scale: 1.02 }}
+              whileTap={{ scale: 0.98 }}
+              onClick={() => handleOpenModal()}
+              className="bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded-lg font-medium flex items-center gap-2 transition-colors"
+            >
+              <Plus className="w-5 h-5" />
+              Add Task
+            </motion.button>
+          )}
+        </div>
       </div>
 
       {/* Stats */}
@@ -297,6 +450,18 @@ const Tasks: React.FC = () => {
         </div>
       </div>
 
+      {filteredTasks.length > 0 && (
+        <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400 cursor-pointer w-fit">
+          <input
+            type="checkbox"
+            checked={selection.allSelected}
+            onChange={selection.toggleAll}
+            className="w-4 h-4 text-blue-500 rounded"
+          />
+          Select all {filteredTasks.length}
+        </label>
+      )}
+
       {/* Tasks List */}
       <div className="space-y-4">
         <AnimatePresence>
@@ -309,6 +474,7 @@ const Tasks: React.FC = () => {
               transition={{ delay: index * 0.05 }}
               className={`
                 bg-white dark:bg-gray-800 rounded-xl p-6 shadow-sm border transition-all hover:shadow-md
+                ${selection.isSelected(task.id) ? 'ring-2 ring-blue-500' : ''}
                 ${isOverdue(task) 
                   ? 'border-red-200 dark:border-red-800 bg-red-50 dark:bg-red-900/10' 
                   : isDueSoon(task)
@@ -318,6 +484,13 @@ const Tasks: React.FC = () => {
               `}
             >
               <div className="flex items-start gap-4">
+                <input
+                  type="checkbox"
+                  checked={selection.isSelected(task.id)}
+                  onChange={() => selection.toggle(task.id)}
+                  aria-label={`Select ${task.title}`}
+                  className="mt-2 w-4 h-4 text-blue-500 rounded"
+                />
                 <button
                   onClick={() => handleToggleStatus(task)}
                   className="mt-1 p-1 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-full transition-colors"
@@ -365,24 +538,44 @@ const Tasks: React.FC = () => {
                     </div>
                     <div className="flex items-center gap-2">
                       <User className="w-4 h-4" />
-                      <span>{task.assignedTo}</span>
+                      <span>{userName(directory, task.assignedTo)}</span>
                     </div>
+                    {task.relatedTo && (
+                      <Link
+                        to={recordPath(task.relatedTo.type, task.relatedTo.id)}
+                        className="flex items-center gap-2 text-blue-600 dark:text-blue-400 hover:underline"
+                      >
+                        <Link2 className="w-4 h-4" />
+                        <span>{relatedLabel(task.relatedTo)}</span>
+                      </Link>
+                    )}
                   </div>
                 </div>
 
                 <div className="flex items-center gap-2">
                   <button
-                    onClick={() => handleOpenModal(task)}
-                    className="p-2 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-lg transition-colors"
+                    onClick={() => setHistoryTask(task)}
+                    className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+                    title="History"
                   >
-                    <Edit className="w-4 h-4 text-blue-500" />
-                  </button>
-                  <button
-                    onClick={() => handleDelete(task.id)}
-                    className="p-2 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors"
-                  >
-                    <Trash2 className="w-4 h-4 text-red-500" />
+                    <History className="w-4 h-4 text-gray-500" />
                   </button>
+                  {can('update', 'task', task) && (
+                    <button
+                      onClick={() => handleOpenModal(task)}
+                      className="p-2 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-lg transition-colors"
+                    >
+                      <Edit className="w-4 h-4 text-blue-500" />
+                    </button>
+                  )}
+                  {can('delete', 'task', task) && (
+                    <button
+                      onClick={() => handleDelete(task.id)}
+                      className="p-2 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors"
+                    >
+                      <Trash2 className="w-4 h-4 text-red-500" />
+                    </button>
+                  )}
                 </div>
               </div>
             </motion.div>
@@ -506,9 +699,36 @@ const Tasks: React.FC = () => {
                     {...register('assignedTo')}
                     className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
                   >
-                    <option value="John Doe">John Doe</option>
-                    <option value="Jane Smith">Jane Smith</option>
-                    <option value="Mike Johnson">Mike Johnson</option>
+                    {userOptions(directory, editingTask?.assignedTo).map((option) => (
+                      <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                  </select>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                    Related To
+                  </label>
+                  <select
+                    {...register('relatedTo')}
+                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                  >
+                    <option value="">Nothing</option>
+                    <optgroup label="Contacts">
+                      {contacts.map((contact) => (
+                        <option key={contact.id} value={`contact:${contact.id}`}>{contact.name}</option>
+                      ))}
+                    </optgroup>
+                    <optgroup label="Leads">
+                      {leads.map((lead) => (
+                        <option key={lead.id} value={`lead:${lead.id}`}>{lead.name}</option>
+                      ))}
+                    </optgroup>
+                    <optgroup label="Deals">
+                      {deals.map((deal) => (
+                        <option key={deal.id} value={`deal:${deal.id}`}>{deal.title}</option>
+                      ))}
+                    </optgroup>
                   </select>
                 </div>
 
@@ -533,6 +753,45 @@ const Tasks: React.FC = () => {
           </motion.div>
         )}
       </AnimatePresence>
+
+      <AnimatePresence>
+        {exportList && (
+          <ExportModal
+            name="tasks"
+            records={exportList}
+            columns={taskExportColumns(relatedLabel, directory)}
+            onClose={() => setExportList(null)}
+          />
+        )}
+        {historyTask && (
+          <RecordHistoryModal
+            title={historyTask.title}
+            entries={recordHistory(historyTask, 'Task', [], auditLog)}
+            onClose={() => setHistoryTask(null)}
+          />
+        )}
+        {bulkForm && (
+          <BulkFieldModal
+            {...bulkForm}
+            onConfirm={(values) => {
+              setBulkForm(null);
+              bulkForm.onConfirm(values);
+            }}
+            onClose={() => setBulkForm(null)}
+          />
+        )}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {(selection.selectedIds.length > 0 || bulk.progress) && (
+          <BulkActionBar
+            count={selection.selectedIds.length}
+            actions={bulkActions}
+            progress={bulk.progress}
+            onClear={selection.clear}
+          />
+        )}
+      </AnimatePresence>
     </div>
   );
 };
@@ -0,0 +1,197 @@
+import React, { useMemo, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { RotateCcw, Trash2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { CollectionName, CRM_COLLECTIONS, CollectionRecords, useCRMStore } from '../stores/crmStore';
+import { useSettingsStore } from '../stores/settingsStore';
+import { usePermissions } from '../hooks/usePermissions';
+import { mutationErrorMessage, withUndoToast } from '../components/history/undoToast';
+import { Resource } from '../lib/permissions';
+
+type TrashedRecord = CollectionRecords[CollectionName];
+
+const COLLECTION_OPTIONS: Record<CollectionName, { label: string; singular: string; resource: Resource }> = {
+  contacts: { label: 'Contacts', singular: 'Contact', resource: 'contact' },
+  leads: { label: 'Leads', singular: 'Lead', resource: 'lead' },
+  deals: { label: 'Deals', singular: 'Deal', resource: 'deal' },
+  tasks: { label: 'Tasks', singular: 'Task', resource: 'task' },
+};
+
+interface TrashItem {
+  collection: CollectionName;
+  record: TrashedRecord;
+  // Records deleted along with this one, which restoring or purging it brings along
+  dependents: number;
+}
+
+const recordLabel = (record: TrashedRecord) => ('title' in record ? record.title : record.name);
+
+const Trash: React.FC = () => {
+  const { trash, restoreFromTrash, purgeFromTrash } = useCRMStore();
+  const retentionDays = useSettingsStore((state) => state.trashRetentionDays);
+  const can = usePermissions();
+  const [collectionFilter, setCollectionFilter] = useState<'all' | CollectionName>('all');
+
+  // Records that went along with a contact or deal are listed under it rather than on their own
+  const items = useMemo(() => {
+    const trashedIds = new Set(CRM_COLLECTIONS.flatMap((name) => (trash[name] as TrashedRecord[]).map((record) => record.id)));
+    const isDependent = (record: TrashedRecord) => !!record.deletedWith && trashedIds.has(record.deletedWith);
+    const dependents = new Map<string, number>();
+    CRM_COLLECTIONS.forEach((name) => {
+      (trash[name] as TrashedRecord[]).forEach((record) => {
+        if (record.deletedWith && isDependent(record)) {
+          dependents.set(record.deletedWith, (dependents.get(record.deletedWith) ?? 0) + 1);
+        }
+      });
+    });
+    return CRM_COLLECTIONS
+      .flatMap((name) =>
+        (trash[name] as TrashedRecord[])
+          .filter((record) => !isDependent(record))
+          .map((record): TrashItem => ({ collection: name, record, dependents: dependents.get(record.id) ?? 0 }))
+      )
+      .sort((a, b) => new Date(b.record.deletedAt ?? 0).getTime() - new Date(a.record.deletedAt ?? 0).getTime());
+  }, [trash]);
+
+  const counts = useMemo(() => {
+    const totals: Record<'all' | CollectionName, number> = { all: items.length, contacts: 0, leads: 0, deals: 0, tasks: 0 };
+    items.forEach((item) => {
+      totals[item.collection] += 1;
+    });
+    return totals;
+  }, [items]);
+
+  const visibleItems = items.filter((item) => collectionFilter === 'all' || item.collection === collectionFilter);
+  const canPurge = can('delete', 'trash');
+
+  const handleRestore = (item: TrashItem) => {
+    try {
+      withUndoToast(`${recordLabel(item.record)} restored`, () => restoreFromTrash(item.collection, [item.record.id]));
+    } catch (error) {
+      toast.error(mutationErrorMessage(error));
+    }
+  };
+
+  const handlePurge = (item: TrashItem) => {
+    const related = item.dependents > 0 ? ` and ${item.dependents} related record(s)` : '';
+    if (!window.confirm(`Permanently delete ${recordLabel(item.record)}${related}? This cannot be undone.`)) {
+      return;
+    }
+    try {
+      purgeFromTrash(item.collection, [item.record.id]);
+      toast.success('Permanently deleted');
+    } catch (error) {
+      toast.error(mutationErrorMessage(error));
+    }
+  };
+
+  const handleEmptyTrash = () => {
+    if (!window.confirm(`Permanently delete all ${items.length} item(s) in the trash? This cannot be undone.`)) {
+      return;
+    }
+    try {
+      CRM_COLLECTIONS.forEach((name) =>
+        purgeFromTrash(name, items.filter((item) => item.collection === name).map((item) => item.record.id))
+      );
+      toast.success('Trash emptied');
+    } catch (error) {
+      toast.error(mutationErrorMessage(error));
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">
+            Trash
+          </h1>
+          <p className="text-gray-600 dark:text-gray-400">
+            {retentionDays > 0
+              ? `Deleted records are kept for ${retentionDays} days before they are removed for good`
+              : 'Deleted records are kept until the trash is emptied'}
+          </p>
+        </div>
+        {canPurge && items.length > 0 && (
+          <button
+            onClick={handleEmptyTrash}
+            className="flex items-center gap-2 bg-red-500 hover:bg-red-600 text-white px-4 py-2 rounded-lg font-medium transition-colors"
+          >
+            <Trash2 className="w-5 h-5" />
+            Empty trash
+          </button>
+        )}
+      </div>
+
+      {/* Filters */}
+      <div className="bg-white dark:bg-gray-800 rounded-xl p-4 shadow-sm border border-gray-200 dark:border-gray-700">
+        <div className="flex gap-2 flex-wrap">
+          {(['all', ...CRM_COLLECTIONS] as const).map((name) => (
+            <button
+              key={name}
+              onClick={() => setCollectionFilter(name)}
+              className={`px-4 py-2 rounded-lg font-medium text-sm transition-colors ${
+                collectionFilter === name
+                  ? 'bg-blue-500 text-white'
+                  : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+              }`}
+            >
+              {name === 'all' ? 'All' : COLLECTION_OPTIONS[name].label} ({counts[name]})
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Items */}
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 divide-y divide-gray-200 dark:divide-gray-700">
+        {visibleItems.map((item) => (
+          <div key={`${item.collection}-${item.record.id}`} className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-4">
+            <div className="min-w-0">
+              <div className="flex items-center gap-2">
+                <h3 className="font-medium text-gray-900 dark:text-white truncate">
+                  {recordLabel(item.record)}
+                </h3>
+                <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300">
+                  {COLLECTION_OPTIONS[item.collection].singular}
+                </span>
+              </div>
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                Deleted {item.record.deletedAt ? formatDistanceToNow(new Date(item.record.deletedAt), { addSuffix: true }) : ''}
+                {item.dependents > 0 && ` · with ${item.dependents} related record(s)`}
+              </p>
+            </div>
+            <div className="flex items-center gap-2">
+              {can('delete', COLLECTION_OPTIONS[item.collection].resource, item.record) && (
+                <button
+                  onClick={() => handleRestore(item)}
+                  className="flex items-center gap-2 px-3 py-1.5 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors text-sm text-gray-700 dark:text-gray-300"
+                >
+                  <RotateCcw className="w-4 h-4" />
+                  Restore
+                </button>
+              )}
+              {canPurge && (
+                <button
+                  onClick={() => handlePurge(item)}
+                  className="flex items-center gap-2 px-3 py-1.5 rounded-lg hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors text-sm text-red-600"
+                >
+                  <Trash2 className="w-4 h-4" />
+                  Delete forever
+                </button>
+              )}
+            </div>
+          </div>
+        ))}
+        {visibleItems.length === 0 && (
+          <div className="text-center py-12">
+            <Trash2 className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+            <p className="text-gray-500 dark:text-gray-400">The trash is empty</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Trash;
@@ -0,0 +1,57 @@
+import type { User } from '../stores/authStore';
+
+export interface AuthTokens {
+  accessToken: string;
+  refreshToken: string;
+  // Epoch milliseconds at which the access token stops being accepted
+  expiresAt: number;
+}
+
+export type AuthErrorCode =
+  | 'invalid_credentials'
+  | 'account_locked'
+  | 'account_disabled'
+  | 'session_expired'
+  | 'invalid_token'
+  | 'unavailable';
+
+// An account as the user directory lists it. Deactivated accounts stay listed so the
+// records they still own can show who that was.
+export interface DirectoryUser extends User {
+  active: boolean;
+}
+
+export class AuthError extends Error {
+  constructor(
+    public code: AuthErrorCode,
+    message: string,
+    public retryAt?: number
+  ) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
+
+export interface AuthProvider {
+  login: (email: string, password: string) => Promise<AuthTokens>;
+  refresh: (refreshToken: string) => Promise<AuthTokens>;
+  // Resolves the user behind a valid access token; rejects with `session_expired` once it lapses
+  verify: (accessToken: string) => Promise<User>;
+  logout: (refreshToken: string) => Promise<void>;
+  updateProfile: (accessToken: string, updates: Partial<Pick<User, 'name' | 'email' | 'avatar'>>) => Promise<User>;
+  // Every account in the workspace, for owner pickers and lead assignment
+  listUsers: (accessToken: string) => Promise<DirectoryUser[]>;
+}
+
+let activeProvider: AuthProvider | null = null;
+
+export const configureAuthProvider = (provider: AuthProvider) => {
+  activeProvider = provider;
+};
+
+export const getAuthProvider = (): AuthProvider => {
+  if (!activeProvider) {
+    throw new Error('No auth provider configured. Call configureAuthProvider() at startup.');
+  }
+  return activeProvider;
+};
@@ -0,0 +1,36 @@
+export interface OutgoingEmail {
+  from: { name: string; email: string };
+  to: string;
+  subject: string;
+  text: string;
+  // Sent alongside the plain text when given
+  html?: string;
+}
+
+export type EmailTransportKind = 'local' | 'smtp';
+
+export interface EmailTransport {
+  kind: EmailTransportKind;
+  // Resolves with the id the transport gave the message once it has been handed over
+  send: (message: OutgoingEmail) => Promise<{ messageId: string }>;
+}
+
+export class EmailError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EmailError';
+  }
+}
+
+let activeTransport: EmailTransport | null = null;
+
+export const configureEmailTransport = (transport: EmailTransport) => {
+  activeTransport = transport;
+};
+
+export const getEmailTransport = (): EmailTransport => {
+  if (!activeTransport) {
+    throw new Error('No email transport configured. Call configureEmailTransport() at startup.');
+  }
+  return activeTransport;
+};
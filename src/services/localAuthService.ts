@@ -0,0 +1,273 @@
+import type { User } from '../stores/authStore';
+import { AuthError, AuthProvider, AuthTokens, DirectoryUser } from './authService';
+
+// Stands in for an auth server: credentials, signing secret and refresh sessions
+// live under their own storage key, separate from the client's `crm-auth` tokens.
+const STORAGE_KEY = 'crm-auth-service';
+
+const ACCESS_TOKEN_TTL = 15 * 60 * 1000;
+const REFRESH_TOKEN_TTL = 7 * 24 * 60 * 60 * 1000;
+const MAX_FAILED_ATTEMPTS = 5;
+const LOCKOUT_DURATION = 15 * 60 * 1000;
+const PBKDF2_ITERATIONS = 100_000;
+
+interface StoredUser extends User {
+  passwordSalt: string;
+  passwordHash: string;
+  disabled?: boolean;
+}
+
+interface ServiceData {
+  secret: string;
+  users: StoredUser[];
+  failedAttempts: Record<string, { count: number; lockedUntil?: number }>;
+  // Refresh token ids that have not been used or revoked yet
+  sessions: string[];
+}
+
+interface TokenPayload {
+  sub: string;
+  typ: 'access' | 'refresh';
+  jti: string;
+  exp: number;
+}
+
+// Demo accounts, all with the password "password"
+const SEED_USERS: StoredUser[] = [
+  {
+    id: 'user-admin',
+    name: 'Admin User',
+    email: 'admin@crm.com',
+    role: 'admin',
+    passwordSalt: '0381f7d572ff01603123f8924160aeaa',
+    passwordHash: '64d9014b1df2b26292c3513db8058b88cde3cd8312b3959f0ba440aeda9b3e3d',
+  },
+  {
+    id: 'user-jane',
+    name: 'Jane Smith',
+    email: 'manager@crm.com',
+    role: 'manager',
+    passwordSalt: '9c86e4db634636e51c4dd021f4e2a695',
+    passwordHash: '9ad46ebcab6f82501bbbf89815c235f378d2939f8b5dbb73c57afcca2dd99ec4',
+  },
+  {
+    id: 'user-john',
+    name: 'John Doe',
+    email: 'sales@crm.com',
+    role: 'salesperson',
+    passwordSalt: '7177629477aa6d6288998fb1b5c23d53',
+    passwordHash: '139811bab7882a4f0b775ec74dcf18cc561e86860d31c272ed09b25ddd06849a',
+  },
+  {
+    id: 'user-mike',
+    name: 'Mike Johnson',
+    email: 'mike@crm.com',
+    role: 'salesperson',
+    passwordSalt: '7d409e47acd63b367771d7ea0ef42d9c',
+    passwordHash: '48d399ec7829e5516a3540e4775035639b533094d547c5d8e239358abf13e436',
+  },
+];
+
+const encoder = new TextEncoder();
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer), (byte) => byte.toString(16).padStart(2, '0')).join('');
+
+const fromHex = (hex: string) =>
+  new Uint8Array(hex.match(/.{2}/g)?.map((byte) => parseInt(byte, 16)) ?? []);
+
+const toBase64Url = (value: string | ArrayBuffer) => {
+  const bytes = typeof value === 'string' ? encoder.encode(value) : new Uint8Array(value);
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (value: string) =>
+  atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+
+const hashPassword = async (password: string, saltHex: string) => {
+  const key = await crypto.subtle.importKey('raw', encoder.encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', salt: fromHex(saltHex), iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+    key,
+    256
+  );
+  return toHex(bits);
+};
+
+// Compares every byte so the time taken does not leak how much of the hash matched
+const constantTimeEqual = (a: string, b: string) => {
+  let mismatch = a.length ^ b.length;
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    mismatch |= (a.charCodeAt(i) || 0) ^ (b.charCodeAt(i) || 0);
+  }
+  return mismatch === 0;
+};
+
+const readData = (): ServiceData => {
+  const raw = localStorage.getItem(STORAGE_KEY);
+  if (raw) {
+    try {
+      return JSON.parse(raw) as ServiceData;
+    } catch {
+      // Fall through and reseed a corrupted store
+    }
+  }
+  const data: ServiceData = {
+    secret: toHex(crypto.getRandomValues(new Uint8Array(32)).buffer),
+    users: SEED_USERS,
+    failedAttempts: {},
+    sessions: [],
+  };
+  writeData(data);
+  return data;
+};
+
+const writeData = (data: ServiceData) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
+};
+
+const signingKey = (secret: string) =>
+  crypto.subtle.importKey('raw', fromHex(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']);
+
+const signToken = async (payload: TokenPayload, secret: string) => {
+  const body = `${toBase64Url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }))}.${toBase64Url(JSON.stringify(payload))}`;
+  const signature = await crypto.subtle.sign('HMAC', await signingKey(secret), encoder.encode(body));
+  return `${body}.${toBase64Url(signature)}`;
+};
+
+const verifyToken = async (token: string, secret: string, type: TokenPayload['typ']) => {
+  const [header, payload, signature] = token.split('.');
+  if (!header || !payload || !signature) {
+    throw new AuthError('invalid_token', 'Malformed token');
+  }
+
+  const signatureBytes = Uint8Array.from(fromBase64Url(signature), (char) => char.charCodeAt(0));
+  const isValid = await crypto.subtle.verify(
+    'HMAC',
+    await signingKey(secret),
+    signatureBytes,
+    encoder.encode(`${header}.${payload}`)
+  );
+  if (!isValid) {
+    throw new AuthError('invalid_token', 'Token signature is invalid');
+  }
+
+  const claims = JSON.parse(fromBase64Url(payload)) as TokenPayload;
+  if (claims.typ !== type) {
+    throw new AuthError('invalid_token', `Expected a ${type} token`);
+  }
+  if (claims.exp <= Date.now()) {
+    throw new AuthError('session_expired', 'Your session has expired. Please sign in again.');
+  }
+  return claims;
+};
+
+const toPublicUser = ({ id, name, email, role, avatar }: StoredUser): User => ({ id, name, email, role, avatar });
+
+const toDirectoryUser = (user: StoredUser): DirectoryUser => ({ ...toPublicUser(user), active: !user.disabled });
+
+const issueTokens = async (data: ServiceData, userId: string): Promise<AuthTokens> => {
+  const now = Date.now();
+  const refreshId = crypto.randomUUID();
+  const expiresAt = now + ACCESS_TOKEN_TTL;
+
+  const accessToken = await signToken(
+    { sub: userId, typ: 'access', jti: crypto.randomUUID(), exp: expiresAt },
+    data.secret
+  );
+  const refreshToken = await signToken(
+    { sub: userId, typ: 'refresh', jti: refreshId, exp: now + REFRESH_TOKEN_TTL },
+    data.secret
+  );
+
+  data.sessions.push(refreshId);
+  writeData(data);
+  return { accessToken, refreshToken, expiresAt };
+};
+
+const findActiveUser = (data: ServiceData, userId: string) => {
+  const user = data.users.find((candidate) => candidate.id === userId);
+  if (!user || user.disabled) {
+    throw new AuthError('account_disabled', 'This account is no longer active.');
+  }
+  return user;
+};
+
+export const createLocalAuthService = (): AuthProvider => ({
+  login: async (email, password) => {
+    const data = readData();
+    const key = email.trim().toLowerCase();
+    const attempts = data.failedAttempts[key];
+
+    if (attempts?.lockedUntil && attempts.lockedUntil > Date.now()) {
+      throw new AuthError('account_locked', 'Too many failed attempts.', attempts.lockedUntil);
+    }
+
+    const user = data.users.find((candidate) => candidate.email.toLowerCase() === key);
+    // Hash even for unknown emails so response time does not reveal which accounts exist
+    const hash = await hashPassword(password, user?.passwordSalt ?? '00');
+
+    if (!user || !constantTimeEqual(hash, user.passwordHash)) {
+      const count = (attempts?.lockedUntil ? 0 : attempts?.count ?? 0) + 1;
+      data.failedAttempts[key] = count >= MAX_FAILED_ATTEMPTS
+        ? { count, lockedUntil: Date.now() + LOCKOUT_DURATION }
+        : { count };
+      writeData(data);
+      throw new AuthError('invalid_credentials', 'Email or password is incorrect.');
+    }
+
+    if (user.disabled) {
+      throw new AuthError('account_disabled', 'This account has been disabled.');
+    }
+
+    delete data.failedAttempts[key];
+    return issueTokens(data, user.id);
+  },
+
+  refresh: async (refreshToken) => {
+    const data = readData();
+    const claims = await verifyToken(refreshToken, data.secret, 'refresh');
+
+    // Refresh tokens are single use; a replayed one means the session was already rotated or revoked
+    if (!data.sessions.includes(claims.jti)) {
+      throw new AuthError('session_expired', 'Your session is no longer valid. Please sign in again.');
+    }
+    data.sessions = data.sessions.filter((id) => id !== claims.jti);
+
+    findActiveUser(data, claims.sub);
+    return issueTokens(data, claims.sub);
+  },
+
+  verify: async (accessToken) => {
+    const data = readData();
+    const claims = await verifyToken(accessToken, data.secret, 'access');
+    return toPublicUser(findActiveUser(data, claims.sub));
+  },
+
+  logout: async (refreshToken) => {
+    const data = readData();
+    try {
+      const claims = await verifyToken(refreshToken, data.secret, 'refresh');
+      data.sessions = data.sessions.filter((id) => id !== claims.jti);
+      writeData(data);
+    } catch {
+      // Nothing to revoke for an expired or tampered token
+    }
+  },
+
+  updateProfile: async (accessToken, updates) => {
+    const data = readData();
+    const claims = await verifyToken(accessToken, data.secret, 'access');
+    const user = findActiveUser(data, claims.sub);
+    Object.assign(user, updates);
+    writeData(data);
+    return toPublicUser(user);
+  },
+
+  listUsers: async (accessToken) => {
+    const data = readData();
+    const claims = await verifyToken(accessToken, data.secret, 'access');
+    findActiveUser(data, claims.sub);
+    return data.users.map(toDirectoryUser);
+  },
+});
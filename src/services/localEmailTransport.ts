@@ -0,0 +1,8 @@
+import { EmailTransport } from './emailTransport';
+
+// Delivers nothing: emails are only logged on the record, so the composer can be used
+// without a mail server
+export const createLocalEmailTransport = (): EmailTransport => ({
+  kind: 'local',
+  send: async () => ({ messageId: `local-${crypto.randomUUID()}` }),
+});
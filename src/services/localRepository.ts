@@ -0,0 +1,130 @@
+import { CRMRepository, CollectionRepository, Entity, reviveDates } from './repository';
+import { AUDIT_COLLECTION } from '../lib/audit';
+import { AUTOMATION_RUNS_COLLECTION } from '../lib/automation';
+import { EMAILS_COLLECTION } from '../lib/email';
+import { NOTIFICATIONS_COLLECTION } from '../lib/notifications';
+
+// Same key and envelope the zustand `persist` middleware used, so existing data carries over
+const STORAGE_KEY = 'crm-data';
+
+// Logs that grow with every edit get a key of their own, so they can't push the records past
+// the storage quota, and keep only their newest entries
+const LOG_COLLECTIONS: Record<string, { key: string; limit: number }> = {
+  [AUDIT_COLLECTION]: { key: 'crm-audit-log', limit: 5000 },
+  [AUTOMATION_RUNS_COLLECTION]: { key: 'crm-automation-runs', limit: 2000 },
+  [NOTIFICATIONS_COLLECTION]: { key: 'crm-notifications', limit: 500 },
+  // Sent emails carry their bodies, so fewer of them fit
+  [EMAILS_COLLECTION]: { key: 'crm-emails', limit: 2000 },
+};
+
+interface StoredData {
+  state: Record<string, Entity[]>;
+  version: number;
+}
+
+const readData = (): StoredData => {
+  const raw = localStorage.getItem(STORAGE_KEY);
+  if (!raw) {
+    return { state: {}, version: 0 };
+  }
+  try {
+    const parsed = JSON.parse(raw) as StoredData;
+    return { state: parsed.state ?? {}, version: parsed.version ?? 0 };
+  } catch {
+    return { state: {}, version: 0 };
+  }
+};
+
+const writeData = (data: StoredData) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
+};
+
+const writeLog = (key: string, limit: number, records: Entity[]) => {
+  // Entries are appended in the order they happen, so the oldest are at the front
+  localStorage.setItem(key, JSON.stringify(records.slice(-limit)));
+};
+
+const readLog = (name: string, key: string, limit: number): Entity[] => {
+  const raw = localStorage.getItem(key);
+  if (raw) {
+    try {
+      return JSON.parse(raw) as Entity[];
+    } catch {
+      return [];
+    }
+  }
+  // Logs written before they had their own key still sit in the shared entry; move them out
+  const data = readData();
+  const records = data.state[name] ?? [];
+  if (data.state[name]) {
+    writeLog(key, limit, records);
+    delete data.state[name];
+    writeData(data);
+  }
+  return records.slice(-limit);
+};
+
+const readRecords = (name: string): Entity[] => {
+  const log = LOG_COLLECTIONS[name];
+  return log ? readLog(name, log.key, log.limit) : readData().state[name] ?? [];
+};
+
+const writeCollection = (name: string, records: Entity[]) => {
+  const log = LOG_COLLECTIONS[name];
+  if (log) {
+    writeLog(log.key, log.limit, records);
+    return;
+  }
+  const data = readData();
+  data.state[name] = records;
+  writeData(data);
+};
+
+const localCollection = <T extends Entity>(name: string): CollectionRepository<T> => {
+  const readCollection = () => readRecords(name) as T[];
+
+  return {
+    list: async () => readCollection().map(reviveDates),
+    create: async (record) => {
+      writeCollection(name, [...readCollection(), record]);
+      return record;
+    },
+    update: async (record) => {
+      writeCollection(
+        name,
+        readCollection().map((existing) => (existing.id === record.id ? record : existing))
+      );
+      return record;
+    },
+    remove: async (id) => {
+      writeCollection(
+        name,
+        readCollection().filter((existing) => existing.id !== id)
+      );
+    },
+    createMany: async (records) => {
+      writeCollection(name, [...readCollection(), ...records]);
+      return records;
+    },
+    updateMany: async (records) => {
+      const updates = new Map(records.map((record) => [record.id, record]));
+      writeCollection(
+        name,
+        readCollection().map((existing) => updates.get(existing.id) ?? existing)
+      );
+      return records;
+    },
+    removeMany: async (ids) => {
+      const removed = new Set(ids);
+      writeCollection(
+        name,
+        readCollection().filter((existing) => !removed.has(existing.id))
+      );
+    },
+  };
+};
+
+export const createLocalRepository = (): CRMRepository => ({
+  kind: 'local',
+  collection: localCollection,
+});
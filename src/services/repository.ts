@@ -0,0 +1,56 @@
+export interface Entity {
+  id: string;
+}
+
+export interface CollectionRepository<T extends Entity> {
+  list: () => Promise<T[]>;
+  create: (record: T) => Promise<T>;
+  update: (record: T) => Promise<T>;
+  remove: (id: string) => Promise<void>;
+  // Bulk variants so large imports don't cost one round trip per record
+  createMany: (records: T[]) => Promise<T[]>;
+  updateMany: (records: T[]) => Promise<T[]>;
+  removeMany: (ids: string[]) => Promise<void>;
+}
+
+export type RepositoryKind = 'local' | 'rest';
+
+export interface CRMRepository {
+  kind: RepositoryKind;
+  collection: <T extends Entity>(name: string) => CollectionRepository<T>;
+}
+
+export class RepositoryError extends Error {
+  constructor(message: string, public status?: number) {
+    super(message);
+    this.name = 'RepositoryError';
+  }
+}
+
+const DATE_FIELDS = ['createdAt', 'updatedAt', 'dueDate', 'closeDate', 'timestamp', 'deletedAt'];
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}T/;
+
+// Both localStorage and JSON APIs hand dates back as strings
+export const reviveDates = <T>(record: T): T => {
+  const revived = { ...record } as Record<string, unknown>;
+  DATE_FIELDS.forEach((field) => {
+    const value = revived[field];
+    if (typeof value === 'string' && ISO_DATE.test(value)) {
+      revived[field] = new Date(value);
+    }
+  });
+  return revived as T;
+};
+
+let activeRepository: CRMRepository | null = null;
+
+export const configureRepository = (repository: CRMRepository) => {
+  activeRepository = repository;
+};
+
+export const getRepository = (): CRMRepository => {
+  if (!activeRepository) {
+    throw new Error('No CRM repository configured. Call configureRepository() at startup.');
+  }
+  return activeRepository;
+};
@@ -0,0 +1,83 @@
+import { CRMRepository, CollectionRepository, Entity, RepositoryError, reviveDates } from './repository';
+
+// Speaks the json-server REST dialect: GET/POST /:collection, PUT/DELETE /:collection/:id
+const request = async <T>(url: string, init?: RequestInit): Promise<T> => {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      ...init,
+      headers: { 'Content-Type': 'application/json', ...init?.headers },
+    });
+  } catch {
+    throw new RepositoryError(`Could not reach ${url}`);
+  }
+
+  if (!response.ok) {
+    throw new RepositoryError(`${init?.method ?? 'GET'} ${url} failed with ${response.status}`, response.status);
+  }
+
+  return response.status === 204 ? (undefined as T) : response.json();
+};
+
+// json-server has no bulk endpoints, so bulk calls fan out a few requests at a time
+const BATCH_SIZE = 10;
+
+const inBatches = async <T, R>(items: T[], run: (item: T) => Promise<R>) => {
+  const results: R[] = [];
+  for (let i = 0; i < items.length; i += BATCH_SIZE) {
+    results.push(...(await Promise.all(items.slice(i, i + BATCH_SIZE).map(run))));
+  }
+  return results;
+};
+
+const restCollection = (baseUrl: string) => <T extends Entity>(name: string): CollectionRepository<T> => {
+  const collectionUrl = `${baseUrl}/${name}`;
+
+  return {
+    list: async () => {
+      const records = await request<T[]>(collectionUrl);
+      return records.map(reviveDates);
+    },
+    create: async (record) => {
+      const created = await request<T>(collectionUrl, {
+        method: 'POST',
+        body: JSON.stringify(record),
+      });
+      return reviveDates(created);
+    },
+    update: async (record) => {
+      const updated = await request<T>(`${collectionUrl}/${record.id}`, {
+        method: 'PUT',
+        body: JSON.stringify(record),
+      });
+      return reviveDates(updated);
+    },
+    remove: async (id) => {
+      await request<void>(`${collectionUrl}/${id}`, { method: 'DELETE' });
+    },
+    createMany: (records) =>
+      inBatches(records, async (record) => {
+        const created = await request<T>(collectionUrl, {
+          method: 'POST',
+          body: JSON.stringify(record),
+        });
+        return reviveDates(created);
+      }),
+    updateMany: (records) =>
+      inBatches(records, async (record) => {
+        const updated = await request<T>(`${collectionUrl}/${record.id}`, {
+          method: 'PUT',
+          body: JSON.stringify(record),
+        });
+        return reviveDates(updated);
+      }),
+    removeMany: async (ids) => {
+      await inBatches(ids, (id) => request<void>(`${collectionUrl}/${id}`, { method: 'DELETE' }));
+    },
+  };
+};
+
+export const createRestRepository = (baseUrl: string): CRMRepository => ({
+  kind: 'rest',
+  collection: restCollection(baseUrl.replace(/\/+$/, '')),
+});
@@ -0,0 +1,25 @@
+import { EmailError, EmailTransport } from './emailTransport';
+
+// Browsers can't open SMTP connections, so messages go as JSON to a relay that speaks
+// SMTP to the mail server (see mock/smtp-relay.mjs): POST /send -> { messageId }
+export const createSmtpEmailTransport = (relayUrl: string): EmailTransport => ({
+  kind: 'smtp',
+  send: async (message) => {
+    let response: Response;
+    try {
+      response = await fetch(`${relayUrl}/send`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(message),
+      });
+    } catch {
+      throw new EmailError(`Could not reach the mail relay at ${relayUrl}`);
+    }
+
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new EmailError(result.error ?? `The mail relay answered with ${response.status}`);
+    }
+    return { messageId: String(result.messageId) };
+  },
+});
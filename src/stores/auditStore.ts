@@ -0,0 +1,35 @@
+import { create } from 'zustand';
+import toast from 'react-hot-toast';
+import { Entity, getRepository } from '../services/repository';
+import { queryClient, crmQueryKey } from '../lib/queryClient';
+import { AUDIT_COLLECTION, AuditEntry } from '../lib/audit';
+
+interface AuditState {
+  entries: AuditEntry[];
+  // Replaces the log with what the repository returned
+  setEntries: (entries: Entity[]) => void;
+  // Append-only: entries are never edited or removed once recorded
+  record: (entries: AuditEntry[]) => void;
+}
+
+export const useAuditStore = create<AuditState>()((set) => ({
+  entries: [],
+
+  setEntries: (entries) => {
+    set({ entries: entries as AuditEntry[] });
+  },
+
+  record: (entries) => {
+    if (entries.length === 0) {
+      return;
+    }
+    set((state) => ({ entries: [...state.entries, ...entries] }));
+    getRepository()
+      .collection<AuditEntry>(AUDIT_COLLECTION)
+      .createMany(entries)
+      .catch((error: Error) => {
+        toast.error(`Could not save the audit log: ${error.message}`);
+        queryClient.invalidateQueries({ queryKey: crmQueryKey(AUDIT_COLLECTION) });
+      });
+  },
+}));
@@ -1,5 +1,6 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
+import { AuthError, AuthErrorCode, AuthTokens, DirectoryUser, getAuthProvider } from '../services/authService';
 
 export type UserRole = 'admin' | 'manager' | 'salesperson';
 
@@ -11,46 +12,145 @@ export interface User {
   avatar?: string;
 }
 
-interface AuthState {
+interface PersistedAuth {
+  accessToken: string | null;
+  refreshToken: string | null;
+  expiresAt: number | null;
+}
+
+interface AuthState extends PersistedAuth {
   user: User | null;
+  // Everyone in the workspace; records' `assignedTo` holds one of their ids
+  directory: DirectoryUser[];
   isAuthenticated: boolean;
-  login: (email: string, password: string) => Promise<boolean>;
-  logout: () => void;
-  updateUser: (updates: Partial<User>) => void;
+  // True until the persisted tokens have been checked on startup
+  isRestoring: boolean;
+  // Why the last session ended without the user signing out, shown on the login page
+  sessionError: AuthErrorCode | null;
+  login: (email: string, password: string) => Promise<void>;
+  logout: () => Promise<void>;
+  restoreSession: () => Promise<void>;
+  refreshSession: () => Promise<void>;
+  updateUser: (updates: Partial<Pick<User, 'name' | 'email' | 'avatar'>>) => Promise<void>;
 }
 
+// Refresh a minute before the access token lapses so requests never see an expired one
+const REFRESH_LEEWAY = 60 * 1000;
+
+let refreshTimer: ReturnType<typeof setTimeout> | undefined;
+
+const scheduleRefresh = (expiresAt: number) => {
+  clearTimeout(refreshTimer);
+  refreshTimer = setTimeout(
+    () => useAuthStore.getState().refreshSession(),
+    Math.max(expiresAt - Date.now() - REFRESH_LEEWAY, 0)
+  );
+};
+
+// The signed-in user and the directory are looked up together whenever a token is checked
+const loadSession = (accessToken: string) => {
+  const provider = getAuthProvider();
+  return Promise.all([provider.verify(accessToken), provider.listUsers(accessToken)]);
+};
+
+const signedOut = {
+  user: null,
+  directory: [],
+  isAuthenticated: false,
+  accessToken: null,
+  refreshToken: null,
+  expiresAt: null,
+};
+
 export const useAuthStore = create<AuthState>()(
   persist(
-    (set) => ({
-      user: null,
-      isAuthenticated: false,
-      login: async (email: string, password: string) => {
-        // Simulate API call
-        await new Promise(resolve => setTimeout(resolve, 1000));
-        
-        // Mock user data based on email
-        const mockUser: User = {
-          id: '1',
-          name: email === 'admin@crm.com' ? 'Admin User' : 'John Doe',
-          email,
-          role: email === 'admin@crm.com' ? 'admin' : 
-                email === 'manager@crm.com' ? 'manager' : 'salesperson',
-        };
-
-        set({ user: mockUser, isAuthenticated: true });
-        return true;
-      },
-      logout: () => {
-        set({ user: null, isAuthenticated: false });
-      },
-      updateUser: (updates) => {
-        set((state) => ({
-          user: state.user ? { ...state.user, ...updates } : null,
-        }));
-      },
-    }),
+    (set, get) => {
+      const startSession = async (tokens: AuthTokens) => {
+        const [user, directory] = await loadSession(tokens.accessToken);
+        set({ ...tokens, user, directory, isAuthenticated: true, sessionError: null });
+        scheduleRefresh(tokens.expiresAt);
+      };
+
+      const endSession = (reason: AuthErrorCode | null) => {
+        clearTimeout(refreshTimer);
+        set({ ...signedOut, sessionError: reason });
+      };
+
+      return {
+        ...signedOut,
+        isRestoring: true,
+        sessionError: null,
+
+        login: async (email, password) => {
+          const tokens = await getAuthProvider().login(email, password);
+          await startSession(tokens);
+        },
+
+        logout: async () => {
+          const { refreshToken } = get();
+          endSession(null);
+          if (refreshToken) {
+            await getAuthProvider().logout(refreshToken);
+          }
+        },
+
+        restoreSession: async () => {
+          const { accessToken, refreshToken } = get();
+          try {
+            if (accessToken) {
+              const [user, directory] = await loadSession(accessToken);
+              set({ user, directory, isAuthenticated: true });
+              scheduleRefresh(get().expiresAt ?? Date.now());
+            }
+          } catch (error) {
+            if (error instanceof AuthError && error.code === 'session_expired' && refreshToken) {
+              await get().refreshSession();
+            } else {
+              endSession(error instanceof AuthError ? error.code : null);
+            }
+          } finally {
+            set({ isRestoring: false });
+          }
+        },
+
+        refreshSession: async () => {
+          const { refreshToken } = get();
+          if (!refreshToken) {
+            endSession('session_expired');
+            return;
+          }
+          try {
+            await startSession(await getAuthProvider().refresh(refreshToken));
+          } catch (error) {
+            endSession(error instanceof AuthError ? error.code : 'unavailable');
+          }
+        },
+
+        updateUser: async (updates) => {
+          const { accessToken } = get();
+          if (!accessToken) {
+            throw new AuthError('session_expired', 'You are not signed in.');
+          }
+          const user = await getAuthProvider().updateProfile(accessToken, updates);
+          set((state) => ({
+            user,
+            directory: state.directory.map((member) => (member.id === user.id ? { ...member, ...user } : member)),
+          }));
+        },
+      };
+    },
     {
       name: 'crm-auth',
+      // Only the signed tokens are stored; the user is always re-derived by verifying them
+      partialize: ({ accessToken, refreshToken, expiresAt }): PersistedAuth => ({
+        accessToken,
+        refreshToken,
+        expiresAt,
+      }),
+      merge: (persisted, current) => {
+        const { accessToken = null, refreshToken = null, expiresAt = null } = (persisted ?? {}) as Partial<PersistedAuth>;
+        return { ...current, accessToken, refreshToken, expiresAt };
+      },
     }
   )
-);
\ No newline at end of file
+);
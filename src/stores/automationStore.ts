@@ -0,0 +1,35 @@
+import { create } from 'zustand';
+import toast from 'react-hot-toast';
+import { Entity, getRepository } from '../services/repository';
+import { queryClient, crmQueryKey } from '../lib/queryClient';
+import { AUTOMATION_RUNS_COLLECTION, AutomationRun } from '../lib/automation';
+
+interface AutomationState {
+  // The execution log, oldest first
+  runs: AutomationRun[];
+  // Replaces the log with what the repository returned
+  setRuns: (runs: Entity[]) => void;
+  record: (runs: AutomationRun[]) => void;
+}
+
+export const useAutomationStore = create<AutomationState>()((set) => ({
+  runs: [],
+
+  setRuns: (runs) => {
+    set({ runs: runs as AutomationRun[] });
+  },
+
+  record: (runs) => {
+    if (runs.length === 0) {
+      return;
+    }
+    set((state) => ({ runs: [...state.runs, ...runs] }));
+    getRepository()
+      .collection<AutomationRun>(AUTOMATION_RUNS_COLLECTION)
+      .createMany(runs)
+      .catch((error: Error) => {
+        toast.error(`Could not save the automation log: ${error.message}`);
+        queryClient.invalidateQueries({ queryKey: crmQueryKey(AUTOMATION_RUNS_COLLECTION) });
+      });
+  },
+}));
@@ -1,7 +1,29 @@
 import { create } from 'zustand';
-import { persist } from 'zustand/middleware';
+import { addDays } from 'date-fns';
+import toast from 'react-hot-toast';
+import { CollectionRepository, Entity, getRepository } from '../services/repository';
+import { queryClient, crmQueryKey } from '../lib/queryClient';
+import { Action, OwnedRecord, PermissionError, Resource, can } from '../lib/permissions';
+import { AuditChange, buildAuditEntries, diffRecords } from '../lib/audit';
+import { isRelatedTo } from '../lib/records';
+import { PipelineStage, StageWinRates, getDealStage, getPipeline, stageProbability, stageWinRates, wipViolation } from '../lib/pipelines';
+import { StageRuleError, checkStageTransition, missingRequirements, missingRequirementsMessage } from '../lib/stageRules';
+import type { CustomFieldRecord } from '../lib/customFields';
+import { assignLeads } from '../lib/assignment';
+import { MERGE_FIELDS, MergeChoices, MergeCollection, combineNotes, combineTags } from '../lib/duplicates';
+import type { DirectoryUser } from '../services/authService';
+import { useAuthStore } from './authStore';
+import { useSettingsStore } from './settingsStore';
+import { useAuditStore } from './auditStore';
 
-export interface Contact {
+// Deleting moves a record to the trash rather than removing it
+interface SoftDeletable {
+  deletedAt?: Date;
+  // The contact or deal whose deletion took this record along, so restoring it brings this back
+  deletedWith?: string;
+}
+
+export interface Contact extends SoftDeletable, CustomFieldRecord {
   id: string;
   name: string;
   email: string;
@@ -12,9 +34,13 @@ export interface Contact {
   createdAt: Date;
   updatedAt: Date;
   notes: string;
+  // Owner of the relationship; contacts created before owners existed have none
+  assignedTo?: string;
+  // Lead this contact was created from or matched to during conversion
+  sourceLeadId?: string;
 }
 
-export interface Lead {
+export interface Lead extends SoftDeletable, CustomFieldRecord {
   id: string;
   name: string;
   email: string;
@@ -22,28 +48,50 @@ export interface Lead {
   company: string;
   value: number;
   status: 'new' | 'qualified' | 'converted' | 'lost';
+  // User id of the owner; empty while the lead waits in the unassigned queue
   assignedTo: string;
   source: string;
+  // One of the workspace's territories, used by assignment rules
+  territory?: string;
+  // One of the company size bands, used by lead scoring
+  companySize?: string;
   createdAt: Date;
   updatedAt: Date;
   notes: string;
+  convertedAt?: Date;
+  convertedContactId?: string;
+  convertedDealId?: string;
+  // Added by automations; absent on leads that never had any
+  tags?: string[];
 }
 
-export interface Deal {
+export interface Deal extends SoftDeletable, CustomFieldRecord {
   id: string;
   title: string;
   value: number;
-  stage: 'prospecting' | 'qualification' | 'proposal' | 'negotiation' | 'closed-won' | 'closed-lost';
+  // Absent on deals from before pipelines were configurable, which belong to the default one
+  pipelineId?: string;
+  // Id of a stage in the deal's pipeline
+  stage: string;
+  // Manual order within the stage's column, lowest first; see `dealPosition`
+  position?: number;
+  // One of the workspace's loss reasons, recorded when the deal is lost
+  lossReason?: string;
   contactId: string;
   assignedTo: string;
   closeDate: Date;
   probability: number;
+  // Set once someone enters the probability by hand; until then it follows the stage
+  probabilityOverridden?: boolean;
   createdAt: Date;
   updatedAt: Date;
   notes: string;
+  sourceLeadId?: string;
+  // Added by automations; absent on deals that never had any
+  tags?: string[];
 }
 
-export interface Task {
+export interface Task extends SoftDeletable {
   id: string;
   title: string;
   description: string;
@@ -59,11 +107,126 @@ export interface Task {
   updatedAt: Date;
 }
 
+export interface ConvertLeadOptions {
+  createDeal: boolean;
+  dealTitle?: string;
+}
+
+export interface LeadConversion {
+  contact: Contact;
+  // False when the lead's email matched a contact that already existed
+  contactCreated: boolean;
+  deal?: Deal;
+  movedTaskIds: string[];
+}
+
+export const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+export const findContactByEmail = (contacts: Contact[], email: string) =>
+  contacts.find((contact) => normalizeEmail(contact.email) === normalizeEmail(email));
+
+export class DeleteBlockedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DeleteBlockedError';
+  }
+}
+
+// Deals owned by the contact, plus tasks attached to the contact or to any of those deals
+export const getContactDependents = (
+  { deals, tasks }: Pick<CRMState, 'deals' | 'tasks'>,
+  contactId: string
+) => {
+  const contactDeals = deals.filter((deal) => deal.contactId === contactId);
+  const dealIds = new Set(contactDeals.map((deal) => deal.id));
+  const contactTasks = tasks.filter(
+    (task) =>
+      (task.relatedTo?.type === 'contact' && task.relatedTo.id === contactId) ||
+      (task.relatedTo?.type === 'deal' && dealIds.has(task.relatedTo.id))
+  );
+  return { deals: contactDeals, tasks: contactTasks };
+};
+
+export const CRM_COLLECTIONS = ['contacts', 'leads', 'deals', 'tasks'] as const;
+
+export type CollectionName = typeof CRM_COLLECTIONS[number];
+
+export interface CollectionRecords {
+  contacts: Contact;
+  leads: Lead;
+  deals: Deal;
+  tasks: Task;
+}
+
+type AnyRecord = CollectionRecords[CollectionName];
+
+export type TrashedRecords = { [C in CollectionName]: CollectionRecords[C][] };
+
+export interface BulkDeleteResult {
+  deletedCount: number;
+  // Contacts left in place because the delete policy blocks removing their deals and tasks
+  blockedIds: string[];
+}
+
+// Per-record before/after pairs, keyed by collection; `before` is absent for
+// creates and `after` for deletes
+export type ChangeSet = { [C in CollectionName]?: AuditChange[] };
+
+// Work a step did outside the CRM collections, like a merge moving the duplicate's emails;
+// undo and redo run it along with the records
+export interface HistoryEffect {
+  undo: () => void;
+  redo: () => void;
+}
+
+// One undoable user action, however many records it touched
+export interface HistoryStep {
+  id: string;
+  label: string;
+  changes: ChangeSet;
+  effects?: HistoryEffect[];
+}
+
+export class HistoryConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'HistoryConflictError';
+  }
+}
+
+const COLLECTION_RESOURCES: Record<CollectionName, Resource> = {
+  contacts: 'contact',
+  leads: 'lead',
+  deals: 'deal',
+  tasks: 'task',
+};
+
+export interface ImportableRecords {
+  contacts: Omit<Contact, 'id' | 'createdAt' | 'updatedAt'>;
+  leads: Omit<Lead, 'id' | 'createdAt' | 'updatedAt'>;
+}
+
+export type ImportCollection = keyof ImportableRecords;
+
+export interface ImportBatch {
+  id: string;
+  collection: ImportCollection;
+  recordIds: string[];
+  importedAt: Date;
+}
+
 interface CRMState {
   contacts: Contact[];
   leads: Lead[];
   deals: Deal[];
   tasks: Task[];
+  // Soft-deleted records, kept apart so every list above only holds live ones
+  trash: TrashedRecords;
+
+  // Replaces a whole collection with what the repository returned
+  setCollection: (name: CollectionName, records: Entity[]) => void;
+  // Points records that name their assignee at that user's id instead; returns how many changed
+  migrateAssignees: (users: DirectoryUser[]) => number;
   
   // Contacts
   addContact: (contact: Omit<Contact, 'id' | 'createdAt' | 'updatedAt'>) => void;
@@ -74,6 +237,57 @@ interface CRMState {
   addLead: (lead: Omit<Lead, 'id' | 'createdAt' | 'updatedAt'>) => void;
   updateLead: (id: string, updates: Partial<Lead>) => void;
   deleteLead: (id: string) => void;
+  convertLead: (id: string, options: ConvertLeadOptions) => LeadConversion;
+
+  // Imports
+  importRecords: <C extends ImportCollection>(collection: C, records: ImportableRecords[C][]) => ImportBatch;
+  // Returns how many records were removed; ones edited since the import are kept
+  undoImport: (batch: ImportBatch) => number;
+
+  // Duplicates. Folds the duplicate into the survivor, points deals and tasks that
+  // referred to the duplicate at the survivor, and moves the duplicate to the trash.
+  // Sent emails and sequence enrollments live in their own stores: `moveRelated` moves them once
+  // the records are merged, and the effects it returns are undone and redone with the merge.
+  mergeRecords: (
+    collection: MergeCollection,
+    survivorId: string,
+    duplicateId: string,
+    choices: MergeChoices,
+    moveRelated?: () => HistoryEffect[]
+  ) => void;
+
+  // Bulk changes; updateMany returns how many records it changed
+  updateMany: <C extends CollectionName>(
+    collection: C,
+    ids: string[],
+    updates: (record: CollectionRecords[C]) => Partial<CollectionRecords[C]>
+  ) => number;
+  deleteMany: (collection: CollectionName, ids: string[]) => BulkDeleteResult;
+
+  // Trash. Each returns how many of the given records it restored or purged;
+  // records deleted along with them (a contact's deals, a deal's tasks) follow.
+  restoreFromTrash: (collection: CollectionName, ids: string[]) => number;
+  purgeFromTrash: (collection: CollectionName, ids: string[]) => number;
+  // Purges whatever has been in the trash longer than the retention period
+  purgeExpiredTrash: (retentionDays: number) => number;
+
+  // Undo/redo. Every mutator above records one step; undo takes the latest
+  // unless given a specific step, e.g. from that change's toast.
+  undoStack: HistoryStep[];
+  redoStack: HistoryStep[];
+  undo: (stepId?: string) => HistoryStep | null;
+  redo: () => HistoryStep | null;
+  // Chunked bulk actions call several mutators; a group records them as one step. Only
+  // changes made inside `recordInGroup` join it, so edits made between chunks (the user's,
+  // or automations reacting to a chunk) keep steps of their own.
+  startHistoryGroup: (label: string) => HistoryStep;
+  recordInGroup: <R>(group: HistoryStep, apply: () => R) => R;
+  endHistoryGroup: (group: HistoryStep) => HistoryStep | null;
+  // Automation rules are the workspace's, so what they do can't depend on whose change set them
+  // off: changes made inside `asSystem` skip the signed-in user's permission checks
+  asSystem: <R>(apply: () => R) => R;
+  // Forgets every step, for when the records are replaced wholesale, e.g. from a backup
+  clearHistory: () => void;
   
   // Deals
   addDeal: (deal: Omit<Deal, 'id' | 'createdAt' | 'updatedAt'>) => void;
@@ -84,126 +298,1065 @@ interface CRMState {
   addTask: (task: Omit<Task, 'id' | 'createdAt' | 'updatedAt'>) => void;
   updateTask: (id: string, updates: Partial<Task>) => void;
   deleteTask: (id: string) => void;
+  // Tasks made on the user's behalf, like a sequence's next step, pass `undoable: false`;
+  // undoing them on their own would leave whatever made them pointing at nothing
+  addTasks: (tasks: Omit<Task, 'id' | 'createdAt' | 'updatedAt'>[], options?: { undoable?: boolean }) => Task[];
 }
 
-export const useCRMStore = create<CRMState>()(
-  persist(
-    (set) => ({
-      contacts: [],
-      leads: [],
-      deals: [],
-      tasks: [],
-      
-      // Contacts
-      addContact: (contact) => {
-        const newContact: Contact = {
-          ...contact,
-          id: crypto.randomUUID(),
-          createdAt: new Date(),
-          updatedAt: new Date(),
-        };
-        set((state) => ({ contacts: [...state.contacts, newContact] }));
-      },
-      
-      updateContact: (id, updates) => {
-        set((state) => ({
-          contacts: state.contacts.map((contact) =>
-            contact.id === id 
-              ? { ...contact, ...updates, updatedAt: new Date() }
-              : contact
-          ),
-        }));
-      },
-      
-      deleteContact: (id) => {
-        set((state) => ({
-          contacts: state.contacts.filter((contact) => contact.id !== id),
-        }));
-      },
-      
-      // Leads
-      addLead: (lead) => {
-        const newLead: Lead = {
-          ...lead,
-          id: crypto.randomUUID(),
-          createdAt: new Date(),
-          updatedAt: new Date(),
-        };
-        set((state) => ({ leads: [...state.leads, newLead] }));
-      },
-      
-      updateLead: (id, updates) => {
-        set((state) => ({
-          leads: state.leads.map((lead) =>
-            lead.id === id 
-              ? { ...lead, ...updates, updatedAt: new Date() }
-              : lead
-          ),
-        }));
-      },
-      
-      deleteLead: (id) => {
-        set((state) => ({
-          leads: state.leads.filter((lead) => lead.id !== id),
-        }));
-      },
-      
-      // Deals
-      addDeal: (deal) => {
-        const newDeal: Deal = {
-          ...deal,
-          id: crypto.randomUUID(),
-          createdAt: new Date(),
-          updatedAt: new Date(),
-        };
-        set((state) => ({ deals: [...state.deals, newDeal] }));
-      },
-      
-      updateDeal: (id, updates) => {
-        set((state) => ({
-          deals: state.deals.map((deal) =>
-            deal.id === id 
-              ? { ...deal, ...updates, updatedAt: new Date() }
-              : deal
-          ),
-        }));
-      },
-      
-      deleteDeal: (id) => {
-        set((state) => ({
-          deals: state.deals.filter((deal) => deal.id !== id),
-        }));
-      },
-      
-      // Tasks
-      addTask: (task) => {
-        const newTask: Task = {
-          ...task,
-          id: crypto.randomUUID(),
-          createdAt: new Date(),
-          updatedAt: new Date(),
-        };
-        set((state) => ({ tasks: [...state.tasks, newTask] }));
-      },
-      
-      updateTask: (id, updates) => {
-        set((state) => ({
-          tasks: state.tasks.map((task) =>
-            task.id === id 
-              ? { ...task, ...updates, updatedAt: new Date() }
-              : task
-          ),
-        }));
-      },
-      
-      deleteTask: (id) => {
-        set((state) => ({
-          tasks: state.tasks.filter((task) => task.id !== id),
-        }));
-      },
-    }),
-    {
-      name: 'crm-data',
+// Set only while `asSystem` runs its callback: the workspace's own automations are acting, not the user
+let actingAsSystem = false;
+
+// Mutators check permissions themselves so a blocked action fails even if the UI is bypassed
+const assertCan = (action: Action, resource: Resource, ...records: (OwnedRecord | undefined)[]) => {
+  if (actingAsSystem) {
+    return;
+  }
+  const user = useAuthStore.getState().user;
+  const allowed = records.length === 0
+    ? can(user, action, resource)
+    : records.every((record) => record && can(user, action, resource, record));
+  if (!allowed) {
+    throw new PermissionError(action, resource);
+  }
+};
+
+// Stage rules are enforced here as well as in the board and drawer, so a deal can't be moved
+// backwards, into a gated stage or into a full one by going around them. `moves` pairs each
+// deal as it is (absent for new deals) with how it would be; they're checked one after another.
+const assertStageRules = (moves: { before?: Deal; after: Deal }[]) => {
+  const { pipelines, customFields } = useSettingsStore.getState();
+  const dealFields = customFields.filter((field) => field.entity === 'deal');
+  const user = useAuthStore.getState().user;
+  let deals = useCRMStore.getState().deals;
+  moves.forEach(({ before, after }) => {
+    const target = getDealStage(pipelines, after);
+    if (before) {
+      const check = checkStageTransition(pipelines, before, after, user, dealFields);
+      // Who may move deals back is a permission, so it doesn't bind the workspace's automations
+      if (check.blocked && !actingAsSystem) {
+        throw new StageRuleError(check.blocked);
+      }
+      if (check.missing.length > 0) {
+        throw new StageRuleError(missingRequirementsMessage(check.target, check.missing, dealFields));
+      }
+      if (target.id === getDealStage(pipelines, before).id) {
+        return;
+      }
+    } else {
+      const missing = missingRequirements(target, after, dealFields);
+      if (missing.length > 0) {
+        throw new StageRuleError(missingRequirementsMessage(target, missing, dealFields));
+      }
     }
-  )
+    const violation = wipViolation(pipelines, deals, target, after.id);
+    if (violation?.blocking) {
+      throw new StageRuleError(violation.message);
+    }
+    deals = [...deals.filter((deal) => deal.id !== after.id), after];
+  });
+};
+
+// Writes go to the repository after the optimistic local update. On failure we
+// refetch so the store falls back to whatever the backend actually holds.
+const sync = <T extends Entity>(
+  name: CollectionName,
+  write: (collection: CollectionRepository<T>) => Promise<unknown>
+) => {
+  const repository = getRepository();
+  write(repository.collection<T>(name))
+    .then(() => {
+      if (repository.kind === 'rest') {
+        queryClient.invalidateQueries({ queryKey: crmQueryKey(name) });
+      }
+    })
+    .catch((error: Error) => {
+      toast.error(`Could not save changes: ${error.message}`);
+      queryClient.invalidateQueries({ queryKey: crmQueryKey(name) });
+    });
+};
+
+// Every mutator logs what it changed, attributed to whoever is signed in.
+// Loading data from the repository (`setCollection`) is not a change and isn't logged.
+const audit = (name: CollectionName, changes: AuditChange[]) => {
+  useAuditStore.getState().record(buildAuditEntries(name, changes, useAuthStore.getState().user, new Date()));
+};
+
+// What a deal's probability becomes when it enters the stage. Learned win rates are
+// only worked out when the workspace uses them.
+const defaultProbability = (stage: PipelineStage): number => {
+  const { pipelines, probabilityModel } = useSettingsStore.getState();
+  const winRates: StageWinRates | undefined = probabilityModel === 'historical'
+    ? stageWinRates(pipelines, useCRMStore.getState().deals, useAuditStore.getState().entries)
+    : undefined;
+  return stageProbability(stage, winRates);
+};
+
+// New leads nobody picked an owner for go to whoever the workspace's assignment strategy chooses
+const withAssignees = (leads: Lead[]): Lead[] =>
+  assignLeads(leads, useSettingsStore.getState().assignment, useAuthStore.getState().directory, useCRMStore.getState().leads);
+
+const created = (records: AnyRecord[]): AuditChange[] => records.map((after) => ({ after }));
+
+const removed = (records: AnyRecord[]): AuditChange[] => records.map((before) => ({ before }));
+
+const HISTORY_LIMIT = 100;
+// Steps keep references to whole records; once the stacks hold more than this
+// many, the oldest steps go. The newest step is always kept, however large.
+const HISTORY_RECORD_LIMIT = 20_000;
+
+const changeEntries = (changes: ChangeSet) =>
+  (Object.entries(changes) as [CollectionName, AuditChange[]][]).filter(([, list]) => list.length > 0);
+
+const stepSize = (step: HistoryStep) =>
+  changeEntries(step.changes).reduce((total, [, list]) => total + list.length, 0);
+
+const trimHistory = (steps: HistoryStep[]) => {
+  const kept: HistoryStep[] = [];
+  let size = 0;
+  for (let i = steps.length - 1; i >= 0 && kept.length < HISTORY_LIMIT; i--) {
+    size += stepSize(steps[i]);
+    if (kept.length > 0 && size > HISTORY_RECORD_LIMIT) {
+      break;
+    }
+    kept.unshift(steps[i]);
+  }
+  return kept;
+};
+
+// The group collecting changes, set only while `recordInGroup` runs its callback
+let openGroup: HistoryStep | null = null;
+
+type ChangeListener = (changes: ChangeSet) => void;
+
+const changeListeners = new Set<ChangeListener>();
+
+// Called with every mutation's changes once they are audited, so features like automations
+// can react to them. Undo, redo and loading from the repository don't count as changes.
+export const subscribeToChanges = (listener: ChangeListener) => {
+  changeListeners.add(listener);
+  return () => {
+    changeListeners.delete(listener);
+  };
+};
+
+// Audits a mutation and records it as one undoable step (or adds it to the open group)
+const commit = (label: string, changes: ChangeSet, undoable = true, effects: HistoryEffect[] = []) => {
+  const meaningful = changeEntries(changes)
+    .map(([name, list]) => [
+      name,
+      list.filter(({ before, after }) => !before || !after || diffRecords(before, after).length > 0),
+    ] as const)
+    .filter(([, list]) => list.length > 0);
+  if (meaningful.length === 0) {
+    return;
+  }
+  meaningful.forEach(([name, list]) => audit(name, list));
+  changeListeners.forEach((listener) => listener(Object.fromEntries(meaningful)));
+
+  if (!undoable) {
+    return;
+  }
+  if (openGroup) {
+    const group = openGroup.changes;
+    meaningful.forEach(([name, list]) => {
+      group[name] = [...(group[name] ?? []), ...list];
+    });
+    if (effects.length > 0) {
+      openGroup.effects = [...(openGroup.effects ?? []), ...effects];
+    }
+    return;
+  }
+  const step: HistoryStep = { id: crypto.randomUUID(), label, changes: Object.fromEntries(meaningful) };
+  if (effects.length > 0) {
+    step.effects = effects;
+  }
+  useCRMStore.setState((state) => ({
+    undoStack: trimHistory([...state.undoStack, step]),
+    redoStack: [],
+  }));
+};
+
+// A step may touch a record more than once (bulk groups); only its first and last state matter
+const collapseChanges = (list: AuditChange[]) => {
+  const byId = new Map<string, AuditChange>();
+  list.forEach(({ before, after }) => {
+    const id = (before ?? after)?.id;
+    if (id) {
+      const existing = byId.get(id);
+      byId.set(id, { before: existing ? existing.before : before, after });
+    }
+  });
+  return byId;
+};
+
+const isSameVersion = (current: AnyRecord | undefined, expected: AnyRecord | undefined) =>
+  current === expected ||
+  (!!current && !!expected && new Date(current.updatedAt).getTime() === new Date(expected.updatedAt).getTime());
+
+// Rebuilds the live list or the trash after a replay: replaced records keep their
+// place, and records that moved between the two are added to the end of their new list
+const placeRecords = (
+  list: AnyRecord[],
+  placed: Map<string, AnyRecord>,
+  gone: Set<string>,
+  trashed: boolean
+) => {
+  const belongs = (record: AnyRecord) => !!record.deletedAt === trashed;
+  const present = new Set(list.map((record) => record.id));
+  return [
+    ...list
+      .filter((record) => !gone.has(record.id))
+      .map((record) => placed.get(record.id) ?? record)
+      .filter(belongs),
+    ...[...placed.values()].filter((record) => belongs(record) && !present.has(record.id)),
+  ];
+};
+
+// Moves every record in the step back to its `before` (undo) or forward to its `after`
+// (redo). Refuses if any of them has been changed since, rather than overwrite that work.
+const replayStep = (step: HistoryStep, direction: 'undo' | 'redo') => {
+  const state = useCRMStore.getState();
+  const plan = changeEntries(step.changes).map(([name, list]) => {
+    const currentById = new Map(
+      [...(state[name] as AnyRecord[]), ...(state.trash[name] as AnyRecord[])].map((record) => [record.id, record])
+    );
+    const upserts: AnyRecord[] = [];
+    const recreated: AnyRecord[] = [];
+    const removals: AnyRecord[] = [];
+    const changes: AuditChange[] = [];
+
+    collapseChanges(list).forEach(({ before, after }, id) => {
+      const [expected, target] = direction === 'undo' ? [after, before] : [before, after];
+      const current = currentById.get(id);
+      if (!isSameVersion(current, expected)) {
+        throw new HistoryConflictError(`Can't ${direction} "${step.label}": some of those records have changed since.`);
+      }
+      if (target && current) {
+        upserts.push(target);
+      } else if (target) {
+        recreated.push(target);
+      } else if (current) {
+        removals.push(current);
+      }
+      changes.push({ before: current, after: target });
+    });
+
+    const resource = COLLECTION_RESOURCES[name];
+    if (upserts.length > 0) {
+      assertCan('update', resource, ...upserts.map((record) => currentById.get(record.id)), ...upserts);
+    }
+    if (name === 'deals') {
+      assertStageRules(upserts.map((after) => ({ before: currentById.get(after.id) as Deal, after: after as Deal })));
+    }
+    if (recreated.length > 0) {
+      assertCan('create', resource);
+    }
+    if (removals.length > 0) {
+      assertCan('delete', resource, ...removals);
+    }
+    return { name, upserts, recreated, removals, changes };
+  });
+
+  // Removing a contact again must not strand deals or tasks added to it in the meantime
+  const removedIds = new Set(plan.flatMap(({ removals }) => removals.map((record) => record.id)));
+  plan
+    .filter(({ name }) => name === 'contacts')
+    .forEach(({ removals }) =>
+      (removals as Contact[]).forEach((contact) => {
+        const dependents = getContactDependents(state, contact.id);
+        if ([...dependents.deals, ...dependents.tasks].some((record) => !removedIds.has(record.id))) {
+          throw new HistoryConflictError(`Can't ${direction} "${step.label}": ${contact.name} now has deals or tasks.`);
+        }
+      })
+    );
+
+  useCRMStore.setState((current) => {
+    const trash = { ...current.trash };
+    const lists = plan.map(({ name, upserts, recreated, removals }) => {
+      const placed = new Map([...upserts, ...recreated].map((record) => [record.id, record]));
+      const gone = new Set(removals.map((record) => record.id));
+      trash[name] = placeRecords(current.trash[name], placed, gone, true) as never;
+      return [name, placeRecords(current[name], placed, gone, false)];
+    });
+    return { ...Object.fromEntries(lists), trash } as Partial<CRMState>;
+  });
+
+  plan.forEach(({ name, upserts, recreated, removals, changes }) => {
+    if (upserts.length > 0) {
+      sync(name, (repository) => repository.updateMany(upserts));
+    }
+    if (recreated.length > 0) {
+      sync(name, (repository) => repository.createMany(recreated));
+    }
+    if (removals.length > 0) {
+      sync(name, (repository) => repository.removeMany(removals.map((record) => record.id)));
+    }
+    audit(name, changes);
+  });
+
+  // Undone in the reverse order they were done
+  const effects = step.effects ?? [];
+  if (direction === 'undo') {
+    [...effects].reverse().forEach((effect) => effect.undo());
+  } else {
+    effects.forEach((effect) => effect.redo());
+  }
+};
+
+// Soft-deletes `targets`. Contacts (under the cascade policy) take their deals and tasks
+// along and deals take their tasks, marked with `deletedWith` so they are restored together.
+// Contacts the restrict policy protects are left alone and reported back.
+const moveToTrash = (collection: CollectionName, targets: AnyRecord[], label: string): BulkDeleteResult => {
+  const state = useCRMStore.getState();
+  assertCan('delete', COLLECTION_RESOURCES[collection], ...targets);
+
+  const policy = useSettingsStore.getState().contactDeletePolicy;
+  const picked = new Map<CollectionName, Map<string, AnyRecord>>(CRM_COLLECTIONS.map((name) => [name, new Map()]));
+  const parents = new Map<string, string>();
+  const take = (name: CollectionName, record: AnyRecord, parentId?: string) => {
+    picked.get(name)?.set(record.id, record);
+    if (parentId) {
+      parents.set(record.id, parentId);
+    }
+  };
+  const blockedIds: string[] = [];
+
+  targets.forEach((record) => {
+    if (collection === 'contacts') {
+      const dependents = getContactDependents(state, record.id);
+      if (policy === 'restrict' && (dependents.deals.length > 0 || dependents.tasks.length > 0)) {
+        blockedIds.push(record.id);
+        return;
+      }
+      dependents.deals.forEach((deal) => take('deals', deal, record.id));
+      dependents.tasks.forEach((task) => take('tasks', task, record.id));
+    }
+    if (collection === 'deals') {
+      state.tasks
+        .filter((task) => isRelatedTo(task, 'deal', record.id))
+        .forEach((task) => take('tasks', task, record.id));
+    }
+    take(collection, record);
+  });
+
+  const entries = CRM_COLLECTIONS
+    .map((name) => [name, [...(picked.get(name)?.values() ?? [])]] as const)
+    .filter(([, records]) => records.length > 0);
+  entries
+    .filter(([name]) => name !== collection)
+    .forEach(([name, records]) => assertCan('delete', COLLECTION_RESOURCES[name], ...records));
+
+  const now = new Date();
+  const changes: ChangeSet = {};
+  const trashedEntries = entries.map(([name, records]) => {
+    const trashed = records.map((record) => ({
+      ...record,
+      deletedAt: now,
+      deletedWith: parents.get(record.id),
+      updatedAt: now,
+    })) as AnyRecord[];
+    changes[name] = records.map((before, index) => ({ before, after: trashed[index] }));
+    return [name, trashed] as const;
+  });
+
+  useCRMStore.setState((current) => {
+    const trash = { ...current.trash };
+    const lists = trashedEntries.map(([name, trashed]) => {
+      const ids = new Set(trashed.map((record) => record.id));
+      trash[name] = [...current.trash[name], ...trashed] as never;
+      return [name, (current[name] as AnyRecord[]).filter((record) => !ids.has(record.id))];
+    });
+    return { ...Object.fromEntries(lists), trash } as Partial<CRMState>;
+  });
+  trashedEntries.forEach(([name, trashed]) => sync(name, (repository) => repository.updateMany(trashed)));
+  commit(label, changes);
+
+  return { deletedCount: picked.get(collection)?.size ?? 0, blockedIds };
+};
+
+// Trashed records with the given ids, plus everything deleted along with them
+const collectTrash = (trash: TrashedRecords, collection: CollectionName, ids: string[]) => {
+  const rootIds = new Set((trash[collection] as AnyRecord[]).filter((record) => ids.includes(record.id)).map((record) => record.id));
+  const entries = CRM_COLLECTIONS
+    .map((name) => [
+      name,
+      (trash[name] as AnyRecord[]).filter((record) =>
+        (name === collection && rootIds.has(record.id)) || (!!record.deletedWith && rootIds.has(record.deletedWith))
+      ),
+    ] as const)
+    .filter(([, records]) => records.length > 0);
+  return { count: rootIds.size, entries };
+};
+
+// Permanent, so it is audited but not undoable
+const purge = (entries: (readonly [CollectionName, AnyRecord[]])[]) => {
+  useCRMStore.setState((current) => {
+    const trash = { ...current.trash };
+    entries.forEach(([name, records]) => {
+      const ids = new Set(records.map((record) => record.id));
+      trash[name] = (current.trash[name] as AnyRecord[]).filter((record) => !ids.has(record.id)) as never;
+    });
+    return { trash };
+  });
+  entries.forEach(([name, records]) => {
+    sync(name, (repository) => repository.removeMany(records.map((record) => record.id)));
+    audit(name, removed(records));
+  });
+};
+
+export const useCRMStore = create<CRMState>()(
+  (set, get) => ({
+    contacts: [],
+    leads: [],
+    deals: [],
+    tasks: [],
+    trash: { contacts: [], leads: [], deals: [], tasks: [] },
+
+    setCollection: (name, records) => {
+      const all = records as AnyRecord[];
+      set((state) => ({
+        [name]: all.filter((record) => !record.deletedAt),
+        trash: { ...state.trash, [name]: all.filter((record) => record.deletedAt) },
+      }) as Partial<CRMState>);
+    },
+
+    // A one-off data fix rather than a user action, so like loading it isn't permission
+    // checked, audited or undoable, and it leaves `updatedAt` alone
+    migrateAssignees: (users) => {
+      const ids = new Set(users.map((user) => user.id));
+      const byName = new Map(users.map((user) => [user.name, user.id]));
+      const migrate = (record: AnyRecord) => {
+        const id = record.assignedTo && !ids.has(record.assignedTo) ? byName.get(record.assignedTo) : undefined;
+        return id ? ({ ...record, assignedTo: id } as AnyRecord) : null;
+      };
+
+      let total = 0;
+      CRM_COLLECTIONS.forEach((name) => {
+        const state = get();
+        const migrated = new Map<string, AnyRecord>();
+        [...(state[name] as AnyRecord[]), ...(state.trash[name] as AnyRecord[])].forEach((record) => {
+          const updated = migrate(record);
+          if (updated) {
+            migrated.set(record.id, updated);
+          }
+        });
+        if (migrated.size === 0) {
+          return;
+        }
+        const replace = (records: AnyRecord[]) => records.map((record) => migrated.get(record.id) ?? record);
+        set((current) => ({
+          [name]: replace(current[name] as AnyRecord[]),
+          trash: { ...current.trash, [name]: replace(current.trash[name] as AnyRecord[]) },
+        }) as Partial<CRMState>);
+        sync(name, (repository) => repository.updateMany([...migrated.values()]));
+        total += migrated.size;
+      });
+      return total;
+    },
+    
+    // Contacts
+    addContact: (contact) => {
+      assertCan('create', 'contact');
+      const newContact: Contact = {
+        ...contact,
+        id: crypto.randomUUID(),
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      };
+      set((state) => ({ contacts: [...state.contacts, newContact] }));
+      sync<Contact>('contacts', (repository) => repository.create(newContact));
+      commit('Add contact', { contacts: created([newContact]) });
+    },
+    
+    updateContact: (id, updates) => {
+      assertCan('update', 'contact');
+      const existing = get().contacts.find((contact) => contact.id === id);
+      set((state) => ({
+        contacts: state.contacts.map((contact) =>
+          contact.id === id 
+            ? { ...contact, ...updates, updatedAt: new Date() }
+            : contact
+        ),
+      }));
+      const updated = get().contacts.find((contact) => contact.id === id);
+      if (updated) {
+        sync<Contact>('contacts', (repository) => repository.update(updated));
+        commit('Edit contact', { contacts: [{ before: existing, after: updated }] });
+      }
+    },
+    
+    deleteContact: (id) => {
+      assertCan('delete', 'contact');
+      const existing = get().contacts.find((contact) => contact.id === id);
+      const dependents = getContactDependents(get(), id);
+      const hasDependents = dependents.deals.length > 0 || dependents.tasks.length > 0;
+
+      if (hasDependents && useSettingsStore.getState().contactDeletePolicy === 'restrict') {
+        throw new DeleteBlockedError(
+          `This contact still has ${dependents.deals.length} deal(s) and ${dependents.tasks.length} task(s). Remove them first.`
+        );
+      }
+      if (existing) {
+        moveToTrash('contacts', [existing], 'Delete contact');
+      }
+    },
+    
+    // Leads
+    addLead: (lead) => {
+      assertCan('create', 'lead', lead);
+      const [newLead] = withAssignees([{
+        ...lead,
+        id: crypto.randomUUID(),
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      }]);
+      set((state) => ({ leads: [...state.leads, newLead] }));
+      sync<Lead>('leads', (repository) => repository.create(newLead));
+      commit('Add lead', { leads: created([newLead]) });
+    },
+    
+    updateLead: (id, updates) => {
+      const existing = get().leads.find((lead) => lead.id === id);
+      // Checked against the result too, so an owner can't hand a record to someone else
+      assertCan('update', 'lead', existing, existing && { ...existing, ...updates });
+      set((state) => ({
+        leads: state.leads.map((lead) =>
+          lead.id === id 
+            ? { ...lead, ...updates, updatedAt: new Date() }
+            : lead
+        ),
+      }));
+      const updated = get().leads.find((lead) => lead.id === id);
+      if (updated) {
+        sync<Lead>('leads', (repository) => repository.update(updated));
+        commit('Edit lead', { leads: [{ before: existing, after: updated }] });
+      }
+    },
+    
+    deleteLead: (id) => {
+      const existing = get().leads.find((lead) => lead.id === id);
+      assertCan('delete', 'lead', existing);
+      if (existing) {
+        moveToTrash('leads', [existing], 'Delete lead');
+      }
+    },
+    
+    convertLead: (id, { createDeal, dealTitle }) => {
+      const state = get();
+      const lead = state.leads.find((lead) => lead.id === id);
+      if (!lead) {
+        throw new Error('Lead not found');
+      }
+      if (lead.convertedContactId) {
+        throw new Error('This lead has already been converted');
+      }
+      assertCan('update', 'lead', lead);
+      assertCan('create', 'contact');
+      if (createDeal) {
+        assertCan('create', 'deal');
+      }
+
+      const now = new Date();
+      const existingContact = findContactByEmail(state.contacts, lead.email);
+      const contact: Contact = existingContact
+        ? {
+            ...existingContact,
+            phone: existingContact.phone || lead.phone,
+            company: existingContact.company || lead.company,
+            updatedAt: now,
+          }
+        : {
+            id: crypto.randomUUID(),
+            name: lead.name,
+            email: lead.email,
+            phone: lead.phone,
+            company: lead.company,
+            position: '',
+            tags: [],
+            notes: lead.notes,
+            sourceLeadId: lead.id,
+            createdAt: now,
+            updatedAt: now,
+          };
+
+      // New deals start in the first stage of the first pipeline
+      const pipeline = getPipeline(useSettingsStore.getState().pipelines);
+      const deal: Deal | undefined = createDeal
+        ? {
+            id: crypto.randomUUID(),
+            title: dealTitle?.trim() || `${lead.company} - ${lead.name}`,
+            value: lead.value,
+            pipelineId: pipeline.id,
+            stage: pipeline.stages[0].id,
+            contactId: contact.id,
+            assignedTo: lead.assignedTo,
+            closeDate: addDays(now, 30),
+            probability: defaultProbability(pipeline.stages[0]),
+            notes: lead.notes,
+            sourceLeadId: lead.id,
+            createdAt: now,
+            updatedAt: now,
+          }
+        : undefined;
+      if (deal) {
+        assertStageRules([{ after: deal }]);
+      }
+
+      // Open work follows the lead to the deal if there is one, otherwise to the contact
+      const target = deal ? { type: 'deal' as const, id: deal.id } : { type: 'contact' as const, id: contact.id };
+      const movedTasks = state.tasks
+        .filter((task) => task.relatedTo?.type === 'lead' && task.relatedTo.id === lead.id && task.status !== 'completed')
+        .map((task) => ({ ...task, relatedTo: target, updatedAt: now }));
+
+      const convertedLead: Lead = {
+        ...lead,
+        status: 'converted',
+        convertedAt: now,
+        convertedContactId: contact.id,
+        convertedDealId: deal?.id,
+        updatedAt: now,
+      };
+
+      set((state) => ({
+        leads: state.leads.map((existing) => (existing.id === lead.id ? convertedLead : existing)),
+        contacts: existingContact
+          ? state.contacts.map((existing) => (existing.id === contact.id ? contact : existing))
+          : [...state.contacts, contact],
+        deals: deal ? [...state.deals, deal] : state.deals,
+        tasks: state.tasks.map((task) => movedTasks.find((moved) => moved.id === task.id) ?? task),
+      }));
+
+      sync<Lead>('leads', (repository) => repository.update(convertedLead));
+      sync<Contact>('contacts', (repository) =>
+        existingContact ? repository.update(contact) : repository.create(contact)
+      );
+      if (deal) {
+        sync<Deal>('deals', (repository) => repository.create(deal));
+      }
+      movedTasks.forEach((task) => sync<Task>('tasks', (repository) => repository.update(task)));
+      commit('Convert lead', {
+        leads: [{ before: lead, after: convertedLead }],
+        contacts: [{ before: existingContact, after: contact }],
+        deals: deal ? created([deal]) : [],
+        tasks: movedTasks.map((task) => ({ before: state.tasks.find((existing) => existing.id === task.id), after: task })),
+      });
+
+      return {
+        contact,
+        contactCreated: !existingContact,
+        deal,
+        movedTaskIds: movedTasks.map((task) => task.id),
+      };
+    },
+    
+    // Imports
+    importRecords: (collection, records) => {
+      assertCan('create', COLLECTION_RESOURCES[collection]);
+      const now = new Date();
+      const fresh: (Contact | Lead)[] = (records as ImportableRecords[ImportCollection][]).map((record) => ({
+        ...record,
+        id: crypto.randomUUID(),
+        createdAt: now,
+        updatedAt: now,
+      }));
+      const imported = collection === 'leads' ? withAssignees(fresh as Lead[]) : fresh;
+
+      // One `set` so the whole file lands (and re-renders) at once
+      set((state) => ({ [collection]: [...state[collection], ...imported] } as Partial<CRMState>));
+      sync(collection, (repository) => repository.createMany(imported));
+      commit(`Import ${collection}`, { [collection]: created(imported) });
+
+      return {
+        id: crypto.randomUUID(),
+        collection,
+        recordIds: imported.map((record) => record.id),
+        importedAt: now,
+      };
+    },
+
+    undoImport: ({ collection, recordIds, importedAt }) => {
+      // Undo only removes what the same import created, so it needs create rather than delete rights
+      assertCan('create', COLLECTION_RESOURCES[collection]);
+      const batchIds = new Set(recordIds);
+      const removable = (get()[collection] as (Contact | Lead)[])
+        .filter((record) => batchIds.has(record.id) && record.updatedAt.getTime() <= importedAt.getTime());
+      if (removable.length === 0) {
+        return 0;
+      }
+
+      const removableIds = new Set(removable.map((record) => record.id));
+      set((state) => ({
+        [collection]: (state[collection] as (Contact | Lead)[]).filter((record) => !removableIds.has(record.id)),
+      } as Partial<CRMState>));
+      sync(collection, (repository) => repository.removeMany([...removableIds]));
+      commit(`Undo ${collection} import`, { [collection]: removed(removable) });
+      return removable.length;
+    },
+    
+    // Duplicates
+    mergeRecords: (collection, survivorId, duplicateId, choices, moveRelated) => {
+      const state = get();
+      const survivor = state[collection].find((record) => record.id === survivorId);
+      const duplicate = state[collection].find((record) => record.id === duplicateId);
+      if (!survivor || !duplicate || survivor.id === duplicate.id) {
+        throw new Error('Both records must exist to merge them');
+      }
+
+      const now = new Date();
+      const duplicateValues = duplicate as unknown as Record<string, unknown>;
+      const picked = Object.fromEntries(
+        MERGE_FIELDS[collection]
+          .filter((field) => choices[field.key] === 'duplicate')
+          .map((field) => [field.key, duplicateValues[field.key]])
+      );
+      // A lead's conversion goes with its status, so a converted status keeps its contact and deal
+      const conversion = collection === 'leads' && choices.status === 'duplicate'
+        ? {
+            convertedAt: (duplicate as Lead).convertedAt,
+            convertedContactId: (duplicate as Lead).convertedContactId,
+            convertedDealId: (duplicate as Lead).convertedDealId,
+          }
+        : {};
+      const survivorFields = Object.entries(survivor.customFields ?? {}).filter(
+        ([, value]) => value !== undefined && value !== null && value !== ''
+      );
+      const merged = {
+        ...survivor,
+        ...picked,
+        ...conversion,
+        ...(survivor.tags || duplicate.tags ? { tags: combineTags(survivor.tags, duplicate.tags) } : {}),
+        notes: combineNotes(survivor.notes, duplicate.notes),
+        ...(survivor.customFields || duplicate.customFields
+          ? { customFields: { ...duplicate.customFields, ...Object.fromEntries(survivorFields) } }
+          : {}),
+        updatedAt: now,
+      } as Contact | Lead;
+      const trashed = { ...duplicate, deletedAt: now, updatedAt: now } as Contact | Lead;
+
+      const resource = COLLECTION_RESOURCES[collection];
+      assertCan('update', resource, survivor, merged);
+      assertCan('delete', resource, duplicate);
+
+      // Everything that pointed at the duplicate
+      const type = collection === 'contacts' ? 'contact' : 'lead';
+      const moved = {
+        tasks: state.tasks
+          .filter((task) => isRelatedTo(task, type, duplicate.id))
+          .map((task) => ({ ...task, relatedTo: { type, id: survivor.id }, updatedAt: now })),
+        deals: state.deals
+          .filter((deal) => (collection === 'contacts' ? deal.contactId : deal.sourceLeadId) === duplicate.id)
+          .map((deal) => ({
+            ...deal,
+            ...(collection === 'contacts' ? { contactId: survivor.id } : { sourceLeadId: survivor.id }),
+            updatedAt: now,
+          })),
+        leads: collection === 'contacts'
+          ? state.leads
+              .filter((lead) => lead.convertedContactId === duplicate.id)
+              .map((lead) => ({ ...lead, convertedContactId: survivor.id, updatedAt: now }))
+          : [],
+        contacts: collection === 'leads'
+          ? state.contacts
+              .filter((contact) => contact.sourceLeadId === duplicate.id)
+              .map((contact) => ({ ...contact, sourceLeadId: survivor.id, updatedAt: now }))
+          : [],
+      };
+      const movedEntries = (Object.entries(moved) as [CollectionName, AnyRecord[]][]).filter(([, records]) => records.length > 0);
+
+      set((current) => {
+        const lists = Object.fromEntries(
+          movedEntries.map(([name, records]) => {
+            const byId = new Map(records.map((record) => [record.id, record]));
+            return [name, (current[name] as AnyRecord[]).map((record) => byId.get(record.id) ?? record)];
+          })
+        );
+        const list = (lists[collection] ?? current[collection]) as AnyRecord[];
+        return {
+          ...lists,
+          [collection]: list
+            .filter((record) => record.id !== duplicate.id)
+            .map((record) => (record.id === survivor.id ? merged : record)),
+          trash: { ...current.trash, [collection]: [...current.trash[collection], trashed] },
+        } as Partial<CRMState>;
+      });
+
+      sync(collection, (repository) => repository.updateMany([merged, trashed]));
+      movedEntries.forEach(([name, records]) => sync(name, (repository) => repository.updateMany(records)));
+      const changes: ChangeSet = Object.fromEntries(
+        movedEntries.map(([name, records]) => [
+          name,
+          records.map((after) => ({ before: (state[name] as AnyRecord[]).find((record) => record.id === after.id), after })),
+        ])
+      );
+      changes[collection] = [
+        ...(changes[collection] ?? []),
+        { before: survivor, after: merged },
+        { before: duplicate, after: trashed },
+      ];
+      const effects = moveRelated?.() ?? [];
+      commit(collection === 'contacts' ? 'Merge contacts' : 'Merge leads', changes, true, effects);
+    },
+
+    // Bulk changes
+    updateMany: (collection, ids, updates) => {
+      const idSet = new Set(ids);
+      const previous = (get()[collection] as AnyRecord[]).filter((record) => idSet.has(record.id));
+      const now = new Date();
+      const updated = previous.map((record) => ({
+        ...record,
+        ...updates(record as CollectionRecords[typeof collection]),
+        updatedAt: now,
+      })) as AnyRecord[];
+      assertCan('update', COLLECTION_RESOURCES[collection], ...previous, ...updated);
+      if (updated.length === 0) {
+        return 0;
+      }
+      if (collection === 'deals') {
+        assertStageRules((previous as Deal[]).map((before, index) => ({ before, after: updated[index] as Deal })));
+      }
+
+      const updatedById = new Map(updated.map((record) => [record.id, record]));
+      set((state) => ({
+        [collection]: (state[collection] as AnyRecord[]).map((record) => updatedById.get(record.id) ?? record),
+      } as Partial<CRMState>));
+      sync(collection, (repository) => repository.updateMany(updated));
+      commit(`Update ${collection}`, {
+        [collection]: previous.map((before) => ({ before, after: updatedById.get(before.id) })),
+      });
+      return updated.length;
+    },
+
+    deleteMany: (collection, ids) => {
+      const idSet = new Set(ids);
+      const targets = (get()[collection] as AnyRecord[]).filter((record) => idSet.has(record.id));
+      return moveToTrash(collection, targets, `Delete ${collection}`);
+    },
+
+    // Trash
+    restoreFromTrash: (collection, ids) => {
+      const { count, entries } = collectTrash(get().trash, collection, ids);
+      // Taking something out of the trash needs the same right as putting it there
+      entries.forEach(([name, records]) => assertCan('delete', COLLECTION_RESOURCES[name], ...records));
+
+      const now = new Date();
+      const changes: ChangeSet = {};
+      const restoredEntries = entries.map(([name, records]) => {
+        const restored = records.map((record) => {
+          const copy = { ...record, updatedAt: now };
+          delete copy.deletedAt;
+          delete copy.deletedWith;
+          return copy;
+        });
+        changes[name] = records.map((before, index) => ({ before, after: restored[index] }));
+        return [name, restored] as const;
+      });
+
+      set((current) => {
+        const trash = { ...current.trash };
+        const lists = restoredEntries.map(([name, restored]) => {
+          const ids = new Set(restored.map((record) => record.id));
+          trash[name] = (current.trash[name] as AnyRecord[]).filter((record) => !ids.has(record.id)) as never;
+          return [name, [...(current[name] as AnyRecord[]), ...restored]];
+        });
+        return { ...Object.fromEntries(lists), trash } as Partial<CRMState>;
+      });
+      restoredEntries.forEach(([name, restored]) => sync(name, (repository) => repository.updateMany(restored)));
+      commit(`Restore ${collection}`, changes);
+      return count;
+    },
+
+    purgeFromTrash: (collection, ids) => {
+      assertCan('delete', 'trash');
+      const { count, entries } = collectTrash(get().trash, collection, ids);
+      purge(entries);
+      return count;
+    },
+
+    // Runs on its own schedule rather than as a user action, so it isn't permission checked
+    purgeExpiredTrash: (retentionDays) => {
+      const cutoff = Date.now() - retentionDays * 24 * 60 * 60 * 1000;
+      const { trash } = get();
+      const entries = CRM_COLLECTIONS
+        .map((name) => [
+          name,
+          (trash[name] as AnyRecord[]).filter((record) => record.deletedAt && new Date(record.deletedAt).getTime() < cutoff),
+        ] as const)
+        .filter(([, records]) => records.length > 0);
+      purge(entries);
+      return entries.reduce((total, [, records]) => total + records.length, 0);
+    },
+
+    // Undo/redo
+    undoStack: [],
+    redoStack: [],
+
+    undo: (stepId) => {
+      const { undoStack } = get();
+      const step = stepId ? undoStack.find((candidate) => candidate.id === stepId) : undoStack[undoStack.length - 1];
+      if (!step) {
+        if (stepId) {
+          throw new HistoryConflictError('That change can no longer be undone.');
+        }
+        return null;
+      }
+      replayStep(step, 'undo');
+      set((state) => ({
+        undoStack: state.undoStack.filter((candidate) => candidate.id !== step.id),
+        redoStack: trimHistory([...state.redoStack, step]),
+      }));
+      return step;
+    },
+
+    redo: () => {
+      const { redoStack } = get();
+      const step = redoStack[redoStack.length - 1];
+      if (!step) {
+        return null;
+      }
+      replayStep(step, 'redo');
+      set((state) => ({
+        redoStack: state.redoStack.slice(0, -1),
+        undoStack: trimHistory([...state.undoStack, step]),
+      }));
+      return step;
+    },
+
+    startHistoryGroup: (label) => ({ id: crypto.randomUUID(), label, changes: {} }),
+
+    recordInGroup: (group, apply) => {
+      const outer = openGroup;
+      openGroup = group;
+      try {
+        return apply();
+      } finally {
+        openGroup = outer;
+      }
+    },
+
+    endHistoryGroup: (group) => {
+      if (stepSize(group) === 0) {
+        return null;
+      }
+      set((state) => ({ undoStack: trimHistory([...state.undoStack, group]), redoStack: [] }));
+      return group;
+    },
+
+    asSystem: (apply) => {
+      const outer = actingAsSystem;
+      actingAsSystem = true;
+      try {
+        return apply();
+      } finally {
+        actingAsSystem = outer;
+      }
+    },
+
+    clearHistory: () => {
+      set({ undoStack: [], redoStack: [] });
+    },
+    
+    // Deals
+    addDeal: (deal) => {
+      assertCan('create', 'deal', deal);
+      const newDeal: Deal = {
+        ...deal,
+        id: crypto.randomUUID(),
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      };
+      assertStageRules([{ after: newDeal }]);
+      set((state) => ({ deals: [...state.deals, newDeal] }));
+      sync<Deal>('deals', (repository) => repository.create(newDeal));
+      commit('Add deal', { deals: created([newDeal]) });
+    },
+    
+    updateDeal: (id, updates) => {
+      const existing = get().deals.find((deal) => deal.id === id);
+      // Checked against the result too, so an owner can't hand a record to someone else
+      assertCan('update', 'deal', existing, existing && { ...existing, ...updates });
+      // Moving to another stage resets the probability, unless it was set by hand
+      const changes = existing && updates.stage !== undefined && updates.stage !== existing.stage &&
+        updates.probability === undefined && !existing.probabilityOverridden
+        ? { ...updates, probability: defaultProbability(getDealStage(useSettingsStore.getState().pipelines, { ...existing, ...updates })) }
+        : updates;
+      if (existing) {
+        assertStageRules([{ before: existing, after: { ...existing, ...changes } }]);
+      }
+      set((state) => ({
+        deals: state.deals.map((deal) =>
+          deal.id === id 
+            ? { ...deal, ...changes, updatedAt: new Date() }
+            : deal
+        ),
+      }));
+      const updated = get().deals.find((deal) => deal.id === id);
+      if (updated) {
+        sync<Deal>('deals', (repository) => repository.update(updated));
+        commit('Edit deal', { deals: [{ before: existing, after: updated }] });
+      }
+    },
+    
+    deleteDeal: (id) => {
+      const existing = get().deals.find((deal) => deal.id === id);
+      assertCan('delete', 'deal', existing);
+      if (existing) {
+        moveToTrash('deals', [existing], 'Delete deal');
+      }
+    },
+    
+    // Tasks
+    addTask: (task) => {
+      assertCan('create', 'task', task);
+      const newTask: Task = {
+        ...task,
+        id: crypto.randomUUID(),
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      };
+      set((state) => ({ tasks: [...state.tasks, newTask] }));
+      sync<Task>('tasks', (repository) => repository.create(newTask));
+      commit('Add task', { tasks: created([newTask]) });
+    },
+    
+    updateTask: (id, updates) => {
+      const existing = get().tasks.find((task) => task.id === id);
+      // Checked against the result too, so an owner can't hand a record to someone else
+      assertCan('update', 'task', existing, existing && { ...existing, ...updates });
+      set((state) => ({
+        tasks: state.tasks.map((task) =>
+          task.id === id 
+            ? { ...task, ...updates, updatedAt: new Date() }
+            : task
+        ),
+      }));
+      const updated = get().tasks.find((task) => task.id === id);
+      if (updated) {
+        sync<Task>('tasks', (repository) => repository.update(updated));
+        commit('Edit task', { tasks: [{ before: existing, after: updated }] });
+      }
+    },
+    
+    deleteTask: (id) => {
+      const existing = get().tasks.find((task) => task.id === id);
+      assertCan('delete', 'task', existing);
+      if (existing) {
+        moveToTrash('tasks', [existing], 'Delete task');
+      }
+    },
+
+    addTasks: (tasks, { undoable = true } = {}) => {
+      assertCan('create', 'task', ...tasks);
+      const now = new Date();
+      const newTasks: Task[] = tasks.map((task) => ({
+        ...task,
+        id: crypto.randomUUID(),
+        createdAt: now,
+        updatedAt: now,
+      }));
+      set((state) => ({ tasks: [...state.tasks, ...newTasks] }));
+      sync<Task>('tasks', (repository) => repository.createMany(newTasks));
+      commit('Add tasks', { tasks: created(newTasks) }, undoable);
+      return newTasks;
+    },
+  })
 );
\ No newline at end of file
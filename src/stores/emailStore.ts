@@ -0,0 +1,90 @@
+import { create } from 'zustand';
+import toast from 'react-hot-toast';
+import { Entity, getRepository } from '../services/repository';
+import { getEmailTransport } from '../services/emailTransport';
+import { queryClient, crmQueryKey } from '../lib/queryClient';
+import { EMAILS_COLLECTION, EmailActivity } from '../lib/email';
+import { useAuthStore } from './authStore';
+import type { HistoryEffect } from './crmStore';
+
+export interface EmailDraft {
+  relatedTo: EmailActivity['relatedTo'];
+  to: string;
+  subject: string;
+  body: string;
+  html?: string;
+}
+
+interface EmailState {
+  emails: EmailActivity[];
+  // Replaces the list with what the repository returned
+  setEmails: (emails: Entity[]) => void;
+  // Hands the email to the transport and, once it's accepted, logs it on the record
+  sendEmail: (draft: EmailDraft) => Promise<EmailActivity>;
+  // Moves the log of a record that was merged away onto the record it was merged into, and
+  // says how to move it back for the merge's undo
+  moveEmails: (from: EmailActivity['relatedTo'], toId: string) => HistoryEffect;
+}
+
+const emailsRepository = () => getRepository().collection<EmailActivity>(EMAILS_COLLECTION);
+
+const handleSyncError = (error: Error) => {
+  toast.error(`Could not save the email log: ${error.message}`);
+  queryClient.invalidateQueries({ queryKey: crmQueryKey(EMAILS_COLLECTION) });
+};
+
+export const useEmailStore = create<EmailState>()((set, get) => ({
+  emails: [],
+
+  setEmails: (emails) => {
+    set({ emails: emails as EmailActivity[] });
+  },
+
+  sendEmail: async (draft) => {
+    const user = useAuthStore.getState().user;
+    if (!user) {
+      throw new Error('Sign in to send email.');
+    }
+    const { messageId } = await getEmailTransport().send({
+      from: { name: user.name, email: user.email },
+      to: draft.to,
+      subject: draft.subject,
+      text: draft.body,
+      html: draft.html,
+    });
+    const sent: EmailActivity = {
+      ...draft,
+      id: crypto.randomUUID(),
+      from: user.email,
+      sentBy: user.id,
+      sentByName: user.name,
+      messageId,
+      createdAt: new Date(),
+    };
+    set((state) => ({ emails: [...state.emails, sent] }));
+    emailsRepository().create(sent).catch(handleSyncError);
+    return sent;
+  },
+
+  moveEmails: (from, toId) => {
+    const movedIds = new Set(
+      get()
+        .emails.filter((email) => email.relatedTo.type === from.type && email.relatedTo.id === from.id)
+        .map((email) => email.id)
+    );
+    // Relinks the moved emails as they are now
+    const relink = (id: string) => {
+      const relinked = get()
+        .emails.filter((email) => movedIds.has(email.id))
+        .map((email) => ({ ...email, relatedTo: { type: from.type, id } }));
+      if (relinked.length === 0) {
+        return;
+      }
+      const byId = new Map(relinked.map((email) => [email.id, email]));
+      set((state) => ({ emails: state.emails.map((email) => byId.get(email.id) ?? email) }));
+      emailsRepository().updateMany(relinked).catch(handleSyncError);
+    };
+    relink(toId);
+    return { undo: () => relink(from.id), redo: () => relink(toId) };
+  },
+}));
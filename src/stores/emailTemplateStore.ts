@@ -0,0 +1,72 @@
+import { create } from 'zustand';
+import toast from 'react-hot-toast';
+import { Entity, getRepository } from '../services/repository';
+import { queryClient, crmQueryKey } from '../lib/queryClient';
+import { Action, PermissionError, can } from '../lib/permissions';
+import { EMAIL_TEMPLATES_COLLECTION, EmailTemplate, EmailTemplateInput } from '../lib/emailTemplates';
+import { useAuthStore } from './authStore';
+
+interface EmailTemplateState {
+  templates: EmailTemplate[];
+  // Replaces the library with what the repository returned
+  setTemplates: (templates: Entity[]) => void;
+  addTemplates: (inputs: EmailTemplateInput[]) => void;
+  updateTemplate: (id: string, updates: EmailTemplateInput) => void;
+  deleteTemplate: (id: string) => void;
+}
+
+const templatesRepository = () => getRepository().collection<EmailTemplate>(EMAIL_TEMPLATES_COLLECTION);
+
+const handleSyncError = (error: Error) => {
+  toast.error(`Could not save email templates: ${error.message}`);
+  queryClient.invalidateQueries({ queryKey: crmQueryKey(EMAIL_TEMPLATES_COLLECTION) });
+};
+
+const assertCan = (action: Action) => {
+  const user = useAuthStore.getState().user;
+  if (!user || !can(user, action, 'emailTemplate')) {
+    throw new PermissionError(action, 'emailTemplate');
+  }
+  return user;
+};
+
+export const useEmailTemplateStore = create<EmailTemplateState>()((set, get) => ({
+  templates: [],
+
+  setTemplates: (templates) => {
+    set({ templates: templates as EmailTemplate[] });
+  },
+
+  addTemplates: (inputs) => {
+    const user = assertCan('create');
+    const now = new Date();
+    const created = inputs.map((input) => ({
+      ...input,
+      id: crypto.randomUUID(),
+      createdBy: user.id,
+      createdAt: now,
+      updatedAt: now,
+    }));
+    set((state) => ({ templates: [...state.templates, ...created] }));
+    templatesRepository().createMany(created).catch(handleSyncError);
+  },
+
+  updateTemplate: (id, updates) => {
+    assertCan('update');
+    const existing = get().templates.find((template) => template.id === id);
+    if (!existing) {
+      return;
+    }
+    const updated = { ...existing, ...updates, updatedAt: new Date() };
+    set((state) => ({
+      templates: state.templates.map((template) => (template.id === id ? updated : template)),
+    }));
+    templatesRepository().update(updated).catch(handleSyncError);
+  },
+
+  deleteTemplate: (id) => {
+    assertCan('delete');
+    set((state) => ({ templates: state.templates.filter((template) => template.id !== id) }));
+    templatesRepository().remove(id).catch(handleSyncError);
+  },
+}));
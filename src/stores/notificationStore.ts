@@ -0,0 +1,49 @@
+import { create } from 'zustand';
+import toast from 'react-hot-toast';
+import { Entity, getRepository } from '../services/repository';
+import { queryClient, crmQueryKey } from '../lib/queryClient';
+import { NOTIFICATIONS_COLLECTION, Notification } from '../lib/notifications';
+
+interface NotificationState {
+  notifications: Notification[];
+  // Replaces the list with what the repository returned
+  setNotifications: (notifications: Entity[]) => void;
+  notify: (notification: Omit<Notification, 'id' | 'read' | 'createdAt'>) => void;
+  markRead: (ids: string[]) => void;
+}
+
+const notificationsRepository = () => getRepository().collection<Notification>(NOTIFICATIONS_COLLECTION);
+
+const handleSyncError = (error: Error) => {
+  toast.error(`Could not save notifications: ${error.message}`);
+  queryClient.invalidateQueries({ queryKey: crmQueryKey(NOTIFICATIONS_COLLECTION) });
+};
+
+export const useNotificationStore = create<NotificationState>()((set, get) => ({
+  notifications: [],
+
+  setNotifications: (notifications) => {
+    set({ notifications: notifications as Notification[] });
+  },
+
+  notify: (notification) => {
+    const created: Notification = { ...notification, id: crypto.randomUUID(), read: false, createdAt: new Date() };
+    set((state) => ({ notifications: [...state.notifications, created] }));
+    notificationsRepository().create(created).catch(handleSyncError);
+  },
+
+  markRead: (ids) => {
+    const unread = get().notifications.filter((notification) => ids.includes(notification.id) && !notification.read);
+    if (unread.length === 0) {
+      return;
+    }
+    const read = unread.map((notification) => ({ ...notification, read: true }));
+    const readIds = new Set(read.map((notification) => notification.id));
+    set((state) => ({
+      notifications: state.notifications.map((notification) =>
+        readIds.has(notification.id) ? { ...notification, read: true } : notification
+      ),
+    }));
+    notificationsRepository().updateMany(read).catch(handleSyncError);
+  },
+}));
@@ -0,0 +1,327 @@
+import { create } from 'zustand';
+import toast from 'react-hot-toast';
+import { Entity, getRepository } from '../services/repository';
+import { queryClient, crmQueryKey } from '../lib/queryClient';
+import { Action, PermissionError, can } from '../lib/permissions';
+import {
+  ENROLLMENTS_COLLECTION,
+  EnrollmentTarget,
+  NextStep,
+  PAUSING_LEAD_STATUSES,
+  SEQUENCES_COLLECTION,
+  Sequence,
+  SequenceEnrollment,
+  SequenceError,
+  SequenceInput,
+  nextStep,
+  replyStep,
+  resumeIndex,
+  stepTask,
+} from '../lib/sequences';
+import { useAuthStore } from './authStore';
+import { Contact, HistoryEffect, Lead, useCRMStore } from './crmStore';
+import { useEmailTemplateStore } from './emailTemplateStore';
+
+interface SequenceState {
+  sequences: Sequence[];
+  enrollments: SequenceEnrollment[];
+  // Replace the lists with what the repository returned
+  setSequences: (sequences: Entity[]) => void;
+  setEnrollments: (enrollments: Entity[]) => void;
+  saveSequence: (input: SequenceInput, id?: string) => void;
+  // Enrollments in the sequence are stopped; their tasks stay
+  deleteSequence: (id: string) => void;
+  // Creates the first step's task for each record; returns how many were enrolled. Records
+  // already in the sequence, and leads that are converted or lost, are skipped.
+  enroll: (sequenceId: string, targets: EnrollmentTarget[]) => number;
+  // Moves enrollments whose open task was just completed on to their next step
+  advance: (completedTaskIds: string[]) => void;
+  pause: (ids: string[], reason: string) => void;
+  // Refused for a lead that's been converted or lost, like enrolling one. If the open task was
+  // finished or deleted while paused, the next step starts now.
+  resume: (id: string) => void;
+  stop: (id: string) => void;
+  markReplied: (id: string) => void;
+  // Moves a merged-away record's enrollments onto the record it was merged into. One the
+  // survivor is already running in the same sequence is stopped rather than doubled up. Returns
+  // how to move them back for the merge's undo.
+  moveEnrollments: (from: EnrollmentTarget, toId: string) => HistoryEffect;
+}
+
+const sequencesRepository = () => getRepository().collection<Sequence>(SEQUENCES_COLLECTION);
+const enrollmentsRepository = () => getRepository().collection<SequenceEnrollment>(ENROLLMENTS_COLLECTION);
+
+const handleSyncError = (name: string) => (error: Error) => {
+  toast.error(`Could not save sequences: ${error.message}`);
+  queryClient.invalidateQueries({ queryKey: crmQueryKey(name) });
+};
+
+const assertCan = (action: Action) => {
+  const user = useAuthStore.getState().user;
+  if (!user || !can(user, action, 'sequence')) {
+    throw new PermissionError(action, 'sequence');
+  }
+  return user;
+};
+
+const findRecord = (target: EnrollmentTarget): Contact | Lead | undefined => {
+  const { contacts, leads } = useCRMStore.getState();
+  const records: (Contact | Lead)[] = target.type === 'lead' ? leads : contacts;
+  return records.find((record) => record.id === target.id && !record.deletedAt);
+};
+
+// Enrolling a record, or changing its enrollment, takes the right to edit the record
+const assertCanEdit = (target: EnrollmentTarget) => {
+  if (!can(useAuthStore.getState().user, 'update', target.type, findRecord(target))) {
+    throw new PermissionError('update', target.type);
+  }
+};
+
+// The task for the step, assigned to whoever owns the record (or, failing that, the enrolling user)
+const taskFor = (sequence: Sequence, next: NextStep, target: EnrollmentTarget, fallbackOwner: string) => {
+  const record = findRecord(target);
+  const { step } = next;
+  const template = step.type === 'email'
+    ? useEmailTemplateStore.getState().templates.find((candidate) => candidate.id === step.templateId)
+    : undefined;
+  return stepTask(sequence, next, target, record?.name ?? 'record', record?.assignedTo || fallbackOwner, template?.name);
+};
+
+export const useSequenceStore = create<SequenceState>()((set, get) => {
+  const saveEnrollments = (updated: SequenceEnrollment[]) => {
+    if (updated.length === 0) {
+      return;
+    }
+    const byId = new Map(updated.map((enrollment) => [enrollment.id, enrollment]));
+    set((state) => ({ enrollments: state.enrollments.map((enrollment) => byId.get(enrollment.id) ?? enrollment) }));
+    enrollmentsRepository().updateMany(updated).catch(handleSyncError(ENROLLMENTS_COLLECTION));
+  };
+
+  // Starts each enrollment's next step, or completes the enrollment if there's none left
+  const startNextSteps = (due: SequenceEnrollment[], ownerId: string) => {
+    const now = new Date();
+    const finished: SequenceEnrollment[] = [];
+    const moving: { enrollment: SequenceEnrollment; sequence: Sequence; next: NextStep }[] = [];
+    due.forEach((enrollment) => {
+      const sequence = get().sequences.find((candidate) => candidate.id === enrollment.sequenceId);
+      const next = sequence && nextStep(sequence, resumeIndex(sequence, enrollment), now);
+      if (sequence && next) {
+        moving.push({ enrollment, sequence, next });
+      } else {
+        finished.push({ ...enrollment, status: 'completed', updatedAt: now });
+      }
+    });
+
+    const tasks = moving.length > 0
+      ? useCRMStore.getState().addTasks(
+          moving.map(({ enrollment, sequence, next }) => taskFor(sequence, next, enrollment.relatedTo, ownerId)),
+          { undoable: false }
+        )
+      : [];
+    saveEnrollments([
+      ...finished,
+      ...moving.map(({ enrollment, next }, index) => ({
+        ...enrollment,
+        steps: [...enrollment.steps, { stepId: next.step.id, taskId: tasks[index].id }],
+        updatedAt: now,
+      })),
+    ]);
+  };
+
+  return {
+    sequences: [],
+    enrollments: [],
+
+    setSequences: (sequences) => {
+      set({ sequences: sequences as Sequence[] });
+    },
+
+    setEnrollments: (enrollments) => {
+      set({ enrollments: enrollments as SequenceEnrollment[] });
+    },
+
+    saveSequence: (input, id) => {
+      const existing = get().sequences.find((sequence) => sequence.id === id);
+      const user = assertCan(existing ? 'update' : 'create');
+      const now = new Date();
+      const saved: Sequence = existing
+        ? { ...existing, ...input, updatedAt: now }
+        : { ...input, id: crypto.randomUUID(), createdBy: user.id, createdAt: now, updatedAt: now };
+      set((state) => ({
+        sequences: existing
+          ? state.sequences.map((sequence) => (sequence.id === saved.id ? saved : sequence))
+          : [...state.sequences, saved],
+      }));
+      const repository = sequencesRepository();
+      (existing ? repository.update(saved) : repository.create(saved)).catch(handleSyncError(SEQUENCES_COLLECTION));
+    },
+
+    deleteSequence: (id) => {
+      assertCan('delete');
+      const now = new Date();
+      saveEnrollments(
+        get()
+          .enrollments.filter((enrollment) => enrollment.sequenceId === id && ['active', 'paused'].includes(enrollment.status))
+          .map((enrollment) => ({ ...enrollment, status: 'stopped', updatedAt: now }))
+      );
+      set((state) => ({ sequences: state.sequences.filter((sequence) => sequence.id !== id) }));
+      sequencesRepository().remove(id).catch(handleSyncError(SEQUENCES_COLLECTION));
+    },
+
+    enroll: (sequenceId, targets) => {
+      const user = useAuthStore.getState().user;
+      const sequence = get().sequences.find((candidate) => candidate.id === sequenceId);
+      if (!user || !sequence) {
+        return 0;
+      }
+      const now = new Date();
+      const first = nextStep(sequence, 0, now);
+      if (!first) {
+        return 0;
+      }
+      const enrolled = new Set(
+        get()
+          .enrollments.filter((enrollment) => enrollment.sequenceId === sequenceId && ['active', 'paused'].includes(enrollment.status))
+          .map((enrollment) => enrollment.relatedTo.id)
+      );
+      const eligible = targets.filter((target) => {
+        const record = findRecord(target);
+        if (!record || enrolled.has(target.id)) {
+          return false;
+        }
+        assertCanEdit(target);
+        return target.type === 'contact' || !PAUSING_LEAD_STATUSES.includes((record as Lead).status);
+      });
+      if (eligible.length === 0) {
+        return 0;
+      }
+
+      const tasks = useCRMStore.getState().addTasks(
+        eligible.map((target) => taskFor(sequence, first, target, user.id)),
+        { undoable: false }
+      );
+      const created: SequenceEnrollment[] = eligible.map((target, index) => ({
+        id: crypto.randomUUID(),
+        sequenceId,
+        relatedTo: target,
+        status: 'active',
+        steps: [{ stepId: first.step.id, taskId: tasks[index].id }],
+        enrolledBy: user.id,
+        createdAt: now,
+        updatedAt: now,
+      }));
+      set((state) => ({ enrollments: [...state.enrollments, ...created] }));
+      enrollmentsRepository().createMany(created).catch(handleSyncError(ENROLLMENTS_COLLECTION));
+      return created.length;
+    },
+
+    advance: (completedTaskIds) => {
+      const user = useAuthStore.getState().user;
+      const completed = new Set(completedTaskIds);
+      const due = get().enrollments.filter(
+        (enrollment) => enrollment.status === 'active' && completed.has(enrollment.steps[enrollment.steps.length - 1]?.taskId)
+      );
+      if (!user || due.length === 0) {
+        return;
+      }
+      startNextSteps(due, user.id);
+    },
+
+    pause: (ids, reason) => {
+      const now = new Date();
+      const paused = get().enrollments.filter((enrollment) => ids.includes(enrollment.id) && enrollment.status === 'active');
+      paused.forEach((enrollment) => assertCanEdit(enrollment.relatedTo));
+      saveEnrollments(paused.map((enrollment) => ({ ...enrollment, status: 'paused', pausedReason: reason, updatedAt: now })));
+    },
+
+    resume: (id) => {
+      const user = useAuthStore.getState().user;
+      const enrollment = get().enrollments.find((candidate) => candidate.id === id);
+      if (!user || !enrollment || enrollment.status !== 'paused') {
+        return;
+      }
+      assertCanEdit(enrollment.relatedTo);
+      const record = findRecord(enrollment.relatedTo);
+      if (!record) {
+        throw new SequenceError(`The ${enrollment.relatedTo.type} is no longer there to contact`);
+      }
+      if (enrollment.relatedTo.type === 'lead' && PAUSING_LEAD_STATUSES.includes((record as Lead).status)) {
+        throw new SequenceError(`${record.name} is ${(record as Lead).status}, so the sequence can't resume`);
+      }
+      const resumed: SequenceEnrollment = { ...enrollment, status: 'active', pausedReason: undefined, updatedAt: new Date() };
+      const openTaskId = enrollment.steps[enrollment.steps.length - 1]?.taskId;
+      const openTask = useCRMStore.getState().tasks.find((task) => task.id === openTaskId);
+      if (openTask && openTask.status !== 'completed') {
+        saveEnrollments([resumed]);
+      } else {
+        // The step's task was finished while paused, or deleted (which paused it); either way
+        // the step is over
+        startNextSteps([resumed], user.id);
+      }
+    },
+
+    stop: (id) => {
+      const enrollment = get().enrollments.find((candidate) => candidate.id === id);
+      if (enrollment && ['active', 'paused'].includes(enrollment.status)) {
+        assertCanEdit(enrollment.relatedTo);
+        saveEnrollments([{ ...enrollment, status: 'stopped', updatedAt: new Date() }]);
+      }
+    },
+
+    // A reply ends the sequence for the record
+    markReplied: (id) => {
+      const enrollment = get().enrollments.find((candidate) => candidate.id === id);
+      const sequence = get().sequences.find((candidate) => candidate.id === enrollment?.sequenceId);
+      if (enrollment && ['active', 'paused'].includes(enrollment.status)) {
+        assertCanEdit(enrollment.relatedTo);
+        saveEnrollments([
+          {
+            ...enrollment,
+            status: 'replied',
+            repliedStepId: sequence && replyStep(sequence, enrollment),
+            updatedAt: new Date(),
+          },
+        ]);
+      }
+    },
+
+    moveEnrollments: (from, toId) => {
+      const isRunning = (enrollment: SequenceEnrollment) => ['active', 'paused'].includes(enrollment.status);
+      const { enrollments } = get();
+      const running = new Set(
+        enrollments
+          .filter((enrollment) => enrollment.relatedTo.type === from.type && enrollment.relatedTo.id === toId && isRunning(enrollment))
+          .map((enrollment) => enrollment.sequenceId)
+      );
+      const moved = new Map(
+        enrollments
+          .filter((enrollment) => enrollment.relatedTo.type === from.type && enrollment.relatedTo.id === from.id)
+          .map((enrollment) => [enrollment.id, enrollment])
+      );
+      const doubled = new Set(
+        [...moved.values()]
+          .filter((enrollment) => isRunning(enrollment) && running.has(enrollment.sequenceId))
+          .map((enrollment) => enrollment.id)
+      );
+      // Relinks the moved enrollments as they are now; the doubled-up ones are stopped on the
+      // survivor and get their status back on the record they came from
+      const relink = (id: string) => {
+        const now = new Date();
+        saveEnrollments(
+          get()
+            .enrollments.filter((enrollment) => moved.has(enrollment.id))
+            .map((enrollment) => ({
+              ...enrollment,
+              relatedTo: { type: from.type, id },
+              ...(doubled.has(enrollment.id)
+                ? { status: id === toId ? ('stopped' as const) : moved.get(enrollment.id)!.status }
+                : {}),
+              updatedAt: now,
+            }))
+        );
+      };
+      relink(toId);
+      return { undo: () => relink(from.id), redo: () => relink(toId) };
+    },
+  };
+});
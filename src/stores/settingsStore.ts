@@ -0,0 +1,235 @@
+import { create } from 'zustand';
+import toast from 'react-hot-toast';
+import { Entity, getRepository } from '../services/repository';
+import { queryClient, crmQueryKey } from '../lib/queryClient';
+import { Action, PermissionError, Resource, can } from '../lib/permissions';
+import { CustomFieldDefinition } from '../lib/customFields';
+import { DEFAULT_PIPELINE, Pipeline, ProbabilityModel } from '../lib/pipelines';
+import { DEFAULT_LOSS_REASONS } from '../lib/stageRules';
+import { AutomationRule } from '../lib/automation';
+import { AssignmentSettings, DEFAULT_ASSIGNMENT } from '../lib/assignment';
+import { DEFAULT_LEAD_SCORING, LeadScoringSettings } from '../lib/leadScoring';
+import { WORKSPACE_SETTINGS_COLLECTION, WorkspaceSetting } from '../lib/workspaceSettings';
+import { useAuthStore } from './authStore';
+
+// What happens to a contact's deals and tasks when the contact is deleted
+export type ContactDeletePolicy = 'cascade' | 'restrict';
+
+interface SettingsState {
+  // Replaces the settings with what the repository returned; ones never saved keep their defaults
+  setSettings: (settings: Entity[]) => void;
+  contactDeletePolicy: ContactDeletePolicy;
+  setContactDeletePolicy: (policy: ContactDeletePolicy) => void;
+  // Days a deleted record stays in the trash before it is purged; 0 keeps it until emptied
+  trashRetentionDays: number;
+  setTrashRetentionDays: (days: number) => void;
+  // Extra fields admins define for contacts, leads and deals, in display order
+  customFields: CustomFieldDefinition[];
+  addCustomField: (field: Omit<CustomFieldDefinition, 'id'>) => void;
+  updateCustomField: (id: string, updates: Partial<Omit<CustomFieldDefinition, 'id' | 'entity' | 'type'>>) => void;
+  // Existing values stay on the records; they just stop being shown
+  removeCustomField: (id: string) => void;
+  // Deal pipelines in switcher order; the first is where new deals go by default
+  pipelines: Pipeline[];
+  // Adds the pipeline, or replaces the one with the same id
+  savePipeline: (pipeline: Pipeline) => void;
+  // Callers move the pipeline's deals elsewhere first
+  removePipeline: (id: string) => void;
+  probabilityModel: ProbabilityModel;
+  setProbabilityModel: (model: ProbabilityModel) => void;
+  // Choices offered when a deal is lost, in display order
+  lossReasons: string[];
+  setLossReasons: (reasons: string[]) => void;
+  // Workflow rules, evaluated in this order
+  automations: AutomationRule[];
+  // Adds the rule, or replaces the one with the same id
+  saveAutomation: (rule: AutomationRule) => void;
+  removeAutomation: (id: string) => void;
+  // How new leads without an owner are assigned
+  assignment: AssignmentSettings;
+  setAssignment: (updates: Partial<AssignmentSettings>) => void;
+  // Regions leads can be filed under, in display order
+  territories: string[];
+  setTerritories: (territories: string[]) => void;
+  // How leads are scored
+  leadScoring: LeadScoringSettings;
+  setLeadScoring: (updates: Partial<LeadScoringSettings>) => void;
+  // Keys of record pairs someone marked as not being duplicates
+  dismissedDuplicates: string[];
+  dismissDuplicate: (key: string) => void;
+}
+
+// Everything but the actions is shared by the whole workspace, one repository record per setting
+type WorkspaceSettings = Pick<
+  SettingsState,
+  | 'contactDeletePolicy'
+  | 'trashRetentionDays'
+  | 'customFields'
+  | 'pipelines'
+  | 'probabilityModel'
+  | 'lossReasons'
+  | 'automations'
+  | 'assignment'
+  | 'territories'
+  | 'leadScoring'
+  | 'dismissedDuplicates'
+>;
+
+const DEFAULT_SETTINGS: WorkspaceSettings = {
+  contactDeletePolicy: 'restrict',
+  trashRetentionDays: 30,
+  customFields: [],
+  pipelines: [DEFAULT_PIPELINE],
+  probabilityModel: 'stage',
+  lossReasons: DEFAULT_LOSS_REASONS,
+  automations: [],
+  assignment: DEFAULT_ASSIGNMENT,
+  territories: [],
+  leadScoring: DEFAULT_LEAD_SCORING,
+  dismissedDuplicates: [],
+};
+
+// Settings used to be kept only in this browser, under the zustand `persist` key. They seed
+// the workspace the first time its settings load empty.
+const LEGACY_STORAGE_KEY = 'crm-settings';
+
+const readLegacySettings = (): Partial<WorkspaceSettings> | null => {
+  const raw = localStorage.getItem(LEGACY_STORAGE_KEY);
+  if (!raw) {
+    return null;
+  }
+  try {
+    const { state } = JSON.parse(raw) as { state?: Record<string, unknown> };
+    return Object.fromEntries(Object.entries(state ?? {}).filter(([key]) => key in DEFAULT_SETTINGS));
+  } catch {
+    return null;
+  }
+};
+
+const settingsRepository = () => getRepository().collection<WorkspaceSetting>(WORKSPACE_SETTINGS_COLLECTION);
+
+const handleSyncError = (error: Error) => {
+  toast.error(`Could not save settings: ${error.message}`);
+  queryClient.invalidateQueries({ queryKey: crmQueryKey(WORKSPACE_SETTINGS_COLLECTION) });
+};
+
+// Settings the repository already holds are updated; the rest are created on their first save
+const storedSettings = new Set<string>();
+
+const saveSettings = (settings: Partial<WorkspaceSettings>) => {
+  const records = Object.entries(settings).map(([id, value]) => ({ id, value }));
+  const created = records.filter((record) => !storedSettings.has(record.id));
+  const updated = records.filter((record) => storedSettings.has(record.id));
+  created.forEach((record) => storedSettings.add(record.id));
+  if (created.length > 0) {
+    settingsRepository().createMany(created).catch(handleSyncError);
+  }
+  if (updated.length > 0) {
+    settingsRepository().updateMany(updated).catch(handleSyncError);
+  }
+};
+
+// Setters check permissions themselves, like the CRM store's mutators, since every change
+// is saved for the whole workspace
+const assertCan = (action: Action, resource: Resource) => {
+  if (!can(useAuthStore.getState().user, action, resource)) {
+    throw new PermissionError(action, resource);
+  }
+};
+
+export const useSettingsStore = create<SettingsState>()((set, get) => {
+  const save = (settings: Partial<WorkspaceSettings>) => {
+    set(settings);
+    saveSettings(settings);
+  };
+
+  const apply = (settings: Partial<WorkspaceSettings>) => {
+    assertCan('update', 'settings');
+    save(settings);
+  };
+
+  return {
+    ...DEFAULT_SETTINGS,
+    setSettings: (settings) => {
+      const records = settings as WorkspaceSetting[];
+      // A restored backup can drop settings, so the ids are taken afresh each time
+      storedSettings.clear();
+      records.forEach((record) => storedSettings.add(record.id));
+      // Only someone who may change the settings seeds them; otherwise the old entry waits for them
+      const legacy = records.length === 0 && can(useAuthStore.getState().user, 'update', 'settings')
+        ? readLegacySettings()
+        : null;
+      if (legacy) {
+        save(legacy);
+        localStorage.removeItem(LEGACY_STORAGE_KEY);
+        return;
+      }
+      set({
+        ...DEFAULT_SETTINGS,
+        ...Object.fromEntries(
+          records.filter((record) => record.id in DEFAULT_SETTINGS).map((record) => [record.id, record.value])
+        ),
+      });
+    },
+    setContactDeletePolicy: (policy) => {
+      apply({ contactDeletePolicy: policy });
+    },
+    setTrashRetentionDays: (days) => {
+      apply({ trashRetentionDays: days });
+    },
+    addCustomField: (field) => {
+      apply({ customFields: [...get().customFields, { ...field, id: crypto.randomUUID() }] });
+    },
+    updateCustomField: (id, updates) => {
+      apply({ customFields: get().customFields.map((field) => (field.id === id ? { ...field, ...updates } : field)) });
+    },
+    removeCustomField: (id) => {
+      apply({ customFields: get().customFields.filter((field) => field.id !== id) });
+    },
+    savePipeline: (pipeline) => {
+      const { pipelines } = get();
+      apply({
+        pipelines: pipelines.some((existing) => existing.id === pipeline.id)
+          ? pipelines.map((existing) => (existing.id === pipeline.id ? pipeline : existing))
+          : [...pipelines, pipeline],
+      });
+    },
+    removePipeline: (id) => {
+      const { pipelines } = get();
+      if (pipelines.length > 1) {
+        apply({ pipelines: pipelines.filter((pipeline) => pipeline.id !== id) });
+      }
+    },
+    setProbabilityModel: (model) => {
+      apply({ probabilityModel: model });
+    },
+    setLossReasons: (reasons) => {
+      apply({ lossReasons: reasons });
+    },
+    saveAutomation: (rule) => {
+      const { automations } = get();
+      apply({
+        automations: automations.some((existing) => existing.id === rule.id)
+          ? automations.map((existing) => (existing.id === rule.id ? rule : existing))
+          : [...automations, rule],
+      });
+    },
+    removeAutomation: (id) => {
+      apply({ automations: get().automations.filter((rule) => rule.id !== id) });
+    },
+    setAssignment: (updates) => {
+      apply({ assignment: { ...get().assignment, ...updates } });
+    },
+    setTerritories: (territories) => {
+      apply({ territories });
+    },
+    setLeadScoring: (updates) => {
+      apply({ leadScoring: { ...get().leadScoring, ...updates } });
+    },
+    dismissDuplicate: (key) => {
+      // Part of reviewing the duplicate queue rather than configuring the workspace
+      assertCan('view', 'duplicates');
+      save({ dismissedDuplicates: [...new Set([...get().dismissedDuplicates, key])] });
+    },
+  };
+});
@@ -1 +1,12 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_CRM_BACKEND?: 'local' | 'rest';
+  readonly VITE_CRM_API_URL?: string;
+  readonly VITE_CRM_EMAIL_TRANSPORT?: 'local' | 'smtp';
+  readonly VITE_CRM_SMTP_RELAY_URL?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}